@@ -13,10 +13,16 @@ function App() {
   const [headerCollapsed, setHeaderCollapsed] = useState(false)
 
   useEffect(() => {
-    // Initialize IndexedDB on app load
-    dbService.init().catch((error) => {
-      devError('Failed to initialize database:', error)
-    })
+    // Initialize IndexedDB on app load, then clean up references to deleted routes and waypoints
+    // and continue offline map downloads that were interrupted
+    dbService.init()
+      .then(() => import('./services/routeService'))
+      .then(({ routeService }) => routeService.repairReferences())
+      .then(() => import('./services/downloadQueueService'))
+      .then(({ downloadQueueService }) => downloadQueueService.resumeDownloads())
+      .catch((error) => {
+        devError('Failed to initialize database:', error)
+      })
   }, [])
 
   const handleHeaderClick = () => {
@@ -1,6 +1,8 @@
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import type { LngLatBounds } from 'maplibre-gl'
-import { offlineMapService, type DownloadArea, type DownloadProgress } from '../services/offlineMapService'
+import { offlineMapService, type DownloadArea } from '../services/offlineMapService'
+import { downloadQueueService } from '../services/downloadQueueService'
+import { useDownloadQueue } from '../hooks/useDownloadQueue'
 import { devError } from '../constants'
 import '../styles/DownloadControl.css'
 
@@ -18,8 +20,20 @@ const DownloadControl = ({
   onCancelSelection
 }: DownloadControlProps) => {
   const [isSelecting, setIsSelecting] = useState(false)
-  const [isDownloading, setIsDownloading] = useState(false)
-  const [progress, setProgress] = useState<DownloadProgress | null>(null)
+  const [downloadId, setDownloadId] = useState<string | null>(null)
+  const jobs = useDownloadQueue()
+  const job = jobs.find(j => j.id === downloadId)
+
+  const isQueued = job !== undefined
+
+  // The job leaves the queue when it finishes or is cancelled
+  useEffect(() => {
+    if (downloadId && !isQueued) {
+      setDownloadId(null)
+      onCancelSelection()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [downloadId, isQueued])
 
   const handleStartSelection = () => {
     setIsSelecting(true)
@@ -58,32 +72,20 @@ const DownloadControl = ({
       }
     }
 
-    setIsDownloading(true)
     setIsSelecting(false)
 
     try {
-      await offlineMapService.downloadArea(area, (p) => {
-        setProgress(p)
-      })
-
-      // Download complete
-      setTimeout(() => {
-        setIsDownloading(false)
-        setProgress(null)
-        onCancelSelection()
-      }, 1500)
+      await downloadQueueService.enqueue(area)
+      setDownloadId(area.id)
     } catch (error) {
       devError('Download error:', error)
-      setIsDownloading(false)
-      setProgress(null)
       alert('Nedlasting feilet')
     }
   }
 
   const handleCancel = () => {
     setIsSelecting(false)
-    setIsDownloading(false)
-    setProgress(null)
+    setDownloadId(null)
     onCancelSelection()
   }
 
@@ -113,11 +115,14 @@ const DownloadControl = ({
     return { tileCount, sizeMB }
   }
 
-  if (isDownloading && progress) {
+  if (job) {
+    const { progress } = job
     return (
       <div className="download-progress-panel">
         <div className="progress-info">
-          <span className="progress-text">Laster ned {progress.percentage}%</span>
+          <span className="progress-text">
+            {job.status === 'waiting' ? 'Venter på nett' : job.status === 'paused' ? 'Pauset' : 'Laster ned'} {progress.percentage}%
+          </span>
           <span className="progress-subtext">
             {progress.downloadedTiles} / {progress.totalTiles} fliser
           </span>
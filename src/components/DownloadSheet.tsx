@@ -1,7 +1,13 @@
 import { useState, useEffect, useRef } from 'react'
 import type { LngLatBounds } from 'maplibre-gl'
 import Sheet from './Sheet'
-import { offlineMapService, type DownloadArea, type DownloadProgress } from '../services/offlineMapService'
+import { offlineMapService, type DownloadArea } from '../services/offlineMapService'
+import { downloadQueueService, type DownloadJob, type DownloadJobStatus } from '../services/downloadQueueService'
+import { tileArchiveService, type TileArchive, type TileArchiveFormat } from '../services/tileArchiveService'
+import { routeService, type Route } from '../services/routeService'
+import { useDownloadQueue } from '../hooks/useDownloadQueue'
+import { downloadBlob } from '../utils/download'
+import { getShapeBounds, type AreaShape } from '../utils/tiles'
 import { devError, type BaseLayerType } from '../constants'
 import '../styles/DownloadSheet.css'
 
@@ -9,54 +15,80 @@ interface DownloadSheetProps {
   isOpen: boolean
   onClose: () => void
   bounds: LngLatBounds | null
+  shape: AreaShape | null // Route corridor or drawn polygon, instead of the bounds
   zoom: number
   isSelecting: boolean
   onStartSelection: () => void
+  onStartDrawing: () => void
+  onSelectShape: (shape: AreaShape) => void
   onCancelSelection: () => void
   onNavigateToArea: (bounds: { north: number; south: number; east: number; west: number }) => void
 }
 
-type ViewMode = 'list' | 'configure' | 'downloading' | 'complete'
+type ViewMode = 'list' | 'configure' | 'route' | 'import'
+
+const JOB_STATUS_LABELS: Record<DownloadJobStatus, string> = {
+  queued: 'I kø',
+  downloading: 'Laster ned',
+  paused: 'Pauset',
+  waiting: 'Venter på nett'
+}
+
+// Corridor width on each side of the route
+const BUFFER_OPTIONS: Array<{ meters: number; label: string }> = [
+  { meters: 250, label: '250 m' },
+  { meters: 500, label: '500 m' },
+  { meters: 1000, label: '1 km' },
+  { meters: 2000, label: '2 km' }
+]
+
+// A whole route fits on screen at a low zoom; default to trail detail instead
+const CORRIDOR_ZOOM_LEVELS = { min: 8, max: 16 }
+
+const LAYER_OPTIONS: Array<{ id: BaseLayerType; label: string; icon: string }> = [
+  { id: 'topo', label: 'Topografisk', icon: 'terrain' },
+  { id: 'grayscale', label: 'Gråtone', icon: 'filter_b_and_w' },
+  { id: 'satellite', label: 'Satellitt', icon: 'satellite_alt' }
+]
 
 const DownloadSheet = ({
   isOpen,
   onClose,
   bounds,
+  shape,
   zoom,
   isSelecting,
   onStartSelection,
+  onStartDrawing,
+  onSelectShape,
   onCancelSelection,
   onNavigateToArea
 }: DownloadSheetProps) => {
   const [viewMode, setViewMode] = useState<ViewMode>('list')
-  const [isDownloading, setIsDownloading] = useState(false)
-  const [progress, setProgress] = useState<DownloadProgress | null>(null)
   const [areaName, setAreaName] = useState('')
   const [minZoom, setMinZoom] = useState(Math.max(3, zoom - 2))
   const [maxZoom, setMaxZoom] = useState(Math.min(18, zoom + 2))
   const [baseLayer, setBaseLayer] = useState<BaseLayerType>('topo')
+  const [includeTrails, setIncludeTrails] = useState(false)
   const [downloadedAreas, setDownloadedAreas] = useState<DownloadArea[]>([])
-
-  // Track if component is mounted to prevent state updates after unmount
-  const mountedRef = useRef(true)
-  const timeoutRef = useRef<number | undefined>(undefined)
-
-  useEffect(() => {
-    return () => {
-      mountedRef.current = false
-      // Clear any pending timeouts on unmount
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current)
-      }
-    }
-  }, [])
-
-  // Load downloaded areas when sheet opens
+  const [routes, setRoutes] = useState<Route[]>([])
+  const [corridorRouteId, setCorridorRouteId] = useState<string | null>(null)
+  const [corridorBuffer, setCorridorBuffer] = useState(1000)
+  const [exportAreaId, setExportAreaId] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [importArchive, setImportArchive] = useState<TileArchive | null>(null)
+  const [importName, setImportName] = useState('')
+  const [importLayer, setImportLayer] = useState<BaseLayerType>('topo')
+  const [importProgress, setImportProgress] = useState<number | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const jobs = useDownloadQueue()
+
+  // Load downloaded areas when sheet opens, and when a queued download finishes
   useEffect(() => {
     if (isOpen && viewMode === 'list') {
       loadDownloadedAreas()
     }
-  }, [isOpen, viewMode])
+  }, [isOpen, viewMode, jobs.length])
 
   // When bounds are set (after clicking "Neste"), switch to configure view
   useEffect(() => {
@@ -69,11 +101,23 @@ const DownloadSheet = ({
     }
   }, [bounds, isSelecting, isOpen, viewMode, zoom])
 
+  // Drawn polygon finished on the map
+  useEffect(() => {
+    if (shape && isOpen && viewMode === 'list') {
+      setViewMode('configure')
+      setAreaName(`Område ${new Date().toLocaleDateString('nb-NO')}`)
+      setMinZoom(Math.max(3, zoom - 2))
+      setMaxZoom(Math.min(18, zoom + 2))
+    }
+  }, [shape, isOpen, viewMode, zoom])
+
   // Reset to list view when sheet closes
   useEffect(() => {
-    if (!isOpen && viewMode !== 'downloading') {
+    if (!isOpen) {
       setViewMode('list')
       setAreaName('')
+      setExportAreaId(null)
+      setImportArchive(null)
     }
   }, [isOpen, viewMode])
 
@@ -91,27 +135,77 @@ const DownloadSheet = ({
     onClose() // Close sheet while selecting on map
   }
 
-  const handleConfirmDownload = async () => {
-    if (!bounds || !areaName.trim()) return
+  const handleStartDrawing = () => {
+    onStartDrawing()
+    onClose() // Close sheet while drawing on map
+  }
 
-    const area: DownloadArea = {
-      id: `area-${Date.now()}`,
-      name: areaName.trim(),
-      bounds: {
+  const handleStartRouteSelection = async () => {
+    try {
+      const allRoutes = await routeService.getAllRoutes()
+      const usable = allRoutes
+        .filter(route => route.coordinates.length > 0)
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+      if (usable.length === 0) {
+        alert('Du har ingen lagrede ruter')
+        return
+      }
+      setRoutes(usable)
+      setCorridorRouteId(usable[0].id)
+      setViewMode('route')
+    } catch (error) {
+      devError('Failed to load routes:', error)
+      alert('Kunne ikke laste rutene')
+    }
+  }
+
+  const handleConfirmRoute = () => {
+    const route = routes.find(r => r.id === corridorRouteId)
+    if (!route) return
+
+    onSelectShape({
+      type: 'corridor',
+      line: route.coordinates.map(coord => [coord[0], coord[1]] as [number, number]),
+      buffer: corridorBuffer
+    })
+    setAreaName(route.name)
+    setMinZoom(CORRIDOR_ZOOM_LEVELS.min)
+    setMaxZoom(CORRIDOR_ZOOM_LEVELS.max)
+    setViewMode('configure')
+  }
+
+  // The area to download from the current selection and settings
+  const buildArea = (id: string, name: string): DownloadArea | null => {
+    const areaBounds = shape
+      ? getShapeBounds(shape)
+      : bounds && {
         north: bounds.getNorth(),
         south: bounds.getSouth(),
         east: bounds.getEast(),
         west: bounds.getWest()
-      },
+      }
+    if (!areaBounds) return null
+
+    return {
+      id,
+      name,
+      bounds: areaBounds,
       zoomLevels: {
         min: minZoom,
         max: maxZoom
       },
-      baseLayer
+      baseLayer,
+      ...(shape && { shape }),
+      ...(includeTrails && { includeTrails })
     }
+  }
 
-    const tileCount = offlineMapService.calculateTileCount(area)
-    const sizeMB = Math.round((tileCount * 15) / 1024)
+  const handleConfirmDownload = async () => {
+    const area = buildArea(`area-${Date.now()}`, areaName.trim())
+    if (!area || !areaName.trim()) return
+
+    const { tileCount, estimatedSize } = offlineMapService.estimateDownload(area)
+    const sizeMB = Math.round(estimatedSize / (1024 * 1024))
 
     // Warn if large download
     if (tileCount > 1000) {
@@ -121,35 +215,28 @@ const DownloadSheet = ({
       if (!confirmed) return
     }
 
-    setIsDownloading(true)
-    setViewMode('downloading')
-
     try {
-      await offlineMapService.downloadArea(area, (p) => {
-        setProgress(p)
-      })
-
-      // Download complete
-      setIsDownloading(false)
-      setViewMode('complete')
-
-      // Wait to clear selection until after showing success and transitioning back
-      timeoutRef.current = window.setTimeout(() => {
-        if (mountedRef.current) {
-          setViewMode('list')
-          setProgress(null)
-          loadDownloadedAreas()
-          // Clear selection AFTER transitioning back to list
-          onCancelSelection()
-        }
-      }, 2000)
+      // Downloads in the background; progress shows in the list
+      await downloadQueueService.enqueue(area)
     } catch (error) {
       devError('Download error:', error)
-      setIsDownloading(false)
-      setViewMode('list')
-      setProgress(null)
       alert('Nedlasting feilet')
-      onCancelSelection()
+    }
+    setViewMode('list')
+    onCancelSelection()
+  }
+
+  const handleCancelJob = async (job: DownloadJob) => {
+    const confirmed = window.confirm(job.areaSaved
+      ? `Slutte å prøve på nytt for "${job.area.name}"? Området beholdes uten kartflisene som feilet.`
+      : `Avbryte nedlastingen av "${job.area.name}"? Kartfliser som er lastet ned slettes.`)
+    if (!confirmed) return
+
+    try {
+      await downloadQueueService.cancel(job.id)
+    } catch (error) {
+      devError('Failed to cancel download:', error)
+      alert('Kunne ikke avbryte nedlastingen')
     }
   }
 
@@ -158,14 +245,77 @@ const DownloadSheet = ({
     if (!confirmed) return
 
     try {
-      await offlineMapService.deleteArea(areaId)
+      const reclaimed = await offlineMapService.deleteArea(areaId)
       await loadDownloadedAreas()
+      if (reclaimed.tiles > 0) {
+        const sizeMB = (reclaimed.bytes / (1024 * 1024)).toFixed(1)
+        alert(`Området er slettet. ${reclaimed.tiles} kartfliser fjernet, ${sizeMB} MB frigjort.`)
+      }
     } catch (error) {
       devError('Failed to delete area:', error)
       alert('Kunne ikke slette området')
     }
   }
 
+  const handleExportArea = async (area: DownloadArea, format: TileArchiveFormat) => {
+    setIsExporting(true)
+    try {
+      const blob = await tileArchiveService.exportArea(area, format)
+      downloadBlob(blob, area.name, format)
+      setExportAreaId(null)
+    } catch (error) {
+      devError('Failed to export area:', error)
+      alert('Kunne ikke eksportere området')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleImportFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow selecting the same file again
+    if (!file) return
+
+    try {
+      const archive = await tileArchiveService.readArchive(file)
+      const layer = LAYER_OPTIONS.find(option => tileArchiveService.supportsLayer(archive, option.id))
+      if (!layer) {
+        alert('Kartpakken inneholder ikke kartfliser som kan brukes i Tråkke')
+        return
+      }
+      setImportArchive(archive)
+      setImportName(archive.name)
+      setImportLayer(layer.id)
+      setViewMode('import')
+    } catch (error) {
+      devError('Failed to read map package:', error)
+      alert('Kunne ikke lese filen. Kontroller at det er en gyldig MBTiles- eller PMTiles-fil med rasterkart.')
+    }
+  }
+
+  const handleConfirmImport = async () => {
+    if (!importArchive || !importName.trim()) return
+
+    setImportProgress(0)
+    try {
+      const result = await tileArchiveService.importArchive(
+        importArchive,
+        { name: importName.trim(), baseLayer: importLayer },
+        (processed, total) => setImportProgress(Math.round((processed / total) * 100))
+      )
+      if (result.skippedTiles > 0) {
+        alert(`${result.importedTiles} kartfliser importert. ${result.skippedTiles} fliser utenfor området eller i feil format ble hoppet over.`)
+      }
+      setImportArchive(null)
+      setViewMode('list')
+    } catch (error) {
+      devError('Failed to import map package:', error)
+      alert('Import av kartpakken feilet')
+    } finally {
+      setImportProgress(null)
+    }
+  }
+
   const handleNavigateToArea = (area: DownloadArea) => {
     onNavigateToArea(area.bounds)
   }
@@ -174,43 +324,40 @@ const DownloadSheet = ({
     if (viewMode === 'configure') {
       setViewMode('list')
       onCancelSelection()
+    } else if (viewMode === 'route') {
+      setViewMode('list')
+    } else if (viewMode === 'import') {
+      setViewMode('list')
+      setImportArchive(null)
     }
   }
 
   const handleClose = () => {
-    if (!isDownloading) {
-      setViewMode('list')
-      onCancelSelection()
-      onClose()
-    }
+    setViewMode('list')
+    onCancelSelection()
+    onClose()
   }
 
   // Calculate estimated size for current configuration
+  // Exact for corridors and polygons too: only the tiles touching the shape are counted
   const getEstimatedInfo = () => {
-    if (!bounds) return null
+    const area = buildArea('temp', '')
+    if (!area) return null
 
-    const area: DownloadArea = {
-      id: 'temp',
-      name: '',
-      bounds: {
-        north: bounds.getNorth(),
-        south: bounds.getSouth(),
-        east: bounds.getEast(),
-        west: bounds.getWest()
-      },
-      zoomLevels: {
-        min: minZoom,
-        max: maxZoom
-      },
-      baseLayer
-    }
-
-    const tileCount = offlineMapService.calculateTileCount(area)
-    const sizeMB = Math.round((tileCount * 15) / 1024)
+    const { tileCount, estimatedSize } = offlineMapService.estimateDownload(area)
+    const sizeMB = Math.round(estimatedSize / (1024 * 1024))
 
     return { tileCount, sizeMB }
   }
 
+  const getShapeLabel = () => {
+    if (shape?.type === 'corridor') {
+      const buffer = BUFFER_OPTIONS.find(option => option.meters === shape.buffer)?.label ?? `${shape.buffer} m`
+      return `Langs rute, ${buffer} hver vei · `
+    }
+    return shape?.type === 'polygon' ? 'Tegnet område · ' : ''
+  }
+
   const formatAreaSize = (bounds: { north: number; south: number; east: number; west: number }) => {
     // Convert degrees to approximate kilometers
     // At Norway's latitude (~60°N), 1° longitude ≈ 55 km, 1° latitude ≈ 111 km
@@ -240,31 +387,121 @@ const DownloadSheet = ({
       </button>
       <div className="download-sheet">
         <div className="download-sheet-content">
-          {viewMode === 'downloading' ? (
-            // Download in progress
-            <div className="download-progress">
-              <div className="progress-info">
-                <span className="progress-text">
-                  Laster ned {progress?.percentage ?? 0}%
-                </span>
-                <span className="progress-subtext">
-                  {progress?.downloadedTiles ?? 0} / {progress?.totalTiles ?? 0} fliser
-                </span>
-              </div>
-              <div className="progress-bar">
-                <div
-                  className="progress-fill"
-                  style={{ width: `${progress?.percentage ?? 0}%` }}
+          {viewMode === 'import' && importArchive ? (
+            // Review an MBTiles/PMTiles file before storing its tiles as an offline area
+            <div className="download-configure">
+              <div className="configure-section">
+                <label htmlFor="import-area-name">Områdenavn</label>
+                <input
+                  id="import-area-name"
+                  type="text"
+                  className="area-name-input"
+                  value={importName}
+                  onChange={(e) => setImportName(e.target.value)}
+                  placeholder="Navn på området"
+                  disabled={importProgress !== null}
                 />
               </div>
+
+              <div className="configure-section">
+                <label>Kartlag</label>
+                <div className="base-layer-selector">
+                  {LAYER_OPTIONS.map((option) => (
+                    <button
+                      key={option.id}
+                      className={`base-layer-option ${importLayer === option.id ? 'active' : ''}`}
+                      onClick={() => setImportLayer(option.id)}
+                      disabled={importProgress !== null || !tileArchiveService.supportsLayer(importArchive, option.id)}
+                    >
+                      <span className="material-symbols-outlined">{option.icon}</span>
+                      <span>{option.label}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {importProgress !== null ? (
+                <div className="download-progress">
+                  <span className="progress-subtext">Importerer … {importProgress} %</span>
+                  <div className="progress-bar">
+                    <div className="progress-fill" style={{ width: `${importProgress}%` }} />
+                  </div>
+                </div>
+              ) : (
+                <div className="download-estimate">
+                  <span className="estimate-text">
+                    {importArchive.format === 'mbtiles' ? 'MBTiles' : 'PMTiles'} · {importArchive.tileCount} fliser · Zoom {importArchive.zoomLevels.min}-{importArchive.zoomLevels.max} · {formatAreaSize(importArchive.bounds)}
+                  </span>
+                </div>
+              )}
+
+              <div className="download-actions">
+                <button
+                  className="trk-btn trk-btn--md trk-btn--secondary"
+                  onClick={handleCancel}
+                  disabled={importProgress !== null}
+                >
+                  Avbryt
+                </button>
+                <button
+                  className="trk-btn trk-btn--md trk-btn--primary"
+                  onClick={handleConfirmImport}
+                  disabled={!importName.trim() || importProgress !== null}
+                >
+                  Importer
+                </button>
+              </div>
             </div>
-          ) : viewMode === 'complete' ? (
-            // Download complete
-            <div className="download-complete">
-              <span className="material-symbols-outlined success-icon">check_circle</span>
-              <span className="success-text">Nedlasting fullført!</span>
+          ) : viewMode === 'route' ? (
+            // Corridor along a saved route
+            <div className="download-configure">
+              <div className="configure-section">
+                <label>Rute</label>
+                <div className="download-route-list">
+                  {routes.map((route) => (
+                    <button
+                      key={route.id}
+                      className={`download-route-option ${corridorRouteId === route.id ? 'active' : ''}`}
+                      onClick={() => setCorridorRouteId(route.id)}
+                    >
+                      <span className="download-route-name">{route.name}</span>
+                      {route.distance !== undefined && (
+                        <span className="download-route-distance">{(route.distance / 1000).toFixed(1)} km</span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="configure-section">
+                <label>Bredde på hver side av ruten</label>
+                <div className="download-buffer-options">
+                  {BUFFER_OPTIONS.map((option) => (
+                    <button
+                      key={option.meters}
+                      className={`base-layer-option ${corridorBuffer === option.meters ? 'active' : ''}`}
+                      onClick={() => setCorridorBuffer(option.meters)}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="download-actions">
+                <button className="trk-btn trk-btn--md trk-btn--secondary" onClick={handleCancel}>
+                  Avbryt
+                </button>
+                <button
+                  className="trk-btn trk-btn--md trk-btn--primary"
+                  onClick={handleConfirmRoute}
+                  disabled={!corridorRouteId}
+                >
+                  Neste
+                </button>
+              </div>
             </div>
-          ) : viewMode === 'configure' && bounds ? (
+          ) : viewMode === 'configure' && (shape || bounds) ? (
             // Configure download (after "Neste" clicked)
             <div className="download-configure">
               <div className="configure-section">
@@ -335,9 +572,18 @@ const DownloadSheet = ({
                 </div>
               </div>
 
+              <label className="download-option">
+                <input
+                  type="checkbox"
+                  checked={includeTrails}
+                  onChange={(e) => setIncludeTrails(e.target.checked)}
+                />
+                <span>Last ned stier for rutetegning uten nett (små områder)</span>
+              </label>
+
               <div className="download-estimate">
                 <span className="estimate-text">
-                  {getEstimatedInfo()?.tileCount} fliser · ~{getEstimatedInfo()?.sizeMB} MB
+                  {getShapeLabel()}{getEstimatedInfo()?.tileCount} fliser · ~{getEstimatedInfo()?.sizeMB} MB
                 </span>
               </div>
 
@@ -357,20 +603,79 @@ const DownloadSheet = ({
           ) : (
             // List view - show downloaded areas or "Velg område" button
             <div className="download-list">
-              {downloadedAreas.length > 0 ? (
-                <>
-                  <div className="downloaded-areas">
-                    {downloadedAreas.map((area) => (
-                      <div key={area.id} className="area-item">
+              {jobs.length > 0 && (
+                // Queued downloads; they continue in the background and after restarts
+                <div className="download-jobs">
+                  {jobs.map((job) => (
+                    <div key={job.id} className="download-progress">
+                      <div className="download-job-header">
+                        <div className="progress-info">
+                          <span className="download-job-name">{job.area.name}</span>
+                          <span className="progress-subtext">
+                            {JOB_STATUS_LABELS[job.status]} · {job.progress.downloadedTiles} / {job.progress.totalTiles} fliser
+                            {job.progress.failedTiles > 0 && ` · ${job.progress.failedTiles} feilet`}
+                          </span>
+                        </div>
+                        {job.status === 'paused' || job.status === 'waiting' ? (
+                          <button
+                            className="download-job-button"
+                            onClick={() => downloadQueueService.resume(job.id)}
+                            aria-label="Fortsett"
+                          >
+                            <span className="material-symbols-outlined">play_arrow</span>
+                          </button>
+                        ) : (
+                          <button
+                            className="download-job-button"
+                            onClick={() => downloadQueueService.pause(job.id)}
+                            aria-label="Pause"
+                          >
+                            <span className="material-symbols-outlined">pause</span>
+                          </button>
+                        )}
+                        <button
+                          className="download-job-button cancel"
+                          onClick={() => handleCancelJob(job)}
+                          aria-label="Avbryt"
+                        >
+                          <span className="material-symbols-outlined">close</span>
+                        </button>
+                      </div>
+                      <div className="progress-bar">
+                        <div
+                          className="progress-fill"
+                          style={{ width: `${job.progress.percentage}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {downloadedAreas.length > 0 && (
+                <div className="downloaded-areas">
+                  {downloadedAreas.map((area) => (
+                    <div key={area.id} className="area-entry">
+                      <div className="area-item">
                         <div
                           className="area-info"
                           onClick={() => handleNavigateToArea(area)}
                         >
                           <span className="area-name">{area.name}</span>
                           <span className="area-details">
-                            {formatAreaSize(area.bounds)} · Zoom {area.zoomLevels.min}-{area.zoomLevels.max} · {area.baseLayer === 'grayscale' ? 'Gråtone' : 'Topografisk'}
+                            {formatAreaSize(area.bounds)} · Zoom {area.zoomLevels.min}-{area.zoomLevels.max} · {LAYER_OPTIONS.find(option => option.id === area.baseLayer)?.label}
                           </span>
                         </div>
+                        <button
+                          className={`area-export-button ${exportAreaId === area.id ? 'active' : ''}`}
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            setExportAreaId(exportAreaId === area.id ? null : area.id)
+                          }}
+                          aria-label="Eksporter"
+                          aria-expanded={exportAreaId === area.id}
+                        >
+                          <span className="material-symbols-outlined">ios_share</span>
+                        </button>
                         <button
                           className="area-delete-button"
                           onClick={(e) => {
@@ -382,20 +687,63 @@ const DownloadSheet = ({
                           <span className="material-symbols-outlined">delete</span>
                         </button>
                       </div>
-                    ))}
-                  </div>
-                  <button className="trk-btn trk-btn--md trk-btn--primary trk-btn--full-width" onClick={handleStartSelection}>
-                    Last ned nytt område
-                  </button>
-                </>
-              ) : (
+                      {exportAreaId === area.id && (
+                        <div className="area-export-options">
+                          <button
+                            className="trk-btn trk-btn--sm trk-btn--secondary"
+                            onClick={() => handleExportArea(area, 'mbtiles')}
+                            disabled={isExporting}
+                          >
+                            Eksporter MBTiles
+                          </button>
+                          <button
+                            className="trk-btn trk-btn--sm trk-btn--secondary"
+                            onClick={() => handleExportArea(area, 'pmtiles')}
+                            disabled={isExporting}
+                          >
+                            Eksporter PMTiles
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {downloadedAreas.length === 0 && jobs.length === 0 && (
                 <div className="download-initial">
                   <p className="empty-message">Ingen nedlastede områder</p>
-                  <button className="trk-btn trk-btn--md trk-btn--primary trk-btn--full-width" onClick={handleStartSelection}>
-                    Velg område
-                  </button>
                 </div>
               )}
+              <div className="configure-section">
+                <label>Last ned nytt område</label>
+                <div className="base-layer-selector">
+                  <button className="base-layer-option" onClick={handleStartSelection}>
+                    <span className="material-symbols-outlined">crop_free</span>
+                    <span>Rektangel</span>
+                  </button>
+                  <button className="base-layer-option" onClick={handleStartRouteSelection}>
+                    <span className="material-symbols-outlined">route</span>
+                    <span>Langs rute</span>
+                  </button>
+                  <button className="base-layer-option" onClick={handleStartDrawing}>
+                    <span className="material-symbols-outlined">pentagon</span>
+                    <span>Tegn område</span>
+                  </button>
+                </div>
+              </div>
+              <button
+                className="trk-btn trk-btn--md trk-btn--secondary trk-btn--full-width"
+                onClick={() => importInputRef.current?.click()}
+              >
+                Importer kartpakke
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".mbtiles,.pmtiles"
+                onChange={handleImportFileSelected}
+                style={{ display: 'none' }}
+              />
             </div>
           )}
         </div>
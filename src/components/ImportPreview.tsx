@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import type { ImportedCollection } from '../utils/importedData'
+
+export interface ImportSelection {
+  routeIndexes: number[] // Indexes into ImportedCollection.routes
+  waypointIndexes: number[] // Indexes into ImportedCollection.waypoints
+  projectName: string | null // Put everything into a new project with this name
+  foldersAsProjects: boolean // Create one project per folder in the file
+}
+
+interface ImportPreviewProps {
+  collection: ImportedCollection
+  fileName: string
+  isSaving: boolean
+  onConfirm: (selection: ImportSelection) => void
+  onCancel: () => void
+}
+
+const formatDistance = (meters: number) => {
+  if (meters < 1000) return `${Math.round(meters)} m`
+  return `${(meters / 1000).toFixed(1)} km`
+}
+
+const toggleIndex = (set: Set<number>, index: number): Set<number> => {
+  const next = new Set(set)
+  if (next.has(index)) {
+    next.delete(index)
+  } else {
+    next.add(index)
+  }
+  return next
+}
+
+// Preview of an import file where the user picks which items to save
+const ImportPreview = ({ collection, fileName, isSaving, onConfirm, onCancel }: ImportPreviewProps) => {
+  const [selectedRoutes, setSelectedRoutes] = useState<Set<number>>(
+    () => new Set(collection.routes.map((_, i) => i))
+  )
+  const [selectedWaypoints, setSelectedWaypoints] = useState<Set<number>>(
+    () => new Set(collection.waypoints.map((_, i) => i))
+  )
+  const [createProject, setCreateProject] = useState(false)
+  const [foldersAsProjects, setFoldersAsProjects] = useState(true)
+  const [projectName, setProjectName] = useState(
+    () => collection.name || fileName.replace(/\.[^.]+$/, '')
+  )
+
+  const selectedCount = selectedRoutes.size + selectedWaypoints.size
+
+  const handleConfirm = () => {
+    onConfirm({
+      routeIndexes: Array.from(selectedRoutes).sort((a, b) => a - b),
+      waypointIndexes: Array.from(selectedWaypoints).sort((a, b) => a - b),
+      projectName: createProject ? projectName : null,
+      foldersAsProjects: foldersAsProjects && (collection.folders?.length ?? 0) > 0
+    })
+  }
+
+  return (
+    <div className="route-sheet">
+      <div className="route-sheet-content">
+        <section className="route-section">
+          <h3>Importer fra {fileName}</h3>
+          {collection.routes.length === 0 && collection.waypoints.length === 0 && (
+            <p className="route-empty-state">Fant ingen ruter eller punkter i filen.</p>
+          )}
+        </section>
+
+        {collection.routes.length > 0 && (
+          <section className="route-section">
+            <h3>Ruter og spor ({selectedRoutes.size}/{collection.routes.length})</h3>
+            <div className="route-list">
+              {collection.routes.map((route, i) => (
+                <label key={i} className="route-item import-item">
+                  <input
+                    type="checkbox"
+                    checked={selectedRoutes.has(i)}
+                    onChange={() => setSelectedRoutes(prev => toggleIndex(prev, i))}
+                  />
+                  <div className="route-item-icon">
+                    <span className="material-symbols-outlined">
+                      {route.source === 'track' ? 'timeline' : 'route'}
+                    </span>
+                  </div>
+                  <div className="route-item-content">
+                    <div className="route-item-name">{route.name}</div>
+                    <div className="route-item-meta">
+                      {formatDistance(route.distance)} • {route.coordinates.length} punkter
+                      {route.segmentCount > 1 && ` • ${route.segmentCount} segmenter`}
+                      {route.timestamps && ' • med tid'}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {collection.waypoints.length > 0 && (
+          <section className="route-section">
+            <h3>Punkter ({selectedWaypoints.size}/{collection.waypoints.length})</h3>
+            <div className="route-list">
+              {collection.waypoints.map((waypoint, i) => (
+                <label key={i} className="route-item import-item">
+                  <input
+                    type="checkbox"
+                    checked={selectedWaypoints.has(i)}
+                    onChange={() => setSelectedWaypoints(prev => toggleIndex(prev, i))}
+                  />
+                  <div className="route-item-icon">
+                    <span className="material-symbols-outlined">location_on</span>
+                  </div>
+                  <div className="route-item-content">
+                    <div className="route-item-name">{waypoint.name}</div>
+                    <div className="route-item-meta">
+                      {waypoint.category || 'Ukategorisert'}
+                      {waypoint.elevation !== undefined && ` • ${Math.round(waypoint.elevation)} moh.`}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {selectedCount > 0 && (
+          <section className="route-section">
+            {collection.folders && collection.folders.length > 0 && (
+              <label className="import-option">
+                <input
+                  type="checkbox"
+                  checked={foldersAsProjects}
+                  onChange={(e) => setFoldersAsProjects(e.target.checked)}
+                />
+                <span>
+                  Opprett prosjekter fra filen ({collection.folders.length})
+                </span>
+              </label>
+            )}
+            <label className="import-option">
+              <input
+                type="checkbox"
+                checked={createProject}
+                onChange={(e) => setCreateProject(e.target.checked)}
+              />
+              <span>Legg i nytt prosjekt</span>
+            </label>
+            {createProject && (
+              <input
+                type="text"
+                className="import-project-name"
+                value={projectName}
+                onChange={(e) => setProjectName(e.target.value)}
+                placeholder="Navn på prosjekt"
+                aria-label="Navn på prosjekt"
+              />
+            )}
+          </section>
+        )}
+
+        <div className="route-detail-actions">
+          <button
+            type="button"
+            className="trk-btn trk-btn--md trk-btn--primary"
+            onClick={handleConfirm}
+            disabled={selectedCount === 0 || isSaving}
+          >
+            {isSaving ? 'Importerer...' : `Importer ${selectedCount} ${selectedCount === 1 ? 'element' : 'elementer'}`}
+          </button>
+          <button
+            type="button"
+            className="trk-btn trk-btn--md trk-btn--ghost"
+            onClick={onCancel}
+            disabled={isSaving}
+          >
+            Avbryt
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ImportPreview
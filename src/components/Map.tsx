@@ -15,29 +15,67 @@ import POIDetailsSheet from './POIDetailsSheet'
 import InstallSheet from './InstallSheet'
 import WaypointDetailsSheet from './WaypointDetailsSheet'
 import RouteDetailsSheet from './RouteDetailsSheet'
+import PhotoWaypointsSheet from './PhotoWaypointsSheet'
+import SharedRouteSheet from './SharedRouteSheet'
 import MapPreferencesSheet from './MapPreferencesSheet'
 import WeatherWidget from './WeatherWidget'
 import WeatherSheet from './WeatherSheet'
 import MeasurementToolsSheet, { type MeasurementMode } from './MeasurementToolsSheet'
 import AdminSheet from './AdminSheet'
 import AdminPOISheet from './AdminPOISheet'
+import TrackRecordingBanner from './TrackRecordingBanner'
+import NavigationSheet from './NavigationSheet'
 import { useAutoHide } from '../hooks/useAutoHide'
 import { useViewportPOIs } from '../hooks/useViewportPOIs'
 import { useInstallPrompt } from '../hooks/useInstallPrompt'
+import { useTrackRecording } from '../hooks/useTrackRecording'
+import { useRouteNavigation } from '../hooks/useRouteNavigation'
+import { useRouteGeometryEditor } from '../hooks/useRouteGeometryEditor'
+import { usePhotoWaypointReview } from '../hooks/usePhotoWaypointReview'
+import { usePointHistory } from '../hooks/usePointHistory'
+import { useAreaShapeSelection } from '../hooks/useAreaShapeSelection'
 import { MAP_CONFIG, devLog, devError, type BaseLayerType } from '../constants'
 import { VALIDATION, UI_DELAYS, GESTURES } from '../config/timings'
 import { validateName } from '../utils/validation'
+import { parseMapUrlState, formatMapUrlState } from '../utils/mapUrlState'
+import { getShapeBounds, type AreaShape } from '../utils/tiles'
 import type { SearchResult } from '../services/searchService'
 import type { Route, Waypoint } from '../services/routeService'
 import { routeService } from '../services/routeService'
+import { trailRoutingService } from '../services/trailRoutingService'
+import { photoWaypointService, type GeotaggedPhoto } from '../services/photoWaypointService'
+import { shareService, type SharedRoute } from '../services/shareService'
+import {
+  waypointCategoryService,
+  DEFAULT_CATEGORY_ICON,
+  DEFAULT_CATEGORY_COLOR,
+  type WaypointCategory
+} from '../services/waypointCategoryService'
 import { poiService, type POICategory, type POI, type AnyCategoryId } from '../services/poiService'
 import { mapPreferencesService, type MapPreferences } from '../services/mapPreferencesService'
+import { getOfflineTileUrl, registerOfflineTileProtocol } from '../services/offlineTileProtocol'
 import '../styles/Map.css'
 
 interface MapProps {
   zenMode: boolean
 }
 
+// Show the icon and color of the waypoint's category on its marker
+const styleWaypointMarker = (el: HTMLElement, categories: WaypointCategory[], categoryName: string | undefined) => {
+  const category = waypointCategoryService.findCategory(categories, categoryName)
+  const icon = el.querySelector('.material-symbols-outlined')
+  if (icon) icon.textContent = category?.icon ?? DEFAULT_CATEGORY_ICON
+  el.style.setProperty('--waypoint-color', category?.color ?? DEFAULT_CATEGORY_COLOR)
+}
+
+const createWaypointMarkerElement = (categories: WaypointCategory[], categoryName: string | undefined): HTMLDivElement => {
+  const el = document.createElement('div')
+  el.className = 'waypoint-marker'
+  el.innerHTML = '<span class="material-symbols-outlined"></span>'
+  styleWaypointMarker(el, categories, categoryName)
+  return el
+}
+
 const Map = ({ zenMode }: MapProps) => {
   const mapContainer = useRef<HTMLDivElement>(null)
   const map = useRef<maplibregl.Map | null>(null)
@@ -76,8 +114,13 @@ const Map = ({ zenMode }: MapProps) => {
   // PWA Installation
   const { canInstall, isInstalled, platform, promptInstall } = useInstallPrompt()
 
+  // Map view, base layer and POI categories from the URL fragment (bookmarks, reloads and links)
+  const [initialUrlState] = useState(() => parseMapUrlState(window.location.hash))
+  // Only read when the map is created; the URL follows the map after that, not the other way round
+  const initialViewRef = useRef(initialUrlState)
+
   // POI/Category state
-  const [activeCategories, setActiveCategories] = useState<Set<AnyCategoryId>>(new Set())
+  const [activeCategories, setActiveCategories] = useState<Set<AnyCategoryId>>(() => new Set(initialUrlState?.poi))
   // Track if POI layers have been added to map
   const poiLayersInitialized = useRef(false)
   const [selectedPOI, setSelectedPOI] = useState<POI | null>(null)
@@ -95,7 +138,15 @@ const Map = ({ zenMode }: MapProps) => {
   // Route drawing state
   const [isDrawingRoute, setIsDrawingRoute] = useState(false)
   const [isPlacingWaypoint, setIsPlacingWaypoint] = useState(false)
-  const [routePoints, setRoutePoints] = useState<Array<[number, number]>>([])
+  // Points of the route being drawn, with undo/redo (kept here so it survives switching sheets)
+  const routeHistory = usePointHistory()
+  const routePoints = routeHistory.points
+  const routePointsRef = useRef(routePoints)
+  const routeSessionRef = useRef(routeHistory.session)
+  // Snap drawn segments to trails (OSM paths, footways and tracks)
+  const [snapToTrail, setSnapToTrail] = useState(() => localStorage.getItem('trakke_snap_to_trail') === 'true')
+  const [pendingSnaps, setPendingSnaps] = useState(0)
+  const snapQueueRef = useRef<Promise<void>>(Promise.resolve())
   const [selectedRoute, setSelectedRoute] = useState<Route | null>(null)
   const [waypointMarkers, setWaypointMarkers] = useState<Record<string, maplibregl.Marker>>({})
   const [routesVisible, setRoutesVisible] = useState(() => {
@@ -112,10 +163,23 @@ const Map = ({ zenMode }: MapProps) => {
   // Route details sheet state
   const [routeDetailsSheetOpen, setRouteDetailsSheetOpen] = useState(false)
 
+  // Waypoints from geotagged photos (review state lives in usePhotoWaypointReview)
+  const [photosWithoutLocation, setPhotosWithoutLocation] = useState(0)
+  const [isSavingPhotoWaypoints, setIsSavingPhotoWaypoints] = useState(false)
+
+  // Route opened from a share link, previewed until imported or dismissed
+  const [sharedRoute, setSharedRoute] = useState<SharedRoute | null>(null)
+  const [isImportingSharedRoute, setIsImportingSharedRoute] = useState(false)
+  const sharedRouteMarkers = useRef<maplibregl.Marker[]>([])
+
   // Editing state
   const [editingRoute, setEditingRoute] = useState<Route | null>(null)
+  const routeVertexMarker = useRef<maplibregl.Marker | null>(null)
   const [editingWaypoint, setEditingWaypoint] = useState<Waypoint | null>(null)
 
+  // Waypoint category registry, for marker icons and colors
+  const waypointCategoriesRef = useRef<WaypointCategory[]>([])
+
   // Data change trigger for RouteSheet to reload
   const [dataChangeTrigger, setDataChangeTrigger] = useState(0)
 
@@ -127,9 +191,12 @@ const Map = ({ zenMode }: MapProps) => {
   // Base layer state (derived from preferences)
   const [baseLayer, setBaseLayer] = useState<BaseLayerType>(() => {
     const prefs = mapPreferencesService.getPreferences()
-    return prefs.baseLayer
+    return initialUrlState?.layer ?? prefs.baseLayer
   })
 
+  // Latest base layer and POI categories for the URL fragment (read by the map move listener)
+  const urlStateRef = useRef({ baseLayer, activeCategories })
+
   // Map control refs (for scale bar, compass)
   const scaleControl = useRef<maplibregl.ScaleControl | null>(null)
   const compassControl = useRef<maplibregl.NavigationControl | null>(null)
@@ -137,7 +204,26 @@ const Map = ({ zenMode }: MapProps) => {
   // Measurement tools state
   const [measurementActive, setMeasurementActive] = useState(false)
   const [measurementMode, setMeasurementMode] = useState<MeasurementMode>(null)
-  const [measurementPoints, setMeasurementPoints] = useState<Array<[number, number]>>([])
+  const measurementHistory = usePointHistory()
+  const measurementPoints = measurementHistory.points
+
+  // GPS track recording (restores an unfinished recording on mount)
+  const trackRecording = useTrackRecording((message) => alert(message))
+
+  // Route navigation (NavigationSheet). Auto-follow pauses when the user pans the map.
+  const routeNavigation = useRouteNavigation({
+    offRouteThreshold: mapPreferencesService.getOffRouteThreshold(mapPreferences),
+    onError: (message) => alert(message)
+  })
+  const [navigationAutoFollow, setNavigationAutoFollow] = useState(true)
+  const navigationPositionMarker = useRef<maplibregl.Marker | null>(null)
+
+  // Geometry editing of a saved route (drag, insert, delete and extend vertices)
+  const routeEditor = useRouteGeometryEditor({ mapRef: map })
+  const photoReview = usePhotoWaypointReview({ mapRef: map })
+
+  // Route corridor or polygon for an offline download (drawn on the map, previewed while configuring)
+  const areaShape = useAreaShapeSelection({ mapRef: map })
 
   // Refs for map click handler (to avoid stale closures with empty deps)
   const clickStateRef = useRef({
@@ -147,6 +233,9 @@ const Map = ({ zenMode }: MapProps) => {
     measurementActive: false,
     measurementMode: null as MeasurementMode,
     isPlacingAdminPOI: false,
+    isEditingGeometry: false,
+    isDrawingArea: false,
+    isSnapToTrail: false,
     isMobile: /iPhone|iPad|iPod|Android/i.test(navigator.userAgent)
   })
 
@@ -171,6 +260,9 @@ const Map = ({ zenMode }: MapProps) => {
     clickStateRef.current.measurementActive = measurementActive
     clickStateRef.current.measurementMode = measurementMode
     clickStateRef.current.isPlacingAdminPOI = isPlacingAdminPOI
+    clickStateRef.current.isEditingGeometry = routeEditor.route !== null
+    clickStateRef.current.isDrawingArea = areaShape.isDrawing
+    clickStateRef.current.isSnapToTrail = snapToTrail
 
     keyboardStateRef.current.searchSheetOpen = searchSheetOpen
     keyboardStateRef.current.routeSheetOpen = routeSheetOpen
@@ -188,6 +280,9 @@ const Map = ({ zenMode }: MapProps) => {
     measurementActive,
     measurementMode,
     isPlacingAdminPOI,
+    routeEditor.route,
+    areaShape.isDrawing,
+    snapToTrail,
     searchSheetOpen,
     routeSheetOpen,
     downloadSheetOpen,
@@ -207,6 +302,9 @@ const Map = ({ zenMode }: MapProps) => {
   useEffect(() => {
     if (map.current || !mapContainer.current) return
 
+    // Base layer tiles load through the offline store (downloaded areas first)
+    registerOfflineTileProtocol()
+
     // Initialize map with dual base layers (topo and grayscale)
     map.current = new maplibregl.Map({
       container: mapContainer.current,
@@ -215,19 +313,19 @@ const Map = ({ zenMode }: MapProps) => {
         sources: {
           'kartverket-topo': {
             type: 'raster',
-            tiles: [MAP_CONFIG.TILE_URL_TOPO],
+            tiles: [getOfflineTileUrl('topo')],
             tileSize: 256,
             attribution: zenMode ? '' : MAP_CONFIG.ATTRIBUTION
           },
           'kartverket-grayscale': {
             type: 'raster',
-            tiles: [MAP_CONFIG.TILE_URL_GRAYSCALE],
+            tiles: [getOfflineTileUrl('grayscale')],
             tileSize: 256,
             attribution: zenMode ? '' : MAP_CONFIG.ATTRIBUTION
           },
           'norge-i-bilder-satellite': {
             type: 'raster',
-            tiles: [MAP_CONFIG.TILE_URL_SATELLITE],
+            tiles: [getOfflineTileUrl('satellite')],
             tileSize: 256,
             maxzoom: 19, // Norge i bilder supports zoom 0-19 with 25cm resolution
             attribution: zenMode ? '' : '©Kartverket | Norge i bilder'
@@ -269,8 +367,9 @@ const Map = ({ zenMode }: MapProps) => {
           }
         ]
       },
-      center: MAP_CONFIG.DEFAULT_CENTER,
-      zoom: MAP_CONFIG.DEFAULT_ZOOM,
+      center: initialViewRef.current?.center ?? MAP_CONFIG.DEFAULT_CENTER,
+      zoom: initialViewRef.current?.zoom ?? MAP_CONFIG.DEFAULT_ZOOM,
+      bearing: initialViewRef.current?.bearing ?? 0,
       pitch: MAP_CONFIG.DEFAULT_PITCH,
       maxZoom: MAP_CONFIG.MAX_ZOOM,
       minZoom: MAP_CONFIG.MIN_ZOOM,
@@ -495,11 +594,26 @@ const Map = ({ zenMode }: MapProps) => {
         markerElement.classList.remove('enlarged-pointer')
       }
     }
-
-    // Note: offlineOnly preference is handled by Service Worker cache strategy
-    // and would require coordination with offlineMapService
   }, [mapPreferences])
 
+  // The offline tile protocol reads offlineOnly for each tile; reload the base layers so
+  // tiles loaded (or left blank) under the old setting follow the new one
+  const offlineOnlyRef = useRef(mapPreferences.offlineOnly)
+  useEffect(() => {
+    if (!map.current || offlineOnlyRef.current === mapPreferences.offlineOnly) return
+    offlineOnlyRef.current = mapPreferences.offlineOnly
+
+    const sources: Array<[string, BaseLayerType]> = [
+      ['kartverket-topo', 'topo'],
+      ['kartverket-grayscale', 'grayscale'],
+      ['norge-i-bilder-satellite', 'satellite']
+    ]
+    for (const [sourceId, layer] of sources) {
+      const source = map.current.getSource(sourceId) as maplibregl.RasterTileSource | undefined
+      source?.setTiles([getOfflineTileUrl(layer)])
+    }
+  }, [mapPreferences.offlineOnly])
+
   // Handle URL actions from manifest shortcuts
   useEffect(() => {
     const params = new URLSearchParams(window.location.search)
@@ -512,6 +626,94 @@ const Map = ({ zenMode }: MapProps) => {
     }
   }, [])
 
+  // Open a route shared as a link (the route is in the URL fragment)
+  useEffect(() => {
+    if (!shareService.isShareFragment(window.location.hash)) return
+
+    shareService.parseShareFragment(window.location.hash)
+      .then(route => setSharedRoute(route))
+      .catch(error => {
+        devError('Failed to read share link:', error)
+        alert(error instanceof Error && error.message.startsWith('Unsupported share link version')
+          ? 'Lenken er laget med en nyere versjon av Tråkke. Oppdater appen og prøv igjen.'
+          : 'Lenken til den delte ruten er ugyldig eller ufullstendig')
+        clearShareFragment()
+      })
+  }, [])
+
+  // Preview of a shared route: line, waypoint markers, and the map fitted to the route
+  useEffect(() => {
+    if (!map.current) return
+
+    const sourceId = 'shared-route-preview'
+    const layerId = 'shared-route-preview-layer'
+
+    const updatePreview = () => {
+      if (!map.current) return
+
+      sharedRouteMarkers.current.forEach(marker => marker.remove())
+      sharedRouteMarkers.current = []
+
+      if (!sharedRoute) {
+        if (map.current.getLayer(layerId)) map.current.removeLayer(layerId)
+        if (map.current.getSource(sourceId)) map.current.removeSource(sourceId)
+        return
+      }
+
+      const data = {
+        type: 'Feature' as const,
+        properties: {},
+        geometry: { type: 'LineString' as const, coordinates: sharedRoute.coordinates }
+      }
+
+      const source = map.current.getSource(sourceId) as maplibregl.GeoJSONSource | undefined
+      if (source) {
+        source.setData(data)
+      } else {
+        map.current.addSource(sourceId, { type: 'geojson', data })
+        map.current.addLayer({
+          id: layerId,
+          type: 'line',
+          source: sourceId,
+          layout: {
+            'line-join': 'round',
+            'line-cap': 'round'
+          },
+          paint: {
+            'line-color': '#3e4533',
+            'line-width': 4,
+            'line-opacity': 0.8,
+            'line-dasharray': [2, 1]
+          }
+        })
+      }
+
+      sharedRouteMarkers.current = sharedRoute.waypoints.map(waypoint =>
+        new maplibregl.Marker({ element: createWaypointMarkerElement(waypointCategoriesRef.current, waypoint.category), anchor: 'bottom' })
+          .setLngLat(waypoint.coordinates)
+          .addTo(map.current!)
+      )
+
+      const bounds = new LngLatBounds(sharedRoute.coordinates[0], sharedRoute.coordinates[0])
+      sharedRoute.coordinates.forEach(coord => bounds.extend(coord))
+      map.current.fitBounds(bounds, { padding: 80, maxZoom: 16 })
+    }
+
+    if (map.current.loaded()) {
+      updatePreview()
+    } else {
+      map.current.once('load', updatePreview)
+    }
+  }, [sharedRoute])
+
+  // Update route drawing layers when points change (clicks, undo and redo)
+  useEffect(() => {
+    routePointsRef.current = routePoints
+    routeSessionRef.current = routeHistory.session
+    if (!map.current || !isDrawingRoute) return
+    updateRouteDrawingLayers(routePoints)
+  }, [routePoints, routeHistory.session, isDrawingRoute])
+
   // Update measurement layers when points change (e.g., when cleared by Nullstill button)
   useEffect(() => {
     if (!map.current || !measurementActive || !measurementMode) return
@@ -566,6 +768,77 @@ const Map = ({ zenMode }: MapProps) => {
     }
   }, [baseLayer])
 
+  // Mirror the map view, base layer and POI categories in the URL fragment.
+  // Map moves replace the current history entry; layer and category changes add one,
+  // so back/forward steps through them without recording every pan.
+  const writeUrlState = (mode: 'push' | 'replace') => {
+    if (!map.current) return
+
+    const { lng, lat } = map.current.getCenter()
+    const hash = formatMapUrlState(window.location.hash, {
+      center: [lng, lat],
+      zoom: map.current.getZoom(),
+      bearing: map.current.getBearing(),
+      layer: urlStateRef.current.baseLayer,
+      poi: [...urlStateRef.current.activeCategories]
+    })
+    if (hash === window.location.hash) return
+
+    const url = window.location.pathname + window.location.search + hash
+    if (mode === 'push') {
+      window.history.pushState(null, '', url)
+    } else {
+      window.history.replaceState(null, '', url)
+    }
+  }
+
+  useEffect(() => {
+    urlStateRef.current = { baseLayer, activeCategories }
+
+    // Nothing to record when the change came from the URL (back/forward)
+    const current = parseMapUrlState(window.location.hash)
+    if (
+      current &&
+      (current.layer ?? baseLayer) === baseLayer &&
+      current.poi.length === activeCategories.size &&
+      current.poi.every(category => activeCategories.has(category))
+    ) {
+      return
+    }
+
+    writeUrlState(current ? 'push' : 'replace')
+  }, [baseLayer, activeCategories])
+
+  useEffect(() => {
+    if (!map.current) return
+    const mapInstance = map.current
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const handleMoveEnd = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => writeUrlState('replace'), UI_DELAYS.URL_STATE_DEBOUNCE)
+    }
+
+    // Back/forward (or an edited address bar) restores the state in the URL
+    const handlePopState = () => {
+      const state = parseMapUrlState(window.location.hash)
+      if (!state) return
+      clearTimeout(timer)
+      mapInstance.jumpTo({ center: state.center, zoom: state.zoom, bearing: state.bearing })
+      setBaseLayer(state.layer ?? mapPreferencesService.getPreferences().baseLayer)
+      setActiveCategories(new Set(state.poi))
+    }
+
+    mapInstance.on('moveend', handleMoveEnd)
+    window.addEventListener('popstate', handlePopState)
+
+    return () => {
+      clearTimeout(timer)
+      mapInstance.off('moveend', handleMoveEnd)
+      window.removeEventListener('popstate', handlePopState)
+    }
+  }, [])
+
   // Keep FAB visible when any sheet is open
   useEffect(() => {
     const anySheetOpen = searchSheetOpen || infoSheetOpen || downloadSheetOpen || routeSheetOpen
@@ -638,6 +911,26 @@ const Map = ({ zenMode }: MapProps) => {
         return
       }
 
+      // Ctrl+Z / Ctrl+Shift+Z: Undo/redo points while drawing a route or measuring
+      if (e.ctrlKey && e.key.toLowerCase() === 'z') {
+        const clickState = clickStateRef.current
+        const history = clickState.isDrawingRoute
+          ? routeHistory
+          : clickState.measurementActive && clickState.measurementMode
+            ? measurementHistory
+            : null
+
+        if (history) {
+          e.preventDefault()
+          if (e.shiftKey) {
+            history.redo()
+          } else {
+            history.undo()
+          }
+        }
+        return
+      }
+
       // Escape: Close sheets, cancel drawing modes, or close FAB menu
       if (e.key === 'Escape') {
         e.preventDefault()
@@ -648,7 +941,7 @@ const Map = ({ zenMode }: MapProps) => {
         // Priority order: drawing modes > open sheets > FAB menu
         if (clickState.isDrawingRoute) {
           setIsDrawingRoute(false)
-          setRoutePoints([])
+          routeHistory.reset()
           cleanupDrawingLayers()
         } else if (clickState.isPlacingWaypoint) {
           setIsPlacingWaypoint(false)
@@ -725,6 +1018,10 @@ const Map = ({ zenMode }: MapProps) => {
     devLog(`[Waypoints] Saved routesVisible to localStorage: ${routesVisible}`)
   }, [routesVisible])
 
+  useEffect(() => {
+    localStorage.setItem('trakke_snap_to_trail', String(snapToTrail))
+  }, [snapToTrail])
+
   // Initialize POI clustering layers (MapLibre native GeoJSON clustering for 60fps performance)
   useEffect(() => {
     if (!map.current || poiLayersInitialized.current) return
@@ -1333,8 +1630,11 @@ const Map = ({ zenMode }: MapProps) => {
     const lineLayerId = 'drawing-route-line-layer'
     const pointsLayerId = 'drawing-route-points-layer'
 
-    // Update or create line (only if 2+ points)
-    if (points.length >= 2) {
+    // Update or create line (only if 2+ points); remove it when undo leaves fewer
+    if (points.length < 2) {
+      if (map.current.getLayer(lineLayerId)) map.current.removeLayer(lineLayerId)
+      if (map.current.getSource(lineSourceId)) map.current.removeSource(lineSourceId)
+    } else {
       if (map.current.getSource(lineSourceId)) {
         const source = map.current.getSource(lineSourceId) as maplibregl.GeoJSONSource
         source.setData({
@@ -1574,7 +1874,11 @@ const Map = ({ zenMode }: MapProps) => {
   // Handle map clicks when selecting area, drawing routes, or placing waypoints
   const handleMapClick = async (e: maplibregl.MapMouseEvent) => {
     // Use ref values to avoid stale closures
-    const { isPlacingWaypoint, isDrawingRoute, isSelectingArea, measurementActive, measurementMode, isPlacingAdminPOI, isMobile } = clickStateRef.current
+    const { isPlacingWaypoint, isDrawingRoute, isSelectingArea, measurementActive, measurementMode, isPlacingAdminPOI, isEditingGeometry, isDrawingArea, isSnapToTrail, isMobile } = clickStateRef.current
+
+    // Route geometry editing and download area drawing handle their own clicks
+    // (see useRouteGeometryEditor and useAreaShapeSelection)
+    if (isEditingGeometry || isDrawingArea) return
 
     const mouseEvent = e.originalEvent as MouseEvent
 
@@ -1622,11 +1926,7 @@ const Map = ({ zenMode }: MapProps) => {
     if (measurementActive && measurementMode) {
       const newPoint: [number, number] = [e.lngLat.lng, e.lngLat.lat]
       devLog('[Map] Measurement click - mode:', measurementMode, 'point:', newPoint)
-      setMeasurementPoints(prevPoints => {
-        const updatedPoints = [...prevPoints, newPoint]
-        devLog('[Map] Updated measurement points:', updatedPoints)
-        return updatedPoints
-      })
+      measurementHistory.add(newPoint)
       return
     }
 
@@ -1634,15 +1934,30 @@ const Map = ({ zenMode }: MapProps) => {
     if (isDrawingRoute) {
       const newPoint: [number, number] = [e.lngLat.lng, e.lngLat.lat]
 
-      // Use functional update to avoid stale closure
-      setRoutePoints(prevPoints => {
-        const updatedPoints = [...prevPoints, newPoint]
-
-        // Update map layers with the new points
-        updateRouteDrawingLayers(updatedPoints)
+      // History actions are stable, so this is safe from the once-registered handler.
+      // Map layers follow routePoints (see effect below).
+      if (!isSnapToTrail) {
+        routeHistory.add(newPoint)
+        return
+      }
 
-        return updatedPoints
-      })
+      // Snapped segments are queued so fast clicks are routed in order,
+      // each from the end of the previous one. A segment is undone as one step.
+      // Segments from a drawing that was stopped or restarted meanwhile are dropped.
+      const session = routeSessionRef.current
+      setPendingSnaps(count => count + 1)
+      snapQueueRef.current = snapQueueRef.current
+        .then(async () => {
+          if (session !== routeSessionRef.current) return
+          const from = routePointsRef.current[routePointsRef.current.length - 1]
+          const segment = from
+            ? (await trailRoutingService.snapSegment(from, newPoint)).coordinates
+            : [newPoint]
+          if (session !== routeSessionRef.current || !clickStateRef.current.isDrawingRoute) return
+          routePointsRef.current = [...routePointsRef.current, ...segment]
+          routeHistory.addPoints(segment)
+        })
+        .finally(() => setPendingSnaps(count => count - 1))
 
       return
     }
@@ -1774,7 +2089,10 @@ const Map = ({ zenMode }: MapProps) => {
     const loadExistingWaypoints = async () => {
       devLog('[Waypoints] Loading existing waypoints...')
       try {
-        const waypoints = await routeService.getAllWaypoints()
+        const [waypoints] = await Promise.all([
+          routeService.getAllWaypoints(),
+          loadWaypointCategories()
+        ])
         devLog(`[Waypoints] Found ${waypoints.length} waypoints in database`)
 
         // Read current visibility preference from localStorage
@@ -1787,9 +2105,7 @@ const Map = ({ zenMode }: MapProps) => {
 
         waypoints.forEach(waypoint => {
           devLog(`[Waypoints] Creating marker for "${waypoint.name}" at`, waypoint.coordinates)
-          const el = document.createElement('div')
-          el.className = 'waypoint-marker'
-          el.innerHTML = '<span class="material-symbols-outlined">location_on</span>'
+          const el = createWaypointMarkerElement(waypointCategoriesRef.current, waypoint.category)
 
           const marker = new maplibregl.Marker({
             element: el,
@@ -1827,6 +2143,167 @@ const Map = ({ zenMode }: MapProps) => {
     }
   }, []) // Empty deps - only run once on mount
 
+  // Draw the track being recorded
+  useEffect(() => {
+    if (!map.current) return
+
+    const sourceId = 'recording-track-line'
+    const layerId = 'recording-track-line-layer'
+    const coordinates = trackRecording.coordinates
+
+    const updateTrackLayer = () => {
+      if (!map.current) return
+
+      if (coordinates.length < 2) {
+        if (map.current.getLayer(layerId)) map.current.removeLayer(layerId)
+        if (map.current.getSource(sourceId)) map.current.removeSource(sourceId)
+        return
+      }
+
+      const data = {
+        type: 'Feature' as const,
+        properties: {},
+        geometry: {
+          type: 'LineString' as const,
+          coordinates
+        }
+      }
+
+      const source = map.current.getSource(sourceId) as maplibregl.GeoJSONSource | undefined
+      if (source) {
+        source.setData(data)
+        return
+      }
+
+      map.current.addSource(sourceId, { type: 'geojson', data })
+      map.current.addLayer({
+        id: layerId,
+        type: 'line',
+        source: sourceId,
+        layout: {
+          'line-join': 'round',
+          'line-cap': 'round'
+        },
+        paint: {
+          'line-color': '#d0443e',
+          'line-width': 4,
+          'line-opacity': 0.85
+        }
+      })
+    }
+
+    if (map.current.loaded()) {
+      updateTrackLayer()
+    } else {
+      map.current.once('load', updateTrackLayer)
+    }
+  }, [trackRecording.coordinates])
+
+  // Show the navigation position and keep it centered while auto-following
+  useEffect(() => {
+    if (!map.current) return
+
+    const position = routeNavigation.position
+    if (!position) {
+      navigationPositionMarker.current?.remove()
+      navigationPositionMarker.current = null
+      return
+    }
+
+    if (!navigationPositionMarker.current) {
+      const el = document.createElement('div')
+      el.className = 'navigation-position-marker'
+      navigationPositionMarker.current = new maplibregl.Marker({ element: el })
+        .setLngLat(position.coordinates)
+        .addTo(map.current)
+    } else {
+      navigationPositionMarker.current.setLngLat(position.coordinates)
+    }
+
+    if (navigationAutoFollow) {
+      map.current.easeTo({
+        center: position.coordinates,
+        zoom: Math.max(map.current.getZoom(), 15),
+        duration: 500,
+        essential: true
+      })
+    }
+  }, [routeNavigation.position, navigationAutoFollow])
+
+  // Dashed line from the position back to the nearest point on the route while off-route
+  useEffect(() => {
+    if (!map.current) return
+
+    const sourceId = 'navigation-return-line'
+    const layerId = 'navigation-return-line-layer'
+    const position = routeNavigation.position
+    const offRoute = routeNavigation.offRoute
+
+    const updateReturnLayer = () => {
+      if (!map.current) return
+
+      if (!position || !offRoute) {
+        if (map.current.getLayer(layerId)) map.current.removeLayer(layerId)
+        if (map.current.getSource(sourceId)) map.current.removeSource(sourceId)
+        return
+      }
+
+      const data = {
+        type: 'Feature' as const,
+        properties: {},
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [position.coordinates, offRoute.nearestPoint]
+        }
+      }
+
+      const source = map.current.getSource(sourceId) as maplibregl.GeoJSONSource | undefined
+      if (source) {
+        source.setData(data)
+        return
+      }
+
+      map.current.addSource(sourceId, { type: 'geojson', data })
+      map.current.addLayer({
+        id: layerId,
+        type: 'line',
+        source: sourceId,
+        layout: {
+          'line-cap': 'round'
+        },
+        paint: {
+          'line-color': '#d0443e',
+          'line-width': 3,
+          'line-dasharray': [2, 2]
+        }
+      })
+    }
+
+    if (map.current.loaded()) {
+      updateReturnLayer()
+    } else {
+      map.current.once('load', updateReturnLayer)
+    }
+  }, [routeNavigation.position, routeNavigation.offRoute])
+
+  // Pause auto-follow when the user pans the map during navigation
+  useEffect(() => {
+    if (!map.current || !routeNavigation.isNavigating) return
+
+    const handleDragStart = (e: maplibregl.MapLibreEvent<MouseEvent | TouchEvent | undefined>) => {
+      // Programmatic camera moves have no originalEvent
+      if (e.originalEvent) {
+        setNavigationAutoFollow(false)
+      }
+    }
+
+    const mapInstance = map.current
+    mapInstance.on('dragstart', handleDragStart)
+    return () => {
+      mapInstance.off('dragstart', handleDragStart)
+    }
+  }, [routeNavigation.isNavigating])
+
   // Initialize centered selection overlay when area selection starts
   useEffect(() => {
     if (isSelectingArea && !overlayRect && mapContainer.current) {
@@ -1918,6 +2395,24 @@ const Map = ({ zenMode }: MapProps) => {
     setSelectionBounds(null)
     setOverlayRect(null)
     setIsDragging(null)
+    areaShape.clear()
+  }
+
+  const handleStartDrawingArea = () => {
+    setSelectionBounds(null)
+    areaShape.startDrawing()
+  }
+
+  const handleConfirmDrawing = () => {
+    if (areaShape.finishDrawing()) {
+      setDownloadSheetOpen(true)
+    }
+  }
+
+  // Route corridor chosen in the download sheet
+  const handleSelectAreaShape = (shape: AreaShape) => {
+    areaShape.setShape(shape)
+    handleNavigateToArea(getShapeBounds(shape))
   }
 
   const handleConfirmSelection = () => {
@@ -2118,13 +2613,13 @@ const Map = ({ zenMode }: MapProps) => {
   const handleMeasurementClick = () => {
     setMeasurementActive(true)
     setMeasurementMode(null) // User chooses mode in the component
-    setMeasurementPoints([])
+    measurementHistory.reset()
   }
 
   const handleMeasurementClose = () => {
     setMeasurementActive(false)
     setMeasurementMode(null)
-    setMeasurementPoints([])
+    measurementHistory.reset()
     cleanupMeasurementLayers()
   }
 
@@ -2157,7 +2652,7 @@ const Map = ({ zenMode }: MapProps) => {
   const handleStartDrawing = () => {
     setIsDrawingRoute(true)
     setIsPlacingWaypoint(false) // Ensure mutually exclusive
-    setRoutePoints([])
+    routeHistory.reset()
     // Clear existing drawing
     cleanupDrawingLayers()
   }
@@ -2167,10 +2662,71 @@ const Map = ({ zenMode }: MapProps) => {
     setIsPlacingWaypoint(true)
     setIsDrawingRoute(false) // Ensure mutually exclusive
     // Clear any route drawing in progress
-    setRoutePoints([])
+    routeHistory.reset()
     cleanupDrawingLayers()
   }
 
+  const handleStartRecording = () => {
+    trackRecording.start()
+  }
+
+  // Finish recording and save it as a completed route
+  const handleStopRecording = async () => {
+    const defaultName = `Spor ${new Date().toLocaleDateString('nb-NO')}`
+    const inputName = window.prompt('Navn på sporet:', defaultName)
+    if (inputName === null) return // Cancelled, keep recording
+
+    const name = validateName(inputName)
+    if (!name) return
+
+    try {
+      const route = await trackRecording.stop(name)
+      if (!route) {
+        alert('Sporet hadde for få punkter og ble ikke lagret')
+        return
+      }
+
+      devLog('[Recording] Track saved as route:', route.id)
+      setDataChangeTrigger(prev => prev + 1)
+      setRouteSheetOpen(true)
+    } catch (error) {
+      devError('Failed to save recorded track:', error)
+      alert('Kunne ikke lagre sporet')
+    }
+  }
+
+  const handleDiscardRecording = () => {
+    if (window.confirm('Forkaste sporet? Dette kan ikke angres.')) {
+      trackRecording.discard()
+    }
+  }
+
+  // Start guidance along a saved route (from RouteSheet)
+  const handleStartNavigation = async (route: Route) => {
+    if (route.coordinates.length < 2) {
+      alert('Ruten har for få punkter til navigasjon')
+      return
+    }
+
+    try {
+      const waypoints = (await Promise.all(route.waypoints.map(id => routeService.getWaypoint(id))))
+        .filter((waypoint): waypoint is Waypoint => waypoint !== null)
+
+      handleSelectRoute(route)
+      setNavigationAutoFollow(true)
+      routeNavigation.start(route, waypoints)
+      setRouteSheetOpen(false)
+    } catch (error) {
+      devError('Failed to start navigation:', error)
+      alert('Kunne ikke starte navigasjon')
+    }
+  }
+
+  const handleStopNavigation = () => {
+    if (routeNavigation.isNavigating && !window.confirm('Avslutte navigasjonen?')) return
+    routeNavigation.stop()
+  }
+
   const handleSelectRoute = (route: Route) => {
     // Clean up navigation markers when selecting a route
     cleanupNavigationMarkers()
@@ -2255,6 +2811,14 @@ const Map = ({ zenMode }: MapProps) => {
     }
   }
 
+  const loadWaypointCategories = async () => {
+    try {
+      waypointCategoriesRef.current = await waypointCategoryService.getAllCategories()
+    } catch (error) {
+      devError('[Waypoints] Failed to load categories:', error)
+    }
+  }
+
   const handleSelectWaypoint = (waypoint: Waypoint) => {
     devLog('[Waypoints] Selecting waypoint:', waypoint.name, waypoint.id)
     devLog('[Waypoints] Current waypointMarkers:', Object.keys(waypointMarkers))
@@ -2270,9 +2834,7 @@ const Map = ({ zenMode }: MapProps) => {
       } else {
         devError('[Waypoints] Marker NOT found for', waypoint.id, '- creating new marker')
         // Create marker if it doesn't exist
-        const el = document.createElement('div')
-        el.className = 'waypoint-marker'
-        el.innerHTML = '<span class="material-symbols-outlined">location_on</span>'
+        const el = createWaypointMarkerElement(waypointCategoriesRef.current, waypoint.category)
 
         const marker = new maplibregl.Marker({
           element: el,
@@ -2358,10 +2920,9 @@ const Map = ({ zenMode }: MapProps) => {
         // Remove temporary marker
         tempWaypointMarker.current.remove()
 
-        // Create permanent marker
-        const el = document.createElement('div')
-        el.className = 'waypoint-marker'
-        el.innerHTML = '<span class="material-symbols-outlined">location_on</span>'
+        // Create permanent marker (the category may be new)
+        await loadWaypointCategories()
+        const el = createWaypointMarkerElement(waypointCategoriesRef.current, waypoint.category)
 
         const marker = new maplibregl.Marker({
           element: el,
@@ -2383,11 +2944,129 @@ const Map = ({ zenMode }: MapProps) => {
     }
   }
 
+  // Add markers for waypoints created outside the map (e.g. file import)
+  const handleWaypointsAdded = (waypoints: Waypoint[]) => {
+    if (!map.current || waypoints.length === 0) return
+
+    const newMarkers: Record<string, maplibregl.Marker> = {}
+    waypoints.forEach(waypoint => {
+      const el = createWaypointMarkerElement(waypointCategoriesRef.current, waypoint.category)
+      if (!routesVisible) {
+        el.classList.add('hidden')
+      }
+
+      newMarkers[waypoint.id] = new maplibregl.Marker({
+        element: el,
+        anchor: 'bottom'
+      })
+        .setLngLat(waypoint.coordinates)
+        .addTo(map.current!)
+    })
+
+    setWaypointMarkers(prev => ({ ...prev, ...newMarkers }))
+  }
+
+  // Review waypoints proposed from geotagged photos on the map before saving them
+  const handleReviewPhotoWaypoints = (photos: GeotaggedPhoto[], withoutLocation: number) => {
+    setRouteSheetOpen(false)
+    setPhotosWithoutLocation(withoutLocation)
+    photoReview.start(photos)
+  }
+
+  const handleSavePhotoWaypoints = async () => {
+    const included = photoReview.proposals.filter(proposal => proposal.include)
+    const names: string[] = []
+    for (const proposal of included) {
+      const name = validateName(proposal.name)
+      if (!name) {
+        if (!proposal.name.trim()) alert('Navn kan ikke være tomt')
+        return
+      }
+      names.push(name)
+    }
+
+    setIsSavingPhotoWaypoints(true)
+    try {
+      const { waypoints, failedPhotos, skippedWaypoints } = await photoWaypointService.createWaypoints(
+        included.map((proposal, i) => ({ ...proposal, name: names[i] }))
+      )
+      handleWaypointsAdded(waypoints)
+      setDataChangeTrigger(prev => prev + 1)
+      photoReview.stop()
+      if (failedPhotos > 0) {
+        const skipped = skippedWaypoints > 0
+          ? ` ${skippedWaypoints} ${skippedWaypoints === 1 ? 'punkt' : 'punkter'} uten bilder ble ikke lagret.`
+          : ''
+        alert(`${failedPhotos} ${failedPhotos === 1 ? 'bilde' : 'bilder'} kunne ikke legges ved. Nettleseren støtter kanskje ikke HEIC-bilder.${skipped}`)
+      }
+    } catch (error) {
+      devError('Failed to save waypoints from photos:', error)
+      alert('Kunne ikke lagre punktene')
+      setDataChangeTrigger(prev => prev + 1) // Some waypoints may have been saved
+    } finally {
+      setIsSavingPhotoWaypoints(false)
+    }
+  }
+
+  // Drop the share link from the address bar, so a reload doesn't offer the route again
+  const clearShareFragment = () => {
+    const hash = shareService.removeShareFragment(window.location.hash)
+    window.history.replaceState(null, '', window.location.pathname + window.location.search + hash)
+  }
+
+  const handleCloseSharedRoute = () => {
+    setSharedRoute(null)
+    clearShareFragment()
+  }
+
+  // Save a shared route and its waypoints as the user's own
+  const handleImportSharedRoute = async () => {
+    if (!sharedRoute) return
+
+    setIsImportingSharedRoute(true)
+    try {
+      const createdWaypoints: Waypoint[] = []
+      for (const waypoint of sharedRoute.waypoints) {
+        createdWaypoints.push(await routeService.createWaypoint({
+          name: waypoint.name,
+          category: waypoint.category,
+          coordinates: waypoint.coordinates,
+          icon: waypoint.icon || 'location_on'
+        }))
+      }
+
+      const route = await routeService.createRoute({
+        name: sharedRoute.name,
+        description: sharedRoute.description,
+        coordinates: sharedRoute.coordinates,
+        distance: routeService.calculateDistance(sharedRoute.coordinates),
+        waypoints: createdWaypoints.map(waypoint => waypoint.id)
+      })
+
+      // Elevation, estimated duration and difficulty are filled in the background
+      routeService.refreshRouteStats(route)
+        .then(() => setDataChangeTrigger(prev => prev + 1))
+        .catch(error => devError('Failed to refresh route stats:', error))
+
+      handleCloseSharedRoute()
+      handleWaypointsAdded(createdWaypoints)
+      handleSelectRoute(route)
+      setDataChangeTrigger(prev => prev + 1)
+      devLog('[Share] Imported shared route:', route.name)
+    } catch (error) {
+      devError('Failed to import shared route:', error)
+      alert('Kunne ikke importere ruten')
+      setDataChangeTrigger(prev => prev + 1) // Some waypoints may have been saved
+    } finally {
+      setIsImportingSharedRoute(false)
+    }
+  }
+
   // Save route from route details sheet
   const handleSaveRoute = async (name: string, description: string) => {
     try {
       const distance = routeService.calculateDistance(routePoints)
-      await routeService.createRoute({
+      const route = await routeService.createRoute({
         name,
         description: description || undefined,
         coordinates: routePoints,
@@ -2395,9 +3074,14 @@ const Map = ({ zenMode }: MapProps) => {
         waypoints: []
       })
 
+      // Elevation, estimated duration and difficulty are filled in the background
+      routeService.refreshRouteStats(route)
+        .then(() => setDataChangeTrigger(prev => prev + 1))
+        .catch(error => devError('Failed to refresh route stats:', error))
+
       // Clean up drawing
       setIsDrawingRoute(false)
-      setRoutePoints([])
+      routeHistory.reset()
       cleanupDrawingLayers()
 
       // Show success and open route sheet
@@ -2421,6 +3105,206 @@ const Map = ({ zenMode }: MapProps) => {
     setWaypointDetailsSheetOpen(true)
   }
 
+  // Show or hide the saved layers of a route (hidden while its geometry is edited)
+  const setRouteLayersVisible = (routeId: string, visible: boolean) => {
+    if (!map.current) return
+    for (const layerId of [`route-${routeId}-line-layer`, `route-${routeId}-points-layer`]) {
+      if (map.current.getLayer(layerId)) {
+        map.current.setLayoutProperty(layerId, 'visibility', visible ? 'visible' : 'none')
+      }
+    }
+  }
+
+  // Redraw a displayed route after its coordinates changed
+  const refreshRouteLayers = (route: Route) => {
+    if (!map.current) return
+
+    const lineSource = map.current.getSource(`route-${route.id}-line`) as maplibregl.GeoJSONSource | undefined
+    lineSource?.setData({
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'LineString', coordinates: route.coordinates }
+    })
+
+    const pointsSource = map.current.getSource(`route-${route.id}-points`) as maplibregl.GeoJSONSource | undefined
+    pointsSource?.setData({
+      type: 'FeatureCollection',
+      features: route.coordinates.map(coord => ({
+        type: 'Feature' as const,
+        properties: {},
+        geometry: { type: 'Point' as const, coordinates: coord }
+      }))
+    })
+  }
+
+  // Start editing the line of a saved route on the map
+  const handleEditRouteGeometry = (route: Route) => {
+    if (route.timestamps && !window.confirm('Tidspunkter og GPS-høyder fra opptaket fjernes når du endrer linjen. Fortsette?')) {
+      return
+    }
+
+    setRouteDetailsSheetOpen(false)
+    setRouteSheetOpen(false)
+    setEditingRoute(null)
+    setIsDrawingRoute(false)
+    setIsPlacingWaypoint(false)
+    routeHistory.reset()
+    cleanupDrawingLayers()
+
+    setRouteLayersVisible(route.id, false)
+    routeEditor.start(route)
+
+    if (map.current && route.coordinates.length >= 2) {
+      const bounds = route.coordinates.reduce(
+        (b, coord) => b.extend(coord),
+        new LngLatBounds(route.coordinates[0], route.coordinates[0])
+      )
+      map.current.fitBounds(bounds, { padding: 80, maxZoom: 16 })
+    }
+  }
+
+  const handleSaveRouteGeometry = async () => {
+    const route = routeEditor.route
+    if (!route) return
+
+    if (!routeEditor.isDirty) {
+      setRouteLayersVisible(route.id, true)
+      routeEditor.stop()
+      return
+    }
+
+    try {
+      const updated = await routeService.updateRouteGeometry(route.id, routeEditor.coordinates)
+      devLog('[Route] Route geometry updated:', updated.id, updated.coordinates.length, 'points')
+
+      refreshRouteLayers(updated)
+      setRouteLayersVisible(updated.id, true)
+      if (selectedRoute?.id === updated.id) {
+        setSelectedRoute(updated)
+      }
+      routeEditor.stop()
+      setDataChangeTrigger(prev => prev + 1)
+
+      // Elevation gain/loss needs the elevation API; the route is already saved if this fails (offline)
+      routeService.refreshRouteStats(updated)
+        .then(() => setDataChangeTrigger(prev => prev + 1))
+        .catch(error => devError('Failed to refresh route stats:', error))
+    } catch (error) {
+      devError('Failed to update route geometry:', error)
+      alert('Kunne ikke lagre endringene i ruten')
+    }
+  }
+
+  const handleCancelRouteGeometry = () => {
+    const route = routeEditor.route
+    if (!route) return
+    if (routeEditor.isDirty && !window.confirm('Forkaste endringene i ruten?')) return
+
+    setRouteLayersVisible(route.id, true)
+    routeEditor.stop()
+  }
+
+  // Show the edited route's new geometry, and refresh its stats in the background
+  const applyRouteOperation = (updated: Route) => {
+    refreshRouteLayers(updated)
+    setEditingRoute(updated)
+    if (selectedRoute?.id === updated.id) {
+      setSelectedRoute(updated)
+    }
+    setDataChangeTrigger(prev => prev + 1)
+
+    routeService.refreshRouteStats(updated)
+      .then(() => setDataChangeTrigger(prev => prev + 1))
+      .catch(error => devError('Failed to refresh route stats:', error))
+  }
+
+  const handleSplitRoute = async (vertexIndex: number) => {
+    if (!editingRoute) return
+
+    const inputName = window.prompt('Navn på den nye ruten (andre del):', `${editingRoute.name} (del 2)`)
+    if (inputName === null) return
+
+    const secondName = validateName(inputName)
+    if (!secondName) return
+
+    try {
+      const [first, second] = await routeService.splitRoute(editingRoute.id, vertexIndex, secondName)
+      devLog('[Route] Route split:', first.id, second.id)
+      applyRouteOperation(first)
+      routeService.refreshRouteStats(second)
+        .then(() => setDataChangeTrigger(prev => prev + 1))
+        .catch(error => devError('Failed to refresh route stats:', error))
+    } catch (error) {
+      devError('Failed to split route:', error)
+      alert('Kunne ikke dele ruten')
+    }
+  }
+
+  const handleTrimRoute = async (end: 'start' | 'end', vertexIndex: number) => {
+    if (!editingRoute) return
+    if (!window.confirm(end === 'start' ? 'Fjerne delen av ruten før valgt punkt?' : 'Fjerne delen av ruten etter valgt punkt?')) return
+
+    try {
+      applyRouteOperation(await routeService.trimRoute(editingRoute.id, end, vertexIndex))
+    } catch (error) {
+      devError('Failed to trim route:', error)
+      alert('Kunne ikke korte ned ruten')
+    }
+  }
+
+  const handleReverseRoute = async () => {
+    if (!editingRoute) return
+    if (editingRoute.timestamps && !window.confirm('Tidspunkter fra opptaket fjernes når retningen snus. Fortsette?')) return
+
+    try {
+      applyRouteOperation(await routeService.reverseRoute(editingRoute.id))
+    } catch (error) {
+      devError('Failed to reverse route:', error)
+      alert('Kunne ikke snu ruten')
+    }
+  }
+
+  const handleMergeRoute = async (otherRouteId: string) => {
+    if (!editingRoute) return
+
+    try {
+      const other = await routeService.getRoute(otherRouteId)
+      if (!other) return
+      if (!window.confirm(`Legge «${other.name}» til på slutten av ruten? «${other.name}» slettes etterpå.`)) return
+
+      const merged = await routeService.mergeRoutes(editingRoute.id, otherRouteId)
+      handleDeleteRoute(otherRouteId)
+      if (selectedRoute?.id === otherRouteId) {
+        setSelectedRoute(null)
+      }
+      applyRouteOperation(merged)
+    } catch (error) {
+      devError('Failed to merge routes:', error)
+      alert('Kunne ikke slå sammen rutene')
+    }
+  }
+
+  // Marker for the vertex chosen for split/trim in RouteDetailsSheet
+  const handlePreviewRouteVertex = (coordinates: [number, number] | null) => {
+    if (!map.current) return
+
+    if (!coordinates) {
+      routeVertexMarker.current?.remove()
+      routeVertexMarker.current = null
+      return
+    }
+
+    if (routeVertexMarker.current) {
+      routeVertexMarker.current.setLngLat(coordinates)
+    } else {
+      const el = document.createElement('div')
+      el.className = 'route-split-marker'
+      routeVertexMarker.current = new maplibregl.Marker({ element: el })
+        .setLngLat(coordinates)
+        .addTo(map.current)
+    }
+  }
+
   // Update existing route
   const handleUpdateRoute = async (name: string, description: string) => {
     if (!editingRoute) return
@@ -2454,6 +3338,11 @@ const Map = ({ zenMode }: MapProps) => {
       })
 
       devLog('[Waypoint] Waypoint updated successfully:', name)
+      const marker = waypointMarkers[editingWaypoint.id]
+      if (marker) {
+        await loadWaypointCategories()
+        styleWaypointMarker(marker.getElement(), waypointCategoriesRef.current, category || undefined)
+      }
       setEditingWaypoint(null)
       // Trigger RouteSheet to reload data and re-group categories
       setDataChangeTrigger(prev => prev + 1)
@@ -2507,6 +3396,30 @@ const Map = ({ zenMode }: MapProps) => {
     devLog('[Map] Cleared all waypoint markers from map')
   }
 
+  // Bring the map up to date after routes, waypoints or categories changed elsewhere (sync, category management)
+  const handleExternalDataChange = async () => {
+    try {
+      const [routes, waypoints] = await Promise.all([
+        routeService.getAllRoutes(),
+        routeService.getAllWaypoints(),
+        loadWaypointCategories()
+      ])
+
+      const routeIds = new Set(routes.map(route => route.id))
+      routes.forEach(refreshRouteLayers)
+      map.current?.getStyle().layers
+        .map(layer => layer.id.match(/^route-(.+)-line-layer$/)?.[1])
+        .filter((id): id is string => !!id && !routeIds.has(id))
+        .forEach(handleDeleteRoute)
+
+      handleClearMapWaypoints()
+      handleWaypointsAdded(waypoints)
+      setDataChangeTrigger(prev => prev + 1)
+    } catch (error) {
+      devError('Failed to refresh map after sync:', error)
+    }
+  }
+
   return (
     <div className={`map-wrapper ${controlsVisible ? 'controls-visible' : ''}`}>
       {zenMode ? (
@@ -2538,9 +3451,40 @@ const Map = ({ zenMode }: MapProps) => {
                 <span className="material-symbols-outlined">route</span>
                 <div className="drawing-banner-text">
                   <strong>Tegner rute</strong>
-                  <span>{routePoints.length} punkt{routePoints.length !== 1 ? 'er' : ''}</span>
+                  <span>
+                    {pendingSnaps > 0
+                      ? 'Finner sti...'
+                      : `${routePoints.length} punkt${routePoints.length !== 1 ? 'er' : ''}`}
+                  </span>
                 </div>
               </div>
+              <button
+                className={`drawing-banner-close${snapToTrail ? ' active' : ''}`}
+                onClick={() => setSnapToTrail(value => !value)}
+                aria-pressed={snapToTrail}
+                aria-label="Følg sti"
+                title="Følg stier og traktorveier mellom punktene"
+              >
+                <span className="material-symbols-outlined">hiking</span>
+              </button>
+              <button
+                className="drawing-banner-close"
+                onClick={routeHistory.undo}
+                disabled={!routeHistory.canUndo}
+                aria-label="Angre"
+                title="Angre (Ctrl+Z)"
+              >
+                <span className="material-symbols-outlined">undo</span>
+              </button>
+              <button
+                className="drawing-banner-close"
+                onClick={routeHistory.redo}
+                disabled={!routeHistory.canRedo}
+                aria-label="Gjør om"
+                title="Gjør om (Ctrl+Shift+Z)"
+              >
+                <span className="material-symbols-outlined">redo</span>
+              </button>
               {routePoints.length >= 2 && (
                 <button
                   className="drawing-banner-finish"
@@ -2548,6 +3492,7 @@ const Map = ({ zenMode }: MapProps) => {
                     // Open route details sheet to save with name and description
                     setRouteDetailsSheetOpen(true)
                   }}
+                  disabled={pendingSnaps > 0}
                   aria-label="Fullfør rute"
                 >
                   <span className="material-symbols-outlined">check</span>
@@ -2558,7 +3503,7 @@ const Map = ({ zenMode }: MapProps) => {
                 className="drawing-banner-close"
                 onClick={() => {
                   setIsDrawingRoute(false)
-                  setRoutePoints([])
+                  routeHistory.reset()
                   cleanupDrawingLayers()
                 }}
                 aria-label="Avbryt"
@@ -2568,6 +3513,76 @@ const Map = ({ zenMode }: MapProps) => {
             </div>
           )}
 
+          {/* Route geometry edit banner */}
+          {routeEditor.route && (
+            <div className="drawing-banner route-edit-banner">
+              <div className="drawing-banner-content">
+                <span className="material-symbols-outlined">edit</span>
+                <div className="drawing-banner-text">
+                  <strong>Redigerer rute</strong>
+                  <span>
+                    {routeEditor.extendMode
+                      ? `Trykk for å forlenge ${routeEditor.extendMode === 'start' ? 'starten' : 'slutten'}`
+                      : `${routeEditor.coordinates.length} punkter`}
+                  </span>
+                </div>
+              </div>
+              <button
+                className="drawing-banner-close"
+                onClick={routeEditor.removeSelectedVertex}
+                disabled={routeEditor.selectedIndex === null || routeEditor.coordinates.length <= 2}
+                aria-label="Slett valgt punkt"
+                title="Slett valgt punkt"
+              >
+                <span className="material-symbols-outlined">delete</span>
+              </button>
+              <button
+                className={`drawing-banner-close${routeEditor.extendMode === 'start' ? ' active' : ''}`}
+                onClick={() => routeEditor.setExtendMode(routeEditor.extendMode === 'start' ? null : 'start')}
+                aria-label="Forleng fra start"
+                aria-pressed={routeEditor.extendMode === 'start'}
+                title="Forleng fra start"
+              >
+                <span className="material-symbols-outlined">first_page</span>
+              </button>
+              <button
+                className={`drawing-banner-close${routeEditor.extendMode === 'end' ? ' active' : ''}`}
+                onClick={() => routeEditor.setExtendMode(routeEditor.extendMode === 'end' ? null : 'end')}
+                aria-label="Forleng fra slutt"
+                aria-pressed={routeEditor.extendMode === 'end'}
+                title="Forleng fra slutt"
+              >
+                <span className="material-symbols-outlined">last_page</span>
+              </button>
+              <button
+                className="drawing-banner-finish"
+                onClick={handleSaveRouteGeometry}
+                aria-label="Lagre endringer"
+              >
+                <span className="material-symbols-outlined">check</span>
+                <span>Lagre</span>
+              </button>
+              <button
+                className="drawing-banner-close"
+                onClick={handleCancelRouteGeometry}
+                aria-label="Avbryt redigering"
+              >
+                <span className="material-symbols-outlined">close</span>
+              </button>
+            </div>
+          )}
+
+          {/* Track recording banner */}
+          {trackRecording.recording && !routeEditor.route && !isDrawingRoute && !isPlacingWaypoint && !isPlacingAdminPOI && (
+            <TrackRecordingBanner
+              recording={trackRecording.recording}
+              onPause={trackRecording.pause}
+              onResume={trackRecording.resume}
+              onStop={handleStopRecording}
+              onDiscard={handleDiscardRecording}
+            />
+          )}
+
           {/* Waypoint placement banner */}
           {isPlacingWaypoint && (
             <div className="drawing-banner">
@@ -2611,9 +3626,16 @@ const Map = ({ zenMode }: MapProps) => {
             isActive={measurementActive}
             onClose={handleMeasurementClose}
             mode={measurementMode}
-            onModeChange={setMeasurementMode}
+            onModeChange={(mode) => {
+              setMeasurementMode(mode)
+              measurementHistory.reset() // History belongs to one measurement mode
+            }}
             points={measurementPoints}
-            onPointsChange={setMeasurementPoints}
+            canUndo={measurementHistory.canUndo}
+            canRedo={measurementHistory.canRedo}
+            onUndo={measurementHistory.undo}
+            onRedo={measurementHistory.redo}
+            onClear={measurementHistory.clear}
           />
 
           {/* Area selection overlay */}
@@ -2682,6 +3704,46 @@ const Map = ({ zenMode }: MapProps) => {
             </>
           )}
 
+          {/* Polygon drawing for a download area (layers and clicks in useAreaShapeSelection) */}
+          {areaShape.isDrawing && (
+            <>
+              <div className="selection-banner">
+                <div className="selection-banner-content">
+                  <span className="material-symbols-outlined">pentagon</span>
+                  <div className="selection-banner-text">
+                    <strong>Tegn område</strong>
+                    <span>Trykk på kartet for å sette hjørner</span>
+                  </div>
+                </div>
+                <button
+                  className="selection-banner-close"
+                  onClick={areaShape.undoPoint}
+                  disabled={areaShape.points.length === 0}
+                  aria-label="Angre"
+                >
+                  <span className="material-symbols-outlined">undo</span>
+                </button>
+                <button
+                  className="selection-banner-close"
+                  onClick={handleCancelSelection}
+                  aria-label="Avbryt"
+                >
+                  <span className="material-symbols-outlined">close</span>
+                </button>
+              </div>
+
+              <button
+                className="selection-confirm-button"
+                onClick={handleConfirmDrawing}
+                disabled={areaShape.points.length < 3}
+                aria-label="Neste"
+              >
+                <span className="material-symbols-outlined">arrow_forward</span>
+                <span>Neste</span>
+              </button>
+            </>
+          )}
+
           <SearchSheet
             isOpen={searchSheetOpen}
             onClose={() => {
@@ -2698,9 +3760,12 @@ const Map = ({ zenMode }: MapProps) => {
             isOpen={downloadSheetOpen}
             onClose={() => setDownloadSheetOpen(false)}
             bounds={selectionBounds}
+            shape={areaShape.shape}
             zoom={currentZoom}
             isSelecting={isSelectingArea}
             onStartSelection={handleStartSelection}
+            onStartDrawing={handleStartDrawingArea}
+            onSelectShape={handleSelectAreaShape}
             onCancelSelection={handleCancelSelection}
             onNavigateToArea={handleNavigateToArea}
           />
@@ -2709,6 +3774,9 @@ const Map = ({ zenMode }: MapProps) => {
             onClose={() => setRouteSheetOpen(false)}
             onStartDrawing={handleStartDrawing}
             onStartWaypointPlacement={handleStartWaypointPlacement}
+            onStartRecording={handleStartRecording}
+            onStartNavigation={handleStartNavigation}
+            isRecording={trackRecording.recording !== null}
             onSelectRoute={handleSelectRoute}
             onSelectWaypoint={handleSelectWaypoint}
             onDeleteRoute={handleDeleteRoute}
@@ -2717,10 +3785,42 @@ const Map = ({ zenMode }: MapProps) => {
             onEditWaypoint={handleEditWaypoint}
             onClearMapRoute={handleClearMapRoute}
             onClearMapWaypoints={handleClearMapWaypoints}
+            onWaypointsAdded={handleWaypointsAdded}
+            onReviewPhotoWaypoints={handleReviewPhotoWaypoints}
+            onWaypointCategoriesChanged={handleExternalDataChange}
             onDataChanged={dataChangeTrigger}
             routesVisible={routesVisible}
             onToggleVisibility={() => setRoutesVisible(!routesVisible)}
           />
+          <PhotoWaypointsSheet
+            isOpen={photoReview.isActive}
+            proposals={photoReview.proposals}
+            photoCount={photoReview.proposals.reduce((sum, proposal) => sum + proposal.photos.length, 0)}
+            withoutLocation={photosWithoutLocation}
+            clustered={photoReview.clustered}
+            isSaving={isSavingPhotoWaypoints}
+            onToggleClustered={photoReview.setClustered}
+            onUpdate={photoReview.updateProposal}
+            onSave={handleSavePhotoWaypoints}
+            onCancel={photoReview.stop}
+          />
+          <SharedRouteSheet
+            route={sharedRoute}
+            isImporting={isImportingSharedRoute}
+            onImport={handleImportSharedRoute}
+            onCancel={handleCloseSharedRoute}
+          />
+          <NavigationSheet
+            session={routeNavigation.session}
+            progress={routeNavigation.progress}
+            currentPosition={routeNavigation.position}
+            offRoute={routeNavigation.offRoute}
+            offRouteDismissed={routeNavigation.offRouteDismissed}
+            autoFollow={navigationAutoFollow}
+            onRecenter={() => setNavigationAutoFollow(true)}
+            onDismissOffRoute={routeNavigation.dismissOffRoute}
+            onStop={handleStopNavigation}
+          />
           <CategorySheet
             isOpen={categorySheetOpen}
             onClose={() => setCategorySheetOpen(false)}
@@ -2763,6 +3863,7 @@ const Map = ({ zenMode }: MapProps) => {
             initialName={editingWaypoint?.name}
             initialCategory={editingWaypoint?.category}
             isEditing={!!editingWaypoint}
+            waypointId={editingWaypoint?.id}
           />
 
           <RouteDetailsSheet
@@ -2778,6 +3879,13 @@ const Map = ({ zenMode }: MapProps) => {
             initialName={editingRoute?.name}
             initialDescription={editingRoute?.description}
             isEditing={!!editingRoute}
+            onEditGeometry={editingRoute ? () => handleEditRouteGeometry(editingRoute) : undefined}
+            route={editingRoute}
+            onSplit={handleSplitRoute}
+            onTrim={handleTrimRoute}
+            onReverse={handleReverseRoute}
+            onMerge={handleMergeRoute}
+            onPreviewVertex={handlePreviewRouteVertex}
           />
 
           <InstallSheet
@@ -2795,6 +3903,7 @@ const Map = ({ zenMode }: MapProps) => {
               setMapPreferences(newPreferences)
               setBaseLayer(newPreferences.baseLayer)
             }}
+            onDataChanged={handleExternalDataChange}
           />
 
           <WeatherSheet
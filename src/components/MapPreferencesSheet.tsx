@@ -1,23 +1,49 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import Sheet from './Sheet'
-import { mapPreferencesService, type MapPreferences } from '../services/mapPreferencesService'
+import {
+  mapPreferencesService,
+  OFF_ROUTE_THRESHOLD_MIN,
+  OFF_ROUTE_THRESHOLD_MAX,
+  type MapPreferences,
+  type NavigationTerrain
+} from '../services/mapPreferencesService'
 import { coordinateService, type CoordinateFormat } from '../services/coordinateService'
-import type { BaseLayerType } from '../constants'
+import { durationEstimatorService, ACTIVITY_PROFILES, type ActivityProfile } from '../services/durationEstimatorService'
+import { routeService } from '../services/routeService'
+import { backupService, type BackupContents, type RestoreMode } from '../services/backupService'
+import { syncService, type SyncConfig } from '../services/syncService'
+import { devError, type BaseLayerType } from '../constants'
 import '../styles/MapPreferencesSheet.css'
 
 interface MapPreferencesSheetProps {
   isOpen: boolean
   onClose: () => void
   onPreferencesChange: (preferences: MapPreferences) => void
+  onDataChanged: () => void // Routes, waypoints or projects changed by sync
 }
 
-const MapPreferencesSheet = ({ isOpen, onClose, onPreferencesChange }: MapPreferencesSheetProps) => {
+const MapPreferencesSheet = ({ isOpen, onClose, onPreferencesChange, onDataChanged }: MapPreferencesSheetProps) => {
   const [preferences, setPreferences] = useState<MapPreferences>(mapPreferencesService.getPreferences())
+  const [calibrationMessage, setCalibrationMessage] = useState<string | null>(null)
+  const [includeTiles, setIncludeTiles] = useState(false)
+  const [isBackupBusy, setIsBackupBusy] = useState(false)
+  const [pendingRestore, setPendingRestore] = useState<BackupContents | null>(null)
+  const backupInputRef = useRef<HTMLInputElement>(null)
+  const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(syncService.getConfig())
+  const [syncForm, setSyncForm] = useState<SyncConfig>({ url: '', username: '' })
+  const [syncPassword, setSyncPassword] = useState('')
+  const [syncPassphrase, setSyncPassphrase] = useState('')
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [syncMessage, setSyncMessage] = useState<string | null>(null)
 
   useEffect(() => {
     if (isOpen) {
       const currentPreferences = mapPreferencesService.getPreferences()
       setPreferences(currentPreferences)
+      setCalibrationMessage(null)
+      setPendingRestore(null)
+      setSyncConfig(syncService.getConfig())
+      setSyncMessage(null)
     }
   }, [isOpen])
 
@@ -31,6 +57,168 @@ const MapPreferencesSheet = ({ isOpen, onClose, onPreferencesChange }: MapPrefer
     onPreferencesChange(newPreferences)
   }
 
+  const handleUpdate = (updates: Partial<MapPreferences>) => {
+    const newPreferences = {
+      ...preferences,
+      ...updates
+    }
+    setPreferences(newPreferences)
+    mapPreferencesService.savePreferences(newPreferences)
+    onPreferencesChange(newPreferences)
+  }
+
+  const thresholdKey = preferences.navigationTerrain === 'wilderness'
+    ? 'offRouteThresholdWilderness'
+    : 'offRouteThresholdTrail'
+
+  const activityPace = preferences.paceFactors[preferences.activityProfile]
+
+  // Personal pace for the selected activity, from completed routes
+  const handleCalibratePace = async () => {
+    try {
+      const routes = await routeService.getAllRoutes()
+      const calibration = durationEstimatorService.calibrate(routes, preferences.activityProfile)
+      if (!calibration) {
+        setCalibrationMessage('Ingen fullførte turer med denne aktiviteten å kalibrere fra')
+        return
+      }
+
+      handleUpdate({
+        paceFactors: { ...preferences.paceFactors, [preferences.activityProfile]: calibration.factor }
+      })
+      setCalibrationMessage(`Kalibrert fra ${calibration.routeCount} ${calibration.routeCount === 1 ? 'tur' : 'turer'}`)
+    } catch (error) {
+      devError('Failed to calibrate pace:', error)
+      setCalibrationMessage('Kunne ikke kalibrere tempo')
+    }
+  }
+
+  const handleResetPace = () => {
+    const paceFactors = { ...preferences.paceFactors }
+    delete paceFactors[preferences.activityProfile]
+    handleUpdate({ paceFactors })
+    setCalibrationMessage(null)
+  }
+
+  const handleExportBackup = async () => {
+    setIsBackupBusy(true)
+    try {
+      await backupService.exportBackup(includeTiles)
+    } catch (error) {
+      devError('Failed to export backup:', error)
+      alert('Kunne ikke lage sikkerhetskopi')
+    } finally {
+      setIsBackupBusy(false)
+    }
+  }
+
+  const handleBackupFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow selecting the same file again
+    if (!file) return
+
+    setIsBackupBusy(true)
+    try {
+      setPendingRestore(await backupService.readBackupFile(file))
+    } catch (error) {
+      devError('Failed to read backup file:', error)
+      alert('Kunne ikke lese filen. Kontroller at det er en sikkerhetskopi fra Tråkke.')
+    } finally {
+      setIsBackupBusy(false)
+    }
+  }
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!pendingRestore) return
+    if (mode === 'replace' && !window.confirm('Alle ruter, punkter, prosjekter og innstillinger på denne enheten erstattes med sikkerhetskopien. Fortsette?')) {
+      return
+    }
+
+    setIsBackupBusy(true)
+    try {
+      const result = await backupService.restoreBackup(pendingRestore, mode)
+      const lines = [
+        `Lagt til: ${result.added}`,
+        `Oppdatert: ${result.updated}`,
+        ...(result.skipped > 0 ? [`Beholdt nyere lokal versjon: ${result.skipped}`] : []),
+        ...(result.invalid > 0 ? [`Ugyldige elementer hoppet over: ${result.invalid}`] : []),
+        ...(result.photos > 0 ? [`Bilder: ${result.photos}`] : []),
+        ...(result.tiles > 0 ? [`Kartfliser: ${result.tiles}`] : [])
+      ]
+      alert(`Sikkerhetskopien er gjenopprettet.\n\n${lines.join('\n')}`)
+      // Reload so the map, lists and preferences all pick up the restored data
+      window.location.reload()
+    } catch (error) {
+      devError('Failed to restore backup:', error)
+      alert('Kunne ikke gjenopprette sikkerhetskopien. Ingen data ble endret.')
+      setIsBackupBusy(false)
+    }
+  }
+
+  const runSync = async () => {
+    setIsSyncing(true)
+    setSyncMessage(null)
+    try {
+      const result = await syncService.sync()
+      setSyncConfig(syncService.getConfig())
+      setSyncMessage(`Hentet ${result.pulled}, sendt ${result.pushed}, slettet ${result.deleted}`)
+      if (result.pulled > 0 || result.deleted > 0) {
+        onDataChanged()
+      }
+    } catch (error) {
+      devError('Sync failed:', error)
+      setSyncMessage('Synkronisering feilet. Sjekk adressen, brukernavn, passord og passordfrasen.')
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  const handleConnectSync = async () => {
+    const url = syncForm.url.trim()
+    let isHttps = false
+    try {
+      isHttps = new URL(url).protocol === 'https:'
+    } catch {
+      // Not a URL
+    }
+    if (!isHttps) {
+      alert('Adressen må være en gyldig https://-adresse')
+      return
+    }
+    if (!syncService.isServerAllowed(url)) {
+      alert('Denne versjonen av appen har ikke tilgang til serveren. Den må legges til i VITE_SYNC_ORIGINS når appen bygges.')
+      return
+    }
+    if (!syncForm.username.trim() || !syncPassword || !syncPassphrase) {
+      alert('Fyll ut alle feltene')
+      return
+    }
+
+    syncService.saveConfig({ url, username: syncForm.username.trim() })
+    syncService.unlock(syncPassword, syncPassphrase)
+    setSyncPassword('')
+    setSyncPassphrase('')
+    setSyncConfig(syncService.getConfig())
+    await runSync()
+  }
+
+  const handleUnlockSync = async () => {
+    if (!syncPassword || !syncPassphrase) return
+    syncService.unlock(syncPassword, syncPassphrase)
+    setSyncPassword('')
+    setSyncPassphrase('')
+    await runSync()
+  }
+
+  const handleDisconnectSync = () => {
+    if (!window.confirm('Slutte å synkronisere denne enheten? Data på enheten og på serveren beholdes.')) return
+    syncService.disconnect()
+    setSyncConfig(null)
+    setSyncForm({ url: '', username: '' })
+    setSyncPassword('')
+    setSyncMessage(null)
+  }
+
   const handleReset = () => {
     mapPreferencesService.resetToDefaults()
     const defaults = mapPreferencesService.getPreferences()
@@ -152,6 +340,22 @@ const MapPreferencesSheet = ({ isOpen, onClose, onPreferencesChange }: MapPrefer
               </button>
             </div>
 
+            <div className="preference-item">
+              <div className="preference-info">
+                <span className="preference-label">Behold posisjon i bilder</span>
+                <span className="preference-description">
+                  Lagre hvor bildet ble tatt når du legger det til et punkt eller en rute
+                </span>
+              </div>
+              <button
+                className={`toggle-switch ${preferences.keepPhotoLocation ? 'active' : ''}`}
+                onClick={() => handleToggle('keepPhotoLocation')}
+                aria-label="Toggle behold posisjon i bilder"
+              >
+                <span className="toggle-slider"></span>
+              </button>
+            </div>
+
             {/* Base Layer Selector */}
             <div className="preference-section">
               <h3 className="preference-section-title">Kartlag</h3>
@@ -233,6 +437,301 @@ const MapPreferencesSheet = ({ isOpen, onClose, onPreferencesChange }: MapPrefer
               </div>
             </div>
 
+            {/* Navigation: off-route alert distance */}
+            <div className="preference-section">
+              <h3 className="preference-section-title">Navigasjon</h3>
+              <div className="base-layer-selector navigation-terrain-selector">
+                {([
+                  { terrain: 'trail', icon: 'hiking', label: 'Sti' },
+                  { terrain: 'wilderness', icon: 'forest', label: 'Terreng' }
+                ] as Array<{ terrain: NavigationTerrain; icon: string; label: string }>).map(option => (
+                  <button
+                    key={option.terrain}
+                    className={`base-layer-option ${preferences.navigationTerrain === option.terrain ? 'active' : ''}`}
+                    onClick={() => handleUpdate({ navigationTerrain: option.terrain })}
+                  >
+                    <span className="material-symbols-outlined">{option.icon}</span>
+                    <span>{option.label}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="preference-range">
+                <label htmlFor="off-route-threshold" className="preference-label">
+                  Varsle utenfor rute: {preferences[thresholdKey]} m
+                </label>
+                <span className="preference-description">
+                  {preferences.navigationTerrain === 'wilderness'
+                    ? 'Avstand fra ruten før varsel i terreng uten sti'
+                    : 'Avstand fra ruten før varsel når du følger sti'}
+                </span>
+                <input
+                  id="off-route-threshold"
+                  type="range"
+                  min={OFF_ROUTE_THRESHOLD_MIN}
+                  max={OFF_ROUTE_THRESHOLD_MAX}
+                  step={5}
+                  value={preferences[thresholdKey]}
+                  onChange={(e) => handleUpdate({ [thresholdKey]: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            {/* Activity and personal pace for route duration estimates */}
+            <div className="preference-section">
+              <h3 className="preference-section-title">Tempo</h3>
+              <div className="base-layer-selector">
+                {([
+                  { activity: 'walking', icon: 'directions_walk' },
+                  { activity: 'trailRunning', icon: 'directions_run' },
+                  { activity: 'crossCountrySki', icon: 'downhill_skiing' },
+                  { activity: 'snowshoe', icon: 'snowshoeing' },
+                  { activity: 'cycling', icon: 'directions_bike' }
+                ] as Array<{ activity: ActivityProfile; icon: string }>).map(option => (
+                  <button
+                    key={option.activity}
+                    className={`base-layer-option ${preferences.activityProfile === option.activity ? 'active' : ''}`}
+                    onClick={() => {
+                      handleUpdate({ activityProfile: option.activity })
+                      setCalibrationMessage(null)
+                    }}
+                  >
+                    <span className="material-symbols-outlined">{option.icon}</span>
+                    <span>{ACTIVITY_PROFILES[option.activity].label}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="preference-pace">
+                <span className="preference-label">
+                  {activityPace
+                    ? `Personlig tempo: ${activityPace.toFixed(2).replace('.', ',')} × standard`
+                    : 'Standard tempo'}
+                </span>
+                <span className="preference-description">
+                  {calibrationMessage ?? 'Beregn ditt tempo fra tiden du har brukt på fullførte turer'}
+                </span>
+                <div className="preference-pace-actions">
+                  <button
+                    className="trk-btn trk-btn--sm trk-btn--secondary"
+                    onClick={handleCalibratePace}
+                  >
+                    <span className="material-symbols-outlined">speed</span>
+                    <span>Kalibrer fra turer</span>
+                  </button>
+                  {activityPace && (
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--ghost"
+                      onClick={handleResetPace}
+                    >
+                      Bruk standard
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* End-to-end encrypted sync through the user's own WebDAV server */}
+            <div className="preference-section">
+              <h3 className="preference-section-title">Synkronisering</h3>
+              {!syncConfig && !syncService.hasAllowedServers() ? (
+                <span className="preference-description">
+                  Synkronisering er ikke tilgjengelig i denne versjonen av appen. Sikkerhetsreglene (CSP) lar bare appen
+                  koble til servere som legges til i VITE_SYNC_ORIGINS når appen bygges.
+                </span>
+              ) : !syncConfig ? (
+                <div className="preference-sync">
+                  <span className="preference-description">
+                    Synkroniser ruter, punkter og prosjekter mellom enhetene dine via din egen WebDAV-server (f.eks. Nextcloud).
+                    Alt krypteres på enheten med passordfrasen før det sendes.
+                  </span>
+                  <input
+                    type="url"
+                    placeholder="https://sky.example.no/remote.php/dav/files/navn/Trakke"
+                    value={syncForm.url}
+                    onChange={(e) => setSyncForm({ ...syncForm, url: e.target.value })}
+                    aria-label="WebDAV-adresse"
+                  />
+                  <input
+                    type="text"
+                    placeholder="Brukernavn"
+                    autoComplete="username"
+                    value={syncForm.username}
+                    onChange={(e) => setSyncForm({ ...syncForm, username: e.target.value })}
+                    aria-label="Brukernavn"
+                  />
+                  <input
+                    type="password"
+                    placeholder="App-passord"
+                    autoComplete="current-password"
+                    value={syncPassword}
+                    onChange={(e) => setSyncPassword(e.target.value)}
+                    aria-label="App-passord"
+                  />
+                  <input
+                    type="password"
+                    placeholder="Passordfrase for kryptering"
+                    autoComplete="new-password"
+                    value={syncPassphrase}
+                    onChange={(e) => setSyncPassphrase(e.target.value)}
+                    aria-label="Passordfrase for kryptering"
+                  />
+                  <span className="preference-description">
+                    Bruk samme passordfrase på alle enheter. Den lagres ikke og kan ikke gjenopprettes.
+                    App-passordet lagres heller ikke, så begge må skrives inn på nytt etter omstart.
+                  </span>
+                  <div className="preference-pace-actions">
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--secondary"
+                      onClick={handleConnectSync}
+                      disabled={isSyncing}
+                    >
+                      <span className="material-symbols-outlined">cloud_sync</span>
+                      <span>Koble til</span>
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="preference-sync">
+                  <span className="preference-label">{new URL(syncConfig.url).host}</span>
+                  <span className="preference-description">
+                    {!syncService.isServerAllowed(syncConfig.url)
+                      ? 'Denne versjonen av appen har ikke tilgang til serveren. Den må legges til i VITE_SYNC_ORIGINS når appen bygges.'
+                      : syncMessage ?? (syncConfig.lastSyncAt
+                      ? `Sist synkronisert ${new Date(syncConfig.lastSyncAt).toLocaleString('nb-NO')}`
+                      : 'Ikke synkronisert ennå')}
+                  </span>
+                  {!syncService.isUnlocked() && (
+                    <input
+                      type="password"
+                      placeholder="App-passord"
+                      autoComplete="current-password"
+                      value={syncPassword}
+                      onChange={(e) => setSyncPassword(e.target.value)}
+                      aria-label="App-passord"
+                    />
+                  )}
+                  {!syncService.isUnlocked() && (
+                    <input
+                      type="password"
+                      placeholder="Passordfrase"
+                      value={syncPassphrase}
+                      onChange={(e) => setSyncPassphrase(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleUnlockSync()}
+                      aria-label="Passordfrase"
+                    />
+                  )}
+                  <div className="preference-pace-actions">
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--secondary"
+                      onClick={syncService.isUnlocked() ? runSync : handleUnlockSync}
+                      disabled={isSyncing || !syncService.isServerAllowed(syncConfig.url) || (!syncService.isUnlocked() && (!syncPassword || !syncPassphrase))}
+                    >
+                      <span className="material-symbols-outlined">sync</span>
+                      <span>{isSyncing ? 'Synkroniserer...' : 'Synkroniser nå'}</span>
+                    </button>
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--ghost"
+                      onClick={handleDisconnectSync}
+                      disabled={isSyncing}
+                    >
+                      Koble fra
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Backup and restore of all user data */}
+            <div className="preference-section">
+              <h3 className="preference-section-title">Sikkerhetskopi</h3>
+              <div className="preference-item">
+                <div className="preference-info">
+                  <span className="preference-label">Ta med offline kart</span>
+                  <span className="preference-description">
+                    Nedlastede kartfliser gjør filen mye større
+                  </span>
+                </div>
+                <button
+                  className={`toggle-switch ${includeTiles ? 'active' : ''}`}
+                  onClick={() => setIncludeTiles(!includeTiles)}
+                  aria-label="Toggle offline kart i sikkerhetskopi"
+                >
+                  <span className="toggle-slider"></span>
+                </button>
+              </div>
+
+              {pendingRestore ? (
+                <div className="preference-backup">
+                  <span className="preference-label">
+                    Sikkerhetskopi fra {new Date(pendingRestore.backup.createdAt).toLocaleDateString('nb-NO')}
+                  </span>
+                  <span className="preference-description">
+                    {pendingRestore.backup.routes.length} ruter, {pendingRestore.backup.waypoints.length} punkter,{' '}
+                    {pendingRestore.backup.projects.length} prosjekter, {pendingRestore.backup.downloadedAreas.length} kartområder
+                    {pendingRestore.backup.photos.length > 0 && `, ${pendingRestore.backup.photos.length} bilder`}
+                    {pendingRestore.tiles.length > 0 && `, ${pendingRestore.tiles.length} kartfliser`}
+                    {pendingRestore.invalidRecords > 0 && ` (${pendingRestore.invalidRecords} ugyldige hoppes over)`}
+                  </span>
+                  <span className="preference-description">
+                    Slå sammen beholder det som finnes her og legger til det som mangler. Ved samme element vinner nyeste versjon.
+                  </span>
+                  <div className="preference-pace-actions">
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--primary"
+                      onClick={() => handleRestore('merge')}
+                      disabled={isBackupBusy}
+                    >
+                      Slå sammen
+                    </button>
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--secondary"
+                      onClick={() => handleRestore('replace')}
+                      disabled={isBackupBusy}
+                    >
+                      Erstatt alt
+                    </button>
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--ghost"
+                      onClick={() => setPendingRestore(null)}
+                      disabled={isBackupBusy}
+                    >
+                      Avbryt
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="preference-backup">
+                  <span className="preference-description">
+                    Lagre ruter, punkter, prosjekter og innstillinger i én fil, og gjenopprett dem senere eller på en annen enhet
+                  </span>
+                  <div className="preference-pace-actions">
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--secondary"
+                      onClick={handleExportBackup}
+                      disabled={isBackupBusy}
+                    >
+                      <span className="material-symbols-outlined">download</span>
+                      <span>Lag sikkerhetskopi</span>
+                    </button>
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--secondary"
+                      onClick={() => backupInputRef.current?.click()}
+                      disabled={isBackupBusy}
+                    >
+                      <span className="material-symbols-outlined">upload</span>
+                      <span>Gjenopprett</span>
+                    </button>
+                  </div>
+                </div>
+              )}
+              <input
+                ref={backupInputRef}
+                type="file"
+                accept=".json,.zip,application/json,application/zip"
+                onChange={handleBackupFileSelected}
+                style={{ display: 'none' }}
+              />
+            </div>
+
           </div>
 
           <div className="preferences-actions">
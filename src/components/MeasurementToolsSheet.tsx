@@ -11,7 +11,11 @@ interface MeasurementToolsSheetProps {
   mode: MeasurementMode
   onModeChange: (mode: MeasurementMode) => void
   points: Array<[number, number]>
-  onPointsChange: (points: Array<[number, number]>) => void
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onClear: () => void
 }
 
 const MeasurementToolsSheet = ({
@@ -20,7 +24,11 @@ const MeasurementToolsSheet = ({
   mode,
   onModeChange,
   points,
-  onPointsChange
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onClear
 }: MeasurementToolsSheetProps) => {
   const [measurement, setMeasurement] = useState<string>('')
 
@@ -49,16 +57,10 @@ const MeasurementToolsSheet = ({
   }, [points, mode])
 
   const handleClear = () => {
-    onPointsChange([])
+    onClear()
     setMeasurement('')
   }
 
-  const handleUndo = () => {
-    if (points.length > 0) {
-      onPointsChange(points.slice(0, -1))
-    }
-  }
-
   return (
     <Sheet
       isOpen={isActive}
@@ -125,22 +127,34 @@ const MeasurementToolsSheet = ({
               >
                 Bytt modus
               </button>
-              {points.length > 0 && (
+              {(canUndo || canRedo) && (
                 <>
                   <button
                     className="trk-btn trk-btn--md trk-btn--ghost"
-                    onClick={handleUndo}
+                    onClick={onUndo}
+                    disabled={!canUndo}
+                    title="Angre (Ctrl+Z)"
                   >
                     Angre
                   </button>
                   <button
                     className="trk-btn trk-btn--md trk-btn--ghost"
-                    onClick={handleClear}
+                    onClick={onRedo}
+                    disabled={!canRedo}
+                    title="Gjør om (Ctrl+Shift+Z)"
                   >
-                    Nullstill
+                    Gjør om
                   </button>
                 </>
               )}
+              {points.length > 0 && (
+                <button
+                  className="trk-btn trk-btn--md trk-btn--ghost"
+                  onClick={handleClear}
+                >
+                  Nullstill
+                </button>
+              )}
             </div>
           </>
         )}
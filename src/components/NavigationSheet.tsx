@@ -0,0 +1,200 @@
+import Sheet from './Sheet'
+import { navigationService, type NavigationProgress, type OffRouteGuidance } from '../services/navigationService'
+import { formatDistance } from '../services/measurementService'
+import type { NavigationSession } from '../hooks/useRouteNavigation'
+import type { TrackPoint } from '../services/trackRecordingService'
+import '../styles/NavigationSheet.css'
+
+interface NavigationSheetProps {
+  session: NavigationSession | null
+  progress: NavigationProgress | null
+  currentPosition: TrackPoint | null
+  offRoute: OffRouteGuidance | null
+  offRouteDismissed: boolean
+  autoFollow: boolean
+  onRecenter: () => void
+  onDismissOffRoute: () => void
+  onStop: () => void
+}
+
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.max(1, Math.round(ms / 60000))
+  if (totalMinutes < 60) return `${totalMinutes} min`
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return minutes > 0 ? `${hours} t ${minutes} min` : `${hours} t`
+}
+
+const ACCURACY_LABELS = {
+  good: 'God GPS',
+  fair: 'Middels GPS',
+  poor: 'Svak GPS'
+}
+
+// Active route guidance: next target, distance along the line, ETA, progress and bearing
+const NavigationSheet = ({
+  session,
+  progress,
+  currentPosition,
+  offRoute,
+  offRouteDismissed,
+  autoFollow,
+  onRecenter,
+  onDismissOffRoute,
+  onStop
+}: NavigationSheetProps) => {
+  if (!session) return null
+
+  const { plan } = session
+  const isCompleted = session.status === 'completed'
+  const targetIndex = Math.min(session.reachedCount, plan.targets.length - 1)
+  const target = plan.targets[targetIndex]
+  const targetCount = plan.targets.length
+  const percent = plan.totalDistance > 0 && progress
+    ? Math.min(100, Math.round((progress.projection.alongDistance / plan.totalDistance) * 100))
+    : 0
+  const bearing = progress?.bearingToNext ?? 0
+  const accuracyLevel = navigationService.getAccuracyLevel(currentPosition?.accuracy)
+
+  return (
+    <Sheet
+      isOpen={true}
+      onClose={onStop}
+      peekHeight={30}
+      halfHeight={45}
+      initialHeight="peek"
+      showBackdrop={false}
+    >
+      <div className="navigation-sheet">
+        {offRoute && !offRouteDismissed && (
+          <div className="navigation-off-route" role="alert">
+            <span
+              className="material-symbols-outlined navigation-off-route-arrow"
+              style={{ transform: `rotate(${offRoute.bearing}deg)` }}
+              aria-hidden="true"
+            >
+              navigation
+            </span>
+            <div className="navigation-off-route-text">
+              <strong>Du er utenfor ruten</strong>
+              <span>
+                Gå {formatDistance(offRoute.distance)} mot {navigationService.getCardinalDirection(offRoute.bearing)} ({Math.round(offRoute.bearing)}°) for å komme tilbake
+              </span>
+            </div>
+            <button
+              type="button"
+              className="trk-btn trk-btn--sm trk-btn--ghost"
+              onClick={onDismissOffRoute}
+            >
+              Fortsett
+            </button>
+          </div>
+        )}
+        {offRoute && offRouteDismissed && (
+          <p className="navigation-off-route-muted">
+            Utenfor ruten ({formatDistance(offRoute.distance)}) – varsler er slått av til du er tilbake
+          </p>
+        )}
+
+        {isCompleted ? (
+          <div className="navigation-header" role="status">
+            <span className="material-symbols-outlined navigation-arrived-icon">flag</span>
+            <div className="navigation-target">
+              <h2>Du har nådd målet</h2>
+              <span className="navigation-meta">{plan.route.name} • {formatDistance(plan.totalDistance)}</span>
+            </div>
+          </div>
+        ) : (
+          <div className="navigation-header" aria-live="polite">
+            <div
+              className="navigation-arrow"
+              role="img"
+              aria-label={progress ? `Retning ${navigationService.getCardinalDirection(bearing)}, ${Math.round(bearing)} grader` : 'Venter på posisjon'}
+            >
+              <span
+                className="material-symbols-outlined"
+                style={{ transform: `rotate(${bearing}deg)` }}
+              >
+                {progress ? 'navigation' : 'location_searching'}
+              </span>
+            </div>
+            <div className="navigation-target">
+              <h2>Til {target.name}</h2>
+              {progress ? (
+                <span className="navigation-meta">
+                  {formatDistance(progress.distanceToNext)}
+                  {' • '}
+                  {navigationService.getCardinalDirection(bearing)} ({Math.round(bearing)}°)
+                </span>
+              ) : (
+                <span className="navigation-meta">Venter på GPS-posisjon...</span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {progress && !isCompleted && (
+          <div className="navigation-stats">
+            <div className="navigation-stat">
+              <span className="navigation-stat-label">Gjenstår</span>
+              <span className="navigation-stat-value">{formatDistance(progress.remainingDistance)}</span>
+            </div>
+            <div className="navigation-stat">
+              <span className="navigation-stat-label">Ankomst om</span>
+              <span className="navigation-stat-value">{formatDuration(progress.etaMs)}</span>
+            </div>
+            <div className="navigation-stat">
+              <span className="navigation-stat-label">Luftlinje</span>
+              <span className="navigation-stat-value">{formatDistance(progress.directDistanceToNext)}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="navigation-progress">
+          <div className="navigation-progress-label">
+            <span>Veipunkt {Math.min(session.reachedCount + 1, targetCount)} av {targetCount}</span>
+            {currentPosition && (
+              <span className={`navigation-accuracy ${accuracyLevel}`}>
+                {ACCURACY_LABELS[accuracyLevel]} (±{Math.round(currentPosition.accuracy ?? 0)} m)
+              </span>
+            )}
+          </div>
+          <div
+            className="navigation-progress-bar"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={isCompleted ? 100 : percent}
+            aria-label="Fremdrift langs ruten"
+          >
+            <div className="navigation-progress-fill" style={{ width: `${isCompleted ? 100 : percent}%` }} />
+          </div>
+        </div>
+
+        <div className="navigation-actions">
+          {!isCompleted && (
+            <button
+              type="button"
+              className="trk-btn trk-btn--md trk-btn--secondary"
+              onClick={onRecenter}
+              disabled={autoFollow || !currentPosition}
+            >
+              <span className="material-symbols-outlined">my_location</span>
+              <span>{autoFollow ? 'Følger posisjon' : 'Sentrer'}</span>
+            </button>
+          )}
+          <button
+            type="button"
+            className={`trk-btn trk-btn--md ${isCompleted ? 'trk-btn--primary' : 'trk-btn--danger'}`}
+            onClick={onStop}
+          >
+            <span className="material-symbols-outlined">{isCompleted ? 'check' : 'stop'}</span>
+            <span>{isCompleted ? 'Avslutt' : 'Stopp'}</span>
+          </button>
+        </div>
+      </div>
+    </Sheet>
+  )
+}
+
+export default NavigationSheet
@@ -0,0 +1,158 @@
+import { useState, useEffect, useRef } from 'react'
+import { createPortal } from 'react-dom'
+import { photoService, type Photo, type PhotoOwnerType } from '../services/photoService'
+import { devError } from '../constants'
+import '../styles/PhotoGallery.css'
+
+interface PhotoGalleryProps {
+  ownerType: PhotoOwnerType
+  ownerId?: string // Photos can only be attached once the waypoint or route is saved
+}
+
+interface PhotoView {
+  photo: Photo
+  thumbnailUrl: string
+}
+
+const PhotoGallery = ({ ownerType, ownerId }: PhotoGalleryProps) => {
+  const [photos, setPhotos] = useState<PhotoView[]>([])
+  const [adding, setAdding] = useState(false)
+  const [openPhoto, setOpenPhoto] = useState<{ photo: Photo; url: string } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Load photos and create object URLs for the thumbnails
+  useEffect(() => {
+    if (!ownerId) {
+      setPhotos([])
+      return
+    }
+
+    let cancelled = false
+    let views: PhotoView[] = []
+
+    photoService.getPhotos(ownerId)
+      .then(loaded => {
+        if (cancelled) return
+        views = loaded.map(photo => ({ photo, thumbnailUrl: URL.createObjectURL(photo.thumbnail) }))
+        setPhotos(views)
+      })
+      .catch(error => devError('Failed to load photos:', error))
+
+    return () => {
+      cancelled = true
+      views.forEach(view => URL.revokeObjectURL(view.thumbnailUrl))
+    }
+  }, [ownerId, adding])
+
+  // Release the full-size photo when the viewer closes
+  useEffect(() => {
+    if (!openPhoto) return
+    return () => URL.revokeObjectURL(openPhoto.url)
+  }, [openPhoto])
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (!ownerId || files.length === 0) return
+
+    setAdding(true)
+    try {
+      await photoService.addPhotos(ownerType, ownerId, files)
+    } catch (error) {
+      devError('Failed to add photos:', error)
+      alert('Kunne ikke legge til bilde. Prøv et annet bilde.')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const handleDelete = async (photo: Photo) => {
+    if (!window.confirm('Slette bildet?')) return
+
+    try {
+      await photoService.deletePhoto(photo.id)
+      setOpenPhoto(null)
+      setPhotos(current => {
+        const removed = current.find(view => view.photo.id === photo.id)
+        if (removed) URL.revokeObjectURL(removed.thumbnailUrl)
+        return current.filter(view => view.photo.id !== photo.id)
+      })
+    } catch (error) {
+      devError('Failed to delete photo:', error)
+      alert('Kunne ikke slette bildet')
+    }
+  }
+
+  if (!ownerId) {
+    return (
+      <div className="form-group">
+        <label>Bilder</label>
+        <div className="photo-gallery-hint">Lagre først for å legge til bilder</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="form-group photo-gallery">
+      <label>Bilder</label>
+      <div className="photo-gallery-grid">
+        {photos.map(({ photo, thumbnailUrl }) => (
+          <button
+            key={photo.id}
+            className="photo-gallery-thumbnail"
+            onClick={() => setOpenPhoto({ photo, url: URL.createObjectURL(photo.blob) })}
+            aria-label="Vis bilde"
+          >
+            <img src={thumbnailUrl} alt="" />
+          </button>
+        ))}
+        <button
+          className="photo-gallery-add"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={adding}
+          aria-label="Legg til bilder"
+        >
+          <span className="material-symbols-outlined">{adding ? 'hourglass_empty' : 'add_a_photo'}</span>
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        hidden
+        onChange={handleFilesSelected}
+      />
+
+      {/* Portal: the sheet's transform would otherwise confine the fixed-position viewer */}
+      {openPhoto && createPortal(
+        <div className="photo-viewer" role="dialog" aria-label="Bilde" onClick={() => setOpenPhoto(null)}>
+          <img src={openPhoto.url} alt="" />
+          <div className="photo-viewer-actions" onClick={(e) => e.stopPropagation()}>
+            {openPhoto.photo.takenAt && (
+              <span className="photo-viewer-date">
+                {new Date(openPhoto.photo.takenAt).toLocaleString('nb-NO', { dateStyle: 'medium', timeStyle: 'short' })}
+              </span>
+            )}
+            <button
+              className="trk-btn trk-btn--sm trk-btn--ghost"
+              onClick={() => handleDelete(openPhoto.photo)}
+            >
+              <span className="material-symbols-outlined">delete</span>
+              <span>Slett</span>
+            </button>
+            <button
+              className="trk-btn trk-btn--sm trk-btn--secondary"
+              onClick={() => setOpenPhoto(null)}
+            >
+              Lukk
+            </button>
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  )
+}
+
+export default PhotoGallery
@@ -0,0 +1,122 @@
+import Sheet from './Sheet'
+import type { PhotoWaypointProposal } from '../services/photoWaypointService'
+import '../styles/RouteSheet.css'
+
+interface PhotoWaypointsSheetProps {
+  isOpen: boolean
+  proposals: PhotoWaypointProposal[]
+  photoCount: number
+  withoutLocation: number // Selected photos without a GPS position
+  clustered: boolean
+  isSaving: boolean
+  onToggleClustered: (clustered: boolean) => void
+  onUpdate: (id: string, changes: Partial<Pick<PhotoWaypointProposal, 'name' | 'include'>>) => void
+  onSave: () => void
+  onCancel: () => void
+}
+
+// Review of waypoints proposed from geotagged photos; positions are adjusted by dragging the markers
+const PhotoWaypointsSheet = ({
+  isOpen,
+  proposals,
+  photoCount,
+  withoutLocation,
+  clustered,
+  isSaving,
+  onToggleClustered,
+  onUpdate,
+  onSave,
+  onCancel
+}: PhotoWaypointsSheetProps) => {
+  const included = proposals.filter(proposal => proposal.include)
+
+  return (
+    <Sheet
+      isOpen={isOpen}
+      onClose={onCancel}
+      peekHeight={35}
+      halfHeight={50}
+      initialHeight="half"
+      showBackdrop={false}
+    >
+      <button className="sheet-close-button" onClick={onCancel} aria-label="Lukk punkter fra bilder">
+        <span className="material-symbols-outlined">close</span>
+      </button>
+      <div className="route-sheet">
+        <div className="route-sheet-content">
+          <section className="route-section">
+            <h3>Punkter fra bilder</h3>
+            <p className="route-empty-state">
+              {photoCount} {photoCount === 1 ? 'bilde' : 'bilder'} med posisjon
+              {withoutLocation > 0 && `, ${withoutLocation} uten posisjon hoppes over`}.
+              Dra markørene på kartet for å justere plasseringen.
+            </p>
+            <label className="import-option">
+              <input
+                type="checkbox"
+                checked={clustered}
+                onChange={(e) => onToggleClustered(e.target.checked)}
+                disabled={isSaving}
+              />
+              <span>Samle bilder tatt like ved hverandre i ett punkt</span>
+            </label>
+          </section>
+
+          <section className="route-section">
+            <h3>Punkter ({included.length}/{proposals.length})</h3>
+            <div className="route-list">
+              {proposals.map(proposal => (
+                <div key={proposal.id} className="route-item import-item">
+                  <input
+                    type="checkbox"
+                    checked={proposal.include}
+                    onChange={(e) => onUpdate(proposal.id, { include: e.target.checked })}
+                    aria-label={`Ta med ${proposal.name}`}
+                  />
+                  <div className="route-item-icon">
+                    <span className="material-symbols-outlined">photo_camera</span>
+                  </div>
+                  <div className="route-item-content">
+                    <input
+                      type="text"
+                      className="import-project-name"
+                      value={proposal.name}
+                      onChange={(e) => onUpdate(proposal.id, { name: e.target.value })}
+                      maxLength={100}
+                      aria-label="Navn på punkt"
+                    />
+                    <div className="route-item-meta">
+                      {proposal.photos.length} {proposal.photos.length === 1 ? 'bilde' : 'bilder'}
+                      {proposal.elevation !== undefined && ` • ${Math.round(proposal.elevation)} moh.`}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <div className="route-detail-actions">
+            <button
+              type="button"
+              className="trk-btn trk-btn--md trk-btn--primary"
+              onClick={onSave}
+              disabled={included.length === 0 || isSaving}
+            >
+              {isSaving ? 'Lagrer...' : `Lagre ${included.length} ${included.length === 1 ? 'punkt' : 'punkter'}`}
+            </button>
+            <button
+              type="button"
+              className="trk-btn trk-btn--md trk-btn--ghost"
+              onClick={onCancel}
+              disabled={isSaving}
+            >
+              Avbryt
+            </button>
+          </div>
+        </div>
+      </div>
+    </Sheet>
+  )
+}
+
+export default PhotoWaypointsSheet
@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react'
 import Sheet from './Sheet'
+import PhotoGallery from './PhotoGallery'
+import { routeService, type Route } from '../services/routeService'
+import { devError } from '../constants'
 import '../styles/WaypointDetailsSheet.css'
 
 interface RouteDetailsSheetProps {
@@ -11,6 +14,14 @@ interface RouteDetailsSheetProps {
   initialName?: string
   initialDescription?: string
   isEditing?: boolean
+  onEditGeometry?: () => void // Edit the route line on the map (existing routes only)
+  // Geometry operations on a saved route (shown when `route` is given)
+  route?: Route | null
+  onSplit?: (vertexIndex: number) => void
+  onTrim?: (end: 'start' | 'end', vertexIndex: number) => void
+  onReverse?: () => void
+  onMerge?: (otherRouteId: string) => void
+  onPreviewVertex?: (coordinates: [number, number] | null) => void // Highlight the chosen vertex on the map
 }
 
 const RouteDetailsSheet = ({
@@ -21,10 +32,24 @@ const RouteDetailsSheet = ({
   pointCount,
   initialName = '',
   initialDescription = '',
-  isEditing = false
+  isEditing = false,
+  onEditGeometry,
+  route,
+  onSplit,
+  onTrim,
+  onReverse,
+  onMerge,
+  onPreviewVertex
 }: RouteDetailsSheetProps) => {
   const [name, setName] = useState(initialName)
   const [description, setDescription] = useState(initialDescription)
+  const [vertexIndex, setVertexIndex] = useState(1)
+  const [mergeCandidates, setMergeCandidates] = useState<Route[]>([])
+  const [mergeRouteId, setMergeRouteId] = useState('')
+
+  const vertexCount = route?.coordinates.length ?? 0
+  const canCut = vertexCount >= 3 // Split and trim need an inner vertex
+  const showOperations = isOpen && !!route
 
   // Reset form when opening
   useEffect(() => {
@@ -34,6 +59,41 @@ const RouteDetailsSheet = ({
     }
   }, [isOpen, initialName, initialDescription])
 
+  // Default to the middle vertex whenever the route (or its geometry) changes
+  useEffect(() => {
+    if (route) {
+      setVertexIndex(Math.max(1, Math.floor((route.coordinates.length - 1) / 2)))
+    }
+  }, [route])
+
+  // Other routes that can be appended to this one
+  useEffect(() => {
+    if (!showOperations || !route) return
+
+    let cancelled = false
+    routeService.getAllRoutes()
+      .then(routes => {
+        if (cancelled) return
+        setMergeCandidates(routes.filter(r => r.id !== route.id && r.coordinates.length >= 2))
+        setMergeRouteId('')
+      })
+      .catch(error => devError('Failed to load routes for merging:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [showOperations, route])
+
+  // Show the selected split/trim vertex on the map while the sheet is open
+  useEffect(() => {
+    if (!onPreviewVertex) return
+    if (showOperations && canCut && route) {
+      onPreviewVertex(route.coordinates[vertexIndex] ?? null)
+    } else {
+      onPreviewVertex(null)
+    }
+  }, [onPreviewVertex, showOperations, canCut, route, vertexIndex])
+
   const handleSave = () => {
     const trimmedName = name.trim()
     if (!trimmedName) {
@@ -121,7 +181,93 @@ const RouteDetailsSheet = ({
                   <span className="route-info-value">{pointCount}</span>
                 </div>
               </div>
+              {isEditing && onEditGeometry && (
+                <button
+                  className="trk-btn trk-btn--sm trk-btn--secondary"
+                  onClick={onEditGeometry}
+                >
+                  <span className="material-symbols-outlined">edit</span>
+                  <span>Rediger linje på kartet</span>
+                </button>
+              )}
             </div>
+
+            <PhotoGallery ownerType="route" ownerId={route?.id} />
+
+            {route && (
+              <div className="form-group route-operations">
+                <label>Endre rute</label>
+                {canCut && (
+                  <div className="route-operations-vertex">
+                    <label htmlFor="route-vertex">
+                      Punkt {vertexIndex + 1} av {vertexCount} ({formatDistance(routeService.calculateDistance(route.coordinates.slice(0, vertexIndex + 1)))} fra start)
+                    </label>
+                    <input
+                      id="route-vertex"
+                      type="range"
+                      min={1}
+                      max={vertexCount - 2}
+                      value={vertexIndex}
+                      onChange={(e) => setVertexIndex(Number(e.target.value))}
+                    />
+                    <div className="route-operations-buttons">
+                      <button
+                        className="trk-btn trk-btn--sm trk-btn--secondary"
+                        onClick={() => onSplit?.(vertexIndex)}
+                      >
+                        <span className="material-symbols-outlined">content_cut</span>
+                        <span>Del her</span>
+                      </button>
+                      <button
+                        className="trk-btn trk-btn--sm trk-btn--secondary"
+                        onClick={() => onTrim?.('start', vertexIndex)}
+                      >
+                        <span className="material-symbols-outlined">first_page</span>
+                        <span>Fjern før</span>
+                      </button>
+                      <button
+                        className="trk-btn trk-btn--sm trk-btn--secondary"
+                        onClick={() => onTrim?.('end', vertexIndex)}
+                      >
+                        <span className="material-symbols-outlined">last_page</span>
+                        <span>Fjern etter</span>
+                      </button>
+                    </div>
+                  </div>
+                )}
+                <div className="route-operations-buttons">
+                  <button
+                    className="trk-btn trk-btn--sm trk-btn--secondary"
+                    onClick={onReverse}
+                  >
+                    <span className="material-symbols-outlined">swap_horiz</span>
+                    <span>Snu retning</span>
+                  </button>
+                </div>
+                {mergeCandidates.length > 0 && (
+                  <div className="route-operations-merge">
+                    <select
+                      aria-label="Rute som skal legges til på slutten"
+                      value={mergeRouteId}
+                      onChange={(e) => setMergeRouteId(e.target.value)}
+                    >
+                      <option value="">Slå sammen med...</option>
+                      {mergeCandidates.map(candidate => (
+                        <option key={candidate.id} value={candidate.id}>{candidate.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      className="trk-btn trk-btn--sm trk-btn--secondary"
+                      onClick={() => onMerge?.(mergeRouteId)}
+                      disabled={!mergeRouteId}
+                    >
+                      <span className="material-symbols-outlined">merge</span>
+                      <span>Slå sammen</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="waypoint-details-actions">
@@ -1,10 +1,22 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import Sheet from './Sheet'
-import { routeService, type Route, type Waypoint, type Project } from '../services/routeService'
+import { routeService, type Route, type Waypoint, type Project, type TrailGrade } from '../services/routeService'
 import { exportRouteToGpx, exportMultipleRoutesToGpx, downloadGpx, canExportRoute } from '../utils/gpxExport'
+import { readGpxFile } from '../utils/gpxImport'
+import { exportToKml, downloadKml, downloadKmz, readKmlFile } from '../utils/kml'
+import { exportToGeoJson, downloadGeoJson, readGeoJsonFile } from '../utils/geojson'
+import type { ImportedCollection } from '../utils/importedData'
 import { validateName } from '../utils/validation'
 import elevationService, { type ElevationProfile } from '../services/elevationService'
+import { durationEstimatorService, ACTIVITY_PROFILES, type ActivityProfile } from '../services/durationEstimatorService'
+import { mapPreferencesService } from '../services/mapPreferencesService'
+import { trailGradingService, GRADE_LABELS, GRADE_COLORS } from '../services/trailGradingService'
+import { photoWaypointService, type GeotaggedPhoto } from '../services/photoWaypointService'
+import { waypointCategoryService, type WaypointCategory } from '../services/waypointCategoryService'
+import { shareService } from '../services/shareService'
 import ElevationProfileChart from './ElevationProfileChart'
+import ImportPreview, { type ImportSelection } from './ImportPreview'
+import WaypointCategoryManager from './WaypointCategoryManager'
 import { devLog, devError } from '../constants'
 import '../styles/RouteSheet.css'
 
@@ -13,6 +25,9 @@ interface RouteSheetProps {
   onClose: () => void
   onStartDrawing: () => void
   onStartWaypointPlacement: () => void
+  onStartRecording: () => void
+  isRecording?: boolean
+  onStartNavigation: (route: Route) => void
   onSelectRoute: (route: Route) => void
   onSelectWaypoint: (waypoint: Waypoint) => void
   onDeleteRoute: (routeId: string) => void
@@ -21,19 +36,38 @@ interface RouteSheetProps {
   onEditWaypoint: (waypoint: Waypoint) => void
   onClearMapRoute: () => void
   onClearMapWaypoints: () => void
+  onWaypointsAdded?: (waypoints: Waypoint[]) => void
+  onReviewPhotoWaypoints?: (photos: GeotaggedPhoto[], withoutLocation: number) => void
+  onWaypointCategoriesChanged?: () => void // Category icons, colors or names changed
   onDataChanged?: number
   routesVisible: boolean
   onToggleVisibility: () => void
 }
 
-type ViewMode = 'list' | 'detail' | 'create'
+type ViewMode = 'list' | 'detail' | 'create' | 'import' | 'categories'
 type TabMode = 'routes' | 'projects'
+type KmlFormat = 'kml' | 'kmz'
+
+// Pick parser by file extension
+const readImportFile = (file: File): Promise<ImportedCollection> => {
+  const name = file.name.toLowerCase()
+  if (name.endsWith('.kml') || name.endsWith('.kmz')) {
+    return readKmlFile(file)
+  }
+  if (name.endsWith('.geojson') || name.endsWith('.json')) {
+    return readGeoJsonFile(file)
+  }
+  return readGpxFile(file)
+}
 
 const RouteSheet = ({
   isOpen,
   onClose,
   onStartDrawing,
   onStartWaypointPlacement,
+  onStartRecording,
+  isRecording = false,
+  onStartNavigation,
   onSelectRoute,
   onSelectWaypoint,
   onDeleteRoute,
@@ -42,6 +76,9 @@ const RouteSheet = ({
   onEditWaypoint,
   onClearMapRoute,
   onClearMapWaypoints,
+  onWaypointsAdded,
+  onReviewPhotoWaypoints,
+  onWaypointCategoriesChanged,
   onDataChanged,
   routesVisible,
   onToggleVisibility
@@ -51,12 +88,20 @@ const RouteSheet = ({
   const [routes, setRoutes] = useState<Route[]>([])
   const [waypoints, setWaypoints] = useState<Waypoint[]>([])
   const [projects, setProjects] = useState<Project[]>([])
+  const [categories, setCategories] = useState<WaypointCategory[]>([])
   const [selectedRoute, setSelectedRoute] = useState<Route | null>(null)
   const [selectedProject, setSelectedProject] = useState<Project | null>(null)
+  // Project with routes or waypoints waiting for the user to choose what happens to them
+  const [projectToDelete, setProjectToDelete] = useState<Project | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set())
   const [elevationProfile, setElevationProfile] = useState<ElevationProfile | null>(null)
   const [loadingElevation, setLoadingElevation] = useState(false)
+  const [importData, setImportData] = useState<{ collection: ImportedCollection; fileName: string } | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [isReadingPhotos, setIsReadingPhotos] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const photoInputRef = useRef<HTMLInputElement>(null)
 
   // Load routes and waypoints when sheet opens or data changes
   useEffect(() => {
@@ -94,14 +139,21 @@ const RouteSheet = ({
   const loadData = async () => {
     setIsLoading(true)
     try {
-      const [loadedRoutes, loadedWaypoints, loadedProjects] = await Promise.all([
+      const [loadedRoutes, loadedWaypoints, loadedProjects, loadedCategories] = await Promise.all([
         routeService.getAllRoutes(),
         routeService.getAllWaypoints(),
-        routeService.getAllProjects()
+        routeService.getAllProjects(),
+        waypointCategoryService.getAllCategories()
       ])
       setRoutes(loadedRoutes)
       setWaypoints(loadedWaypoints)
       setProjects(loadedProjects)
+      setCategories(loadedCategories)
+      // Keep an open route detail in sync with edits made elsewhere (e.g. geometry editing on the map)
+      setSelectedRoute(prev => {
+        const fresh = prev && loadedRoutes.find(r => r.id === prev.id)
+        return fresh && fresh.updatedAt !== prev.updatedAt ? fresh : prev
+      })
     } catch (error) {
       devError('Failed to load data:', error)
     } finally {
@@ -123,12 +175,40 @@ const RouteSheet = ({
     onClose()
   }
 
+  const handleStartRecording = () => {
+    onStartRecording()
+    onClose()
+  }
+
   const handleRouteClick = (route: Route) => {
     setSelectedRoute(route)
     setViewMode('detail')
     onSelectRoute(route)
   }
 
+  // Changing the activity re-estimates duration and grade
+  const handleChangeActivity = async (route: Route, activity: ActivityProfile) => {
+    try {
+      const updated = await routeService.updateRoute(route.id, { activity })
+      setSelectedRoute(await routeService.refreshRouteStats(updated))
+      await loadData()
+    } catch (error) {
+      devError('Failed to change route activity:', error)
+      alert('Kunne ikke endre aktivitet')
+    }
+  }
+
+  // 'auto' drops a manual grade and grades the route again
+  const handleChangeGrade = async (route: Route, value: TrailGrade | 'auto') => {
+    try {
+      setSelectedRoute(await routeService.setDifficultyOverride(route.id, value === 'auto' ? null : value))
+      await loadData()
+    } catch (error) {
+      devError('Failed to change route grade:', error)
+      alert('Kunne ikke endre gradering')
+    }
+  }
+
   const handleBack = () => {
     if (viewMode === 'detail' || viewMode === 'create') {
       setViewMode('list')
@@ -164,11 +244,26 @@ const RouteSheet = ({
   }
 
   const handleDeleteProject = async (projectId: string) => {
+    const project = projects.find(p => p.id === projectId)
+    if (project && (project.routes.length > 0 || project.waypoints.length > 0)) {
+      // Ask what happens to the contents instead (see renderDeleteProjectDialog)
+      setProjectToDelete(project)
+      return
+    }
+
     const confirmed = window.confirm('Er du sikker på at du vil slette dette prosjektet?')
     if (!confirmed) return
 
+    await deleteProject(projectId, 'keep')
+  }
+
+  const deleteProject = async (projectId: string, contents: 'delete' | 'keep') => {
+    setProjectToDelete(null)
     try {
-      await routeService.deleteProject(projectId)
+      const deleted = await routeService.deleteProject(projectId, contents)
+      // Notify Map to remove deleted contents from the map
+      deleted.routes.forEach(onDeleteRoute)
+      deleted.waypoints.forEach(onDeleteWaypoint)
       await loadData()
       if (selectedProject?.id === projectId) {
         setViewMode('list')
@@ -261,6 +356,275 @@ const RouteSheet = ({
     }
   }
 
+  const handleExportRouteKml = async (routeId: string, format: KmlFormat) => {
+    try {
+      const route = routes.find(r => r.id === routeId)
+      if (!route) throw new Error('Route not found')
+
+      if (!canExportRoute(route)) {
+        alert('Ruten må ha minst 2 punkter for å eksporteres')
+        return
+      }
+
+      const routeWaypoints = waypoints.filter(wp =>
+        route.waypoints && route.waypoints.includes(wp.id)
+      )
+
+      const kml = exportToKml({ routes: [route], waypoints: routeWaypoints }, route.name)
+      if (format === 'kmz') {
+        await downloadKmz(kml, route.name)
+      } else {
+        downloadKml(kml, route.name)
+      }
+    } catch (error) {
+      devError('Failed to export KML:', error)
+      alert('Kunne ikke eksportere KML')
+    }
+  }
+
+  const handleExportProjectKml = async (projectId: string, format: KmlFormat) => {
+    try {
+      const project = projects.find(p => p.id === projectId)
+      if (!project) throw new Error('Project not found')
+
+      const projectRoutes = routes.filter(r => project.routes.includes(r.id) && canExportRoute(r))
+      const projectWaypoints = waypoints.filter(wp => project.waypoints.includes(wp.id))
+      if (projectRoutes.length === 0 && projectWaypoints.length === 0) {
+        alert('Prosjektet har ingen ruter eller punkter å eksportere')
+        return
+      }
+
+      const kml = exportToKml(
+        { routes: projectRoutes, waypoints: projectWaypoints, projects: [project] },
+        project.name
+      )
+      if (format === 'kmz') {
+        await downloadKmz(kml, project.name)
+      } else {
+        downloadKml(kml, project.name)
+      }
+    } catch (error) {
+      devError('Failed to export project KML:', error)
+      alert('Kunne ikke eksportere prosjekt som KML')
+    }
+  }
+
+  // Share a route as a link that carries the route itself; uses the share sheet where available
+  const handleShareRoute = async (route: Route) => {
+    let link
+    try {
+      const routeWaypoints = waypoints.filter(wp => route.waypoints.includes(wp.id))
+      link = await shareService.createShareLink(route, routeWaypoints)
+    } catch (error) {
+      devError('Failed to create share link:', error)
+      alert('Ruten er for stor til å deles som lenke. Eksporter GPX i stedet.')
+      return
+    }
+
+    const simplifiedNote = link.tolerance > 0
+      ? `Ruten ble forenklet fra ${link.originalPointCount} til ${link.pointCount} punkter for å få plass i lenken.`
+      : ''
+
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: route.name, url: link.url })
+        if (simplifiedNote) alert(simplifiedNote)
+      } else {
+        await navigator.clipboard.writeText(link.url)
+        alert(`Lenken er kopiert. ${simplifiedNote}`.trim())
+      }
+    } catch (error) {
+      // The user closing the share sheet is not an error
+      if (error instanceof DOMException && error.name === 'AbortError') return
+      devError('Failed to share route link:', error)
+      alert('Kunne ikke dele lenken')
+    }
+  }
+
+  const handleExportGeoJson = (scope: { routeId?: string; projectId?: string }) => {
+    try {
+      let exportRoutes = routes
+      let exportWaypoints = waypoints
+      let exportProjects = projects
+      let filename = 'trakke'
+
+      if (scope.routeId) {
+        const route = routes.find(r => r.id === scope.routeId)
+        if (!route) throw new Error('Route not found')
+        exportRoutes = [route]
+        exportWaypoints = waypoints.filter(wp => route.waypoints.includes(wp.id))
+        exportProjects = []
+        filename = route.name
+      } else if (scope.projectId) {
+        const project = projects.find(p => p.id === scope.projectId)
+        if (!project) throw new Error('Project not found')
+        exportRoutes = routes.filter(r => project.routes.includes(r.id))
+        exportWaypoints = waypoints.filter(wp => project.waypoints.includes(wp.id))
+        exportProjects = [project]
+        filename = project.name
+      }
+
+      const content = exportToGeoJson({ routes: exportRoutes, waypoints: exportWaypoints, projects: exportProjects })
+      downloadGeoJson(content, filename)
+    } catch (error) {
+      devError('Failed to export GeoJSON:', error)
+      alert('Kunne ikke eksportere GeoJSON')
+    }
+  }
+
+  const handleImportFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow selecting the same file again
+    if (!file) return
+
+    try {
+      const collection = await readImportFile(file)
+      setImportData({ collection, fileName: file.name })
+      setViewMode('import')
+    } catch (error) {
+      devError('Failed to read import file:', error)
+      alert('Kunne ikke lese filen. Kontroller at det er en gyldig GPX-, KML-, KMZ- eller GeoJSON-fil.')
+    }
+  }
+
+  const handlePhotosSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    event.target.value = ''
+    if (files.length === 0 || !onReviewPhotoWaypoints) return
+
+    setIsReadingPhotos(true)
+    try {
+      const { photos, withoutLocation } = await photoWaypointService.readPhotos(files)
+      if (photos.length === 0) {
+        alert('Ingen av bildene har GPS-posisjon')
+        return
+      }
+      onReviewPhotoWaypoints(photos, withoutLocation)
+    } catch (error) {
+      devError('Failed to read photos:', error)
+      alert('Kunne ikke lese bildene')
+    } finally {
+      setIsReadingPhotos(false)
+    }
+  }
+
+  const handleConfirmImport = async (selection: ImportSelection) => {
+    if (!importData) return
+    const { collection } = importData
+
+    let projectName: string | null = null
+    if (selection.projectName !== null) {
+      projectName = validateName(selection.projectName)
+      if (!projectName) return
+    }
+
+    setIsImporting(true)
+    try {
+      // Created IDs by index in the import file, so folders can be mapped to projects
+      const waypointIds = new Map<number, string>()
+      const routeIds = new Map<number, string>()
+      const createdWaypoints: Waypoint[] = []
+
+      for (const index of selection.waypointIndexes) {
+        const wp = collection.waypoints[index]
+        const created = await routeService.createWaypoint({
+          name: wp.name,
+          description: wp.description,
+          category: wp.category,
+          coordinates: wp.coordinates,
+          elevation: wp.elevation,
+          color: wp.color,
+          icon: wp.icon || 'location_on',
+          createdAt: wp.createdAt ?? wp.time,
+          updatedAt: wp.updatedAt
+        })
+        waypointIds.set(index, created.id)
+        createdWaypoints.push(created)
+      }
+
+      // Without explicit references, a single route owns the file's waypoints (matches GPX export)
+      const defaultRouteWaypointIds = selection.routeIndexes.length === 1 ? createdWaypoints.map(wp => wp.id) : []
+
+      for (const index of selection.routeIndexes) {
+        const imported = collection.routes[index]
+        const timestamps = imported.timestamps
+        const route = await routeService.createRoute({
+          name: imported.name,
+          description: imported.description,
+          coordinates: imported.coordinates,
+          elevations: imported.elevations,
+          timestamps,
+          waypoints: imported.waypointIndexes
+            ? imported.waypointIndexes.map(i => waypointIds.get(i)).filter((id): id is string => !!id)
+            : defaultRouteWaypointIds,
+          distance: imported.distance,
+          elevationGain: imported.elevationGain,
+          elevationLoss: imported.elevationLoss,
+          difficulty: imported.difficulty,
+          difficultyReasons: imported.difficultyReasons,
+          difficultyManual: imported.difficultyManual,
+          activity: imported.activity,
+          color: imported.color,
+          createdAt: imported.createdAt,
+          updatedAt: imported.updatedAt,
+          // Timed tracks were actually walked: keep their duration and completion time
+          duration: imported.duration ?? (timestamps ? Math.round((timestamps[timestamps.length - 1] - timestamps[0]) / 60000) : undefined),
+          completedAt: imported.completedAt ?? (timestamps ? timestamps[timestamps.length - 1] : undefined)
+        })
+        routeIds.set(index, route.id)
+      }
+
+      let projectsCreated = 0
+
+      if (selection.foldersAsProjects && collection.folders) {
+        for (const folder of collection.folders) {
+          const folderRoutes = folder.routeIndexes.map(i => routeIds.get(i)).filter((id): id is string => !!id)
+          const folderWaypoints = folder.waypointIndexes.map(i => waypointIds.get(i)).filter((id): id is string => !!id)
+          const hadContents = folder.routeIndexes.length > 0 || folder.waypointIndexes.length > 0
+          if (hadContents && folderRoutes.length === 0 && folderWaypoints.length === 0) continue
+
+          await routeService.createProject({
+            name: folder.name,
+            description: folder.description,
+            color: folder.color,
+            routes: folderRoutes,
+            waypoints: folderWaypoints,
+            createdAt: folder.createdAt,
+            updatedAt: folder.updatedAt
+          })
+          projectsCreated++
+        }
+      }
+
+      if (projectName) {
+        await routeService.createProject({
+          name: projectName,
+          routes: Array.from(routeIds.values()),
+          waypoints: Array.from(waypointIds.values())
+        })
+        projectsCreated++
+      }
+
+      devLog(`[RouteSheet] Imported ${routeIds.size} routes, ${waypointIds.size} waypoints and ${projectsCreated} projects`)
+      onWaypointsAdded?.(createdWaypoints)
+      setImportData(null)
+      setViewMode('list')
+      if (projectsCreated > 0) setTabMode('projects')
+      await loadData()
+    } catch (error) {
+      devError('Failed to import:', error)
+      alert('Kunne ikke importere alle elementene')
+      await loadData()
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleCancelImport = () => {
+    setImportData(null)
+    setViewMode('list')
+  }
+
   const handleDeleteRoute = async (routeId: string) => {
     const confirmed = window.confirm('Er du sikker på at du vil slette denne ruten?')
     if (!confirmed) return
@@ -320,7 +684,9 @@ const RouteSheet = ({
     const grouped = new Map<string, Waypoint[]>()
 
     waypoints.forEach(waypoint => {
-      const category = waypoint.category || 'Ukategorisert'
+      // The registry name, so differences in case don't split a category
+      const category = waypointCategoryService.findCategory(categories, waypoint.category)?.name ||
+        waypoint.category || 'Ukategorisert'
       if (!grouped.has(category)) {
         grouped.set(category, [])
       }
@@ -404,6 +770,48 @@ const RouteSheet = ({
               >
                 Legg til punkt
               </button>
+              <button
+                type="button"
+                className="trk-btn trk-btn--md trk-btn--secondary"
+                onClick={handleStartRecording}
+                disabled={isRecording}
+              >
+                {isRecording ? 'Sporing pågår' : 'Start sporing'}
+              </button>
+              <button
+                type="button"
+                className="trk-btn trk-btn--md trk-btn--secondary"
+                onClick={() => importInputRef.current?.click()}
+              >
+                Importer fil
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".gpx,.kml,.kmz,.geojson,.json,application/gpx+xml,application/vnd.google-earth.kml+xml,application/vnd.google-earth.kmz,application/geo+json"
+                onChange={handleImportFileSelected}
+                style={{ display: 'none' }}
+              />
+              {onReviewPhotoWaypoints && (
+                <>
+                  <button
+                    type="button"
+                    className="trk-btn trk-btn--md trk-btn--secondary"
+                    onClick={() => photoInputRef.current?.click()}
+                    disabled={isReadingPhotos}
+                  >
+                    {isReadingPhotos ? 'Leser bilder...' : 'Punkter fra bilder'}
+                  </button>
+                  <input
+                    ref={photoInputRef}
+                    type="file"
+                    accept="image/jpeg,image/heic,image/heif,.jpg,.jpeg,.heic,.heif"
+                    multiple
+                    onChange={handlePhotosSelected}
+                    style={{ display: 'none' }}
+                  />
+                </>
+              )}
             </section>
 
             {/* Clear map buttons */}
@@ -425,6 +833,15 @@ const RouteSheet = ({
               >
                 {routesVisible ? 'Skjul punkter' : 'Vis punkter'}
               </button>
+              {(routes.length > 0 || waypoints.length > 0) && (
+                <button
+                  type="button"
+                  className="trk-btn trk-btn--md trk-btn--ghost"
+                  onClick={() => handleExportGeoJson({})}
+                >
+                  Eksporter alt (GeoJSON)
+                </button>
+              )}
             </section>
 
             {/* Routes list */}
@@ -444,6 +861,13 @@ const RouteSheet = ({
                       <div className="route-item-content">
                         <div className="route-item-name">{route.name}</div>
                         <div className="route-item-meta">
+                          {route.difficulty && (
+                            <span
+                              className="route-grade-dot"
+                              style={{ background: GRADE_COLORS[route.difficulty] }}
+                              title={GRADE_LABELS[route.difficulty]}
+                            />
+                          )}
                           {formatDistance(route.distance)} • {formatDate(route.createdAt)}
                         </div>
                       </div>
@@ -477,11 +901,22 @@ const RouteSheet = ({
 
             {/* Waypoints list - Hierarchical by category */}
             <section className="route-section">
-              <h3>Mine punkter ({waypoints.length})</h3>
+              <div className="route-section-header">
+                <h3>Mine punkter ({waypoints.length})</h3>
+                <button
+                  type="button"
+                  className="trk-btn trk-btn--sm trk-btn--ghost"
+                  onClick={() => setViewMode('categories')}
+                >
+                  <span className="material-symbols-outlined">category</span>
+                  <span>Kategorier</span>
+                </button>
+              </div>
               {waypoints.length > 0 && (
                 <div className="waypoint-categories">
                   {groupWaypointsByCategory().map(({ category, waypoints: categoryWaypoints }) => {
                     const isCollapsed = collapsedCategories.has(category)
+                    const registered = waypointCategoryService.findCategory(categories, category)
                     return (
                       <div key={category} className="waypoint-category">
                         <button
@@ -492,6 +927,11 @@ const RouteSheet = ({
                           <span className="material-symbols-outlined category-chevron">
                             {isCollapsed ? 'chevron_right' : 'expand_more'}
                           </span>
+                          {registered && (
+                            <span className="material-symbols-outlined category-icon" style={{ color: registered.color }}>
+                              {registered.icon}
+                            </span>
+                          )}
                           <span className="category-name">{category}</span>
                           <span className="category-count">({categoryWaypoints.length})</span>
                         </button>
@@ -504,9 +944,9 @@ const RouteSheet = ({
                                 onClick={() => onSelectWaypoint(waypoint)}
                                 style={{ cursor: 'pointer' }}
                               >
-                                <div className="route-item-icon">
+                                <div className="route-item-icon" style={registered ? { background: registered.color } : undefined}>
                                   <span className="material-symbols-outlined">
-                                    {waypoint.icon || 'location_on'}
+                                    {registered?.icon || waypoint.icon || 'location_on'}
                                   </span>
                                 </div>
                                 <div className="route-item-content">
@@ -679,6 +1119,28 @@ const RouteSheet = ({
                   Eksporter GPX
                 </button>
               )}
+              {(projectRoutes.length > 0 || projectWaypoints.length > 0) && (
+                <>
+                  <button
+                    className="trk-btn trk-btn--md trk-btn--secondary"
+                    onClick={() => handleExportProjectKml(project.id, 'kml')}
+                  >
+                    Eksporter KML
+                  </button>
+                  <button
+                    className="trk-btn trk-btn--md trk-btn--secondary"
+                    onClick={() => handleExportProjectKml(project.id, 'kmz')}
+                  >
+                    Eksporter KMZ
+                  </button>
+                </>
+              )}
+              <button
+                className="trk-btn trk-btn--md trk-btn--secondary"
+                onClick={() => handleExportGeoJson({ projectId: project.id })}
+              >
+                Eksporter GeoJSON
+              </button>
               <button
                 className="trk-btn trk-btn--md trk-btn--danger"
                 onClick={() => handleDeleteProject(project.id)}
@@ -694,6 +1156,15 @@ const RouteSheet = ({
 
   // Route Detail View
   const renderRouteDetail = (route: Route) => {
+    const activity = route.activity ?? mapPreferencesService.getPreferences().activityProfile
+    // Older routes have no stored estimate or grade; compute them on the fly
+    const duration = route.duration ?? durationEstimatorService.estimateRoute(route, elevationProfile).duration
+    const liveGrade = !route.difficulty || !route.difficultyReasons
+      ? trailGradingService.classify(route, elevationProfile)
+      : null
+    const difficulty = route.difficulty ?? liveGrade?.grade
+    const difficultyReasons = route.difficultyReasons ?? liveGrade?.reasons ?? []
+
     return (
       <div className="route-sheet">
         <div className="route-sheet-content">
@@ -708,8 +1179,8 @@ const RouteSheet = ({
                 <span className="route-stat-value">{formatDistance(route.distance)}</span>
               </div>
               <div className="route-stat">
-                <span className="route-stat-label">Varighet</span>
-                <span className="route-stat-value">{formatDuration(route.duration)}</span>
+                <span className="route-stat-label">{route.completedAt ? 'Varighet' : 'Estimert tid'}</span>
+                <span className="route-stat-value">{formatDuration(duration)}</span>
               </div>
               {route.elevationGain && (
                 <div className="route-stat">
@@ -717,18 +1188,58 @@ const RouteSheet = ({
                   <span className="route-stat-value">{route.elevationGain} m</span>
                 </div>
               )}
-              {route.difficulty && (
+              {difficulty && (
                 <div className="route-stat">
-                  <span className="route-stat-label">Vanskelighet</span>
-                  <span className="route-stat-value">
-                    {route.difficulty === 'easy' && 'Lett'}
-                    {route.difficulty === 'moderate' && 'Middels'}
-                    {route.difficulty === 'hard' && 'Krevende'}
+                  <span className="route-stat-label">Gradering</span>
+                  <span className="route-stat-value route-grade-value">
+                    <span className="route-grade-dot" style={{ background: GRADE_COLORS[difficulty] }} aria-hidden="true" />
+                    {GRADE_LABELS[difficulty]}
                   </span>
                 </div>
               )}
             </div>
 
+            <div className="route-activity">
+              <label htmlFor="route-activity">Aktivitet</label>
+              <select
+                id="route-activity"
+                value={activity}
+                onChange={(e) => handleChangeActivity(route, e.target.value as ActivityProfile)}
+              >
+                {(Object.keys(ACTIVITY_PROFILES) as ActivityProfile[]).map(key => (
+                  <option key={key} value={key}>{ACTIVITY_PROFILES[key].label}</option>
+                ))}
+              </select>
+            </div>
+
+            {difficulty && (
+              <div className="route-grade">
+                <div className="route-activity">
+                  <label htmlFor="route-grade">Gradering (DNT)</label>
+                  <select
+                    id="route-grade"
+                    value={route.difficultyManual ? difficulty : 'auto'}
+                    onChange={(e) => handleChangeGrade(route, e.target.value as TrailGrade | 'auto')}
+                  >
+                    <option value="auto">Automatisk</option>
+                    {(Object.keys(GRADE_LABELS) as TrailGrade[]).map(grade => (
+                      <option key={grade} value={grade}>{GRADE_LABELS[grade]}</option>
+                    ))}
+                  </select>
+                </div>
+                {route.difficultyManual && (
+                  <p className="route-grade-note">Satt manuelt. Automatisk vurdering:</p>
+                )}
+                {difficultyReasons.length > 0 && (
+                  <ul className="route-grade-reasons">
+                    {difficultyReasons.map(reason => (
+                      <li key={reason}>{reason}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
             <div className="route-detail-meta">
               <p>Opprettet: {formatDate(route.createdAt)}</p>
               {route.completedAt && (
@@ -788,11 +1299,45 @@ const RouteSheet = ({
             <div className="route-detail-actions">
               <button
                 className="trk-btn trk-btn--md trk-btn--primary"
+                onClick={() => onStartNavigation(route)}
+                disabled={route.coordinates.length < 2}
+              >
+                Start navigasjon
+              </button>
+              <button
+                className="trk-btn trk-btn--md trk-btn--secondary"
+                onClick={() => handleShareRoute(route)}
+                disabled={!canExportRoute(route)}
+              >
+                Del lenke
+              </button>
+              <button
+                className="trk-btn trk-btn--md trk-btn--secondary"
                 onClick={() => handleExportRouteGpx(route.id)}
                 disabled={!canExportRoute(route)}
               >
                 Eksporter GPX
               </button>
+              <button
+                className="trk-btn trk-btn--md trk-btn--secondary"
+                onClick={() => handleExportRouteKml(route.id, 'kml')}
+                disabled={!canExportRoute(route)}
+              >
+                Eksporter KML
+              </button>
+              <button
+                className="trk-btn trk-btn--md trk-btn--secondary"
+                onClick={() => handleExportRouteKml(route.id, 'kmz')}
+                disabled={!canExportRoute(route)}
+              >
+                Eksporter KMZ
+              </button>
+              <button
+                className="trk-btn trk-btn--md trk-btn--secondary"
+                onClick={() => handleExportGeoJson({ routeId: route.id })}
+              >
+                Eksporter GeoJSON
+              </button>
               <button
                 className="trk-btn trk-btn--md trk-btn--danger"
                 onClick={() => handleDeleteRoute(route.id)}
@@ -806,6 +1351,34 @@ const RouteSheet = ({
     )
   }
 
+  const renderDeleteProjectDialog = (project: Project) => (
+    <div className="route-dialog-backdrop" onClick={() => setProjectToDelete(null)}>
+      <div
+        className="route-dialog"
+        role="alertdialog"
+        aria-labelledby="delete-project-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="delete-project-title">Slette «{project.name}»?</h3>
+        <p>
+          Prosjektet har {project.routes.length} ruter og {project.waypoints.length} punkter.
+          Ruter og punkter som også ligger i andre prosjekter, beholdes uansett.
+        </p>
+        <div className="route-dialog-actions">
+          <button className="trk-btn trk-btn--md trk-btn--danger" onClick={() => deleteProject(project.id, 'delete')}>
+            Slett prosjektet og innholdet
+          </button>
+          <button className="trk-btn trk-btn--md trk-btn--secondary" onClick={() => deleteProject(project.id, 'keep')}>
+            Slett prosjektet, behold innholdet
+          </button>
+          <button className="trk-btn trk-btn--md trk-btn--ghost" onClick={() => setProjectToDelete(null)} autoFocus>
+            Avbryt
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+
   return (
     <Sheet
       isOpen={isOpen}
@@ -820,6 +1393,27 @@ const RouteSheet = ({
       {viewMode === 'list' && renderListView()}
       {viewMode === 'detail' && selectedRoute && renderRouteDetail(selectedRoute)}
       {viewMode === 'detail' && selectedProject && renderProjectDetail(selectedProject)}
+      {viewMode === 'categories' && (
+        <WaypointCategoryManager
+          categories={categories}
+          waypoints={waypoints}
+          onChanged={() => {
+            loadData()
+            onWaypointCategoriesChanged?.()
+          }}
+          onBack={() => setViewMode('list')}
+        />
+      )}
+      {viewMode === 'import' && importData && (
+        <ImportPreview
+          collection={importData.collection}
+          fileName={importData.fileName}
+          isSaving={isImporting}
+          onConfirm={handleConfirmImport}
+          onCancel={handleCancelImport}
+        />
+      )}
+      {projectToDelete && renderDeleteProjectDialog(projectToDelete)}
     </Sheet>
   )
 }
@@ -0,0 +1,73 @@
+import Sheet from './Sheet'
+import type { SharedRoute } from '../services/shareService'
+import { routeService } from '../services/routeService'
+import { formatDistance } from '../services/measurementService'
+import '../styles/RouteSheet.css'
+
+interface SharedRouteSheetProps {
+  route: SharedRoute | null
+  isImporting: boolean
+  onImport: () => void
+  onCancel: () => void
+}
+
+// Preview of a route opened from a share link; nothing is saved until the user imports it
+const SharedRouteSheet = ({ route, isImporting, onImport, onCancel }: SharedRouteSheetProps) => {
+  return (
+    <Sheet
+      isOpen={route !== null}
+      onClose={onCancel}
+      peekHeight={30}
+      halfHeight={40}
+      initialHeight="half"
+      showBackdrop={false}
+    >
+      <button className="sheet-close-button" onClick={onCancel} aria-label="Lukk delt rute">
+        <span className="material-symbols-outlined">close</span>
+      </button>
+      {route && (
+        <div className="route-sheet">
+          <div className="route-sheet-content">
+            <section className="route-section">
+              <h3>Delt rute</h3>
+              <div className="route-item">
+                <div className="route-item-icon">
+                  <span className="material-symbols-outlined">route</span>
+                </div>
+                <div className="route-item-content">
+                  <div className="route-item-name">{route.name}</div>
+                  <div className="route-item-meta">
+                    {formatDistance(routeService.calculateDistance(route.coordinates))}
+                    {route.waypoints.length > 0 && ` • ${route.waypoints.length} ${route.waypoints.length === 1 ? 'punkt' : 'punkter'}`}
+                  </div>
+                </div>
+              </div>
+              {route.description && <p className="route-empty-state">{route.description}</p>}
+            </section>
+
+            <div className="route-detail-actions">
+              <button
+                type="button"
+                className="trk-btn trk-btn--md trk-btn--primary"
+                onClick={onImport}
+                disabled={isImporting}
+              >
+                {isImporting ? 'Importerer...' : 'Importer'}
+              </button>
+              <button
+                type="button"
+                className="trk-btn trk-btn--md trk-btn--ghost"
+                onClick={onCancel}
+                disabled={isImporting}
+              >
+                Avbryt
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </Sheet>
+  )
+}
+
+export default SharedRouteSheet
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react'
+import { trackRecordingService, type TrackRecording } from '../services/trackRecordingService'
+import { formatDistance } from '../services/measurementService'
+
+interface TrackRecordingBannerProps {
+  recording: TrackRecording
+  onPause: () => void
+  onResume: () => void
+  onStop: () => void
+  onDiscard: () => void
+}
+
+const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`
+}
+
+// Separate component so the once-per-second clock doesn't re-render the whole map
+const TrackRecordingBanner = ({
+  recording,
+  onPause,
+  onResume,
+  onStop,
+  onDiscard
+}: TrackRecordingBannerProps) => {
+  const [now, setNow] = useState(() => Date.now())
+  const isPaused = recording.status === 'paused'
+
+  useEffect(() => {
+    if (isPaused) return
+
+    const interval = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(interval)
+  }, [isPaused])
+
+  const elapsed = trackRecordingService.getMovingTime(recording, isPaused ? undefined : now)
+
+  return (
+    <div className="drawing-banner recording-banner" role="status">
+      <div className="drawing-banner-content">
+        <span className={`material-symbols-outlined recording-indicator${isPaused ? ' paused' : ''}`}>
+          {isPaused ? 'pause_circle' : 'radio_button_checked'}
+        </span>
+        <div className="drawing-banner-text">
+          <strong>{isPaused ? 'Sporing pauset' : 'Sporer'}</strong>
+          <span>{formatDistance(recording.distance)} · {formatElapsed(elapsed)}</span>
+        </div>
+      </div>
+      <button
+        className="drawing-banner-close"
+        onClick={isPaused ? onResume : onPause}
+        aria-label={isPaused ? 'Fortsett sporing' : 'Pause sporing'}
+      >
+        <span className="material-symbols-outlined">{isPaused ? 'play_arrow' : 'pause'}</span>
+      </button>
+      <button
+        className="drawing-banner-finish"
+        onClick={onStop}
+        aria-label="Avslutt og lagre spor"
+      >
+        <span className="material-symbols-outlined">check</span>
+        <span>Lagre</span>
+      </button>
+      <button
+        className="drawing-banner-close"
+        onClick={onDiscard}
+        aria-label="Forkast spor"
+      >
+        <span className="material-symbols-outlined">close</span>
+      </button>
+    </div>
+  )
+}
+
+export default TrackRecordingBanner
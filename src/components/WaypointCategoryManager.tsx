@@ -0,0 +1,219 @@
+import { useState } from 'react'
+import {
+  waypointCategoryService,
+  CATEGORY_ICONS,
+  CATEGORY_COLORS,
+  type WaypointCategory
+} from '../services/waypointCategoryService'
+import type { Waypoint } from '../services/routeService'
+import { validateName } from '../utils/validation'
+import { devError } from '../constants'
+
+interface WaypointCategoryManagerProps {
+  categories: WaypointCategory[]
+  waypoints: Waypoint[]
+  onChanged: () => void // Categories or waypoints changed; reload
+  onBack: () => void
+}
+
+// Management of waypoint categories: icon, color, rename, merge and delete
+const WaypointCategoryManager = ({ categories, waypoints, onChanged, onBack }: WaypointCategoryManagerProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [isBusy, setIsBusy] = useState(false)
+
+  const countWaypoints = (category: WaypointCategory) =>
+    waypoints.filter(waypoint => waypointCategoryService.findCategory([category], waypoint.category)).length
+
+  // Run a change, then reload. Name conflicts get their own message.
+  const run = async (action: () => Promise<unknown>, failureMessage: string) => {
+    setIsBusy(true)
+    try {
+      await action()
+      onChanged()
+    } catch (error) {
+      devError('Waypoint category change failed:', error)
+      alert(error instanceof Error && error.message.startsWith('Category already exists')
+        ? 'Det finnes allerede en kategori med det navnet'
+        : failureMessage)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleCreate = () => {
+    const name = validateName(prompt('Navn på ny kategori:'))
+    if (!name) return
+    run(() => waypointCategoryService.createCategory(name), 'Kunne ikke opprette kategorien')
+  }
+
+  const handleRename = (category: WaypointCategory) => {
+    const name = validateName(prompt('Nytt navn på kategorien:', category.name))
+    if (!name || name === category.name) return
+    run(() => waypointCategoryService.renameCategory(category.id, name), 'Kunne ikke endre navn')
+  }
+
+  const handleMerge = (category: WaypointCategory) => {
+    const target = categories.find(c => c.id === mergeTargetId)
+    if (!target) return
+    if (!window.confirm(`Flytte alle punkter fra «${category.name}» til «${target.name}» og slette «${category.name}»?`)) return
+    setExpandedId(null)
+    run(() => waypointCategoryService.mergeCategories(category.id, target.id), 'Kunne ikke slå sammen kategoriene')
+  }
+
+  const handleDelete = (category: WaypointCategory) => {
+    const count = countWaypoints(category)
+    const message = count > 0
+      ? `Slette kategorien «${category.name}»? ${count} ${count === 1 ? 'punkt blir' : 'punkter blir'} ukategorisert.`
+      : `Slette kategorien «${category.name}»?`
+    if (!window.confirm(message)) return
+    setExpandedId(null)
+    run(() => waypointCategoryService.deleteCategory(category.id), 'Kunne ikke slette kategorien')
+  }
+
+  const toggleExpanded = (id: string) => {
+    setExpandedId(prev => prev === id ? null : id)
+    setMergeTargetId('')
+  }
+
+  return (
+    <div className="route-sheet">
+      <div className="route-sheet-content">
+        <section className="route-section">
+          <h3>Kategorier for punkter</h3>
+        </section>
+
+        <section className="route-actions">
+          <button
+            type="button"
+            className="trk-btn trk-btn--md trk-btn--primary"
+            onClick={handleCreate}
+            disabled={isBusy}
+          >
+            Ny kategori
+          </button>
+        </section>
+
+        <section className="route-section">
+          {categories.length === 0 ? (
+            <p className="route-empty-state">Ingen kategorier ennå</p>
+          ) : (
+            <div className="route-list">
+              {categories.map(category => (
+                <div key={category.id} className="waypoint-category-entry">
+                  <div className="route-item">
+                    <div className="route-item-icon" style={{ background: category.color }}>
+                      <span className="material-symbols-outlined">{category.icon}</span>
+                    </div>
+                    <div className="route-item-content">
+                      <div className="route-item-name">{category.name}</div>
+                      <div className="route-item-meta">
+                        {countWaypoints(category)} {countWaypoints(category) === 1 ? 'punkt' : 'punkter'}
+                      </div>
+                    </div>
+                    <div className="route-item-actions">
+                      <button
+                        className="route-item-edit"
+                        onClick={() => toggleExpanded(category.id)}
+                        aria-label="Rediger kategori"
+                        aria-expanded={expandedId === category.id}
+                        disabled={isBusy}
+                      >
+                        <span className="material-symbols-outlined">edit</span>
+                      </button>
+                      <button
+                        className="route-item-delete"
+                        onClick={() => handleDelete(category)}
+                        aria-label="Slett kategori"
+                        disabled={isBusy}
+                      >
+                        <span className="material-symbols-outlined">delete</span>
+                      </button>
+                    </div>
+                  </div>
+
+                  {expandedId === category.id && (
+                    <div className="waypoint-category-editor">
+                      <div className="waypoint-category-options" role="radiogroup" aria-label="Ikon">
+                        {CATEGORY_ICONS.map(icon => (
+                          <button
+                            key={icon}
+                            className={`waypoint-category-option ${category.icon === icon ? 'active' : ''}`}
+                            onClick={() => run(() => waypointCategoryService.updateCategory(category.id, { icon }), 'Kunne ikke endre ikon')}
+                            role="radio"
+                            aria-checked={category.icon === icon}
+                            aria-label={icon}
+                            disabled={isBusy}
+                          >
+                            <span className="material-symbols-outlined" style={{ color: category.color }}>{icon}</span>
+                          </button>
+                        ))}
+                      </div>
+                      <div className="waypoint-category-options" role="radiogroup" aria-label="Farge">
+                        {CATEGORY_COLORS.map(color => (
+                          <button
+                            key={color}
+                            className={`waypoint-category-option waypoint-category-color ${category.color === color ? 'active' : ''}`}
+                            onClick={() => run(() => waypointCategoryService.updateCategory(category.id, { color }), 'Kunne ikke endre farge')}
+                            role="radio"
+                            aria-checked={category.color === color}
+                            aria-label={color}
+                            disabled={isBusy}
+                          >
+                            <span style={{ background: color }} />
+                          </button>
+                        ))}
+                      </div>
+                      <div className="waypoint-category-actions">
+                        <button
+                          className="trk-btn trk-btn--sm trk-btn--secondary"
+                          onClick={() => handleRename(category)}
+                          disabled={isBusy}
+                        >
+                          Endre navn
+                        </button>
+                      </div>
+                      {categories.length > 1 && (
+                        <div className="waypoint-category-actions">
+                          <select
+                            value={mergeTargetId}
+                            onChange={(e) => setMergeTargetId(e.target.value)}
+                            aria-label="Slå sammen med"
+                          >
+                            <option value="">Slå sammen med...</option>
+                            {categories.filter(c => c.id !== category.id).map(c => (
+                              <option key={c.id} value={c.id}>{c.name}</option>
+                            ))}
+                          </select>
+                          <button
+                            className="trk-btn trk-btn--sm trk-btn--secondary"
+                            onClick={() => handleMerge(category)}
+                            disabled={!mergeTargetId || isBusy}
+                          >
+                            Slå sammen
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <div className="route-detail-actions">
+          <button
+            type="button"
+            className="trk-btn trk-btn--md trk-btn--ghost"
+            onClick={onBack}
+          >
+            Tilbake
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default WaypointCategoryManager
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react'
 import Sheet from './Sheet'
+import PhotoGallery from './PhotoGallery'
 import { coordinateService, type CoordinateFormat } from '../services/coordinateService'
 import { mapPreferencesService } from '../services/mapPreferencesService'
+import { waypointCategoryService, type WaypointCategory } from '../services/waypointCategoryService'
+import { validateName } from '../utils/validation'
+import { devError } from '../constants'
 import '../styles/WaypointDetailsSheet.css'
 
 interface WaypointDetailsSheetProps {
@@ -12,8 +16,12 @@ interface WaypointDetailsSheetProps {
   initialName?: string
   initialCategory?: string
   isEditing?: boolean
+  waypointId?: string // Saved waypoint, enables photo attachments
 }
 
+// Select value that opens the prompt for a new category
+const NEW_CATEGORY = '__new__'
+
 const WaypointDetailsSheet = ({
   isOpen,
   onClose,
@@ -21,11 +29,13 @@ const WaypointDetailsSheet = ({
   coordinates,
   initialName = '',
   initialCategory = '',
-  isEditing = false
+  isEditing = false,
+  waypointId
 }: WaypointDetailsSheetProps) => {
   const [name, setName] = useState(initialName)
   const [category, setCategory] = useState(initialCategory)
   const [coordinateFormat, setCoordinateFormat] = useState<CoordinateFormat>('DD')
+  const [categories, setCategories] = useState<WaypointCategory[]>([])
 
   // Load coordinate format preference
   useEffect(() => {
@@ -41,6 +51,35 @@ const WaypointDetailsSheet = ({
     }
   }, [isOpen, initialName, initialCategory])
 
+  // Load the category registry when opening
+  useEffect(() => {
+    if (!isOpen) return
+    waypointCategoryService.getAllCategories()
+      .then(setCategories)
+      .catch(error => devError('Failed to load waypoint categories:', error))
+  }, [isOpen])
+
+  const handleCategoryChange = async (value: string) => {
+    if (value !== NEW_CATEGORY) {
+      setCategory(value)
+      return
+    }
+
+    const newName = validateName(prompt('Navn på ny kategori:'))
+    if (!newName) return
+    try {
+      const existing = waypointCategoryService.findCategory(categories, newName)
+      const created = existing ?? await waypointCategoryService.createCategory(newName)
+      if (!existing) setCategories(prev => [...prev, created].sort((a, b) => a.name.localeCompare(b.name, 'nb-NO')))
+      setCategory(created.name)
+    } catch (error) {
+      devError('Failed to create waypoint category:', error)
+      alert('Kunne ikke opprette kategorien')
+    }
+  }
+
+  const selectedCategory = waypointCategoryService.findCategory(categories, category)
+
   const handleSave = () => {
     const trimmedName = name.trim()
     if (!trimmedName) {
@@ -103,14 +142,27 @@ const WaypointDetailsSheet = ({
 
             <div className="form-group">
               <label htmlFor="waypoint-category">Kategori (valgfritt)</label>
-              <input
-                id="waypoint-category"
-                type="text"
-                value={category}
-                onChange={(e) => setCategory(e.target.value)}
-                placeholder="F.eks. Hengekøyeplass, Bålplass..."
-                maxLength={50}
-              />
+              <div className="waypoint-category-select">
+                <span
+                  className="material-symbols-outlined"
+                  style={{ color: selectedCategory?.color }}
+                  aria-hidden="true"
+                >
+                  {selectedCategory?.icon ?? 'label_off'}
+                </span>
+                <select
+                  id="waypoint-category"
+                  value={selectedCategory?.name ?? category}
+                  onChange={(e) => handleCategoryChange(e.target.value)}
+                >
+                  <option value="">Ingen kategori</option>
+                  {categories.map(c => (
+                    <option key={c.id} value={c.name}>{c.name}</option>
+                  ))}
+                  {category && !selectedCategory && <option value={category}>{category}</option>}
+                  <option value={NEW_CATEGORY}>Ny kategori...</option>
+                </select>
+              </div>
             </div>
 
             <div className="form-group">
@@ -141,6 +193,8 @@ const WaypointDetailsSheet = ({
               </div>
               <div className="coordinate-hint">Format: {coordinateService.getFormatName(coordinateFormat)}</div>
             </div>
+
+            <PhotoGallery ownerType="waypoint" ownerId={waypointId} />
           </div>
 
           <div className="waypoint-details-actions">
@@ -19,6 +19,9 @@ export const UI_DELAYS = {
 
   /** Notification display duration (2 seconds) */
   NOTIFICATION_DISPLAY: 2000,
+
+  /** Map view to URL debounce (500ms) - browsers rate limit history updates */
+  URL_STATE_DEBOUNCE: 500,
 } as const
 
 /**
@@ -56,6 +59,9 @@ export const REQUEST_TIMEOUTS = {
 
   /** Supabase API timeout (15 seconds) */
   SUPABASE: 15000,
+
+  /** WebDAV sync timeout (30 seconds) - the sync file holds all routes */
+  SYNC: 30000,
 } as const
 
 /**
@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback, type RefObject } from 'react'
+import type maplibregl from 'maplibre-gl'
+import type { AreaShape } from '../utils/tiles'
+
+interface UseAreaShapeSelectionOptions {
+  mapRef: RefObject<maplibregl.Map | null> // Read in effects, so the map can be created after the first render
+}
+
+interface UseAreaShapeSelectionReturn {
+  shape: AreaShape | null // Selected corridor or finished polygon
+  isDrawing: boolean
+  points: Array<[number, number]> // Polygon corners placed so far
+  startDrawing: () => void
+  undoPoint: () => void
+  finishDrawing: () => AreaShape | null
+  setShape: (shape: AreaShape | null) => void
+  clear: () => void
+}
+
+const SHAPE_SOURCE = 'download-shape'
+const POINTS_SOURCE = 'download-shape-points'
+const FILL_LAYER = 'download-shape-fill'
+const OUTLINE_LAYER = 'download-shape-outline'
+const CORRIDOR_LAYER = 'download-shape-corridor'
+const POINTS_LAYER = 'download-shape-points-layer'
+
+const SHAPE_COLOR = '#3e4533' // --trk-brand
+const EARTH_CIRCUMFERENCE = 40075016.686 // meters
+const WORLD_SIZE = 512 // MapLibre pixels across the world at zoom 0
+
+// A polygon needs at least three corners
+const MIN_POINTS = 3
+
+// Corridor as a line as wide as the buffer on both sides; the width in pixels doubles with each zoom level
+const buildShapeData = (shape: AreaShape | null, points: Array<[number, number]>) => {
+  const features: GeoJSON.Feature[] = []
+
+  if (shape?.type === 'corridor') {
+    const lat = shape.line.reduce((sum, point) => sum + point[1], 0) / shape.line.length
+    const metersPerPixel = (EARTH_CIRCUMFERENCE * Math.cos((lat * Math.PI) / 180)) / WORLD_SIZE
+    features.push({
+      type: 'Feature',
+      properties: { width: (2 * shape.buffer) / metersPerPixel },
+      geometry: shape.line.length > 1
+        ? { type: 'LineString', coordinates: shape.line }
+        : { type: 'LineString', coordinates: [shape.line[0], shape.line[0]] }
+    })
+  }
+
+  const corners = shape?.type === 'polygon' ? shape.points : points
+  if (corners.length >= MIN_POINTS) {
+    features.push({
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'Polygon', coordinates: [[...corners, corners[0]]] }
+    })
+  } else if (corners.length === 2) {
+    features.push({
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'LineString', coordinates: corners }
+    })
+  }
+
+  return { type: 'FeatureCollection' as const, features }
+}
+
+const buildPointData = (points: Array<[number, number]>) => ({
+  type: 'FeatureCollection' as const,
+  features: points.map(coord => ({
+    type: 'Feature' as const,
+    properties: {},
+    geometry: { type: 'Point' as const, coordinates: coord }
+  }))
+})
+
+/**
+ * Download area shapes on the map: draws a polygon corner by corner as the user taps the map,
+ * and previews the selected route corridor or polygon.
+ */
+export const useAreaShapeSelection = ({ mapRef }: UseAreaShapeSelectionOptions): UseAreaShapeSelectionReturn => {
+  const [shape, setShape] = useState<AreaShape | null>(null)
+  const [isDrawing, setIsDrawing] = useState(false)
+  const [points, setPoints] = useState<Array<[number, number]>>([])
+
+  const isVisible = shape !== null || isDrawing
+
+  // Keep the preview layers in sync
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+
+    if (!isVisible) {
+      for (const layer of [POINTS_LAYER, CORRIDOR_LAYER, OUTLINE_LAYER, FILL_LAYER]) {
+        if (map.getLayer(layer)) map.removeLayer(layer)
+      }
+      for (const source of [POINTS_SOURCE, SHAPE_SOURCE]) {
+        if (map.getSource(source)) map.removeSource(source)
+      }
+      return
+    }
+
+    const shapeData = buildShapeData(shape, points)
+    const pointData = buildPointData(isDrawing ? points : [])
+
+    const shapeSource = map.getSource(SHAPE_SOURCE) as maplibregl.GeoJSONSource | undefined
+    if (shapeSource) {
+      shapeSource.setData(shapeData)
+      ;(map.getSource(POINTS_SOURCE) as maplibregl.GeoJSONSource | undefined)?.setData(pointData)
+      return
+    }
+
+    map.addSource(SHAPE_SOURCE, { type: 'geojson', data: shapeData })
+    map.addSource(POINTS_SOURCE, { type: 'geojson', data: pointData })
+
+    map.addLayer({
+      id: FILL_LAYER,
+      type: 'fill',
+      source: SHAPE_SOURCE,
+      filter: ['==', ['geometry-type'], 'Polygon'],
+      paint: {
+        'fill-color': SHAPE_COLOR,
+        'fill-opacity': 0.18
+      }
+    })
+
+    map.addLayer({
+      id: OUTLINE_LAYER,
+      type: 'line',
+      source: SHAPE_SOURCE,
+      filter: ['!', ['has', 'width']],
+      paint: {
+        'line-color': SHAPE_COLOR,
+        'line-width': 3
+      }
+    })
+
+    map.addLayer({
+      id: CORRIDOR_LAYER,
+      type: 'line',
+      source: SHAPE_SOURCE,
+      filter: ['has', 'width'],
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round'
+      },
+      paint: {
+        'line-color': SHAPE_COLOR,
+        'line-opacity': 0.25,
+        'line-width': ['interpolate', ['exponential', 2], ['zoom'], 0, ['get', 'width'], 24, ['*', ['get', 'width'], Math.pow(2, 24)]]
+      }
+    })
+
+    map.addLayer({
+      id: POINTS_LAYER,
+      type: 'circle',
+      source: POINTS_SOURCE,
+      paint: {
+        'circle-radius': 6,
+        'circle-color': '#ffffff',
+        'circle-stroke-color': SHAPE_COLOR,
+        'circle-stroke-width': 2
+      }
+    })
+  }, [mapRef, isVisible, shape, points, isDrawing])
+
+  // Each tap on the map adds a corner
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isDrawing) return
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      setPoints(prev => [...prev, [e.lngLat.lng, e.lngLat.lat]])
+    }
+
+    const canvas = map.getCanvas()
+    canvas.style.cursor = 'crosshair'
+    map.on('click', handleClick)
+
+    return () => {
+      canvas.style.cursor = ''
+      map.off('click', handleClick)
+    }
+  }, [mapRef, isDrawing])
+
+  const startDrawing = useCallback(() => {
+    setShape(null)
+    setPoints([])
+    setIsDrawing(true)
+  }, [])
+
+  const undoPoint = useCallback(() => {
+    setPoints(prev => prev.slice(0, -1))
+  }, [])
+
+  const finishDrawing = useCallback((): AreaShape | null => {
+    if (points.length < MIN_POINTS) return null
+    const polygon: AreaShape = { type: 'polygon', points }
+    setShape(polygon)
+    setIsDrawing(false)
+    setPoints([])
+    return polygon
+  }, [points])
+
+  const clear = useCallback(() => {
+    setShape(null)
+    setIsDrawing(false)
+    setPoints([])
+  }, [])
+
+  return {
+    shape,
+    isDrawing,
+    points,
+    startDrawing,
+    undoPoint,
+    finishDrawing,
+    setShape,
+    clear
+  }
+}
@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react'
+import { downloadQueueService, type DownloadJob } from '../services/downloadQueueService'
+
+/**
+ * Offline map downloads in the queue, updated as they progress
+ */
+export const useDownloadQueue = (): DownloadJob[] => {
+  const [jobs, setJobs] = useState<DownloadJob[]>([])
+
+  useEffect(() => downloadQueueService.subscribe(setJobs), [])
+
+  return jobs
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect, useRef, useCallback, type RefObject } from 'react'
+import maplibregl, { LngLatBounds } from 'maplibre-gl'
+import {
+  photoWaypointService,
+  type GeotaggedPhoto,
+  type PhotoWaypointProposal
+} from '../services/photoWaypointService'
+
+interface UsePhotoWaypointReviewOptions {
+  mapRef: RefObject<maplibregl.Map | null> // Read when used, so the map can be created after the first render
+}
+
+interface UsePhotoWaypointReviewReturn {
+  proposals: PhotoWaypointProposal[]
+  isActive: boolean
+  clustered: boolean
+  start: (photos: GeotaggedPhoto[]) => void
+  stop: () => void
+  setClustered: (clustered: boolean) => void
+  updateProposal: (id: string, changes: Partial<Pick<PhotoWaypointProposal, 'name' | 'include' | 'coordinates'>>) => void
+}
+
+const FIT_PADDING = 80 // px
+const FIT_MAX_ZOOM = 15
+
+/**
+ * Review of waypoints proposed from geotagged photos.
+ * Shows a draggable marker per proposal so the user can correct positions
+ * before the waypoints are saved. Excluded proposals are shown faded.
+ */
+export const usePhotoWaypointReview = ({ mapRef }: UsePhotoWaypointReviewOptions): UsePhotoWaypointReviewReturn => {
+  const [photos, setPhotos] = useState<GeotaggedPhoto[]>([])
+  const [proposals, setProposals] = useState<PhotoWaypointProposal[]>([])
+  const [clustered, setClusteredState] = useState(true)
+  const markersRef = useRef<Map<string, maplibregl.Marker>>(new Map())
+
+  const isActive = photos.length > 0
+
+  const start = useCallback((newPhotos: GeotaggedPhoto[]) => {
+    setPhotos(newPhotos)
+    setClusteredState(true)
+    setProposals(photoWaypointService.propose(newPhotos, true))
+
+    const map = mapRef.current
+    if (map && newPhotos.length > 0) {
+      const bounds = new LngLatBounds(newPhotos[0].coordinates, newPhotos[0].coordinates)
+      newPhotos.forEach(photo => bounds.extend(photo.coordinates))
+      map.fitBounds(bounds, { padding: FIT_PADDING, maxZoom: FIT_MAX_ZOOM })
+    }
+  }, [mapRef])
+
+  const stop = useCallback(() => {
+    setPhotos([])
+    setProposals([])
+  }, [])
+
+  // Regrouping starts over from the photo positions, so earlier edits are discarded
+  const setClustered = useCallback((value: boolean) => {
+    setClusteredState(value)
+    setProposals(photoWaypointService.propose(photos, value))
+  }, [photos])
+
+  const updateProposal = useCallback((id: string, changes: Partial<Pick<PhotoWaypointProposal, 'name' | 'include' | 'coordinates'>>) => {
+    setProposals(current => current.map(proposal => proposal.id === id ? { ...proposal, ...changes } : proposal))
+  }, [])
+
+  // Keep one marker per proposal in sync with the proposals
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+    const markers = markersRef.current
+    const ids = new Set(proposals.map(proposal => proposal.id))
+
+    markers.forEach((marker, id) => {
+      if (!ids.has(id)) {
+        marker.remove()
+        markers.delete(id)
+      }
+    })
+
+    proposals.forEach(proposal => {
+      let marker = markers.get(proposal.id)
+      if (!marker) {
+        const el = document.createElement('div')
+        el.className = 'waypoint-marker photo-waypoint-marker'
+        el.innerHTML = '<span class="material-symbols-outlined">photo_camera</span>'
+
+        marker = new maplibregl.Marker({ element: el, anchor: 'bottom', draggable: true })
+          .setLngLat(proposal.coordinates)
+          .addTo(map)
+        marker.on('dragend', () => {
+          const { lng, lat } = marker!.getLngLat()
+          updateProposal(proposal.id, { coordinates: [lng, lat] })
+        })
+        markers.set(proposal.id, marker)
+      } else {
+        marker.setLngLat(proposal.coordinates)
+      }
+      marker.getElement().classList.toggle('excluded', !proposal.include)
+    })
+  }, [mapRef, proposals, updateProposal])
+
+  // Remove the markers on unmount
+  useEffect(() => {
+    const markers = markersRef.current
+    return () => {
+      markers.forEach(marker => marker.remove())
+      markers.clear()
+    }
+  }, [mapRef])
+
+  return {
+    proposals,
+    isActive,
+    clustered,
+    start,
+    stop,
+    setClustered,
+    updateProposal
+  }
+}
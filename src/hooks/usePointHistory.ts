@@ -0,0 +1,129 @@
+import { useReducer, useCallback } from 'react'
+
+type Point = [number, number]
+
+/**
+ * An edit to the point list. Each command holds enough to be reverted and re-applied.
+ */
+type PointCommand =
+  | { type: 'add'; points: Point[] } // One click, or a whole snapped trail segment
+  | { type: 'clear'; points: Point[] } // points: the list before clearing
+
+interface PointHistoryState {
+  points: Point[]
+  undoStack: PointCommand[]
+  redoStack: PointCommand[]
+  session: number
+}
+
+type PointHistoryAction =
+  | { type: 'add'; points: Point[] }
+  | { type: 'clear' }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset' }
+
+interface UsePointHistoryReturn {
+  points: Point[]
+  canUndo: boolean
+  canRedo: boolean
+  session: number // Changes on every reset, so late async additions can tell they belong to an earlier drawing
+  add: (point: Point) => void
+  addPoints: (points: Point[]) => void // Undone as a single step
+  clear: () => void // Undoable, unlike reset
+  undo: () => void
+  redo: () => void
+  reset: () => void // Empty points and history (start of a new drawing)
+}
+
+// Keeps memory bounded on very long drawings
+const MAX_HISTORY = 200
+
+const apply = (points: Point[], command: PointCommand): Point[] => {
+  switch (command.type) {
+    case 'add':
+      return [...points, ...command.points]
+    case 'clear':
+      return []
+  }
+}
+
+const revert = (points: Point[], command: PointCommand): Point[] => {
+  switch (command.type) {
+    case 'add':
+      return points.slice(0, points.length - command.points.length)
+    case 'clear':
+      return command.points
+  }
+}
+
+const execute = (state: PointHistoryState, command: PointCommand): PointHistoryState => ({
+  ...state,
+  points: apply(state.points, command),
+  undoStack: [...state.undoStack, command].slice(-MAX_HISTORY),
+  redoStack: [] // A new edit invalidates the redo branch
+})
+
+const INITIAL_STATE: PointHistoryState = { points: [], undoStack: [], redoStack: [], session: 0 }
+
+const reducer = (state: PointHistoryState, action: PointHistoryAction): PointHistoryState => {
+  switch (action.type) {
+    case 'add':
+      if (action.points.length === 0) return state
+      return execute(state, { type: 'add', points: action.points })
+    case 'clear':
+      if (state.points.length === 0) return state
+      return execute(state, { type: 'clear', points: state.points })
+    case 'undo': {
+      const command = state.undoStack[state.undoStack.length - 1]
+      if (!command) return state
+      return {
+        ...state,
+        points: revert(state.points, command),
+        undoStack: state.undoStack.slice(0, -1),
+        redoStack: [...state.redoStack, command]
+      }
+    }
+    case 'redo': {
+      const command = state.redoStack[state.redoStack.length - 1]
+      if (!command) return state
+      return {
+        ...state,
+        points: apply(state.points, command),
+        undoStack: [...state.undoStack, command],
+        redoStack: state.redoStack.slice(0, -1)
+      }
+    }
+    case 'reset':
+      return { ...INITIAL_STATE, session: state.session + 1 }
+  }
+}
+
+/**
+ * Point list with command-history undo/redo, used for route drawing and measurement.
+ * All actions are stable across renders, so they are safe to call from map event handlers
+ * registered once.
+ */
+export const usePointHistory = (): UsePointHistoryReturn => {
+  const [state, dispatch] = useReducer(reducer, INITIAL_STATE)
+
+  const add = useCallback((point: Point) => dispatch({ type: 'add', points: [point] }), [])
+  const addPoints = useCallback((points: Point[]) => dispatch({ type: 'add', points }), [])
+  const clear = useCallback(() => dispatch({ type: 'clear' }), [])
+  const undo = useCallback(() => dispatch({ type: 'undo' }), [])
+  const redo = useCallback(() => dispatch({ type: 'redo' }), [])
+  const reset = useCallback(() => dispatch({ type: 'reset' }), [])
+
+  return {
+    points: state.points,
+    canUndo: state.undoStack.length > 0,
+    canRedo: state.redoStack.length > 0,
+    session: state.session,
+    add,
+    addPoints,
+    clear,
+    undo,
+    redo,
+    reset
+  }
+}
@@ -0,0 +1,313 @@
+import { useState, useEffect, useRef, useCallback, type RefObject } from 'react'
+import type maplibregl from 'maplibre-gl'
+import type { Route } from '../services/routeService'
+import { devLog } from '../constants'
+
+export type ExtendMode = 'start' | 'end' | null
+
+interface UseRouteGeometryEditorOptions {
+  mapRef: RefObject<maplibregl.Map | null> // Read in effects, so the map can be created after the first render
+}
+
+interface UseRouteGeometryEditorReturn {
+  route: Route | null // Route being edited
+  coordinates: Array<[number, number]>
+  selectedIndex: number | null
+  extendMode: ExtendMode
+  isDirty: boolean
+  start: (route: Route) => void
+  stop: () => void
+  removeSelectedVertex: () => void
+  setExtendMode: (mode: ExtendMode) => void
+}
+
+const LINE_SOURCE = 'route-edit-line'
+const MIDPOINTS_SOURCE = 'route-edit-midpoints'
+const VERTICES_SOURCE = 'route-edit-vertices'
+const LINE_LAYER = 'route-edit-line-layer'
+const MIDPOINTS_LAYER = 'route-edit-midpoints-layer'
+const VERTICES_LAYER = 'route-edit-vertices-layer'
+
+const EDIT_COLOR = '#3e4533'
+
+// A route needs at least two vertices
+const MIN_VERTICES = 2
+
+const buildLineData = (coordinates: Array<[number, number]>) => ({
+  type: 'Feature' as const,
+  properties: {},
+  geometry: {
+    type: 'LineString' as const,
+    coordinates
+  }
+})
+
+const buildVertexData = (coordinates: Array<[number, number]>, selectedIndex: number | null) => ({
+  type: 'FeatureCollection' as const,
+  features: coordinates.map((coord, index) => ({
+    type: 'Feature' as const,
+    properties: { index, selected: index === selectedIndex, endpoint: index === 0 || index === coordinates.length - 1 },
+    geometry: { type: 'Point' as const, coordinates: coord }
+  }))
+})
+
+// Midpoint handles; dragging one inserts a vertex at `index`
+const buildMidpointData = (coordinates: Array<[number, number]>) => ({
+  type: 'FeatureCollection' as const,
+  features: coordinates.slice(1).map((coord, i) => ({
+    type: 'Feature' as const,
+    properties: { index: i + 1 },
+    geometry: {
+      type: 'Point' as const,
+      coordinates: [(coordinates[i][0] + coord[0]) / 2, (coordinates[i][1] + coord[1]) / 2]
+    }
+  }))
+})
+
+/**
+ * Geometry edit mode for a saved route.
+ * Draws draggable vertex handles and midpoint handles (drag to insert a vertex) on the map,
+ * lets the user select and delete vertices, and extend the line from either end by tapping the map.
+ * The caller saves `coordinates` when done.
+ */
+export const useRouteGeometryEditor = ({ mapRef }: UseRouteGeometryEditorOptions): UseRouteGeometryEditorReturn => {
+  const [route, setRoute] = useState<Route | null>(null)
+  const [coordinates, setCoordinates] = useState<Array<[number, number]>>([])
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
+  const [extendMode, setExtendMode] = useState<ExtendMode>(null)
+  const [isDirty, setIsDirty] = useState(false)
+
+  const extendModeRef = useRef<ExtendMode>(null)
+  const draggingIndexRef = useRef<number | null>(null)
+  const coordinatesRef = useRef(coordinates)
+
+  useEffect(() => {
+    extendModeRef.current = extendMode
+    coordinatesRef.current = coordinates
+  }, [extendMode, coordinates])
+
+  const isEditing = route !== null
+
+  const updateCoordinates = useCallback((update: (prev: Array<[number, number]>) => Array<[number, number]>) => {
+    setCoordinates(update)
+    setIsDirty(true)
+  }, [])
+
+  // Keep the edit layers in sync with the coordinates
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+
+    const removeLayers = () => {
+      for (const layer of [VERTICES_LAYER, MIDPOINTS_LAYER, LINE_LAYER]) {
+        if (map.getLayer(layer)) map.removeLayer(layer)
+      }
+      for (const source of [VERTICES_SOURCE, MIDPOINTS_SOURCE, LINE_SOURCE]) {
+        if (map.getSource(source)) map.removeSource(source)
+      }
+    }
+
+    if (!isEditing) {
+      removeLayers()
+      return
+    }
+
+    const lineData = buildLineData(coordinates)
+    const midpointData = buildMidpointData(coordinates)
+    const vertexData = buildVertexData(coordinates, selectedIndex)
+
+    const lineSource = map.getSource(LINE_SOURCE) as maplibregl.GeoJSONSource | undefined
+    if (lineSource) {
+      lineSource.setData(lineData)
+      ;(map.getSource(MIDPOINTS_SOURCE) as maplibregl.GeoJSONSource | undefined)?.setData(midpointData)
+      ;(map.getSource(VERTICES_SOURCE) as maplibregl.GeoJSONSource | undefined)?.setData(vertexData)
+      return
+    }
+
+    map.addSource(LINE_SOURCE, { type: 'geojson', data: lineData })
+    map.addSource(MIDPOINTS_SOURCE, { type: 'geojson', data: midpointData })
+    map.addSource(VERTICES_SOURCE, { type: 'geojson', data: vertexData })
+
+    map.addLayer({
+      id: LINE_LAYER,
+      type: 'line',
+      source: LINE_SOURCE,
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round'
+      },
+      paint: {
+        'line-color': EDIT_COLOR,
+        'line-width': 4,
+        'line-opacity': 0.8
+      }
+    })
+
+    map.addLayer({
+      id: MIDPOINTS_LAYER,
+      type: 'circle',
+      source: MIDPOINTS_SOURCE,
+      paint: {
+        'circle-radius': 5,
+        'circle-color': '#ffffff',
+        'circle-opacity': 0.9,
+        'circle-stroke-color': EDIT_COLOR,
+        'circle-stroke-width': 2
+      }
+    })
+
+    map.addLayer({
+      id: VERTICES_LAYER,
+      type: 'circle',
+      source: VERTICES_SOURCE,
+      paint: {
+        'circle-radius': ['case', ['get', 'selected'], 10, 8],
+        'circle-color': ['case', ['get', 'selected'], '#d0443e', ['get', 'endpoint'], '#1e6ce0', EDIT_COLOR],
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 2
+      }
+    })
+  }, [mapRef, isEditing, coordinates, selectedIndex])
+
+  // Dragging, midpoint insertion and extending
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || !isEditing) return
+
+    const canvas = map.getCanvas()
+
+    const handleMove = (e: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) => {
+      const index = draggingIndexRef.current
+      if (index === null) return
+      const point: [number, number] = [e.lngLat.lng, e.lngLat.lat]
+      updateCoordinates(prev => prev.map((coord, i) => (i === index ? point : coord)))
+    }
+
+    const handleUp = () => {
+      draggingIndexRef.current = null
+      canvas.style.cursor = ''
+      map.off('mousemove', handleMove)
+      map.off('touchmove', handleMove)
+    }
+
+    const beginDrag = (index: number) => {
+      draggingIndexRef.current = index
+      canvas.style.cursor = 'grabbing'
+      map.on('mousemove', handleMove)
+      map.on('touchmove', handleMove)
+      map.once('mouseup', handleUp)
+      map.once('touchend', handleUp)
+    }
+
+    const isMultiTouch = (e: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) =>
+      'points' in e && e.points.length > 1
+
+    const handleVertexDown = (e: maplibregl.MapLayerMouseEvent | maplibregl.MapLayerTouchEvent) => {
+      const feature = e.features?.[0]
+      if (!feature || isMultiTouch(e)) return
+      e.preventDefault() // Keep the map from panning while dragging
+
+      const index = feature.properties.index as number
+      setSelectedIndex(index)
+      beginDrag(index)
+    }
+
+    const handleMidpointDown = (e: maplibregl.MapLayerMouseEvent | maplibregl.MapLayerTouchEvent) => {
+      const feature = e.features?.[0]
+      if (!feature || isMultiTouch(e)) return
+      e.preventDefault()
+
+      const index = feature.properties.index as number
+      const point: [number, number] = [e.lngLat.lng, e.lngLat.lat]
+      updateCoordinates(prev => [...prev.slice(0, index), point, ...prev.slice(index)])
+      setSelectedIndex(index)
+      beginDrag(index)
+    }
+
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      // Clicks on handles are handled by mousedown
+      const handles = map.queryRenderedFeatures(e.point, { layers: [VERTICES_LAYER, MIDPOINTS_LAYER] })
+      if (handles.length > 0) return
+
+      const mode = extendModeRef.current
+      if (!mode) {
+        setSelectedIndex(null)
+        return
+      }
+
+      const point: [number, number] = [e.lngLat.lng, e.lngLat.lat]
+      if (mode === 'start') {
+        updateCoordinates(prev => [point, ...prev])
+        setSelectedIndex(0)
+      } else {
+        setSelectedIndex(coordinatesRef.current.length)
+        updateCoordinates(prev => [...prev, point])
+      }
+    }
+
+    const setMoveCursor = () => {
+      if (draggingIndexRef.current === null) canvas.style.cursor = 'move'
+    }
+    const resetCursor = () => {
+      if (draggingIndexRef.current === null) canvas.style.cursor = ''
+    }
+
+    map.on('mousedown', VERTICES_LAYER, handleVertexDown)
+    map.on('touchstart', VERTICES_LAYER, handleVertexDown)
+    map.on('mousedown', MIDPOINTS_LAYER, handleMidpointDown)
+    map.on('touchstart', MIDPOINTS_LAYER, handleMidpointDown)
+    map.on('mouseenter', VERTICES_LAYER, setMoveCursor)
+    map.on('mouseleave', VERTICES_LAYER, resetCursor)
+    map.on('mouseenter', MIDPOINTS_LAYER, setMoveCursor)
+    map.on('mouseleave', MIDPOINTS_LAYER, resetCursor)
+    map.on('click', handleClick)
+
+    return () => {
+      handleUp()
+      map.off('mousedown', VERTICES_LAYER, handleVertexDown)
+      map.off('touchstart', VERTICES_LAYER, handleVertexDown)
+      map.off('mousedown', MIDPOINTS_LAYER, handleMidpointDown)
+      map.off('touchstart', MIDPOINTS_LAYER, handleMidpointDown)
+      map.off('mouseenter', VERTICES_LAYER, setMoveCursor)
+      map.off('mouseleave', VERTICES_LAYER, resetCursor)
+      map.off('mouseenter', MIDPOINTS_LAYER, setMoveCursor)
+      map.off('mouseleave', MIDPOINTS_LAYER, resetCursor)
+      map.off('click', handleClick)
+    }
+  }, [mapRef, isEditing, updateCoordinates])
+
+  const start = useCallback((routeToEdit: Route) => {
+    devLog('[RouteEditor] Editing geometry of route:', routeToEdit.id)
+    setRoute(routeToEdit)
+    setCoordinates(routeToEdit.coordinates.map(coord => [coord[0], coord[1]] as [number, number]))
+    setSelectedIndex(null)
+    setExtendMode(null)
+    setIsDirty(false)
+  }, [])
+
+  const stop = useCallback(() => {
+    setRoute(null)
+    setCoordinates([])
+    setSelectedIndex(null)
+    setExtendMode(null)
+    setIsDirty(false)
+  }, [])
+
+  const removeSelectedVertex = useCallback(() => {
+    if (selectedIndex === null || coordinates.length <= MIN_VERTICES) return
+    updateCoordinates(prev => prev.filter((_, i) => i !== selectedIndex))
+    setSelectedIndex(null)
+  }, [selectedIndex, coordinates.length, updateCoordinates])
+
+  return {
+    route,
+    coordinates,
+    selectedIndex,
+    extendMode,
+    isDirty,
+    start,
+    stop,
+    removeSelectedVertex,
+    setExtendMode
+  }
+}
@@ -0,0 +1,288 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  navigationService,
+  type NavigationPlan,
+  type NavigationProgress,
+  type OffRouteGuidance,
+  type OffRouteState
+} from '../services/navigationService'
+import type { TrackPoint } from '../services/trackRecordingService'
+import type { Route, Waypoint } from '../services/routeService'
+import { calculateHaversineDistance } from '../utils/haversine'
+import { useHaptics } from './useHaptics'
+import { devLog, devError } from '../constants'
+
+export interface NavigationSession {
+  plan: NavigationPlan
+  startedAt: number
+  reachedCount: number // Targets reached so far (index of the next target)
+  status: 'active' | 'completed'
+}
+
+interface UseRouteNavigationReturn {
+  session: NavigationSession | null
+  position: TrackPoint | null
+  progress: NavigationProgress | null
+  offRoute: OffRouteGuidance | null // Set while the user is off the route
+  offRouteDismissed: boolean // User chose to continue off-route; alerts are muted until back on route
+  isNavigating: boolean
+  start: (route: Route, waypoints: Waypoint[]) => void
+  stop: () => void
+  dismissOffRoute: () => void
+}
+
+interface UseRouteNavigationOptions {
+  offRouteThreshold: number // meters
+  onError?: (message: string) => void
+}
+
+// Weight of the newest speed sample in the moving average
+const SPEED_SMOOTHING = 0.3
+
+const INITIAL_OFF_ROUTE_STATE: OffRouteState = { isOffRoute: false, pendingFixes: 0 }
+
+/**
+ * Route navigation hook.
+ * Owns the geolocation watch and screen wake lock while navigating, tracks progress
+ * along the route, detects when the user leaves it, and gives haptic cues when
+ * approaching and reaching targets or going off-route.
+ */
+export const useRouteNavigation = ({ offRouteThreshold, onError }: UseRouteNavigationOptions): UseRouteNavigationReturn => {
+  const [session, setSession] = useState<NavigationSession | null>(null)
+  const [position, setPosition] = useState<TrackPoint | null>(null)
+  const [progress, setProgress] = useState<NavigationProgress | null>(null)
+  const [offRoute, setOffRoute] = useState<OffRouteGuidance | null>(null)
+  const [offRouteDismissed, setOffRouteDismissed] = useState(false)
+
+  const haptics = useHaptics()
+  const hapticsRef = useRef(haptics)
+  const onErrorRef = useRef(onError)
+  const sessionRef = useRef<NavigationSession | null>(null)
+  const lastAlongRef = useRef<number | undefined>(undefined)
+  const lastPointRef = useRef<TrackPoint | null>(null)
+  const speedRef = useRef(0)
+  const approachNotifiedRef = useRef(-1) // Index of the target we already gave an approach cue for
+  const offRouteStateRef = useRef<OffRouteState>(INITIAL_OFF_ROUTE_STATE)
+  const offRouteDismissedRef = useRef(false)
+  const thresholdRef = useRef(offRouteThreshold)
+
+  useEffect(() => {
+    hapticsRef.current = haptics
+    onErrorRef.current = onError
+    thresholdRef.current = offRouteThreshold
+  })
+
+  const updateSession = useCallback((next: NavigationSession | null) => {
+    sessionRef.current = next
+    setSession(next)
+  }, [])
+
+  const handlePosition = useCallback((geoPosition: GeolocationPosition) => {
+    const current = sessionRef.current
+    if (!current || current.status !== 'active') return
+
+    const point = navigationService.toTrackPoint(geoPosition)
+
+    // Smoothed speed, from the GPS if it reports one, otherwise from consecutive fixes
+    const previous = lastPointRef.current
+    let sample = point.speed ?? null
+    if (sample === null && previous && point.timestamp > previous.timestamp) {
+      sample = calculateHaversineDistance(previous.coordinates, point.coordinates) / ((point.timestamp - previous.timestamp) / 1000)
+    }
+    if (sample !== null && Number.isFinite(sample)) {
+      speedRef.current = speedRef.current === 0 ? sample : speedRef.current * (1 - SPEED_SMOOTHING) + sample * SPEED_SMOOTHING
+    }
+    lastPointRef.current = point
+
+    const { plan } = current
+    let reachedCount = current.reachedCount
+    let next = navigationService.getProgress(point.coordinates, plan, {
+      lastAlongDistance: lastAlongRef.current,
+      reachedCount,
+      speedMps: speedRef.current
+    })
+
+    // Targets that were passed without getting within the arrival radius (e.g. poor GPS)
+    // are skipped silently once the user is clearly beyond them on the line
+    while (
+      reachedCount < plan.targets.length - 1 &&
+      next.projection.distance <= thresholdRef.current &&
+      next.projection.alongDistance - plan.targets[reachedCount].alongDistance > navigationService.ARRIVAL_RADIUS_METERS
+    ) {
+      reachedCount++
+    }
+
+    const target = plan.targets[reachedCount]
+    const directDistance = calculateHaversineDistance(point.coordinates, target.coordinates)
+    // Distance along the line as well, so a target near an earlier part of the route
+    // (the finish of a loop, a waypoint by the start) isn't reached when passing that part
+    const alongGap = Math.abs(next.projection.alongDistance - target.alongDistance)
+    let status: NavigationSession['status'] = 'active'
+
+    if (directDistance <= navigationService.ARRIVAL_RADIUS_METERS && alongGap <= navigationService.ARRIVAL_RADIUS_METERS) {
+      if (reachedCount === plan.targets.length - 1) {
+        status = 'completed'
+        hapticsRef.current.vibrate([40, 100, 40, 100, 200])
+        devLog('Navigation completed:', plan.route.name)
+      } else {
+        hapticsRef.current.success()
+        devLog('Reached navigation target:', target.name)
+      }
+      reachedCount++
+    } else if (
+      directDistance <= navigationService.APPROACH_RADIUS_METERS &&
+      alongGap <= navigationService.APPROACH_RADIUS_METERS &&
+      approachNotifiedRef.current !== reachedCount
+    ) {
+      approachNotifiedRef.current = reachedCount
+      hapticsRef.current.light()
+    }
+
+    if (reachedCount !== next.nextTargetIndex) {
+      next = navigationService.getProgress(point.coordinates, plan, {
+        lastAlongDistance: lastAlongRef.current,
+        reachedCount,
+        speedMps: speedRef.current
+      })
+    }
+
+    // Off-route detection (with hysteresis, see navigationService.updateOffRouteState)
+    const wasOffRoute = offRouteStateRef.current.isOffRoute
+    offRouteStateRef.current = navigationService.updateOffRouteState(
+      offRouteStateRef.current,
+      next.projection.distance,
+      thresholdRef.current,
+      point.accuracy
+    )
+    const isOffRoute = offRouteStateRef.current.isOffRoute && status === 'active'
+
+    if (isOffRoute && !wasOffRoute) {
+      devLog('Off route:', Math.round(next.projection.distance), 'm from the line')
+      if (!offRouteDismissedRef.current) {
+        hapticsRef.current.error()
+      }
+    } else if (!isOffRoute && wasOffRoute) {
+      devLog('Back on route')
+      offRouteDismissedRef.current = false
+      setOffRouteDismissed(false)
+      hapticsRef.current.notification()
+    }
+
+    lastAlongRef.current = next.projection.alongDistance
+    setPosition(point)
+    setProgress(next)
+    setOffRoute(isOffRoute ? navigationService.getReturnGuidance(point.coordinates, next.projection) : null)
+
+    if (reachedCount !== current.reachedCount || status !== current.status) {
+      updateSession({ ...current, reachedCount, status })
+    }
+  }, [updateSession])
+
+  const isNavigating = session?.status === 'active'
+
+  // Run the geolocation watch only while navigating
+  useEffect(() => {
+    if (!isNavigating) return
+
+    if (!('geolocation' in navigator)) {
+      onErrorRef.current?.('Posisjon er ikke tilgjengelig på denne enheten')
+      return
+    }
+
+    const handleError = (error: GeolocationPositionError) => {
+      devError('Navigation geolocation error:', error)
+      if (error.code === error.PERMISSION_DENIED) {
+        onErrorRef.current?.('Tilgang til posisjon ble avvist. Navigasjon krever posisjonstilgang.')
+      }
+    }
+
+    const watchId = navigator.geolocation.watchPosition(handlePosition, handleError, {
+      enableHighAccuracy: true,
+      maximumAge: 0,
+      timeout: 30000
+    })
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [isNavigating, handlePosition])
+
+  // Keep the screen on while navigating (released automatically when the page is hidden)
+  useEffect(() => {
+    if (!isNavigating || !('wakeLock' in navigator)) return
+
+    let wakeLock: WakeLockSentinel | null = null
+    let released = false
+
+    const requestWakeLock = async () => {
+      try {
+        wakeLock = await navigator.wakeLock.request('screen')
+        if (released) {
+          wakeLock.release()
+        }
+      } catch (error) {
+        devError('Failed to acquire wake lock:', error)
+      }
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        requestWakeLock()
+      }
+    }
+
+    requestWakeLock()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      released = true
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      wakeLock?.release().catch(() => undefined)
+    }
+  }, [isNavigating])
+
+  const start = useCallback((route: Route, waypoints: Waypoint[]) => {
+    if (route.coordinates.length === 0) return
+
+    const plan = navigationService.createPlan(route, waypoints)
+    lastAlongRef.current = undefined
+    lastPointRef.current = null
+    speedRef.current = 0
+    approachNotifiedRef.current = -1
+    offRouteStateRef.current = INITIAL_OFF_ROUTE_STATE
+    offRouteDismissedRef.current = false
+    setPosition(null)
+    setProgress(null)
+    setOffRoute(null)
+    setOffRouteDismissed(false)
+    updateSession({ plan, startedAt: Date.now(), reachedCount: 0, status: 'active' })
+    hapticsRef.current.heavy()
+    devLog('Navigation started:', route.name, 'with', plan.targets.length, 'targets')
+  }, [updateSession])
+
+  const stop = useCallback(() => {
+    if (sessionRef.current?.status === 'active') {
+      hapticsRef.current.heavy()
+    }
+    updateSession(null)
+    setPosition(null)
+    setProgress(null)
+    setOffRoute(null)
+  }, [updateSession])
+
+  // Continue off-route without further alerts until the user is back on the route
+  const dismissOffRoute = useCallback(() => {
+    offRouteDismissedRef.current = true
+    setOffRouteDismissed(true)
+  }, [])
+
+  return {
+    session,
+    position,
+    progress,
+    offRoute,
+    offRouteDismissed,
+    isNavigating,
+    start,
+    stop,
+    dismissOffRoute
+  }
+}
@@ -0,0 +1,175 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { trackRecordingService, type TrackRecording } from '../services/trackRecordingService'
+import type { Route } from '../services/routeService'
+import { devLog, devError } from '../constants'
+
+interface UseTrackRecordingReturn {
+  recording: TrackRecording | null
+  coordinates: Array<[number, number]>
+  isRecording: boolean
+  isPaused: boolean
+  start: () => Promise<void>
+  pause: () => Promise<void>
+  resume: () => Promise<void>
+  stop: (name: string) => Promise<Route | null>
+  discard: () => Promise<void>
+}
+
+/**
+ * GPS track recording hook.
+ * Owns the geolocation watch while a recording is running and mirrors the
+ * persisted recording from trackRecordingService. An unfinished recording is
+ * restored (paused) on mount so it can be resumed after a crash or reload.
+ */
+export const useTrackRecording = (onError?: (message: string) => void): UseTrackRecordingReturn => {
+  const [recording, setRecording] = useState<TrackRecording | null>(null)
+  const [coordinates, setCoordinates] = useState<Array<[number, number]>>([])
+
+  const watchIdRef = useRef<number | null>(null)
+  // Fixes are written one at a time so concurrent callbacks can't overwrite each other's totals
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const onErrorRef = useRef(onError)
+
+  useEffect(() => {
+    onErrorRef.current = onError
+  }, [onError])
+
+  const enqueue = useCallback(<T,>(task: () => Promise<T>): Promise<T> => {
+    const result = writeQueueRef.current.then(task)
+    writeQueueRef.current = result.then(() => undefined, () => undefined)
+    return result
+  }, [])
+
+  // Restore unfinished recording
+  useEffect(() => {
+    let cancelled = false
+
+    const restore = async () => {
+      try {
+        const recovered = await trackRecordingService.recoverRecording()
+        if (!recovered || cancelled) return
+
+        const points = await trackRecordingService.getPoints(recovered.id)
+        if (cancelled) return
+
+        setRecording(recovered)
+        setCoordinates(points.map(p => p.coordinates))
+        devLog('Restored unfinished track recording with', points.length, 'points')
+      } catch (error) {
+        devError('Failed to restore track recording:', error)
+      }
+    }
+
+    restore()
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const recordingId = recording?.id
+  const isRecording = recording?.status === 'recording'
+
+  // Run the geolocation watch only while actively recording
+  useEffect(() => {
+    if (!recordingId || !isRecording) return
+
+    if (!('geolocation' in navigator)) {
+      onErrorRef.current?.('Posisjon er ikke tilgjengelig på denne enheten')
+      return
+    }
+
+    const handlePosition = (position: GeolocationPosition) => {
+      enqueue(() => trackRecordingService.addFix(recordingId, position))
+        .then(result => {
+          if (result.accepted) {
+            setRecording(result.recording)
+            setCoordinates(prev => [...prev, result.point.coordinates])
+          }
+        })
+        .catch(error => {
+          devError('Failed to store track point:', error)
+        })
+    }
+
+    const handleError = (error: GeolocationPositionError) => {
+      devError('Track recording geolocation error:', error)
+      if (error.code === error.PERMISSION_DENIED) {
+        onErrorRef.current?.('Tilgang til posisjon ble avvist. Sporing krever posisjonstilgang.')
+      }
+    }
+
+    watchIdRef.current = navigator.geolocation.watchPosition(handlePosition, handleError, {
+      enableHighAccuracy: true,
+      maximumAge: 0,
+      timeout: 30000
+    })
+
+    return () => {
+      if (watchIdRef.current !== null) {
+        navigator.geolocation.clearWatch(watchIdRef.current)
+        watchIdRef.current = null
+      }
+    }
+  }, [recordingId, isRecording, enqueue])
+
+  const start = useCallback(async () => {
+    try {
+      const started = await enqueue(() => trackRecordingService.startRecording())
+      setCoordinates([])
+      setRecording(started)
+    } catch (error) {
+      devError('Failed to start track recording:', error)
+      onErrorRef.current?.('Kunne ikke starte sporing')
+    }
+  }, [enqueue])
+
+  const pause = useCallback(async () => {
+    if (!recordingId) return
+    try {
+      setRecording(await enqueue(() => trackRecordingService.pauseRecording(recordingId)))
+    } catch (error) {
+      devError('Failed to pause track recording:', error)
+    }
+  }, [recordingId, enqueue])
+
+  const resume = useCallback(async () => {
+    if (!recordingId) return
+    try {
+      setRecording(await enqueue(() => trackRecordingService.resumeRecording(recordingId)))
+    } catch (error) {
+      devError('Failed to resume track recording:', error)
+    }
+  }, [recordingId, enqueue])
+
+  const stop = useCallback(async (name: string): Promise<Route | null> => {
+    if (!recordingId) return null
+    const route = await enqueue(() => trackRecordingService.stopRecording(recordingId, name))
+    setRecording(null)
+    setCoordinates([])
+    return route
+  }, [recordingId, enqueue])
+
+  const discard = useCallback(async () => {
+    if (!recordingId) return
+    try {
+      await enqueue(() => trackRecordingService.discardRecording(recordingId))
+    } catch (error) {
+      devError('Failed to discard track recording:', error)
+    }
+    setRecording(null)
+    setCoordinates([])
+  }, [recordingId, enqueue])
+
+  return {
+    recording,
+    coordinates,
+    isRecording,
+    isPaused: recording?.status === 'paused',
+    start,
+    pause,
+    resume,
+    stop,
+    discard
+  }
+}
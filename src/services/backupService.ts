@@ -0,0 +1,569 @@
+// Backup service for Tråkke PWA
+// Exports all user data (routes, waypoints, projects, waypoint categories, downloaded areas,
+// userData and preferences) to a single versioned file and restores it, merging or replacing.
+// Without offline tiles or photos the backup is plain JSON; otherwise it is a ZIP holding
+// backup.json plus one entry per tile and photo. Caches (elevation, weather, trails) are not included.
+
+import { dbService, DB_VERSION, type OfflineTile } from './dbService'
+import { trailGradingService } from './trailGradingService'
+import type { Route, Waypoint, Project } from './routeService'
+import { offlineMapService, type DownloadArea } from './offlineMapService'
+import type { Photo } from './photoService'
+import { waypointCategoryService, type WaypointCategory } from './waypointCategoryService'
+import { createZip, readZip, type ZipEntry } from '../utils/zip'
+import { downloadBlob } from '../utils/download'
+import { devLog } from '../constants'
+
+export const BACKUP_SCHEMA_VERSION = 3 // 2: photos, 3: waypoint categories
+const BACKUP_FORMAT = 'trakke-backup'
+const BACKUP_ENTRY = 'backup.json'
+const TILE_PREFIX = 'tiles/'
+const PHOTO_PREFIX = 'photos/'
+const THUMBNAIL_SUFFIX = '-thumb'
+
+const ROUTES_STORE = 'routes'
+const WAYPOINTS_STORE = 'waypoints'
+const PROJECTS_STORE = 'projects'
+const AREAS_STORE = 'downloadedAreas'
+const USER_DATA_STORE = 'userData'
+const TILES_STORE = 'offlineTiles'
+const ELEVATION_STORE = 'elevationProfiles'
+const PHOTOS_STORE = 'photos'
+const CATEGORIES_STORE = 'waypointCategories'
+
+// localStorage keys that hold user preferences (the admin session is deliberately left out)
+const PREFERENCE_KEYS = ['trakke_map_preferences', 'trakke_routes_visible', 'trakke_snap_to_trail']
+
+interface UserDataRecord {
+  id?: number
+  type: string
+  data: unknown
+  timestamp: number
+}
+
+// Photo metadata in backup.json; the images are ZIP entries
+export type BackupPhoto = Omit<Photo, 'blob' | 'thumbnail'>
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT
+  schemaVersion: number
+  dbVersion: number // DB_VERSION of the app that made the backup
+  createdAt: number
+  routes: Route[]
+  waypoints: Waypoint[]
+  projects: Project[]
+  waypointCategories: WaypointCategory[]
+  downloadedAreas: DownloadArea[]
+  userData: UserDataRecord[]
+  photos: BackupPhoto[]
+  preferences: Record<string, string>
+  tileCount: number // Tiles stored as ZIP entries next to backup.json
+}
+
+export interface BackupContents {
+  backup: BackupFile
+  tiles: ZipEntry[]
+  photoFiles: ZipEntry[] // photos/<id>.jpg and photos/<id>-thumb.jpg
+  invalidRecords: number // Records dropped during validation
+}
+
+export type RestoreMode = 'merge' | 'replace'
+
+export interface RestoreResult {
+  added: number
+  updated: number
+  skipped: number // Merge: the existing record was newer or identical
+  invalid: number
+  tiles: number
+  photos: number
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+const isString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length > 0
+
+const isCoordinate = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length >= 2 && isNumber(value[0]) && isNumber(value[1]) &&
+  Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90
+
+// Corridor or polygon of a download area (AreaShape)
+const isAreaShape = (value: unknown): boolean => {
+  if (!isObject(value)) return false
+  if (value.type === 'corridor') {
+    return Array.isArray(value.line) && value.line.length > 0 && value.line.every(isCoordinate) &&
+      isNumber(value.buffer) && value.buffer > 0
+  }
+  return value.type === 'polygon' && Array.isArray(value.points) && value.points.length >= 3 &&
+    value.points.every(isCoordinate)
+}
+
+const stringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter(isString) : []
+
+const promisify = <T>(request: IDBRequest<T>, action: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(new Error(`Failed to ${action}: ${request.error?.message || 'Unknown error'}`))
+  })
+
+class BackupService {
+  private readonly MAX_JSON_SIZE = 50 * 1024 * 1024 // bytes, backups without tiles
+  private readonly MAX_ZIP_SIZE = 1024 * 1024 * 1024 // bytes, backups with tiles and photos
+  private readonly MAX_UNZIPPED_SIZE = 1536 * 1024 * 1024 // bytes; tiles and photos barely compress
+
+  // ============================================================================
+  // Export
+  // ============================================================================
+
+  private async readStore<T>(storeName: string): Promise<T[]> {
+    const db = await dbService.getDatabase()
+    const store = db.transaction([storeName], 'readonly').objectStore(storeName)
+    return promisify(store.getAll() as IDBRequest<T[]>, `read ${storeName}`)
+  }
+
+  /**
+   * Collect all user data. Offline tiles are only read when requested, since they can be large.
+   */
+  async createBackup(includeTiles: boolean): Promise<{ backup: BackupFile; tiles: ZipEntry[]; photoFiles: ZipEntry[] }> {
+    const [routes, waypoints, projects, waypointCategories, downloadedAreas, userData, storedPhotos] = await Promise.all([
+      this.readStore<Route>(ROUTES_STORE),
+      this.readStore<Waypoint>(WAYPOINTS_STORE),
+      this.readStore<Project>(PROJECTS_STORE),
+      this.readStore<WaypointCategory>(CATEGORIES_STORE),
+      this.readStore<DownloadArea>(AREAS_STORE),
+      this.readStore<UserDataRecord>(USER_DATA_STORE),
+      this.readStore<Photo>(PHOTOS_STORE)
+    ])
+
+    const preferences: Record<string, string> = {}
+    for (const key of PREFERENCE_KEYS) {
+      const value = localStorage.getItem(key)
+      if (value !== null) preferences[key] = value
+    }
+
+    const tiles: ZipEntry[] = []
+    if (includeTiles) {
+      for (const tile of await this.readStore<OfflineTile>(TILES_STORE)) {
+        tiles.push({ name: `${TILE_PREFIX}${tile.key}`, data: new Uint8Array(tile.data) })
+      }
+    }
+
+    const photos: BackupPhoto[] = []
+    const photoFiles: ZipEntry[] = []
+    for (const { blob, thumbnail, ...metadata } of storedPhotos) {
+      photos.push(metadata)
+      photoFiles.push(
+        { name: this.photoEntryName(metadata.id), data: new Uint8Array(await blob.arrayBuffer()) },
+        { name: this.photoEntryName(metadata.id, true), data: new Uint8Array(await thumbnail.arrayBuffer()) }
+      )
+    }
+
+    const backup: BackupFile = {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      dbVersion: DB_VERSION,
+      createdAt: Date.now(),
+      routes,
+      waypoints,
+      projects,
+      waypointCategories,
+      downloadedAreas,
+      // Record IDs are auto-incremented and reassigned on restore
+      userData: userData.map(({ type, data, timestamp }) => ({ type, data, timestamp })),
+      photos,
+      preferences,
+      tileCount: tiles.length
+    }
+
+    return { backup, tiles, photoFiles }
+  }
+
+  private photoEntryName(id: string, thumbnail = false): string {
+    return `${PHOTO_PREFIX}${id}${thumbnail ? THUMBNAIL_SUFFIX : ''}.jpg`
+  }
+
+  /**
+   * Create a backup and download it (.json, or .zip when tiles or photos are included)
+   */
+  async exportBackup(includeTiles: boolean): Promise<BackupFile> {
+    const { backup, tiles, photoFiles } = await this.createBackup(includeTiles)
+    const json = JSON.stringify(backup)
+    const filename = `trakke-sikkerhetskopi-${new Date(backup.createdAt).toISOString().slice(0, 10)}`
+
+    if (tiles.length > 0 || photoFiles.length > 0) {
+      const zip = await createZip([{ name: BACKUP_ENTRY, data: new TextEncoder().encode(json) }, ...photoFiles, ...tiles])
+      downloadBlob(new Blob([zip as BlobPart], { type: 'application/zip' }), filename, 'zip')
+    } else {
+      downloadBlob(new Blob([json], { type: 'application/json' }), filename, 'json')
+    }
+
+    devLog(`Backup exported: ${backup.routes.length} routes, ${backup.waypoints.length} waypoints, ${backup.photos.length} photos, ${tiles.length} tiles`)
+    return backup
+  }
+
+  // ============================================================================
+  // Validation
+  // ============================================================================
+
+  private toWaypoint(value: unknown): Waypoint | null {
+    if (!isObject(value) || !isString(value.id) || typeof value.name !== 'string' || !isCoordinate(value.coordinates)) {
+      return null
+    }
+    const now = Date.now()
+    return {
+      ...value,
+      createdAt: isNumber(value.createdAt) ? value.createdAt : now,
+      updatedAt: isNumber(value.updatedAt) ? value.updatedAt : now
+    } as Waypoint
+  }
+
+  private toRoute(value: unknown): Route | null {
+    if (!isObject(value) || !isString(value.id) || typeof value.name !== 'string') return null
+    if (!Array.isArray(value.coordinates) || value.coordinates.length < 2 || !value.coordinates.every(isCoordinate)) {
+      return null
+    }
+    const now = Date.now()
+    return {
+      ...value,
+      waypoints: stringArray(value.waypoints),
+      // Backups from before the DNT grading scale (DB v8) carry easy/moderate/hard
+      difficulty: trailGradingService.normalizeGrade(value.difficulty),
+      createdAt: isNumber(value.createdAt) ? value.createdAt : now,
+      updatedAt: isNumber(value.updatedAt) ? value.updatedAt : now
+    } as Route
+  }
+
+  private toProject(value: unknown): Project | null {
+    if (!isObject(value) || !isString(value.id) || typeof value.name !== 'string') return null
+    const now = Date.now()
+    return {
+      ...value,
+      routes: stringArray(value.routes),
+      waypoints: stringArray(value.waypoints),
+      createdAt: isNumber(value.createdAt) ? value.createdAt : now,
+      updatedAt: isNumber(value.updatedAt) ? value.updatedAt : now
+    } as Project
+  }
+
+  private toCategory(value: unknown): WaypointCategory | null {
+    if (!isObject(value) || !isString(value.id) || !isString(value.name)) return null
+    if (!isString(value.icon) || typeof value.color !== 'string' || !/^#[0-9a-f]{6}$/i.test(value.color)) return null
+    const now = Date.now()
+    return {
+      id: value.id,
+      name: value.name,
+      icon: value.icon,
+      color: value.color,
+      createdAt: isNumber(value.createdAt) ? value.createdAt : now,
+      updatedAt: isNumber(value.updatedAt) ? value.updatedAt : now
+    }
+  }
+
+  private toArea(value: unknown): DownloadArea | null {
+    if (!isObject(value) || !isString(value.id) || !isObject(value.bounds) || !isObject(value.zoomLevels)) return null
+    const { north, south, east, west } = value.bounds
+    const { min, max } = value.zoomLevels
+    if (![north, south, east, west, min, max].every(isNumber)) return null
+    if (value.shape !== undefined && !isAreaShape(value.shape)) return null
+    return value as unknown as DownloadArea
+  }
+
+  private toPhoto(value: unknown): BackupPhoto | null {
+    if (!isObject(value) || !isString(value.id) || !isString(value.ownerId)) return null
+    if (value.ownerType !== 'waypoint' && value.ownerType !== 'route') return null
+    if (!isNumber(value.width) || !isNumber(value.height)) return null
+    return {
+      id: value.id,
+      ownerId: value.ownerId,
+      ownerType: value.ownerType,
+      width: value.width,
+      height: value.height,
+      takenAt: isNumber(value.takenAt) ? value.takenAt : undefined,
+      coordinates: isCoordinate(value.coordinates) ? value.coordinates : undefined,
+      createdAt: isNumber(value.createdAt) ? value.createdAt : Date.now()
+    }
+  }
+
+  private toUserData(value: unknown): UserDataRecord | null {
+    if (!isObject(value) || !isString(value.type) || value.type === 'tile') return null
+    return { type: value.type, data: value.data, timestamp: isNumber(value.timestamp) ? value.timestamp : Date.now() }
+  }
+
+  /**
+   * Check and normalize a parsed backup. Invalid records are dropped (and counted),
+   * so one damaged route doesn't block restoring the rest.
+   *
+   * @throws Error if the file is not a Tråkke backup or was made by a newer app version
+   */
+  parseBackup(raw: unknown): { backup: BackupFile; invalidRecords: number } {
+    if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+      throw new Error('Not a Tråkke backup file')
+    }
+    if (!isNumber(raw.schemaVersion) || raw.schemaVersion < 1) {
+      throw new Error('Backup has no valid schema version')
+    }
+    if (raw.schemaVersion > BACKUP_SCHEMA_VERSION) {
+      throw new Error(`Backup schema ${raw.schemaVersion} is newer than supported (${BACKUP_SCHEMA_VERSION})`)
+    }
+
+    let invalidRecords = 0
+    const convert = <T>(value: unknown, toRecord: (item: unknown) => T | null): T[] => {
+      if (!Array.isArray(value)) return []
+      const records: T[] = []
+      for (const item of value) {
+        const record = toRecord(item)
+        if (record) {
+          records.push(record)
+        } else {
+          invalidRecords++
+        }
+      }
+      return records
+    }
+
+    const preferences: Record<string, string> = {}
+    if (isObject(raw.preferences)) {
+      for (const key of PREFERENCE_KEYS) {
+        const value = raw.preferences[key]
+        if (typeof value === 'string') preferences[key] = value
+      }
+    }
+
+    const backup: BackupFile = {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      dbVersion: isNumber(raw.dbVersion) ? raw.dbVersion : 0,
+      createdAt: isNumber(raw.createdAt) ? raw.createdAt : 0,
+      routes: convert(raw.routes, item => this.toRoute(item)),
+      waypoints: convert(raw.waypoints, item => this.toWaypoint(item)),
+      projects: convert(raw.projects, item => this.toProject(item)),
+      waypointCategories: convert(raw.waypointCategories, item => this.toCategory(item)), // Missing before schema 3
+      downloadedAreas: convert(raw.downloadedAreas, item => this.toArea(item)),
+      userData: convert(raw.userData, item => this.toUserData(item)),
+      photos: convert(raw.photos, item => this.toPhoto(item)), // Missing before schema 2
+      preferences,
+      tileCount: isNumber(raw.tileCount) ? raw.tileCount : 0
+    }
+
+    return { backup, invalidRecords }
+  }
+
+  /**
+   * Read a backup file selected by the user (.json or .zip)
+   */
+  async readBackupFile(file: File): Promise<BackupContents> {
+    if (file.size > this.MAX_ZIP_SIZE) {
+      throw new Error('File too large')
+    }
+
+    const buffer = await file.arrayBuffer()
+    const bytes = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength))
+    const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b // "PK"
+
+    let json: string
+    let tiles: ZipEntry[] = []
+    let photoFiles: ZipEntry[] = []
+    if (isZip) {
+      const entries = await readZip(buffer, this.MAX_UNZIPPED_SIZE)
+      const entry = entries.find(e => e.name === BACKUP_ENTRY)
+      if (!entry) {
+        throw new Error(`ZIP has no ${BACKUP_ENTRY}`)
+      }
+      json = new TextDecoder().decode(entry.data)
+      tiles = entries.filter(e => e.name.startsWith(TILE_PREFIX) && e.data.length > 0)
+      photoFiles = entries.filter(e => e.name.startsWith(PHOTO_PREFIX) && e.data.length > 0)
+    } else {
+      if (file.size > this.MAX_JSON_SIZE) {
+        throw new Error('File too large')
+      }
+      json = new TextDecoder().decode(buffer)
+    }
+
+    const { backup, invalidRecords } = this.parseBackup(JSON.parse(json))
+    return { backup, tiles, photoFiles, invalidRecords }
+  }
+
+  // ============================================================================
+  // Restore
+  // ============================================================================
+
+  /**
+   * Restore a backup in a single transaction, so a failure leaves the data unchanged.
+   *
+   * - replace: existing routes, waypoints, projects, areas and userData are removed first
+   *   (tiles only if the backup has tiles) and preferences are overwritten. Tiles that
+   *   no restored area includes are removed afterwards.
+   * - merge: records with a new ID are added; on an ID conflict the most recently
+   *   updated version wins. Current preferences are kept.
+   *
+   * References to routes and waypoints that exist neither in the backup nor on
+   * this device are removed from projects and routes; photos of such owners are dropped.
+   * Photos never change after they are added, so merging only adds missing ones.
+   */
+  async restoreBackup(contents: BackupContents, mode: RestoreMode): Promise<RestoreResult> {
+    const { backup, tiles } = contents
+    const result: RestoreResult = { added: 0, updated: 0, skipped: 0, invalid: contents.invalidRecords, tiles: 0, photos: 0 }
+
+    const [existingRoutes, existingWaypoints, existingProjects, existingCategories, existingAreas, existingTileKeys, existingPhotoIds] = mode === 'merge'
+      ? await Promise.all([
+          this.readStore<Route>(ROUTES_STORE),
+          this.readStore<Waypoint>(WAYPOINTS_STORE),
+          this.readStore<Project>(PROJECTS_STORE),
+          this.readStore<WaypointCategory>(CATEGORIES_STORE),
+          this.readStore<DownloadArea>(AREAS_STORE),
+          this.getTileKeys(),
+          this.getPhotoIds()
+        ])
+      : [[], [], [], [], [], new Set<string>(), new Set<string>()]
+
+    // A category that exists here under another ID keeps the local icon and color
+    const categories = backup.waypointCategories.filter(category => {
+      const local = waypointCategoryService.findCategory(existingCategories, category.name)
+      if (local && local.id !== category.id) {
+        result.skipped++
+        return false
+      }
+      return true
+    })
+
+    const routeIds = new Set([...existingRoutes, ...backup.routes].map(route => route.id))
+    const waypointIds = new Set([...existingWaypoints, ...backup.waypoints].map(waypoint => waypoint.id))
+
+    const routes = backup.routes.map(route => ({
+      ...route,
+      waypoints: route.waypoints.filter(id => waypointIds.has(id))
+    }))
+    const projects = backup.projects.map(project => ({
+      ...project,
+      routes: project.routes.filter(id => routeIds.has(id)),
+      waypoints: project.waypoints.filter(id => waypointIds.has(id))
+    }))
+
+    const photoFiles = new Map(contents.photoFiles.map(entry => [entry.name, entry.data]))
+    const photos: Photo[] = []
+    for (const photo of backup.photos) {
+      const ownerExists = photo.ownerType === 'route' ? routeIds.has(photo.ownerId) : waypointIds.has(photo.ownerId)
+      if (!ownerExists || existingPhotoIds.has(photo.id)) continue
+
+      const image = photoFiles.get(this.photoEntryName(photo.id))
+      const thumbnail = photoFiles.get(this.photoEntryName(photo.id, true))
+      if (!image || !thumbnail) {
+        result.invalid++
+        continue
+      }
+      photos.push({
+        ...photo,
+        blob: new Blob([image as BlobPart], { type: 'image/jpeg' }),
+        thumbnail: new Blob([thumbnail as BlobPart], { type: 'image/jpeg' })
+      })
+    }
+
+    const db = await dbService.getDatabase()
+    const storeNames = [ROUTES_STORE, WAYPOINTS_STORE, PROJECTS_STORE, CATEGORIES_STORE, AREAS_STORE, USER_DATA_STORE, TILES_STORE, ELEVATION_STORE, PHOTOS_STORE]
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(storeNames, 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(new Error(`Failed to restore backup: ${transaction.error?.message || 'Unknown error'}`))
+      transaction.onabort = () => reject(new Error(`Backup restore aborted: ${transaction.error?.message || 'Unknown error'}`))
+
+      const userDataStore = transaction.objectStore(USER_DATA_STORE)
+      const elevationStore = transaction.objectStore(ELEVATION_STORE)
+
+      const tilesStore = transaction.objectStore(TILES_STORE)
+
+      if (mode === 'replace') {
+        for (const name of [ROUTES_STORE, WAYPOINTS_STORE, PROJECTS_STORE, CATEGORIES_STORE, AREAS_STORE, USER_DATA_STORE, ELEVATION_STORE, PHOTOS_STORE]) {
+          transaction.objectStore(name).clear()
+        }
+        // Without tiles in the backup, the offline tiles on this device are kept
+        if (tiles.length > 0) {
+          tilesStore.clear()
+        }
+      }
+
+      const write = <T extends { id: string }>(storeName: string, records: T[], existing: T[], version: (record: T) => number) => {
+        const store = transaction.objectStore(storeName)
+        const current = new Map(existing.map(record => [record.id, record]))
+
+        for (const record of records) {
+          const previous = current.get(record.id)
+          if (!previous) {
+            store.put(record)
+            result.added++
+          } else if (version(record) > version(previous)) {
+            store.put(record)
+            result.updated++
+            // Geometry may have changed, so the cached elevation profile can be stale
+            if (storeName === ROUTES_STORE) elevationStore.delete(record.id)
+          } else {
+            result.skipped++
+          }
+        }
+      }
+
+      write(ROUTES_STORE, routes, existingRoutes, route => route.updatedAt)
+      write(WAYPOINTS_STORE, backup.waypoints, existingWaypoints, waypoint => waypoint.updatedAt)
+      write(PROJECTS_STORE, projects, existingProjects, project => project.updatedAt)
+      write(CATEGORIES_STORE, categories, existingCategories, category => category.updatedAt)
+      write(AREAS_STORE, backup.downloadedAreas, existingAreas, area => area.downloadedAt ?? 0)
+
+      const photoStore = transaction.objectStore(PHOTOS_STORE)
+      photos.forEach(photo => photoStore.put(photo))
+      result.photos = photos.length
+
+      // userData has no stable IDs, so merging would duplicate it; it is only restored on replace
+      if (mode === 'replace') {
+        backup.userData.forEach(record => userDataStore.add(record))
+      }
+
+      for (const entry of tiles) {
+        const key = entry.name.slice(TILE_PREFIX.length)
+        if (existingTileKeys.has(key)) continue
+        const data = entry.data.buffer.slice(entry.data.byteOffset, entry.data.byteOffset + entry.data.byteLength) as ArrayBuffer
+        // The areas that include the tile are filled in below, once the areas are restored
+        tilesStore.put({ key, data, timestamp: Date.now(), areaIds: [] })
+        result.tiles++
+      }
+    })
+
+    // Link tiles to the restored areas; tiles no area includes any more are removed
+    await offlineMapService.rebuildTileReferences()
+
+    if (mode === 'replace') {
+      for (const key of PREFERENCE_KEYS) {
+        const value = backup.preferences[key]
+        if (value === undefined) {
+          localStorage.removeItem(key)
+        } else {
+          localStorage.setItem(key, value)
+        }
+      }
+    }
+
+    devLog(`Backup restored (${mode}):`, result)
+    return result
+  }
+
+  private async getPhotoIds(): Promise<Set<string>> {
+    const db = await dbService.getDatabase()
+    const store = db.transaction([PHOTOS_STORE], 'readonly').objectStore(PHOTOS_STORE)
+    const keys = await promisify(store.getAllKeys(), 'read photo IDs')
+    return new Set(keys as string[])
+  }
+
+  // Keys of offline tiles already stored, so merging doesn't store duplicates
+  private async getTileKeys(): Promise<Set<string>> {
+    const db = await dbService.getDatabase()
+    const store = db.transaction([TILES_STORE], 'readonly').objectStore(TILES_STORE)
+    const keys = await promisify(store.getAllKeys(), 'read tile keys')
+    return new Set(keys as string[])
+  }
+}
+
+export const backupService = new BackupService()
@@ -2,9 +2,10 @@
 // Manages offline data storage for user preferences and cached data
 
 import { devLog, devError } from '../constants'
+import { coversTile, type TileCoverage } from '../utils/tiles'
 
 const DB_NAME = 'trakke-db'
-const DB_VERSION = 5
+export const DB_VERSION = 13
 const STORE_NAME = 'userData'
 const TILES_STORE = 'offlineTiles'
 const AREAS_STORE = 'downloadedAreas'
@@ -14,6 +15,32 @@ const PROJECTS_STORE = 'projects'
 const ELEVATION_STORE = 'elevationProfiles'
 const WEATHER_STORE = 'weatherCache'
 const BATHING_TEMP_STORE = 'bathingTempCache'
+const TRACK_RECORDINGS_STORE = 'trackRecordings'
+const TRACK_POINTS_STORE = 'trackPoints'
+const TRAIL_CELLS_STORE = 'trailCells'
+const SYNC_TOMBSTONES_STORE = 'syncTombstones'
+const PHOTOS_STORE = 'photos'
+const WAYPOINT_CATEGORIES_STORE = 'waypointCategories'
+const DOWNLOAD_JOBS_STORE = 'downloadJobs'
+
+// An offline map tile, kept as long as at least one downloaded area includes it.
+// Areas overlap, so areaIds works as a reference count.
+export interface OfflineTile {
+  key: string // baseLayer/z/x/y
+  data: ArrayBuffer
+  timestamp: number
+  areaIds: string[]
+}
+
+export interface ReleasedTile {
+  key: string
+  size: number // bytes
+}
+
+type AreaCoverage = TileCoverage & { id: string }
+
+// Route difficulty values from before the DNT grading scale (v8)
+const LEGACY_DIFFICULTIES: Record<string, string> = { easy: 'green', moderate: 'blue', hard: 'red' }
 
 class DatabaseService {
   private db: IDBDatabase | null = null
@@ -143,6 +170,140 @@ class DatabaseService {
 
           devLog('Object store created:', BATHING_TEMP_STORE)
         }
+
+        // Create track recording stores (v6)
+        if (oldVersion < 6 && !db.objectStoreNames.contains(TRACK_RECORDINGS_STORE)) {
+          const recordingsStore = db.createObjectStore(TRACK_RECORDINGS_STORE, {
+            keyPath: 'id'
+          })
+
+          recordingsStore.createIndex('startedAt', 'startedAt', { unique: false })
+
+          devLog('Object store created:', TRACK_RECORDINGS_STORE)
+        }
+
+        if (oldVersion < 6 && !db.objectStoreNames.contains(TRACK_POINTS_STORE)) {
+          // Points are appended one by one while recording, so a killed tab loses at most one fix
+          const pointsStore = db.createObjectStore(TRACK_POINTS_STORE, {
+            keyPath: 'seq',
+            autoIncrement: true
+          })
+
+          pointsStore.createIndex('recordingId', 'recordingId', { unique: false })
+
+          devLog('Object store created:', TRACK_POINTS_STORE)
+        }
+
+        // Create trail graph cache store (v7)
+        if (oldVersion < 7 && !db.objectStoreNames.contains(TRAIL_CELLS_STORE)) {
+          const trailStore = db.createObjectStore(TRAIL_CELLS_STORE, {
+            keyPath: 'key'
+          })
+
+          trailStore.createIndex('fetchedAt', 'fetchedAt', { unique: false })
+
+          devLog('Object store created:', TRAIL_CELLS_STORE)
+        }
+
+        // Migrate route difficulty to DNT grades (v8)
+        if (oldVersion >= 3 && oldVersion < 8) {
+          const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction
+          const cursorRequest = upgradeTransaction?.objectStore(ROUTES_STORE).openCursor()
+
+          if (cursorRequest) {
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result
+              if (!cursor) return
+              const route = cursor.value
+              const grade = LEGACY_DIFFICULTIES[route.difficulty]
+              if (grade) {
+                cursor.update({ ...route, difficulty: grade })
+              }
+              cursor.continue()
+            }
+          }
+
+          devLog('Route difficulties migrated to DNT grades')
+        }
+
+        // Create sync tombstones store (v9)
+        if (oldVersion < 9 && !db.objectStoreNames.contains(SYNC_TOMBSTONES_STORE)) {
+          const tombstonesStore = db.createObjectStore(SYNC_TOMBSTONES_STORE, {
+            keyPath: 'id'
+          })
+
+          tombstonesStore.createIndex('deletedAt', 'deletedAt', { unique: false })
+
+          devLog('Object store created:', SYNC_TOMBSTONES_STORE)
+        }
+
+        // Create photo attachments store (v10)
+        if (oldVersion < 10 && !db.objectStoreNames.contains(PHOTOS_STORE)) {
+          const photosStore = db.createObjectStore(PHOTOS_STORE, {
+            keyPath: 'id'
+          })
+
+          photosStore.createIndex('ownerId', 'ownerId', { unique: false })
+
+          devLog('Object store created:', PHOTOS_STORE)
+        }
+
+        // Create waypoint category registry (v11); filled from existing waypoints on first read
+        if (oldVersion < 11 && !db.objectStoreNames.contains(WAYPOINT_CATEGORIES_STORE)) {
+          db.createObjectStore(WAYPOINT_CATEGORIES_STORE, {
+            keyPath: 'id'
+          })
+
+          devLog('Object store created:', WAYPOINT_CATEGORIES_STORE)
+        }
+
+        // Track which downloaded areas use each offline tile (v12).
+        // Tiles were stored in userData before; they move to offlineTiles with the areas
+        // that cover them. Tiles no area covers (from deleted areas) are dropped.
+        if (oldVersion < 12) {
+          const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!
+          const tilesStore = upgradeTransaction.objectStore(TILES_STORE)
+          if (!tilesStore.indexNames.contains('areaIds')) {
+            tilesStore.createIndex('areaIds', 'areaIds', { unique: false, multiEntry: true })
+          }
+
+          if (oldVersion >= 2) {
+            const areasRequest = upgradeTransaction.objectStore(AREAS_STORE).getAll()
+            areasRequest.onsuccess = () => {
+              const areas = areasRequest.result as AreaCoverage[]
+              const cursorRequest = upgradeTransaction.objectStore(STORE_NAME).index('type').openCursor('tile')
+              let moved = 0
+              let dropped = 0
+
+              cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result
+                if (!cursor) {
+                  devLog(`Offline tiles migrated: ${moved} kept, ${dropped} without an area removed`)
+                  return
+                }
+                const tile = cursor.value.data as Omit<OfflineTile, 'areaIds'>
+                const areaIds = areas.filter(area => coversTile(area, tile.key)).map(area => area.id)
+                if (areaIds.length > 0) {
+                  tilesStore.put({ key: tile.key, data: tile.data, timestamp: tile.timestamp, areaIds })
+                  moved++
+                } else {
+                  dropped++
+                }
+                cursor.delete()
+                cursor.continue()
+              }
+            }
+          }
+        }
+
+        // Create offline download queue store (v13); downloads continue after a restart
+        if (oldVersion < 13 && !db.objectStoreNames.contains(DOWNLOAD_JOBS_STORE)) {
+          db.createObjectStore(DOWNLOAD_JOBS_STORE, {
+            keyPath: 'id'
+          })
+
+          devLog('Object store created:', DOWNLOAD_JOBS_STORE)
+        }
       }
     })
   }
@@ -256,21 +417,174 @@ class DatabaseService {
     })
   }
 
-  async deleteDownloadedArea(areaId: string): Promise<void> {
+  /**
+   * Delete a downloaded area and release its tiles.
+   * Tiles that other areas still include are kept.
+   *
+   * @returns The tiles that were deleted
+   */
+  async deleteDownloadedArea(areaId: string): Promise<ReleasedTile[]> {
     const db = await this.init()
+    const released: ReleasedTile[] = []
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([AREAS_STORE], 'readwrite')
-      const store = transaction.objectStore(AREAS_STORE)
+      const transaction = db.transaction([AREAS_STORE, TILES_STORE], 'readwrite')
+      transaction.oncomplete = () => resolve(released)
+      transaction.onerror = () => {
+        reject(new Error(`Failed to delete downloaded area (ID: ${areaId}): ${transaction.error?.message || 'Unknown error'}`))
+      }
 
-      const request = store.delete(areaId)
+      transaction.objectStore(AREAS_STORE).delete(areaId)
+
+      const cursorRequest = transaction.objectStore(TILES_STORE).index('areaIds').openCursor(areaId)
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor) return
+        const tile = cursor.value as OfflineTile
+        const areaIds = tile.areaIds.filter(id => id !== areaId)
+        if (areaIds.length === 0) {
+          cursor.delete()
+          released.push({ key: tile.key, size: tile.data.byteLength })
+        } else {
+          cursor.update({ ...tile, areaIds })
+        }
+        cursor.continue()
+      }
+    })
+  }
 
-      request.onsuccess = () => {
-        resolve()
+  // Offline tiles (offlineTiles store)
+
+  /**
+   * Store a downloaded tile and record that the area includes it
+   */
+  async saveTile(key: string, data: ArrayBuffer, areaId: string): Promise<void> {
+    return this.saveTiles([{ key, data }], areaId)
+  }
+
+  /**
+   * Store tiles of one area in a single transaction (archive imports)
+   */
+  async saveTiles(tiles: Array<{ key: string; data: ArrayBuffer }>, areaId: string): Promise<void> {
+    const db = await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TILES_STORE], 'readwrite')
+      const store = transaction.objectStore(TILES_STORE)
+
+      for (const { key, data } of tiles) {
+        const request = store.get(key)
+        request.onsuccess = () => {
+          const existing = request.result as OfflineTile | undefined
+          const areaIds = existing?.areaIds.includes(areaId) ? existing.areaIds : [...(existing?.areaIds ?? []), areaId]
+          store.put({ key, data, timestamp: Date.now(), areaIds })
+        }
       }
 
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => {
+        const keys = tiles.length === 1 ? `key: ${tiles[0].key}` : `${tiles.length} tiles`
+        reject(new Error(`Failed to save tile (${keys}): ${transaction.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  /**
+   * Get the stored tiles an area includes, one page at a time in key order
+   *
+   * @param after - Key of the last tile of the previous page
+   * @param limit - Maximum number of tiles to return
+   */
+  async getAreaTiles(areaId: string, after?: string, limit = Infinity): Promise<OfflineTile[]> {
+    const db = await this.init()
+    const tiles: OfflineTile[] = []
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TILES_STORE], 'readonly')
+      const cursorRequest = transaction.objectStore(TILES_STORE).index('areaIds').openCursor(areaId)
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor) {
+          resolve(tiles)
+          return
+        }
+
+        // Skip to the first tile after the previous page
+        if (after !== undefined && indexedDB.cmp(cursor.primaryKey, after) <= 0) {
+          if (indexedDB.cmp(cursor.primaryKey, after) < 0) {
+            cursor.continuePrimaryKey(areaId, after)
+          } else {
+            cursor.continue()
+          }
+          return
+        }
+
+        tiles.push(cursor.value as OfflineTile)
+        if (tiles.length >= limit) {
+          resolve(tiles)
+        } else {
+          cursor.continue()
+        }
+      }
+      cursorRequest.onerror = () => {
+        reject(new Error(`Failed to get tiles for area (ID: ${areaId}): ${cursorRequest.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  /**
+   * Get the image data of a stored tile
+   *
+   * @returns The tile data, or null if no downloaded area includes the tile
+   */
+  async getTile(key: string): Promise<ArrayBuffer | null> {
+    const db = await this.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TILES_STORE], 'readonly')
+      const request = transaction.objectStore(TILES_STORE).get(key)
+
+      request.onsuccess = () => {
+        const tile = request.result as OfflineTile | undefined
+        resolve(tile?.data ?? null)
+      }
       request.onerror = () => {
-        reject(new Error(`Failed to delete downloaded area (ID: ${areaId}): ${request.error?.message || 'Unknown error'}`))
+        reject(new Error(`Failed to get tile (key: ${key}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  /**
+   * Recompute which areas include each tile, e.g. after areas were restored from a backup.
+   * Tiles no area includes are deleted.
+   *
+   * @returns The tiles that were deleted
+   */
+  async rebuildTileReferences(areas: AreaCoverage[]): Promise<ReleasedTile[]> {
+    const db = await this.init()
+    const released: ReleasedTile[] = []
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([TILES_STORE], 'readwrite')
+      transaction.oncomplete = () => resolve(released)
+      transaction.onerror = () => {
+        reject(new Error(`Failed to rebuild tile references: ${transaction.error?.message || 'Unknown error'}`))
+      }
+
+      const cursorRequest = transaction.objectStore(TILES_STORE).openCursor()
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor) return
+        const tile = cursor.value as OfflineTile
+        const areaIds = areas.filter(area => coversTile(area, tile.key)).map(area => area.id)
+        if (areaIds.length === 0) {
+          cursor.delete()
+          released.push({ key: tile.key, size: tile.data.byteLength })
+        } else if (areaIds.join() !== tile.areaIds.join()) {
+          cursor.update({ ...tile, areaIds })
+        }
+        cursor.continue()
       }
     })
   }
@@ -0,0 +1,411 @@
+// Download queue service for Tråkke PWA
+// Persisted queue of offline map downloads with pause, resume and cancel.
+// Progress is saved after every batch of tiles, so a download survives closing the sheet,
+// losing the network and restarting the app. One area downloads at a time; failed tiles
+// are retried with exponential backoff and once more at the end of the download, and
+// downloads wait for the network to come back.
+
+import { dbService } from './dbService'
+import { offlineMapService, type DownloadArea, type DownloadProgress } from './offlineMapService'
+import { devLog, devError } from '../constants'
+
+export type DownloadJobStatus =
+  | 'queued'
+  | 'downloading'
+  | 'paused' // By the user, or saved with failed tiles left to retry
+  | 'waiting' // For the network to come back
+
+export interface DownloadJob {
+  id: string // Same as the area ID
+  area: DownloadArea
+  status: DownloadJobStatus
+  nextTile: number // Index of the next tile, in offlineMapService.getTiles order
+  failedTileIndexes?: number[] // Tiles that failed with a server error, retried after the rest
+  areaSaved?: boolean // The area is usable; the job only retries failed tiles
+  progress: DownloadProgress
+  createdAt: number
+  updatedAt: number
+}
+
+type DownloadQueueListener = (jobs: DownloadJob[]) => void
+
+// Result of one tile: its size, or why there is none
+type TileResult = number | 'missing' | 'failed' | 'offline'
+
+type TileBatch = Array<{ index: number; tile: { z: number; x: number; y: number } }>
+
+const DOWNLOAD_JOBS_STORE = 'downloadJobs'
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+class DownloadQueueService {
+  private readonly BATCH_SIZE = 5
+  private readonly BATCH_DELAY = 100 // ms between batches, to prevent rate limiting
+  private readonly MAX_ATTEMPTS = 4 // per tile
+  private readonly RETRY_BASE_DELAY = 1000 // ms, doubled for each attempt
+  // Retry while the browser reports a connection that doesn't work (no 'online' event comes)
+  private readonly NETWORK_RETRY_DELAY = 60000 // ms
+
+  private jobs = new Map<string, DownloadJob>()
+  private loaded: Promise<void> | null = null
+  private listeners = new Set<DownloadQueueListener>()
+  private stopRequests = new Map<string, 'pause' | 'cancel'>() // For the job being downloaded
+  private activeJobId: string | null = null
+  private running = false
+  private networkRetryTimer: ReturnType<typeof setTimeout> | undefined
+
+  constructor() {
+    window.addEventListener('online', () => {
+      devLog('[DownloadQueue] Back online')
+      this.resumeWaiting()
+    })
+  }
+
+  /**
+   * Subscribe to queue changes; called immediately with the current jobs.
+   * Returns unsubscribe function
+   */
+  subscribe(listener: DownloadQueueListener): () => void {
+    this.listeners.add(listener)
+    this.load().then(() => listener(this.getJobs())).catch(error => {
+      devError('[DownloadQueue] Failed to load jobs:', error)
+    })
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Jobs in the order they download
+   */
+  getJobs(): DownloadJob[] {
+    return [...this.jobs.values()].sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  /**
+   * Continue the downloads that were running when the app was closed
+   */
+  async resumeDownloads(): Promise<void> {
+    await this.load()
+    for (const job of this.jobs.values()) {
+      if (job.status === 'downloading' || (job.status === 'waiting' && navigator.onLine)) {
+        await this.save({ ...job, status: 'queued' })
+      }
+    }
+    this.run()
+  }
+
+  /**
+   * Add an area to the queue
+   *
+   * @throws Error if the area is too large to download
+   */
+  async enqueue(area: DownloadArea): Promise<DownloadJob> {
+    offlineMapService.assertDownloadable(area)
+    await this.load()
+
+    const now = Date.now()
+    const job: DownloadJob = {
+      id: area.id,
+      area,
+      status: 'queued',
+      nextTile: 0,
+      progress: offlineMapService.createProgress(area),
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await this.save(job)
+    devLog(`[DownloadQueue] Queued ${area.name} (${job.progress.totalTiles} tiles)`)
+    this.run()
+    return job
+  }
+
+  async pause(id: string): Promise<void> {
+    const job = this.jobs.get(id)
+    if (!job || job.status === 'paused') return
+
+    if (id === this.activeJobId) {
+      this.stopRequests.set(id, 'pause') // Takes effect after the current batch
+    } else {
+      await this.save({ ...job, status: 'paused' })
+    }
+  }
+
+  async resume(id: string): Promise<void> {
+    if (this.stopRequests.get(id) === 'pause') {
+      this.stopRequests.delete(id) // Paused and resumed within one batch
+      return
+    }
+
+    const job = this.jobs.get(id)
+    if (!job || (job.status !== 'paused' && job.status !== 'waiting')) return
+
+    await this.save({ ...job, status: 'queued' })
+    this.run()
+  }
+
+  /**
+   * Stop a download and remove the tiles it stored (unless other areas use them).
+   * An area that was already saved keeps its tiles; only the retries are dropped.
+   */
+  async cancel(id: string): Promise<void> {
+    if (id === this.activeJobId) {
+      this.stopRequests.set(id, 'cancel') // Takes effect after the current batch
+      return
+    }
+    await this.remove(id, !this.jobs.get(id)?.areaSaved)
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = dbService.getDatabase().then(db => new Promise<void>((resolve, reject) => {
+        const request = db.transaction([DOWNLOAD_JOBS_STORE], 'readonly').objectStore(DOWNLOAD_JOBS_STORE).getAll()
+        request.onsuccess = () => {
+          (request.result as DownloadJob[]).forEach(job => this.jobs.set(job.id, job))
+          resolve()
+        }
+        request.onerror = () => {
+          reject(new Error(`Failed to load download jobs: ${request.error?.message || 'Unknown error'}`))
+        }
+      }))
+      this.loaded.catch(() => {
+        this.loaded = null // Try again next time
+      })
+    }
+    return this.loaded
+  }
+
+  private async save(job: DownloadJob): Promise<void> {
+    const updated = { ...job, updatedAt: Date.now() }
+    const db = await dbService.getDatabase()
+
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction([DOWNLOAD_JOBS_STORE], 'readwrite').objectStore(DOWNLOAD_JOBS_STORE).put(updated)
+      request.onsuccess = () => resolve()
+      request.onerror = () => {
+        reject(new Error(`Failed to save download job (ID: ${job.id}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+
+    this.jobs.set(job.id, updated)
+    this.notify()
+  }
+
+  // Remove a job; a cancelled job also gives back the tiles it stored
+  private async remove(id: string, releaseTiles: boolean): Promise<void> {
+    const db = await dbService.getDatabase()
+
+    await new Promise<void>((resolve, reject) => {
+      const request = db.transaction([DOWNLOAD_JOBS_STORE], 'readwrite').objectStore(DOWNLOAD_JOBS_STORE).delete(id)
+      request.onsuccess = () => resolve()
+      request.onerror = () => {
+        reject(new Error(`Failed to delete download job (ID: ${id}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+
+    this.jobs.delete(id)
+    this.notify()
+
+    if (releaseTiles) {
+      await offlineMapService.deleteArea(id)
+    }
+  }
+
+  private notify(): void {
+    const jobs = this.getJobs()
+    this.listeners.forEach(listener => {
+      try {
+        listener(jobs)
+      } catch (error) {
+        devError('[DownloadQueue] Listener callback failed:', error)
+      }
+    })
+  }
+
+  private resumeWaiting(): void {
+    clearTimeout(this.networkRetryTimer)
+    this.load()
+      .then(async () => {
+        for (const job of this.jobs.values()) {
+          if (job.status === 'waiting') await this.save({ ...job, status: 'queued' })
+        }
+        this.run()
+      })
+      .catch(error => devError('[DownloadQueue] Failed to resume downloads:', error))
+  }
+
+  /**
+   * Download queued jobs one at a time until the queue is empty or the network is gone
+   */
+  private async run(): Promise<void> {
+    if (this.running) return
+    this.running = true
+
+    try {
+      await this.load()
+      let job = this.nextJob()
+      while (job) {
+        const finished = await this.process(job)
+        if (!finished) break
+        job = this.nextJob()
+      }
+    } catch (error) {
+      devError('[DownloadQueue] Download failed:', error)
+    } finally {
+      this.running = false
+      this.activeJobId = null
+    }
+  }
+
+  private nextJob(): DownloadJob | undefined {
+    return this.getJobs().find(job => job.status === 'queued' || job.status === 'downloading')
+  }
+
+  /**
+   * Download the remaining tiles of a job, then try the tiles that failed once more.
+   * Tiles that still fail are kept on the job, which is paused so they can be retried.
+   *
+   * @returns false when the queue has to wait for the network
+   */
+  private async process(start: DownloadJob): Promise<boolean> {
+    this.activeJobId = start.id
+    const retries = [...(start.failedTileIndexes ?? [])] // From earlier runs; failures from this run are added
+    let job: DownloadJob = { ...start, status: 'downloading', failedTileIndexes: [] }
+    await this.save(job)
+
+    const tiles = offlineMapService.getTiles(job.area, job.nextTile)
+    let retrying = false
+
+    // Tiles in order from nextTile, then the failed ones
+    const nextBatch = (): TileBatch => {
+      if (!retrying) {
+        const batch: TileBatch = []
+        while (batch.length < this.BATCH_SIZE) {
+          const next = tiles.next()
+          if (next.done) break
+          batch.push({ index: job.nextTile + batch.length, tile: next.value })
+        }
+        if (batch.length > 0) return batch
+        retrying = true
+        retries.push(...(job.failedTileIndexes ?? []))
+        job = { ...job, failedTileIndexes: [] }
+      }
+      return retries.splice(0, this.BATCH_SIZE).map(index => ({
+        index,
+        tile: offlineMapService.getTiles(job.area, index).next().value!
+      }))
+    }
+
+    for (let batch = nextBatch(); batch.length > 0; batch = nextBatch()) {
+      const unfinished = retrying ? [...batch.map(entry => entry.index), ...retries] : retries
+      if (await this.handleStopRequest(job, unfinished)) return true
+
+      const results = await Promise.all(batch.map(({ tile }) => this.downloadTile(job.area, tile)))
+
+      // Count tiles up to the first one lost to the network; that one and the rest of
+      // the batch are downloaded again when the network is back, so nothing counts twice
+      const offlineIndex = results.indexOf('offline')
+      const done = offlineIndex === -1 ? results : results.slice(0, offlineIndex)
+      const progress = { ...job.progress }
+      const failedTileIndexes = [...(job.failedTileIndexes ?? [])]
+      done.forEach((result, i) => {
+        if (typeof result === 'number') {
+          progress.downloadedTiles++
+          progress.currentSize += result
+          if (retrying) progress.failedTiles--
+        } else if (!retrying) {
+          progress.failedTiles++
+        }
+        // Server errors may pass; tiles the server doesn't have won't
+        if (result === 'failed') failedTileIndexes.push(batch[i].index)
+      })
+      progress.percentage = Math.round((progress.downloadedTiles / progress.totalTiles) * 100)
+      job = { ...job, nextTile: retrying ? job.nextTile : job.nextTile + done.length, progress, failedTileIndexes }
+
+      if (offlineIndex !== -1) {
+        // Failed tiles not yet retried stay on the job
+        const unfinished = retrying ? [...batch.slice(offlineIndex).map(entry => entry.index), ...retries] : retries
+        await this.save({ ...job, status: 'waiting', failedTileIndexes: [...failedTileIndexes, ...unfinished] })
+        await this.waitForNetwork()
+        return false
+      }
+
+      await this.save(job)
+      await delay(this.BATCH_DELAY)
+    }
+
+    // A pause or cancel requested during the last batch
+    if (await this.handleStopRequest(job, [])) return true
+
+    const failedTileIndexes = job.failedTileIndexes ?? []
+    await offlineMapService.completeArea(job.area, job.progress.downloadedTiles)
+    if (failedTileIndexes.length > 0) {
+      await this.save({ ...job, status: 'paused', areaSaved: true })
+      devLog(`[DownloadQueue] Saved ${job.area.name} with ${failedTileIndexes.length} tiles to retry`)
+    } else {
+      await this.remove(job.id, false)
+      devLog(`[DownloadQueue] Finished ${job.area.name}: ${job.progress.downloadedTiles} tiles, ${job.progress.failedTiles} failed`)
+    }
+    return true
+  }
+
+  /**
+   * Pause or cancel the job if asked to since the last batch
+   *
+   * @param unfinished - Failed tiles not yet retried, kept on a paused job
+   * @returns true if the job stopped
+   */
+  private async handleStopRequest(job: DownloadJob, unfinished: number[]): Promise<boolean> {
+    const stop = this.stopRequests.get(job.id)
+    if (!stop) return false
+
+    this.stopRequests.delete(job.id)
+    if (stop === 'cancel') {
+      // Tiles of an area that was already saved stay with it
+      await this.remove(job.id, !job.areaSaved)
+      devLog(`[DownloadQueue] Cancelled ${job.area.name}`)
+    } else {
+      await this.save({ ...job, status: 'paused', failedTileIndexes: [...(job.failedTileIndexes ?? []), ...unfinished] })
+      devLog(`[DownloadQueue] Paused ${job.area.name}`)
+    }
+    return true
+  }
+
+  // Other queued jobs wait too; they resume with 'online' or after a delay
+  private async waitForNetwork(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      if (job.status === 'queued') await this.save({ ...job, status: 'waiting' })
+    }
+
+    clearTimeout(this.networkRetryTimer)
+    if (navigator.onLine) {
+      this.networkRetryTimer = setTimeout(() => this.resumeWaiting(), this.NETWORK_RETRY_DELAY)
+    }
+    devLog('[DownloadQueue] Waiting for network')
+  }
+
+  /**
+   * Download one tile, retrying network and server errors with exponential backoff
+   */
+  private async downloadTile(area: DownloadArea, tile: { z: number; x: number; y: number }): Promise<TileResult> {
+    for (let attempt = 1; ; attempt++) {
+      if (!navigator.onLine) return 'offline'
+
+      try {
+        const size = await offlineMapService.downloadTile(tile.z, tile.x, tile.y, area.baseLayer, area.id)
+        return size ?? 'missing'
+      } catch (error) {
+        if (attempt >= this.MAX_ATTEMPTS) {
+          devError(`Failed to download tile ${area.baseLayer}/${tile.z}/${tile.x}/${tile.y}:`, error)
+          // fetch rejects with TypeError when the request never got an answer, also on a
+          // connection the browser reports as online but that carries no data
+          return !navigator.onLine || error instanceof TypeError ? 'offline' : 'failed'
+        }
+        await delay(this.RETRY_BASE_DELAY * 2 ** (attempt - 1))
+      }
+    }
+  }
+}
+
+export const downloadQueueService = new DownloadQueueService()
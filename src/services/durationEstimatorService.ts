@@ -0,0 +1,192 @@
+// Duration estimation for routes
+// Tobler-style speed per slope along the elevation profile, with a Naismith-style
+// fallback (flat speed plus time per 100 m climb) when only total ascent is known.
+
+import type { Route } from './routeService'
+import type { ElevationProfile } from './elevationService'
+import { mapPreferencesService } from './mapPreferencesService'
+import { calculateHaversineDistance } from '../utils/haversine'
+
+export type ActivityProfile = 'walking' | 'trailRunning' | 'crossCountrySki' | 'snowshoe' | 'cycling'
+
+interface ActivityParameters {
+  label: string
+  flatSpeedKmh: number // Speed on level ground
+  optimalSlope: number // Slope with the highest speed (slightly downhill for most activities)
+  uphillDecay: number // How fast speed drops when steeper than optimal
+  downhillDecay: number // How fast speed drops when more downhill than optimal
+  minSpeedKmh: number // Floor for very steep sections
+  maxSpeedKmh: number // Cap for long descents
+  climbMinutesPer100m: number // Naismith-style fallback without an elevation profile
+}
+
+export const ACTIVITY_PROFILES: Record<ActivityProfile, ActivityParameters> = {
+  // Tobler's hiking function: 6 km/h at 5 % downhill, 5 km/h on flat ground
+  walking: {
+    label: 'Gå',
+    flatSpeedKmh: 5,
+    optimalSlope: -0.05,
+    uphillDecay: 3.5,
+    downhillDecay: 3.5,
+    minSpeedKmh: 0.8,
+    maxSpeedKmh: 6,
+    climbMinutesPer100m: 10
+  },
+  trailRunning: {
+    label: 'Terrengløp',
+    flatSpeedKmh: 9,
+    optimalSlope: -0.03,
+    uphillDecay: 4.5,
+    downhillDecay: 3,
+    minSpeedKmh: 2,
+    maxSpeedKmh: 12,
+    climbMinutesPer100m: 6
+  },
+  crossCountrySki: {
+    label: 'Langrenn',
+    flatSpeedKmh: 9,
+    optimalSlope: -0.03,
+    uphillDecay: 6,
+    downhillDecay: 2,
+    minSpeedKmh: 2,
+    maxSpeedKmh: 20,
+    climbMinutesPer100m: 8
+  },
+  snowshoe: {
+    label: 'Truger',
+    flatSpeedKmh: 3.5,
+    optimalSlope: -0.05,
+    uphillDecay: 3.5,
+    downhillDecay: 3,
+    minSpeedKmh: 0.8,
+    maxSpeedKmh: 4.5,
+    climbMinutesPer100m: 12
+  },
+  cycling: {
+    label: 'Sykkel',
+    flatSpeedKmh: 16,
+    optimalSlope: -0.02,
+    uphillDecay: 10,
+    downhillDecay: 1.5,
+    minSpeedKmh: 4,
+    maxSpeedKmh: 30,
+    climbMinutesPer100m: 6
+  }
+}
+
+export interface RouteEstimate {
+  duration: number // minutes, adjusted by the personal pace factor
+}
+
+export interface PaceCalibration {
+  factor: number // Actual time / estimated time (1 = standard pace)
+  routeCount: number
+}
+
+type ElevationSample = { coordinates: [number, number]; elevation: number }
+
+class DurationEstimatorService {
+  // Calibration ignores very short routes and clamps outliers
+  private readonly MIN_CALIBRATION_DISTANCE = 1000 // meters
+  private readonly MIN_PACE_FACTOR = 0.5
+  private readonly MAX_PACE_FACTOR = 2.5
+
+  /**
+   * Speed in km/h on a given slope (rise / run)
+   */
+  getSpeed(activity: ActivityProfile, slope: number): number {
+    const params = ACTIVITY_PROFILES[activity]
+    const offset = slope - params.optimalSlope
+    const decay = offset > 0 ? params.uphillDecay : params.downhillDecay
+    // Scaled so that the speed on flat ground equals flatSpeedKmh
+    const peak = params.flatSpeedKmh * Math.exp(params.uphillDecay * Math.abs(params.optimalSlope))
+    const speed = peak * Math.exp(-decay * Math.abs(offset))
+    return Math.min(params.maxSpeedKmh, Math.max(params.minSpeedKmh, speed))
+  }
+
+  // Elevation along the route: the DTM profile if available, otherwise recorded GPS altitudes
+  private getElevationSamples(route: Route, profile: ElevationProfile | null): ElevationSample[] {
+    if (profile && profile.points.length >= 2) {
+      return profile.points.map(point => ({ coordinates: [point.x, point.y], elevation: point.z }))
+    }
+
+    const samples: ElevationSample[] = []
+    route.elevations?.forEach((elevation, index) => {
+      if (elevation !== null && elevation !== undefined && route.coordinates[index]) {
+        samples.push({ coordinates: route.coordinates[index], elevation })
+      }
+    })
+    return samples
+  }
+
+  /**
+   * Standard-pace duration in minutes (no personal pace factor)
+   */
+  private estimateMinutes(route: Route, profile: ElevationProfile | null, activity: ActivityProfile): number {
+    const distance = route.distance ?? 0
+    if (distance <= 0) return 0
+
+    const samples = this.getElevationSamples(route, profile)
+    if (samples.length >= 2) {
+      let hours = 0
+      let sampledDistance = 0
+      for (let i = 1; i < samples.length; i++) {
+        const run = calculateHaversineDistance(samples[i - 1].coordinates, samples[i].coordinates)
+        if (run <= 0) continue
+        const slope = (samples[i].elevation - samples[i - 1].elevation) / run
+        hours += (run / 1000) / this.getSpeed(activity, slope)
+        sampledDistance += run
+      }
+      // Samples skip vertices between them, so scale up to the full route distance
+      if (sampledDistance > 0) {
+        return (hours * 60) * (distance / sampledDistance)
+      }
+    }
+
+    // Naismith-style: flat time plus a fixed time per 100 m of ascent
+    const params = ACTIVITY_PROFILES[activity]
+    const flatMinutes = (distance / 1000) / params.flatSpeedKmh * 60
+    return flatMinutes + ((route.elevationGain ?? 0) / 100) * params.climbMinutesPer100m
+  }
+
+  /**
+   * Estimate the duration of a route.
+   * Uses the route's activity (or the preferred activity) and the user's calibrated pace.
+   */
+  estimateRoute(route: Route, profile: ElevationProfile | null = null): RouteEstimate {
+    const preferences = mapPreferencesService.getPreferences()
+    const activity = route.activity ?? preferences.activityProfile
+    const paceFactor = preferences.paceFactors[activity] ?? 1
+
+    const minutes = this.estimateMinutes(route, profile, activity)
+    return { duration: Math.max(1, Math.round(minutes * paceFactor)) }
+  }
+
+  /**
+   * Personal pace factor from completed routes of an activity:
+   * the median ratio of actual to estimated (standard pace) duration.
+   * Returns null when there are no usable routes.
+   */
+  calibrate(routes: Route[], activity: ActivityProfile): PaceCalibration | null {
+    const ratios = routes
+      .filter(route =>
+        route.completedAt !== undefined &&
+        (route.duration ?? 0) > 0 &&
+        (route.distance ?? 0) >= this.MIN_CALIBRATION_DISTANCE &&
+        (route.activity ?? 'walking') === activity
+      )
+      .map(route => route.duration! / this.estimateMinutes(route, null, activity))
+      .filter(ratio => Number.isFinite(ratio) && ratio > 0)
+      .sort((a, b) => a - b)
+
+    if (ratios.length === 0) return null
+
+    const middle = Math.floor(ratios.length / 2)
+    const median = ratios.length % 2 === 0 ? (ratios[middle - 1] + ratios[middle]) / 2 : ratios[middle]
+    const factor = Math.min(this.MAX_PACE_FACTOR, Math.max(this.MIN_PACE_FACTOR, median))
+
+    return { factor: Math.round(factor * 100) / 100, routeCount: ratios.length }
+  }
+}
+
+export const durationEstimatorService = new DurationEstimatorService()
@@ -3,8 +3,11 @@
 
 import type { CoordinateFormat } from './coordinateService'
 import type { BaseLayerType } from '../constants'
+import type { ActivityProfile } from './durationEstimatorService'
 import { devLog, devError } from '../constants'
 
+export type NavigationTerrain = 'trail' | 'wilderness'
+
 export interface MapPreferences {
   showScaleBar: boolean
   enableRotation: boolean
@@ -14,6 +17,12 @@ export interface MapPreferences {
   coordinateFormat: CoordinateFormat
   showWeatherWidget: boolean
   baseLayer: BaseLayerType
+  navigationTerrain: NavigationTerrain // Which off-route threshold applies while navigating
+  offRouteThresholdTrail: number // meters
+  offRouteThresholdWilderness: number // meters
+  activityProfile: ActivityProfile // Default activity for duration estimates
+  paceFactors: Partial<Record<ActivityProfile, number>> // Personal pace per activity (1 = standard)
+  keepPhotoLocation: boolean // Store the GPS position of attached photos
 }
 
 const DEFAULT_PREFERENCES: MapPreferences = {
@@ -24,9 +33,19 @@ const DEFAULT_PREFERENCES: MapPreferences = {
   offlineOnly: false,
   coordinateFormat: 'DD',
   showWeatherWidget: false,
-  baseLayer: 'topo'
+  baseLayer: 'topo',
+  navigationTerrain: 'trail',
+  offRouteThresholdTrail: 50,
+  offRouteThresholdWilderness: 100,
+  activityProfile: 'walking',
+  paceFactors: {},
+  keepPhotoLocation: false
 }
 
+// Allowed range for the off-route threshold sliders (meters)
+export const OFF_ROUTE_THRESHOLD_MIN = 25
+export const OFF_ROUTE_THRESHOLD_MAX = 200
+
 const STORAGE_KEY = 'trakke_map_preferences'
 
 class MapPreferencesService {
@@ -71,6 +90,15 @@ class MapPreferencesService {
     this.savePreferences(current)
   }
 
+  /**
+   * Off-route alert distance for the selected navigation terrain
+   */
+  getOffRouteThreshold(preferences: MapPreferences): number {
+    return preferences.navigationTerrain === 'wilderness'
+      ? preferences.offRouteThresholdWilderness
+      : preferences.offRouteThresholdTrail
+  }
+
   /**
    * Reset to defaults
    */
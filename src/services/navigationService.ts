@@ -0,0 +1,337 @@
+// Navigation service for Tråkke PWA
+// Route following calculations: position on route, bearing, progress and ETA.
+// Everything runs client-side on Route.coordinates and the route's waypoints.
+
+import type { Route, Waypoint } from './routeService'
+import type { TrackPoint } from './trackRecordingService'
+import { calculateHaversineDistance } from '../utils/haversine'
+
+/**
+ * Something to navigate towards: a route waypoint, or the route end
+ */
+export interface NavigationTarget {
+  name: string
+  coordinates: [number, number]
+  alongDistance: number // meters from route start to the target's nearest point on the line
+  waypoint: Waypoint | null // null for the route end
+}
+
+/**
+ * Precomputed route geometry for fast lookups while navigating
+ */
+export interface NavigationPlan {
+  route: Route
+  cumulative: number[] // Distance from start to each vertex (meters)
+  totalDistance: number
+  targets: NavigationTarget[] // Ordered along the route, last one is the destination
+}
+
+/**
+ * The closest point on the route to a position
+ */
+export interface RouteProjection {
+  point: [number, number] // Nearest point on the route line
+  distance: number // Perpendicular distance from the position to the line (meters)
+  alongDistance: number // Distance from route start to the nearest point (meters)
+  segmentIndex: number
+}
+
+export interface NavigationProgress {
+  projection: RouteProjection
+  remainingDistance: number // Along the line to the destination (meters)
+  nextTargetIndex: number // Index into plan.targets
+  distanceToNext: number // Along the line to the next target (meters)
+  directDistanceToNext: number // As the crow flies (meters)
+  bearingToNext: number // Degrees, 0 = north
+  etaMs: number // Time to destination at the current speed
+}
+
+export type AccuracyLevel = 'good' | 'fair' | 'poor'
+
+/**
+ * Off-route detector state, carried between fixes
+ */
+export interface OffRouteState {
+  isOffRoute: boolean
+  pendingFixes: number // Consecutive fixes pointing to the other state
+}
+
+/**
+ * Guidance back to the route while off-route
+ */
+export interface OffRouteGuidance {
+  distance: number // Perpendicular distance to the route (meters)
+  bearing: number // Degrees from the position to the nearest point on the route
+  nearestPoint: [number, number]
+}
+
+const EARTH_RADIUS_METERS = 6371000
+
+class NavigationService {
+  // Walking speed used until the GPS reports a usable speed (4 km/h)
+  readonly DEFAULT_SPEED_MPS = 4 / 3.6
+  // Below this the user is considered standing still, so speed isn't used for ETA
+  readonly MIN_MOVING_SPEED_MPS = 0.3
+  // A target counts as reached within this distance
+  readonly ARRIVAL_RADIUS_METERS = 30
+  // Haptic heads-up when this close to the next target
+  readonly APPROACH_RADIUS_METERS = 100
+  // How far back along the route a position may snap, so out-and-back routes don't jump ahead or back
+  private readonly BACKTRACK_TOLERANCE_METERS = 200
+  // Accuracy thresholds from NAVIGATION_DESIGN.md
+  private readonly GOOD_ACCURACY_METERS = 20
+  private readonly POOR_ACCURACY_METERS = 50
+  // Off-route hysteresis: several fixes in a row are needed to change state, and the user must
+  // come well inside the threshold before the alert clears, so GPS noise around the limit doesn't flap
+  private readonly OFF_ROUTE_ENTER_FIXES = 3
+  private readonly OFF_ROUTE_EXIT_FIXES = 2
+  private readonly OFF_ROUTE_EXIT_RATIO = 0.6
+
+  /**
+   * Prepare a route for navigation. Waypoints are ordered by where they lie along the line;
+   * the route end is added as the final target unless the last waypoint already is the end.
+   */
+  createPlan(route: Route, waypoints: Waypoint[]): NavigationPlan {
+    const cumulative: number[] = [0]
+    for (let i = 1; i < route.coordinates.length; i++) {
+      cumulative.push(cumulative[i - 1] + calculateHaversineDistance(route.coordinates[i - 1], route.coordinates[i]))
+    }
+    const totalDistance = cumulative[cumulative.length - 1] ?? 0
+
+    const partialPlan: NavigationPlan = { route, cumulative, totalDistance, targets: [] }
+
+    const targets: NavigationTarget[] = waypoints
+      .map(waypoint => ({
+        name: waypoint.name,
+        coordinates: waypoint.coordinates,
+        alongDistance: this.projectOntoRoute(waypoint.coordinates, partialPlan).alongDistance,
+        waypoint
+      }))
+      .sort((a, b) => a.alongDistance - b.alongDistance)
+
+    const end = route.coordinates[route.coordinates.length - 1]
+    const last = targets[targets.length - 1]
+    if (end && (!last || calculateHaversineDistance(last.coordinates, end) > this.ARRIVAL_RADIUS_METERS)) {
+      targets.push({ name: 'Mål', coordinates: end, alongDistance: totalDistance, waypoint: null })
+    }
+
+    return { ...partialPlan, targets }
+  }
+
+  /**
+   * Find the nearest point on the route line.
+   *
+   * @param point - Position [lon, lat]
+   * @param plan - Navigation plan for the route
+   * @param minAlongDistance - Prefer segments from here on (previous progress), so a route that
+   *   passes the same place twice doesn't snap to the wrong leg
+   */
+  projectOntoRoute(point: [number, number], plan: NavigationPlan, minAlongDistance?: number): RouteProjection {
+    const coords = plan.route.coordinates
+
+    if (coords.length === 1) {
+      return {
+        point: coords[0],
+        distance: calculateHaversineDistance(point, coords[0]),
+        alongDistance: 0,
+        segmentIndex: 0
+      }
+    }
+
+    const searchFrom = minAlongDistance !== undefined
+      ? Math.max(0, minAlongDistance - this.BACKTRACK_TOLERANCE_METERS)
+      : 0
+
+    let best: RouteProjection | null = null
+    let bestAnywhere: RouteProjection | null = null
+
+    for (let i = 0; i < coords.length - 1; i++) {
+      const candidate = this.projectOntoSegment(point, coords[i], coords[i + 1], plan.cumulative[i], plan.cumulative[i + 1], i)
+
+      if (!bestAnywhere || candidate.distance < bestAnywhere.distance) {
+        bestAnywhere = candidate
+      }
+      if (plan.cumulative[i + 1] >= searchFrom && (!best || candidate.distance < best.distance)) {
+        best = candidate
+      }
+    }
+
+    // Fall back to the global nearest point if the user is clearly on an earlier leg
+    if (!best || (bestAnywhere && best.distance - bestAnywhere.distance > this.BACKTRACK_TOLERANCE_METERS)) {
+      return bestAnywhere!
+    }
+    return best
+  }
+
+  /**
+   * Perpendicular distance from a position to the route line (meters)
+   */
+  calculateDistanceToRoute(point: [number, number], plan: NavigationPlan): number {
+    return this.projectOntoRoute(point, plan).distance
+  }
+
+  /**
+   * Whether a position is farther from the route line than the threshold (single fix, no hysteresis)
+   */
+  isOffRoute(point: [number, number], plan: NavigationPlan, threshold: number): boolean {
+    return this.calculateDistanceToRoute(point, plan) > threshold
+  }
+
+  /**
+   * Advance the off-route detector with a new fix.
+   * Fixes less accurate than the threshold can't tell on- from off-route and leave the state unchanged.
+   *
+   * @param state - Detector state from the previous fix
+   * @param distance - Perpendicular distance from the fix to the route (meters)
+   * @param threshold - Off-route threshold (meters)
+   * @param accuracy - Fix accuracy (meters)
+   */
+  updateOffRouteState(state: OffRouteState, distance: number, threshold: number, accuracy?: number): OffRouteState {
+    if (accuracy !== undefined && accuracy > threshold) {
+      return state
+    }
+
+    const towardsOtherState = state.isOffRoute
+      ? distance < threshold * this.OFF_ROUTE_EXIT_RATIO
+      : distance > threshold
+
+    if (!towardsOtherState) {
+      return { isOffRoute: state.isOffRoute, pendingFixes: 0 }
+    }
+
+    const pendingFixes = state.pendingFixes + 1
+    const required = state.isOffRoute ? this.OFF_ROUTE_EXIT_FIXES : this.OFF_ROUTE_ENTER_FIXES
+    if (pendingFixes >= required) {
+      return { isOffRoute: !state.isOffRoute, pendingFixes: 0 }
+    }
+    return { isOffRoute: state.isOffRoute, pendingFixes }
+  }
+
+  /**
+   * Direction and distance back to the nearest point on the route
+   */
+  getReturnGuidance(point: [number, number], projection: RouteProjection): OffRouteGuidance {
+    return {
+      distance: projection.distance,
+      bearing: this.calculateBearing(point, projection.point),
+      nearestPoint: projection.point
+    }
+  }
+
+  /**
+   * Initial bearing from one point to another, in degrees clockwise from north (0-359)
+   */
+  calculateBearing(from: [number, number], to: [number, number]): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180
+    const [lon1, lat1] = from.map(toRad)
+    const [lon2, lat2] = to.map(toRad)
+    const dLon = lon2 - lon1
+
+    const y = Math.sin(dLon) * Math.cos(lat2)
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon)
+    return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360
+  }
+
+  /**
+   * Norwegian cardinal direction for a bearing (N, NØ, Ø, SØ, S, SV, V, NV)
+   */
+  getCardinalDirection(bearing: number): string {
+    const directions = ['N', 'NØ', 'Ø', 'SØ', 'S', 'SV', 'V', 'NV']
+    return directions[Math.round((((bearing % 360) + 360) % 360) / 45) % 8]
+  }
+
+  /**
+   * Time to cover a distance at a given speed (milliseconds)
+   */
+  calculateETA(distance: number, speedMps: number): number {
+    const speed = speedMps > this.MIN_MOVING_SPEED_MPS ? speedMps : this.DEFAULT_SPEED_MPS
+    return (distance / speed) * 1000
+  }
+
+  /**
+   * Convert a geolocation fix to a track point
+   */
+  toTrackPoint(position: GeolocationPosition): TrackPoint {
+    const { coords } = position
+    return {
+      coordinates: [coords.longitude, coords.latitude],
+      timestamp: position.timestamp,
+      accuracy: coords.accuracy,
+      altitude: coords.altitude,
+      speed: coords.speed,
+      heading: coords.heading !== null && !Number.isNaN(coords.heading) ? coords.heading : null
+    }
+  }
+
+  getAccuracyLevel(accuracy: number | undefined): AccuracyLevel {
+    if (accuracy === undefined || accuracy > this.POOR_ACCURACY_METERS) return 'poor'
+    if (accuracy > this.GOOD_ACCURACY_METERS) return 'fair'
+    return 'good'
+  }
+
+  /**
+   * Progress along the route for a position
+   *
+   * @param position - Current position [lon, lat]
+   * @param plan - Navigation plan
+   * @param state - Previous progress (along distance), targets reached so far, and current speed
+   */
+  getProgress(
+    position: [number, number],
+    plan: NavigationPlan,
+    state: { lastAlongDistance?: number; reachedCount: number; speedMps: number }
+  ): NavigationProgress {
+    const projection = this.projectOntoRoute(position, plan, state.lastAlongDistance)
+    const nextTargetIndex = Math.min(state.reachedCount, plan.targets.length - 1)
+    const next = plan.targets[nextTargetIndex]
+    const remainingDistance = Math.max(0, plan.totalDistance - projection.alongDistance)
+
+    return {
+      projection,
+      remainingDistance,
+      nextTargetIndex,
+      distanceToNext: next ? Math.max(0, next.alongDistance - projection.alongDistance) : 0,
+      directDistanceToNext: next ? calculateHaversineDistance(position, next.coordinates) : 0,
+      bearingToNext: next ? this.calculateBearing(position, next.coordinates) : 0,
+      etaMs: this.calculateETA(remainingDistance, state.speedMps)
+    }
+  }
+
+  /**
+   * Project a point onto one segment using a local flat-earth approximation
+   * (accurate to well under a meter for hiking-length segments)
+   */
+  private projectOntoSegment(
+    point: [number, number],
+    a: [number, number],
+    b: [number, number],
+    alongA: number,
+    alongB: number,
+    segmentIndex: number
+  ): RouteProjection {
+    const lat0 = (point[1] * Math.PI) / 180
+    const metersPerDegLat = (Math.PI / 180) * EARTH_RADIUS_METERS
+    const metersPerDegLon = metersPerDegLat * Math.cos(lat0)
+
+    const ax = (a[0] - point[0]) * metersPerDegLon
+    const ay = (a[1] - point[1]) * metersPerDegLat
+    const bx = (b[0] - point[0]) * metersPerDegLon
+    const by = (b[1] - point[1]) * metersPerDegLat
+
+    const dx = bx - ax
+    const dy = by - ay
+    const lengthSq = dx * dx + dy * dy
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0
+
+    const nearest: [number, number] = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t]
+
+    return {
+      point: nearest,
+      distance: Math.hypot(ax + dx * t, ay + dy * t),
+      alongDistance: alongA + (alongB - alongA) * t,
+      segmentIndex
+    }
+  }
+}
+
+export const navigationService = new NavigationService()
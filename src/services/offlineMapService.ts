@@ -1,8 +1,10 @@
 // Offline map tile download service
 // Downloads and caches map tiles for offline use
 
-import { dbService } from './dbService'
-import { MAP_CONFIG, devLog, devError, type BaseLayerType } from '../constants'
+import { dbService, type ReleasedTile } from './dbService'
+import { trailRoutingService } from './trailRoutingService'
+import { devLog, devError, type BaseLayerType } from '../constants'
+import { getShapeTiles, getTileRange, getTileKey, getTileUrl, parseTileKey, type AreaShape } from '../utils/tiles'
 
 export interface DownloadArea {
   id: string
@@ -18,10 +20,17 @@ export interface DownloadArea {
     max: number
   }
   baseLayer: BaseLayerType // Which layer(s) to download
+  shape?: AreaShape // Route corridor or drawn polygon; without it, the whole bounds
+  includeTrails?: boolean // Also cache trail data for snap-to-trail, chosen when downloading
   downloadedAt?: number
   tileCount?: number
 }
 
+export interface ReclaimedStorage {
+  tiles: number // Tiles no other area used
+  bytes: number // Offline store and service worker cache together
+}
+
 export interface DownloadProgress {
   totalTiles: number
   downloadedTiles: number
@@ -35,33 +44,28 @@ class OfflineMapService {
   private readonly TILE_SIZE_ESTIMATE = 15000 // ~15KB average per tile
   private readonly MAX_TILES = 20000 // Hard limit to prevent browser/device issues
   private readonly WARNING_THRESHOLD = 1000 // Warn user for downloads over this size
-
-  /**
-   * Get tile URL template for a specific base layer
-   */
-  private getTileUrlTemplate(baseLayer: BaseLayerType): string {
-    switch (baseLayer) {
-      case 'grayscale':
-        return MAP_CONFIG.TILE_URL_GRAYSCALE
-      case 'satellite':
-        return MAP_CONFIG.TILE_URL_SATELLITE
-      default:
-        return MAP_CONFIG.TILE_URL_TOPO
-    }
+  // Service worker runtime caches (cacheName in vite.config.ts); they can hold copies of
+  // downloaded tiles from browsing, or from downloads made before tiles bypassed them
+  private readonly TILE_CACHES: Record<BaseLayerType, string> = {
+    topo: 'kartverket-tiles',
+    grayscale: 'kartverket-tiles',
+    satellite: 'norge-i-bilder-tiles'
   }
 
   /**
    * Calculate number of tiles needed for area
    */
   calculateTileCount(area: DownloadArea): number {
-    const { bounds, zoomLevels } = area
+    const { bounds, zoomLevels, shape } = area
     let totalTiles = 0
 
     for (let z = zoomLevels.min; z <= zoomLevels.max; z++) {
-      const xMin = this.lonToTileX(bounds.west, z)
-      const xMax = this.lonToTileX(bounds.east, z)
-      const yMin = this.latToTileY(bounds.north, z)
-      const yMax = this.latToTileY(bounds.south, z)
+      if (shape) {
+        totalTiles += getShapeTiles(shape, z).count
+        continue
+      }
+
+      const { xMin, xMax, yMin, yMax } = getTileRange(bounds, z)
 
       const tilesX = Math.abs(xMax - xMin) + 1
       const tilesY = Math.abs(yMax - yMin) + 1
@@ -72,127 +76,136 @@ class OfflineMapService {
   }
 
   /**
-   * Download tiles for specified area
+   * Tile count and size of an area before downloading, in bytes
    */
-  async downloadArea(
-    area: DownloadArea,
-    onProgress?: (progress: DownloadProgress) => void
-  ): Promise<void> {
-    const totalTiles = this.calculateTileCount(area)
+  estimateDownload(area: DownloadArea): { tileCount: number; estimatedSize: number } {
+    const tileCount = this.calculateTileCount(area)
+    return { tileCount, estimatedSize: tileCount * this.TILE_SIZE_ESTIMATE }
+  }
+
+  /**
+   * Progress counters for an area that has not started downloading
+   */
+  createProgress(area: DownloadArea): DownloadProgress {
+    const { tileCount: totalTiles, estimatedSize } = this.estimateDownload(area)
+    return {
+      totalTiles,
+      downloadedTiles: 0,
+      failedTiles: 0,
+      percentage: 0,
+      estimatedSize,
+      currentSize: 0
+    }
+  }
 
-    // Safety check: hard limit to prevent device/browser issues
+  /**
+   * Safety check: hard limit to prevent device/browser issues
+   *
+   * @throws Error if the area has more than MAX_TILES tiles
+   */
+  assertDownloadable(area: DownloadArea): void {
+    const totalTiles = this.calculateTileCount(area)
     if (totalTiles > this.MAX_TILES) {
       throw new Error(
         `Området er for stort (${totalTiles} fliser). Maksimalt tillatt er ${this.MAX_TILES} fliser. ` +
         `Vennligst zoom inn eller velg et mindre område.`
       )
     }
+  }
 
-    let downloadedTiles = 0
-    let failedTiles = 0
-    let currentSize = 0
-
-    const progress: DownloadProgress = {
-      totalTiles,
-      downloadedTiles: 0,
-      failedTiles: 0,
-      percentage: 0,
-      estimatedSize: totalTiles * this.TILE_SIZE_ESTIMATE,
-      currentSize: 0
-    }
+  /**
+   * The tiles of an area in a fixed order (zoom, then x, then y; shapes by row), starting at an index.
+   * The fixed order lets a download continue where it stopped.
+   */
+  *getTiles(area: DownloadArea, start = 0): Generator<{ z: number; x: number; y: number }> {
+    let index = 0
 
-    // Download tiles for each zoom level
     for (let z = area.zoomLevels.min; z <= area.zoomLevels.max; z++) {
-      const xMin = this.lonToTileX(area.bounds.west, z)
-      const xMax = this.lonToTileX(area.bounds.east, z)
-      const yMin = this.latToTileY(area.bounds.north, z)
-      const yMax = this.latToTileY(area.bounds.south, z)
-
-      // Download tiles in batches to avoid overwhelming the browser
-      const batchSize = 5
-      const tiles: Array<{ z: number; x: number; y: number }> = []
-
-      for (let x = xMin; x <= xMax; x++) {
-        for (let y = yMin; y <= yMax; y++) {
-          tiles.push({ z, x, y })
+      if (area.shape) {
+        const { rows, count } = getShapeTiles(area.shape, z)
+        if (index + count <= start) {
+          index += count
+          continue
         }
-      }
 
-      // Process tiles in batches
-      for (let i = 0; i < tiles.length; i += batchSize) {
-        const batch = tiles.slice(i, i + batchSize)
-        const results = await Promise.allSettled(
-          batch.map((tile) => this.downloadTile(tile.z, tile.x, tile.y, area.baseLayer))
-        )
-
-        results.forEach((result, index) => {
-          if (result.status === 'fulfilled' && result.value) {
-            downloadedTiles++
-            currentSize += result.value
-          } else {
-            failedTiles++
-            devError(
-              `Failed to download tile ${area.baseLayer}/${batch[index].z}/${batch[index].x}/${batch[index].y}`
-            )
+        for (const [y, ranges] of rows) {
+          for (const [first, last] of ranges) {
+            const length = last - first + 1
+            if (index + length <= start) {
+              index += length
+              continue
+            }
+            for (let x = first + Math.max(0, start - index); x <= last; x++) {
+              yield { z, x, y }
+            }
+            index += length
           }
-        })
+        }
+        continue
+      }
 
-        progress.downloadedTiles = downloadedTiles
-        progress.failedTiles = failedTiles
-        progress.percentage = Math.round((downloadedTiles / totalTiles) * 100)
-        progress.currentSize = currentSize
+      const { xMin, xMax, yMin, yMax } = getTileRange(area.bounds, z)
+      const height = yMax - yMin + 1
+      const count = (xMax - xMin + 1) * height
 
-        if (onProgress) {
-          onProgress({ ...progress })
-        }
+      // Skip whole zoom levels before the start
+      if (index + count <= start) {
+        index += count
+        continue
+      }
 
-        // Small delay between batches to prevent rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 100))
+      for (let i = Math.max(0, start - index); i < count; i++) {
+        yield { z, x: xMin + Math.floor(i / height), y: yMin + (i % height) }
       }
+      index += count
     }
-
-    // Save area metadata
-    await dbService.saveDownloadedArea({
-      ...area,
-      downloadedAt: Date.now(),
-      tileCount: downloadedTiles
-    })
   }
 
   /**
-   * Download single tile and cache it
+   * Download single tile and store it as part of the area
+   *
+   * @returns The tile size in bytes, or null if the server doesn't have the tile
+   * @throws Error on network and server errors, which are worth retrying
    */
-  private async downloadTile(
+  async downloadTile(
     z: number,
     x: number,
     y: number,
-    baseLayer: BaseLayerType
+    baseLayer: BaseLayerType,
+    areaId: string
   ): Promise<number | null> {
-    const urlTemplate = this.getTileUrlTemplate(baseLayer)
-    const url = urlTemplate.replace('{z}', z.toString())
-      .replace('{x}', x.toString())
-      .replace('{y}', y.toString())
-
-    try {
-      const response = await fetch(url)
-      if (!response.ok) return null
-
-      const blob = await response.blob()
-      const arrayBuffer = await blob.arrayBuffer()
-
-      // Store in IndexedDB with layer-specific key
-      const tileKey = `${baseLayer}/${z}/${x}/${y}`
-      await dbService.saveData('tile', {
-        key: tileKey,
-        data: arrayBuffer,
-        timestamp: Date.now()
-      })
-
-      return arrayBuffer.byteLength
-    } catch (error) {
-      devError(`Error downloading tile ${baseLayer}/${z}/${x}/${y}:`, error)
-      return null
+    // no-store: the service worker leaves the request alone, so the tile isn't stored twice
+    const response = await fetch(getTileUrl(baseLayer, z, x, y), { cache: 'no-store' })
+    // Timeouts and rate limiting are worth retrying too
+    if (response.status >= 500 || response.status === 408 || response.status === 429) {
+      throw new Error(`Tile server error ${response.status} (${baseLayer}/${z}/${x}/${y})`)
     }
+    if (!response.ok) return null
+
+    const arrayBuffer = await response.arrayBuffer()
+
+    // Store in IndexedDB with layer-specific key
+    await dbService.saveTile(getTileKey(baseLayer, z, x, y), arrayBuffer, areaId)
+
+    return arrayBuffer.byteLength
+  }
+
+  /**
+   * Save the metadata of a finished download
+   */
+  async completeArea(area: DownloadArea, tileCount: number): Promise<void> {
+    await dbService.saveDownloadedArea({
+      ...area,
+      downloadedAt: Date.now(),
+      tileCount
+    })
+
+    if (!area.includeTrails) return
+
+    // Cache trails too, so snap-to-trail route drawing works offline here (best effort, in the background)
+    trailRoutingService.prefetchArea(area.bounds).catch(error => {
+      devError('Failed to prefetch trails for area:', error)
+    })
   }
 
   /**
@@ -204,16 +217,58 @@ class OfflineMapService {
   }
 
   /**
-   * Delete downloaded area
+   * Delete downloaded area, with the tiles no other area uses
+   */
+  async deleteArea(areaId: string): Promise<ReclaimedStorage> {
+    const released = await dbService.deleteDownloadedArea(areaId)
+    const reclaimed = await this.removeTiles(released)
+    devLog(`Deleted area ${areaId}: ${reclaimed.tiles} tiles, ${reclaimed.bytes} bytes reclaimed`)
+    return reclaimed
+  }
+
+  /**
+   * Match the stored tiles to the current areas (after a backup restore);
+   * tiles no area includes are deleted
    */
-  async deleteArea(areaId: string): Promise<void> {
-    // Delete area metadata from IndexedDB
-    await dbService.deleteDownloadedArea(areaId)
-    devLog(`Deleted area ${areaId} metadata`)
-
-    // TODO: Optionally delete associated tiles from cache
-    // This would require tracking which tiles belong to which area
-    // For now, tiles remain in Service Worker cache and will be evicted by LRU policy
+  async rebuildTileReferences(): Promise<ReclaimedStorage> {
+    const areas = await this.getDownloadedAreas()
+    const released = await dbService.rebuildTileReferences(areas)
+    return this.removeTiles(released)
+  }
+
+  /**
+   * Remove released tiles from the service worker caches too.
+   * A cached copy is counted at the size of the stored tile (same image),
+   * since cached responses may be opaque and can't be measured.
+   */
+  private async removeTiles(released: ReleasedTile[]): Promise<ReclaimedStorage> {
+    let bytes = released.reduce((sum, tile) => sum + tile.size, 0)
+
+    if ('caches' in window && released.length > 0) {
+      try {
+        const openCaches = new Map<string, Cache>()
+        for (const tile of released) {
+          const parsed = parseTileKey(tile.key)
+          if (!parsed) continue
+
+          const cacheName = this.TILE_CACHES[parsed.baseLayer]
+          let cache = openCaches.get(cacheName)
+          if (!cache) {
+            cache = await caches.open(cacheName)
+            openCaches.set(cacheName, cache)
+          }
+
+          if (await cache.delete(getTileUrl(parsed.baseLayer, parsed.z, parsed.x, parsed.y))) {
+            bytes += tile.size
+          }
+        }
+      } catch (error) {
+        // The offline store is already cleaned up; the cache expires on its own
+        devError('Failed to remove tiles from cache:', error)
+      }
+    }
+
+    return { tiles: released.length, bytes }
   }
 
   /**
@@ -229,24 +284,6 @@ class OfflineMapService {
     }
     return { used: 0, quota: 0 }
   }
-
-  // Utility functions for tile calculations
-  private lonToTileX(lon: number, zoom: number): number {
-    return Math.floor(((lon + 180) / 360) * Math.pow(2, zoom))
-  }
-
-  private latToTileY(lat: number, zoom: number): number {
-    return Math.floor(
-      ((1 -
-        Math.log(
-          Math.tan((lat * Math.PI) / 180) + 1 / Math.cos((lat * Math.PI) / 180)
-        ) /
-          Math.PI) /
-        2) *
-        Math.pow(2, zoom)
-    )
-  }
-
 }
 
 
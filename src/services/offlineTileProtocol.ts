@@ -0,0 +1,61 @@
+// Offline tile protocol for Tråkke PWA
+// MapLibre loads the base layers through a custom protocol (trakke://topo/{z}/{x}/{y}), which
+// serves tiles from the offline store first, so downloaded areas are always available.
+// Other tiles come from the network, through the service worker cache. With the offlineOnly
+// preference the network is never used; tiles not downloaded or cached are left blank.
+
+import maplibregl from 'maplibre-gl'
+import { dbService } from './dbService'
+import { mapPreferencesService } from './mapPreferencesService'
+import { getTileUrl, parseTileKey } from '../utils/tiles'
+import { devError, type BaseLayerType } from '../constants'
+
+export const OFFLINE_TILE_PROTOCOL = 'trakke'
+
+let registered = false
+
+/**
+ * Tile URL template for a map source; the path is the tile key (see getTileKey)
+ */
+export function getOfflineTileUrl(baseLayer: BaseLayerType): string {
+  return `${OFFLINE_TILE_PROTOCOL}://${baseLayer}/{z}/{x}/{y}`
+}
+
+async function loadTile(url: string, abortController: AbortController): Promise<{ data: ArrayBuffer }> {
+  const key = url.slice(`${OFFLINE_TILE_PROTOCOL}://`.length)
+  const tile = parseTileKey(key)
+  if (!tile) {
+    throw new Error(`Invalid tile URL: ${url}`)
+  }
+
+  try {
+    const data = await dbService.getTile(key)
+    if (data) return { data }
+  } catch (error) {
+    devError('Failed to read offline tile:', error) // Fall back to the network
+  }
+
+  const networkUrl = getTileUrl(tile.baseLayer, tile.z, tile.x, tile.y)
+
+  if (mapPreferencesService.getPreferences().offlineOnly) {
+    // Tiles seen while browsing are still usable
+    const cached = 'caches' in window ? await caches.match(networkUrl) : undefined
+    if (cached) return { data: await cached.arrayBuffer() }
+    throw new Error(`Tile not available offline: ${key}`)
+  }
+
+  const response = await fetch(networkUrl, { signal: abortController.signal })
+  if (!response.ok) {
+    throw new Error(`Failed to load tile ${key}: ${response.status}`)
+  }
+  return { data: await response.arrayBuffer() }
+}
+
+/**
+ * Register the protocol with MapLibre; call before creating the map
+ */
+export function registerOfflineTileProtocol(): void {
+  if (registered) return
+  maplibregl.addProtocol(OFFLINE_TILE_PROTOCOL, (params, abortController) => loadTile(params.url, abortController))
+  registered = true
+}
@@ -0,0 +1,203 @@
+// Photo attachment service for Tråkke PWA
+// Stores photos attached to waypoints and routes as blobs in IndexedDB.
+// Photos are resized on the device and re-encoded, which drops all EXIF metadata;
+// the GPS position is only kept (as a separate field) if the user has opted in.
+
+import { dbService } from './dbService'
+import { mapPreferencesService } from './mapPreferencesService'
+import { readExif } from '../utils/exif'
+import { devLog } from '../constants'
+
+export type PhotoOwnerType = 'waypoint' | 'route'
+
+export type ProcessedPhoto = Omit<Photo, 'id' | 'ownerId' | 'ownerType' | 'createdAt'>
+
+export interface Photo {
+  id: string
+  ownerId: string // Waypoint or route ID
+  ownerType: PhotoOwnerType
+  blob: Blob // JPEG, at most MAX_DIMENSION px on the long side
+  thumbnail: Blob // JPEG, at most THUMBNAIL_DIMENSION px on the long side
+  width: number
+  height: number
+  takenAt?: number // From EXIF, if present
+  coordinates?: [number, number] // [lon, lat] from EXIF, only with keepPhotoLocation
+  createdAt: number
+}
+
+const PHOTOS_STORE = 'photos'
+
+class PhotoService {
+  private readonly MAX_DIMENSION = 1600 // px
+  private readonly THUMBNAIL_DIMENSION = 320 // px
+  private readonly JPEG_QUALITY = 0.85
+  private readonly THUMBNAIL_QUALITY = 0.7
+  private readonly MAX_FILE_SIZE = 40 * 1024 * 1024 // bytes, before resizing
+
+  private readonly ID_RANDOM_STRING_START = 2
+  private readonly ID_RANDOM_STRING_END = 11
+  private readonly ID_RADIX = 36
+
+  /**
+   * Draw an image scaled down to fit maxDimension and encode it as JPEG
+   */
+  private async encode(image: ImageBitmap, maxDimension: number, quality: number): Promise<{ blob: Blob; width: number; height: number }> {
+    const scale = Math.min(1, maxDimension / Math.max(image.width, image.height))
+    const width = Math.round(image.width * scale)
+    const height = Math.round(image.height * scale)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas 2D context not available')
+    }
+    context.drawImage(image, 0, 0, width, height)
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality))
+    if (!blob) {
+      throw new Error('Failed to encode photo')
+    }
+    return { blob, width, height }
+  }
+
+  /**
+   * Resize a photo file and read the metadata we keep.
+   * Decoding applies the EXIF orientation, so the re-encoded photo is upright without it.
+   */
+  async processFile(file: File, keepLocation: boolean): Promise<ProcessedPhoto> {
+    if (!file.type.startsWith('image/')) {
+      throw new Error(`Not an image: ${file.name}`)
+    }
+    if (file.size > this.MAX_FILE_SIZE) {
+      throw new Error(`Photo too large: ${file.name}`)
+    }
+
+    const exif = readExif(await file.arrayBuffer())
+    const image = await createImageBitmap(file, { imageOrientation: 'from-image' })
+    try {
+      const full = await this.encode(image, this.MAX_DIMENSION, this.JPEG_QUALITY)
+      const thumbnail = await this.encode(image, this.THUMBNAIL_DIMENSION, this.THUMBNAIL_QUALITY)
+
+      return {
+        blob: full.blob,
+        thumbnail: thumbnail.blob,
+        width: full.width,
+        height: full.height,
+        takenAt: exif.takenAt,
+        coordinates: keepLocation ? exif.coordinates : undefined
+      }
+    } finally {
+      image.close()
+    }
+  }
+
+  /**
+   * Attach photos to a waypoint or route
+   */
+  async addPhotos(ownerType: PhotoOwnerType, ownerId: string, files: File[]): Promise<Photo[]> {
+    const { keepPhotoLocation } = mapPreferencesService.getPreferences()
+    const processed: ProcessedPhoto[] = []
+
+    // One at a time: decoding several full-size camera photos at once can exhaust memory on phones
+    for (const file of files) {
+      processed.push(await this.processFile(file, keepPhotoLocation))
+    }
+
+    return this.attachPhotos(ownerType, ownerId, processed)
+  }
+
+  /**
+   * Attach photos already processed with processFile to a waypoint or route
+   */
+  async attachPhotos(ownerType: PhotoOwnerType, ownerId: string, processed: ProcessedPhoto[]): Promise<Photo[]> {
+    const photos: Photo[] = processed.map(photo => ({
+      ...photo,
+      id: `photo-${Date.now()}-${Math.random().toString(this.ID_RADIX).substring(this.ID_RANDOM_STRING_START, this.ID_RANDOM_STRING_END)}`,
+      ownerId,
+      ownerType,
+      createdAt: Date.now()
+    }))
+
+    await this.savePhotos(photos)
+    devLog(`Photos added to ${ownerType} ${ownerId}:`, photos.length)
+    return photos
+  }
+
+  /**
+   * Store photo records as they are (also used when restoring a backup)
+   */
+  async savePhotos(photos: Photo[]): Promise<void> {
+    if (photos.length === 0) return
+    const db = await dbService.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PHOTOS_STORE], 'readwrite')
+      const store = transaction.objectStore(PHOTOS_STORE)
+      photos.forEach(photo => store.put(photo))
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => {
+        reject(new Error(`Failed to save photos: ${transaction.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  /**
+   * Photos of a waypoint or route, oldest first
+   */
+  async getPhotos(ownerId: string): Promise<Photo[]> {
+    const db = await dbService.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PHOTOS_STORE], 'readonly')
+      const request = transaction.objectStore(PHOTOS_STORE).index('ownerId').getAll(ownerId)
+
+      request.onsuccess = () => {
+        resolve((request.result as Photo[]).sort((a, b) => a.createdAt - b.createdAt))
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to get photos (owner: ${ownerId}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  async getAllPhotos(): Promise<Photo[]> {
+    const db = await dbService.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PHOTOS_STORE], 'readonly')
+      const request = transaction.objectStore(PHOTOS_STORE).getAll()
+
+      request.onsuccess = () => {
+        resolve(request.result as Photo[])
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to get photos: ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  async deletePhoto(id: string): Promise<void> {
+    const db = await dbService.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PHOTOS_STORE], 'readwrite')
+      const request = transaction.objectStore(PHOTOS_STORE).delete(id)
+
+      request.onsuccess = () => {
+        devLog('Photo deleted:', id)
+        resolve()
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to delete photo (ID: ${id}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+}
+
+export const photoService = new PhotoService()
@@ -0,0 +1,160 @@
+// Photo waypoint service for Tråkke PWA
+// Turns geotagged photos (JPEG/HEIC with EXIF GPS) into proposed waypoints,
+// one per photo or one per group of photos taken close together,
+// and saves the reviewed proposals as waypoints with the photos attached.
+
+import { routeService, type Waypoint } from './routeService'
+import { photoService, type ProcessedPhoto } from './photoService'
+import { mapPreferencesService } from './mapPreferencesService'
+import { readExif } from '../utils/exif'
+import { calculateHaversineDistance } from '../utils/haversine'
+import { devLog, devError } from '../constants'
+
+export interface GeotaggedPhoto {
+  file: File
+  coordinates: [number, number] // [lon, lat]
+  altitude?: number
+  takenAt?: number
+}
+
+export interface PhotoWaypointProposal {
+  id: string // Local ID for the review, not the waypoint ID
+  name: string
+  coordinates: [number, number] // [lon, lat], can be moved during review
+  elevation?: number
+  takenAt?: number
+  photos: GeotaggedPhoto[]
+  include: boolean
+}
+
+export interface PhotoWaypointResult {
+  waypoints: Waypoint[]
+  failedPhotos: number // Photos that could not be attached (e.g. HEIC where the browser can't decode it)
+  skippedWaypoints: number // Proposals left out because none of their photos could be attached
+}
+
+class PhotoWaypointService {
+  private readonly CLUSTER_DISTANCE = 50 // meters from the first photo of the group
+  private readonly CLUSTER_TIME_GAP = 30 * 60 * 1000 // ms between consecutive photos
+
+  /**
+   * Read the EXIF position of each file
+   *
+   * @returns Photos with a position (sorted by capture time), and the number without one
+   */
+  async readPhotos(files: File[]): Promise<{ photos: GeotaggedPhoto[]; withoutLocation: number }> {
+    const photos: GeotaggedPhoto[] = []
+    let withoutLocation = 0
+
+    // Sequentially, to keep at most one full photo in memory
+    for (const file of files) {
+      try {
+        const exif = readExif(await file.arrayBuffer())
+        if (exif.coordinates) {
+          photos.push({ file, coordinates: exif.coordinates, altitude: exif.altitude, takenAt: exif.takenAt })
+        } else {
+          withoutLocation++
+        }
+      } catch (error) {
+        devError('Failed to read photo metadata:', file.name, error)
+        withoutLocation++
+      }
+    }
+
+    // Photos without a capture time keep their selection order, after the dated ones
+    photos.sort((a, b) => (a.takenAt ?? Infinity) - (b.takenAt ?? Infinity))
+    return { photos, withoutLocation }
+  }
+
+  /**
+   * Propose waypoints for photos sorted by capture time.
+   * With clustering, consecutive photos within CLUSTER_DISTANCE of the first photo
+   * of the group and at most CLUSTER_TIME_GAP apart share a waypoint.
+   */
+  propose(photos: GeotaggedPhoto[], cluster: boolean): PhotoWaypointProposal[] {
+    const groups: GeotaggedPhoto[][] = []
+
+    for (const photo of photos) {
+      const group = groups[groups.length - 1]
+      const previous = group?.[group.length - 1]
+      const isClose = cluster && group &&
+        calculateHaversineDistance(group[0].coordinates, photo.coordinates) <= this.CLUSTER_DISTANCE &&
+        (photo.takenAt === undefined || previous.takenAt === undefined ||
+          photo.takenAt - previous.takenAt <= this.CLUSTER_TIME_GAP)
+
+      if (isClose) {
+        group.push(photo)
+      } else {
+        groups.push([photo])
+      }
+    }
+
+    return groups.map((group, index) => {
+      const lon = group.reduce((sum, photo) => sum + photo.coordinates[0], 0) / group.length
+      const lat = group.reduce((sum, photo) => sum + photo.coordinates[1], 0) / group.length
+      const altitudes = group.map(photo => photo.altitude).filter((altitude): altitude is number => altitude !== undefined)
+      const takenAt = group[0].takenAt
+
+      return {
+        id: `photo-proposal-${index}`,
+        name: this.proposalName(group[0], index),
+        coordinates: [lon, lat],
+        elevation: altitudes.length > 0 ? altitudes.reduce((sum, a) => sum + a, 0) / altitudes.length : undefined,
+        takenAt,
+        photos: group,
+        include: true
+      }
+    })
+  }
+
+  // "Bilde 14. juli 10:30", or the file name when the capture time is unknown
+  private proposalName(photo: GeotaggedPhoto, index: number): string {
+    if (photo.takenAt !== undefined) {
+      const date = new Date(photo.takenAt)
+      return `Bilde ${date.toLocaleDateString('nb-NO', { day: 'numeric', month: 'long' })} ${date.toLocaleTimeString('nb-NO', { hour: '2-digit', minute: '2-digit' })}`
+    }
+    return photo.file.name.replace(/\.[^.]+$/, '') || `Bilde ${index + 1}`
+  }
+
+  /**
+   * Create a waypoint for each included proposal and attach its photos.
+   * A photo that can't be attached doesn't stop the rest of the import;
+   * a proposal whose photos all fail gets no waypoint.
+   */
+  async createWaypoints(proposals: PhotoWaypointProposal[]): Promise<PhotoWaypointResult> {
+    const { keepPhotoLocation } = mapPreferencesService.getPreferences()
+    const result: PhotoWaypointResult = { waypoints: [], failedPhotos: 0, skippedWaypoints: 0 }
+
+    for (const proposal of proposals.filter(p => p.include)) {
+      // Photos are processed first (one at a time, as in photoService.addPhotos)
+      const processed: ProcessedPhoto[] = []
+      for (const photo of proposal.photos) {
+        try {
+          processed.push(await photoService.processFile(photo.file, keepPhotoLocation))
+        } catch (error) {
+          devError('Failed to process photo:', photo.file.name, error)
+          result.failedPhotos++
+        }
+      }
+      if (processed.length === 0) {
+        result.skippedWaypoints++
+        continue
+      }
+
+      const waypoint = await routeService.createWaypoint({
+        name: proposal.name,
+        coordinates: proposal.coordinates,
+        elevation: proposal.elevation,
+        icon: 'photo_camera',
+        createdAt: proposal.takenAt
+      })
+      result.waypoints.push(waypoint)
+      await photoService.attachPhotos('waypoint', waypoint.id, processed)
+    }
+
+    devLog(`Created ${result.waypoints.length} waypoints from photos (${result.failedPhotos} photos not attached, ${result.skippedWaypoints} waypoints skipped)`)
+    return result
+  }
+}
+
+export const photoWaypointService = new PhotoWaypointService()
@@ -108,7 +108,7 @@ export type SupabaseCategoryId = `supabase:${string}`
 export type AnyCategoryId = POICategory | SupabaseCategoryId
 
 // Overpass API response types
-interface OverpassElement {
+export interface OverpassElement {
   type: 'node' | 'way' | 'relation'
   id: number
   lat?: number
@@ -118,7 +118,7 @@ interface OverpassElement {
   tags?: Record<string, string>
 }
 
-interface OverpassResponse {
+export interface OverpassResponse {
   version: number
   generator: string
   osm3s?: {
@@ -593,6 +593,43 @@ class POIService {
     return pois
   }
 
+  /**
+   * Run a raw Overpass QL query and return the parsed JSON response.
+   * Shared by POI categories and the trail routing graph (trailRoutingService)
+   */
+  async queryOverpass(query: string): Promise<OverpassResponse> {
+    const response = await fetchWithTimeout(this.OVERPASS_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+        'User-Agent': 'Tråkke PWA/0.1.0 (Norwegian outdoor navigation app, contact: hei@tazk.no)'
+      },
+      body: `data=${encodeURIComponent(query)}`,
+      mode: 'cors',
+      credentials: 'omit'
+    })
+
+    devLog(`[POIService] Overpass response status: ${response.status} ${response.statusText}`)
+    devLog(`[POIService] Response headers:`, {
+      contentType: response.headers.get('content-type'),
+      cors: response.headers.get('access-control-allow-origin')
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response')
+      devError(`[POIService] Overpass error response:`, errorText)
+      throw new Error(`Overpass request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const contentType = response.headers.get('content-type')
+    if (!contentType || !contentType.includes('application/json')) {
+      devError(`[POIService] Unexpected content-type: ${contentType}`)
+    }
+
+    return response.json()
+  }
+
   /**
    * Fetch POIs from Overpass API with viewport-aware caching
    * Privacy: German-based EU service, no tracking, public OSM data only
@@ -634,37 +671,7 @@ class POIService {
     devLog(`[POIService] Fetching ${category} from Overpass: ${cacheKey}`)
     devLog(`[POIService] Query:`, query)
 
-    const fetchPromise = fetchWithTimeout(this.OVERPASS_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Accept': 'application/json',
-        'User-Agent': 'Tråkke PWA/0.1.0 (Norwegian outdoor navigation app, contact: hei@tazk.no)'
-      },
-      body: `data=${encodeURIComponent(query)}`,
-      mode: 'cors',
-      credentials: 'omit'
-    })
-      .then(async response => {
-        devLog(`[POIService] Overpass response status: ${response.status} ${response.statusText}`)
-        devLog(`[POIService] Response headers:`, {
-          contentType: response.headers.get('content-type'),
-          cors: response.headers.get('access-control-allow-origin')
-        })
-
-        if (!response.ok) {
-          const errorText = await response.text().catch(() => 'Unable to read error response')
-          devError(`[POIService] Overpass error response:`, errorText)
-          throw new Error(`Overpass request failed: ${response.status} ${response.statusText}`)
-        }
-
-        const contentType = response.headers.get('content-type')
-        if (!contentType || !contentType.includes('application/json')) {
-          devError(`[POIService] Unexpected content-type: ${contentType}`)
-        }
-
-        return response.json()
-      })
+    const fetchPromise = this.queryOverpass(query)
       .then(data => {
         devLog(`[POIService] Overpass response data:`, {
           hasElements: !!data.elements,
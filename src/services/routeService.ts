@@ -2,7 +2,11 @@
 // Manages hiking routes, waypoints, and track recording
 
 import { calculateHaversineDistance } from '../utils/haversine'
-import { devLog } from '../constants'
+import { elevationService, type ElevationProfile } from './elevationService'
+import { durationEstimatorService, type ActivityProfile } from './durationEstimatorService'
+import { trailGradingService } from './trailGradingService'
+import { trailRoutingService } from './trailRoutingService'
+import { devLog, devError } from '../constants'
 
 export interface Waypoint {
   id: string
@@ -17,23 +21,36 @@ export interface Waypoint {
   updatedAt: number
 }
 
+// DNT trail grading: grønn (enkel), blå (middels), rød (krevende), svart (ekspert)
+export type TrailGrade = 'green' | 'blue' | 'red' | 'black'
+
 export interface Route {
   id: string
   name: string
   description?: string
   coordinates: Array<[number, number]> // Array of [lon, lat] points
+  elevations?: Array<number | null> // GPS altitude per coordinate (recorded tracks only)
+  timestamps?: number[] // Fix time per coordinate (recorded tracks only)
   waypoints: string[] // Array of waypoint IDs
   distance?: number // meters
   elevationGain?: number // meters
   elevationLoss?: number // meters
-  duration?: number // estimated minutes
-  difficulty?: 'easy' | 'moderate' | 'hard'
+  duration?: number // minutes (estimated, or actual moving time for recorded tracks)
+  difficulty?: TrailGrade
+  difficultyReasons?: string[] // Why the automatic grade was given
+  difficultyManual?: boolean // Set by the user; not replaced by the automatic grade
+  activity?: ActivityProfile // Used for the duration estimate (default from preferences)
   color?: string
   createdAt: number
   updatedAt: number
   completedAt?: number // timestamp when route was completed
 }
 
+export interface DeletedRecords {
+  routes: string[]
+  waypoints: string[]
+}
+
 export interface Project {
   id: string
   name: string
@@ -50,6 +67,24 @@ import { dbService } from './dbService'
 const ROUTES_STORE = 'routes'
 const WAYPOINTS_STORE = 'waypoints'
 const PROJECTS_STORE = 'projects'
+const SYNC_TOMBSTONES_STORE = 'syncTombstones'
+const ELEVATION_STORE = 'elevationProfiles'
+const PHOTOS_STORE = 'photos'
+// Everything deleteRecords touches
+const RECORD_STORES = [ROUTES_STORE, WAYPOINTS_STORE, PROJECTS_STORE, SYNC_TOMBSTONES_STORE, ELEVATION_STORE, PHOTOS_STORE]
+
+// New geometry from a split, merge, reverse or trim
+type RouteGeometry = Pick<Route, 'coordinates' | 'elevations' | 'timestamps'> &
+  Partial<Pick<Route, 'elevationGain' | 'elevationLoss' | 'waypoints'>>
+
+/**
+ * Marks a deleted route, waypoint or project so sync can remove it on other devices
+ */
+export interface SyncTombstone {
+  id: string
+  store: 'routes' | 'waypoints' | 'projects'
+  deletedAt: number
+}
 
 class RouteService {
   // ID generation constants
@@ -63,14 +98,15 @@ class RouteService {
   }
 
   // Waypoint methods
-  async createWaypoint(waypoint: Omit<Waypoint, 'id' | 'createdAt' | 'updatedAt'>): Promise<Waypoint> {
+  // createdAt can be given when importing data that has its own timestamps
+  async createWaypoint(waypoint: Omit<Waypoint, 'id' | 'createdAt' | 'updatedAt'> & { createdAt?: number; updatedAt?: number }): Promise<Waypoint> {
     const db = await this.getDB()
 
     const newWaypoint: Waypoint = {
       ...waypoint,
       id: `wp-${Date.now()}-${Math.random().toString(this.ID_RADIX).substring(this.ID_RANDOM_STRING_START, this.ID_RANDOM_STRING_END)}`,
-      createdAt: Date.now(),
-      updatedAt: Date.now()
+      createdAt: waypoint.createdAt ?? Date.now(),
+      updatedAt: waypoint.updatedAt ?? Date.now()
     }
 
     return new Promise((resolve, reject) => {
@@ -167,35 +203,24 @@ class RouteService {
     })
   }
 
+  /**
+   * Delete a waypoint and remove it from the routes and projects that link to it
+   */
   async deleteWaypoint(id: string): Promise<void> {
-    const db = await this.getDB()
-
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction([WAYPOINTS_STORE], 'readwrite')
-      const store = transaction.objectStore(WAYPOINTS_STORE)
-
-      const request = store.delete(id)
-
-      request.onsuccess = () => {
-        devLog('Waypoint deleted:', id)
-        resolve()
-      }
-
-      request.onerror = () => {
-        reject(new Error(`Failed to delete waypoint (ID: ${id}): ${request.error?.message || 'Unknown error'}`))
-      }
-    })
+    await this.deleteRecords({ waypoints: [id] })
+    devLog('Waypoint deleted:', id)
   }
 
   // Route methods
-  async createRoute(route: Omit<Route, 'id' | 'createdAt' | 'updatedAt'>): Promise<Route> {
+  // createdAt and updatedAt can be given when importing data that has its own timestamps
+  async createRoute(route: Omit<Route, 'id' | 'createdAt' | 'updatedAt'> & { createdAt?: number; updatedAt?: number }): Promise<Route> {
     const db = await this.getDB()
 
     const newRoute: Route = {
       ...route,
-      id: `route-${Date.now()}-${Math.random().toString(this.ID_RADIX).substring(this.ID_RANDOM_STRING_START, this.ID_RANDOM_STRING_END)}`,
-      createdAt: Date.now(),
-      updatedAt: Date.now()
+      id: this.createRouteId(),
+      createdAt: route.createdAt ?? Date.now(),
+      updatedAt: route.updatedAt ?? Date.now()
     }
 
     return new Promise((resolve, reject) => {
@@ -292,35 +317,326 @@ class RouteService {
     })
   }
 
-  async deleteRoute(id: string): Promise<void> {
+  /**
+   * Replace a route's line after editing.
+   * Distance is recomputed, and elevation stats and the cached elevation profile are reset
+   * (see refreshRouteStats). Recorded per-point GPS elevations and timestamps no longer
+   * match the vertices and are dropped.
+   */
+  async updateRouteGeometry(id: string, coordinates: Array<[number, number]>): Promise<Route> {
+    if (coordinates.length < 2) {
+      throw new Error(`Route must have at least 2 coordinates (ID: ${id})`)
+    }
+
+    const updated = await this.updateRoute(id, {
+      coordinates,
+      distance: this.calculateDistance(coordinates),
+      elevations: undefined,
+      timestamps: undefined,
+      elevationGain: undefined,
+      elevationLoss: undefined
+    })
+
+    await elevationService.clearCachedProfile(id)
+    return updated
+  }
+
+  /**
+   * Recompute elevation gain and loss from the Kartverket elevation profile, the
+   * estimated duration (see durationEstimatorService) and the DNT grade (see trailGradingService).
+   * Without network the estimates fall back to distance and any known ascent.
+   * The share on trails only comes from cached trail data, so saving never queries Overpass.
+   * Completed routes keep their actual duration, and a manual grade is kept.
+   */
+  async refreshRouteStats(route: Route): Promise<Route> {
+    let profile: ElevationProfile | null = null
+    try {
+      profile = await elevationService.getElevationProfile(route.id, route.coordinates)
+    } catch (error) {
+      devError('Failed to get elevation profile for route stats:', error)
+    }
+
+    const updates: Partial<Route> = profile
+      ? {
+          elevationGain: Math.round(profile.statistics.totalGain),
+          elevationLoss: Math.round(profile.statistics.totalLoss)
+        }
+      : {}
+
+    const withElevation = { ...route, ...updates }
+    if (!route.completedAt || route.duration === undefined) {
+      updates.duration = durationEstimatorService.estimateRoute(withElevation, profile).duration
+    }
+
+    let trailCoverage: number | null = null
+    try {
+      // Without cached trail data the grade uses terrain only
+      trailCoverage = await trailRoutingService.getTrailCoverage(route.coordinates, true)
+    } catch (error) {
+      devError('Failed to get trail coverage for grading:', error)
+    }
+
+    const grade = trailGradingService.classify(withElevation, profile, { trailCoverage })
+    updates.difficultyReasons = grade.reasons
+    if (!route.difficultyManual) {
+      updates.difficulty = grade.grade
+    }
+
+    return this.updateRoute(route.id, updates)
+  }
+
+  /**
+   * Set the grade by hand, or pass null to go back to the automatic grade
+   */
+  async setDifficultyOverride(id: string, grade: TrailGrade | null): Promise<Route> {
+    if (grade) {
+      return this.updateRoute(id, { difficulty: grade, difficultyManual: true })
+    }
+
+    const route = await this.updateRoute(id, { difficultyManual: undefined })
+    return this.refreshRouteStats(route)
+  }
+
+  /**
+   * Write new geometry produced by a split, merge, reverse or trim.
+   * Distance is recomputed and the cached elevation profile is cleared; elevation
+   * gain/loss must be refreshed afterwards unless given (see refreshRouteStats).
+   */
+  private async replaceGeometry(id: string, geometry: RouteGeometry): Promise<Route> {
+    const updated = this.withGeometry(await this.getRequiredRoute(id), geometry)
     const db = await this.getDB()
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([ROUTES_STORE], 'readwrite')
-      const store = transaction.objectStore(ROUTES_STORE)
+      const transaction = db.transaction([ROUTES_STORE, ELEVATION_STORE], 'readwrite')
+      transaction.oncomplete = () => resolve(updated)
+      transaction.onerror = () => {
+        reject(new Error(`Failed to update route geometry (ID: ${id}): ${transaction.error?.message || 'Unknown error'}`))
+      }
 
-      const request = store.delete(id)
+      transaction.objectStore(ROUTES_STORE).put(updated)
+      transaction.objectStore(ELEVATION_STORE).delete(id)
+    })
+  }
 
-      request.onsuccess = () => {
-        devLog('Route deleted:', id)
-        resolve()
+  // The route record with new geometry, for writing in the caller's transaction
+  private withGeometry(route: Route, geometry: RouteGeometry): Route {
+    if (geometry.coordinates.length < 2) {
+      throw new Error(`Route must have at least 2 coordinates (ID: ${route.id})`)
+    }
+
+    return {
+      ...route,
+      elevationGain: undefined,
+      elevationLoss: undefined,
+      duration: undefined,
+      ...geometry,
+      distance: this.calculateDistance(geometry.coordinates),
+      updatedAt: Date.now()
+    }
+  }
+
+  private createRouteId(): string {
+    return `route-${Date.now()}-${Math.random().toString(this.ID_RADIX).substring(this.ID_RANDOM_STRING_START, this.ID_RANDOM_STRING_END)}`
+  }
+
+  // Slice the per-point arrays of a route along with its coordinates (end is exclusive)
+  private sliceGeometry(route: Route, start: number, end: number): Pick<Route, 'coordinates' | 'elevations' | 'timestamps'> {
+    return {
+      coordinates: route.coordinates.slice(start, end),
+      elevations: route.elevations?.slice(start, end),
+      timestamps: route.timestamps?.slice(start, end)
+    }
+  }
+
+  private async getRequiredRoute(id: string): Promise<Route> {
+    const route = await this.getRoute(id)
+    if (!route) {
+      throw new Error(`Route not found (ID: ${id})`)
+    }
+    return route
+  }
+
+  // Index of the route vertex closest to a point
+  private nearestVertexIndex(coordinates: Array<[number, number]>, point: [number, number]): number {
+    let nearest = 0
+    let nearestDistance = Infinity
+    coordinates.forEach((coord, index) => {
+      const distance = calculateHaversineDistance(coord, point)
+      if (distance < nearestDistance) {
+        nearest = index
+        nearestDistance = distance
       }
+    })
+    return nearest
+  }
 
-      request.onerror = () => {
-        reject(new Error(`Failed to delete route (ID: ${id}): ${request.error?.message || 'Unknown error'}`))
+  /**
+   * Split a route at a vertex. The vertex ends the first part and starts the second.
+   * The original route keeps the first part; the second part becomes a new route that is
+   * added to the same projects, right after the original. Linked waypoints go to the part
+   * whose line they are closest to. Both parts and the projects are written in one transaction.
+   */
+  async splitRoute(id: string, vertexIndex: number, secondName: string): Promise<[Route, Route]> {
+    const route = await this.getRequiredRoute(id)
+
+    if (vertexIndex < 1 || vertexIndex > route.coordinates.length - 2) {
+      throw new Error(`Split vertex must be an inner vertex (ID: ${id}, index: ${vertexIndex})`)
+    }
+
+    const firstWaypoints: string[] = []
+    const secondWaypoints: string[] = []
+    for (const waypointId of route.waypoints) {
+      const waypoint = await this.getWaypoint(waypointId)
+      if (waypoint && this.nearestVertexIndex(route.coordinates, waypoint.coordinates) > vertexIndex) {
+        secondWaypoints.push(waypointId)
+      } else {
+        firstWaypoints.push(waypointId)
       }
+    }
+
+    const secondGeometry = this.sliceGeometry(route, vertexIndex, route.coordinates.length)
+    const now = Date.now()
+    const second: Route = {
+      id: this.createRouteId(),
+      name: secondName,
+      description: route.description,
+      color: route.color,
+      activity: route.activity,
+      waypoints: secondWaypoints,
+      ...secondGeometry,
+      distance: this.calculateDistance(secondGeometry.coordinates),
+      createdAt: now,
+      updatedAt: now
+    }
+    const first = this.withGeometry(route, {
+      ...this.sliceGeometry(route, 0, vertexIndex + 1),
+      waypoints: firstWaypoints
+    })
+
+    const db = await this.getDB()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([ROUTES_STORE, PROJECTS_STORE, ELEVATION_STORE], 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => {
+        reject(new Error(`Failed to split route (ID: ${id}): ${transaction.error?.message || 'Unknown error'}`))
+      }
+
+      const routesStore = transaction.objectStore(ROUTES_STORE)
+      routesStore.add(second)
+      routesStore.put(first)
+      transaction.objectStore(ELEVATION_STORE).delete(id)
+
+      this.updateEach<Project>(transaction.objectStore(PROJECTS_STORE), project => {
+        const index = project.routes.indexOf(id)
+        if (index === -1) return null
+        const routes = [...project.routes]
+        routes.splice(index + 1, 0, second.id)
+        return { ...project, routes }
+      })
+    })
+
+    devLog('Route split:', id, '->', second.id)
+    return [first, second]
+  }
+
+  /**
+   * Append the second route to the end of the first and delete the second, in one transaction.
+   * Projects that contained the second route now contain the merged route instead.
+   */
+  async mergeRoutes(firstId: string, secondId: string): Promise<Route> {
+    if (firstId === secondId) {
+      throw new Error(`Cannot merge a route with itself (ID: ${firstId})`)
+    }
+
+    const first = await this.getRequiredRoute(firstId)
+    const second = await this.getRequiredRoute(secondId)
+
+    // Drop the second route's first vertex if it is the same point as the first route's end
+    const joined = calculateHaversineDistance(first.coordinates[first.coordinates.length - 1], second.coordinates[0]) < 1
+    const offset = joined ? 1 : 0
+
+    // Per-point data only survives if both routes have it, and times only if the second started later
+    const elevations = first.elevations && second.elevations
+      ? [...first.elevations, ...second.elevations.slice(offset)]
+      : undefined
+    const timestamps = first.timestamps && second.timestamps &&
+      second.timestamps[0] >= first.timestamps[first.timestamps.length - 1]
+      ? [...first.timestamps, ...second.timestamps.slice(offset)]
+      : undefined
+
+    const merged = this.withGeometry(first, {
+      coordinates: [...first.coordinates, ...second.coordinates.slice(offset)],
+      elevations,
+      timestamps,
+      waypoints: [...new Set([...first.waypoints, ...second.waypoints])]
     })
+
+    const db = await this.getDB()
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(RECORD_STORES, 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => {
+        reject(new Error(`Failed to merge routes (IDs: ${firstId}, ${secondId}): ${transaction.error?.message || 'Unknown error'}`))
+      }
+
+      transaction.objectStore(ROUTES_STORE).put(merged)
+      transaction.objectStore(ELEVATION_STORE).delete(firstId)
+      // Projects that held the second route get the merged route instead
+      this.deleteInTransaction(transaction, { routes: [secondId] }, new Map([[secondId, firstId]]))
+    })
+
+    devLog('Routes merged:', secondId, '->', firstId)
+    return merged
+  }
+
+  /**
+   * Reverse the direction of a route. Elevation gain and loss swap, and recorded
+   * timestamps are dropped since they would run backwards.
+   */
+  async reverseRoute(id: string): Promise<Route> {
+    const route = await this.getRequiredRoute(id)
+
+    return this.replaceGeometry(id, {
+      coordinates: [...route.coordinates].reverse(),
+      elevations: route.elevations ? [...route.elevations].reverse() : undefined,
+      timestamps: undefined,
+      elevationGain: route.elevationLoss,
+      elevationLoss: route.elevationGain
+    })
+  }
+
+  /**
+   * Remove the part of a route before (trim 'start') or after (trim 'end') a vertex
+   */
+  async trimRoute(id: string, end: 'start' | 'end', vertexIndex: number): Promise<Route> {
+    const route = await this.getRequiredRoute(id)
+
+    if (vertexIndex < 1 || vertexIndex > route.coordinates.length - 2) {
+      throw new Error(`Trim vertex must be an inner vertex (ID: ${id}, index: ${vertexIndex})`)
+    }
+
+    return this.replaceGeometry(id, end === 'start'
+      ? this.sliceGeometry(route, vertexIndex, route.coordinates.length)
+      : this.sliceGeometry(route, 0, vertexIndex + 1))
+  }
+
+  /**
+   * Delete a route, its cached elevation profile, and remove it from projects
+   */
+  async deleteRoute(id: string): Promise<void> {
+    await this.deleteRecords({ routes: [id] })
+    devLog('Route deleted:', id)
   }
 
   // Project methods
-  async createProject(project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Promise<Project> {
+  async createProject(project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'> & { createdAt?: number; updatedAt?: number }): Promise<Project> {
     const db = await this.getDB()
 
     const newProject: Project = {
       ...project,
       id: `proj-${Date.now()}-${Math.random().toString(this.ID_RADIX).substring(this.ID_RANDOM_STRING_START, this.ID_RANDOM_STRING_END)}`,
-      createdAt: Date.now(),
-      updatedAt: Date.now()
+      createdAt: project.createdAt ?? Date.now(),
+      updatedAt: project.updatedAt ?? Date.now()
     }
 
     return new Promise((resolve, reject) => {
@@ -417,26 +733,202 @@ class RouteService {
     })
   }
 
-  async deleteProject(id: string): Promise<void> {
+  /**
+   * Delete a project. With 'delete' its routes and waypoints are deleted too, except
+   * those that also belong to another project; with 'keep' they stay as loose items.
+   *
+   * @returns IDs of the routes and waypoints that were deleted along with the project
+   */
+  async deleteProject(id: string, contents: 'keep' | 'delete' = 'keep'): Promise<DeletedRecords> {
+    const deleted: DeletedRecords = { routes: [], waypoints: [] }
+
+    if (contents === 'delete') {
+      const projects = await this.getAllProjects()
+      const project = projects.find(p => p.id === id)
+      const others = projects.filter(p => p.id !== id)
+      if (project) {
+        deleted.routes = project.routes.filter(routeId => !others.some(p => p.routes.includes(routeId)))
+        deleted.waypoints = project.waypoints.filter(waypointId => !others.some(p => p.waypoints.includes(waypointId)))
+      }
+    }
+
+    await this.deleteRecords({ projects: [id], ...deleted })
+    devLog('Project deleted:', id, contents === 'delete' ? deleted : '(contents kept)')
+    return deleted
+  }
+
+  /**
+   * Delete records in one transaction, together with every reference to them:
+   * waypoint IDs in routes, and route/waypoint IDs in projects. Tombstones are written
+   * for sync. Attached photos are deleted, or moved along when a route is redirected.
+   * References can be redirected instead of removed (used when merging routes).
+   */
+  private async deleteRecords(
+    targets: { routes?: string[]; waypoints?: string[]; projects?: string[] },
+    redirectRoutes: Map<string, string> = new Map()
+  ): Promise<void> {
     const db = await this.getDB()
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([PROJECTS_STORE], 'readwrite')
-      const store = transaction.objectStore(PROJECTS_STORE)
+      const transaction = db.transaction(RECORD_STORES, 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => {
+        reject(new Error(`Failed to delete records: ${transaction.error?.message || 'Unknown error'}`))
+      }
 
-      const request = store.delete(id)
+      this.deleteInTransaction(transaction, targets, redirectRoutes)
+    })
+  }
 
-      request.onsuccess = () => {
-        devLog('Project deleted:', id)
-        resolve()
+  // The work of deleteRecords inside an open transaction on RECORD_STORES
+  private deleteInTransaction(
+    transaction: IDBTransaction,
+    targets: { routes?: string[]; waypoints?: string[]; projects?: string[] },
+    redirectRoutes: Map<string, string>
+  ): void {
+    const routeIds = new Set(targets.routes ?? [])
+    const waypointIds = new Set(targets.waypoints ?? [])
+    const projectIds = new Set(targets.projects ?? [])
+    const tombstones = transaction.objectStore(SYNC_TOMBSTONES_STORE)
+    const photosByOwner = transaction.objectStore(PHOTOS_STORE).index('ownerId')
+
+    routeIds.forEach(id => {
+      transaction.objectStore(ROUTES_STORE).delete(id)
+      transaction.objectStore(ELEVATION_STORE).delete(id)
+      tombstones.put(this.createTombstone(id, 'routes'))
+    })
+    waypointIds.forEach(id => {
+      transaction.objectStore(WAYPOINTS_STORE).delete(id)
+      tombstones.put(this.createTombstone(id, 'waypoints'))
+    })
+
+    for (const ownerId of [...routeIds, ...waypointIds]) {
+      const redirectTo = redirectRoutes.get(ownerId)
+      photosByOwner.openCursor(ownerId).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result
+        if (!cursor) return
+        if (redirectTo) {
+          cursor.update({ ...cursor.value, ownerId: redirectTo })
+        } else {
+          cursor.delete()
+        }
+        cursor.continue()
       }
+    }
+    projectIds.forEach(id => {
+      transaction.objectStore(PROJECTS_STORE).delete(id)
+      tombstones.put(this.createTombstone(id, 'projects'))
+    })
 
-      request.onerror = () => {
-        reject(new Error(`Failed to delete project (ID: ${id}): ${request.error?.message || 'Unknown error'}`))
+    if (waypointIds.size > 0) {
+      this.updateEach<Route>(transaction.objectStore(ROUTES_STORE), route => {
+        if (routeIds.has(route.id) || !route.waypoints.some(id => waypointIds.has(id))) return null
+        return { ...route, waypoints: route.waypoints.filter(id => !waypointIds.has(id)) }
+      })
+    }
+
+    if (routeIds.size > 0 || waypointIds.size > 0) {
+      this.updateEach<Project>(transaction.objectStore(PROJECTS_STORE), project => {
+        if (projectIds.has(project.id)) return null
+        const routes = [...new Set(project.routes
+          .map(id => redirectRoutes.get(id) ?? id)
+          .filter(id => !routeIds.has(id)))]
+        const waypoints = project.waypoints.filter(id => !waypointIds.has(id))
+        if (routes.length === project.routes.length && routes.every((id, i) => id === project.routes[i]) &&
+          waypoints.length === project.waypoints.length) {
+          return null
+        }
+        return { ...project, routes, waypoints }
+      })
+    }
+  }
+
+  /**
+   * Rewrite records in a store with a cursor inside an open transaction.
+   * update returns the new record, or null to leave it unchanged. Changed records get a
+   * new updatedAt so sync carries the change to other devices.
+   */
+  private updateEach<T extends { updatedAt: number }>(
+    store: IDBObjectStore,
+    update: (record: T) => T | null,
+    onChanged?: () => void
+  ): void {
+    const request = store.openCursor()
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) return
+      const updated = update(cursor.value as T)
+      if (updated) {
+        cursor.update({ ...updated, updatedAt: Date.now() })
+        onChanged?.()
+      }
+      cursor.continue()
+    }
+  }
+
+  /**
+   * Remove references to routes and waypoints that no longer exist (left behind by
+   * older versions, interrupted writes or sync), and photos whose waypoint or route is gone.
+   * Run once on startup.
+   *
+   * @returns Number of routes and projects that were repaired, and orphaned photos removed
+   */
+  async repairReferences(): Promise<{ routes: number; projects: number; photos: number }> {
+    const db = await this.getDB()
+    const repaired = { routes: 0, projects: 0, photos: 0 }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([ROUTES_STORE, WAYPOINTS_STORE, PROJECTS_STORE, PHOTOS_STORE], 'readwrite')
+      transaction.oncomplete = () => {
+        if (repaired.routes > 0 || repaired.projects > 0 || repaired.photos > 0) {
+          devLog('Repaired dangling references:', repaired)
+        }
+        resolve(repaired)
+      }
+      transaction.onerror = () => {
+        reject(new Error(`Failed to repair references: ${transaction.error?.message || 'Unknown error'}`))
+      }
+
+      const routeKeysRequest = transaction.objectStore(ROUTES_STORE).getAllKeys()
+      const waypointKeysRequest = transaction.objectStore(WAYPOINTS_STORE).getAllKeys()
+
+      // Requests in a transaction complete in order, so both key lists are ready here
+      waypointKeysRequest.onsuccess = () => {
+        const routeIds = new Set(routeKeysRequest.result as string[])
+        const waypointIds = new Set(waypointKeysRequest.result as string[])
+
+        this.updateEach<Route>(transaction.objectStore(ROUTES_STORE), route => {
+          const waypoints = [...new Set(route.waypoints.filter(id => waypointIds.has(id)))]
+          return waypoints.length === route.waypoints.length ? null : { ...route, waypoints }
+        }, () => repaired.routes++)
+
+        this.updateEach<Project>(transaction.objectStore(PROJECTS_STORE), project => {
+          const routes = [...new Set(project.routes.filter(id => routeIds.has(id)))]
+          const waypoints = [...new Set(project.waypoints.filter(id => waypointIds.has(id)))]
+          return routes.length === project.routes.length && waypoints.length === project.waypoints.length
+            ? null
+            : { ...project, routes, waypoints }
+        }, () => repaired.projects++)
+
+        // Sync deletes routes and waypoints without knowing about their (device-local) photos
+        transaction.objectStore(PHOTOS_STORE).openCursor().onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result
+          if (!cursor) return
+          const { ownerId, ownerType } = cursor.value as { ownerId: string; ownerType: 'waypoint' | 'route' }
+          if (!(ownerType === 'route' ? routeIds : waypointIds).has(ownerId)) {
+            cursor.delete()
+            repaired.photos++
+          }
+          cursor.continue()
+        }
       }
     })
   }
 
+  private createTombstone(id: string, store: SyncTombstone['store']): SyncTombstone {
+    return { id, store, deletedAt: Date.now() }
+  }
+
   // Utility method to calculate route distance
   calculateDistance(coordinates: Array<[number, number]>): number {
     if (coordinates.length < 2) return 0
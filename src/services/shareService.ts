@@ -0,0 +1,188 @@
+// Share service for Tråkke PWA
+// Route share links carry the whole route in the URL fragment (#route=...). Browsers never
+// send the fragment to the server, so a shared route only exists in the link itself.
+// Format: "<version>.<base64url of deflated JSON>", with the line as an encoded polyline.
+// Long routes are simplified until the link fits within MAX_URL_LENGTH.
+
+import type { Route, Waypoint } from './routeService'
+import { encodePolyline, decodePolyline } from '../utils/polyline'
+import { simplifyLine } from '../utils/simplify'
+import { deflateRaw, inflateRaw } from '../utils/zip'
+import { sanitizeImportedName } from '../utils/validation'
+import { updateHashParams } from '../utils/mapUrlState'
+import { devLog } from '../constants'
+
+export const SHARE_LINK_VERSION = 1
+
+export interface SharedWaypoint {
+  name: string
+  coordinates: [number, number] // [lon, lat]
+  category?: string
+  icon?: string
+}
+
+export interface SharedRoute {
+  name: string
+  description?: string
+  coordinates: Array<[number, number]> // [lon, lat]
+  waypoints: SharedWaypoint[]
+}
+
+export interface ShareLink {
+  url: string
+  pointCount: number
+  originalPointCount: number
+  tolerance: number // meters; 0 when the line was not simplified
+}
+
+// Compact JSON in the link; short keys since every byte counts
+interface SharePayload {
+  n: string // name
+  d?: string // description
+  p: string // encoded polyline
+  w?: Array<{ n: string; p: string; c?: string; i?: string }> // waypoints
+}
+
+const FRAGMENT_KEY = 'route'
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  const chunk = 0x8000 // Stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// A damaged or hand-made polyline can decode to anything
+const isCoordinate = ([lon, lat]: [number, number]): boolean =>
+  Number.isFinite(lon) && Number.isFinite(lat) && Math.abs(lon) <= 180 && Math.abs(lat) <= 90
+
+class ShareService {
+  // Stays within what chat apps, mail clients and QR codes handle reliably
+  private readonly MAX_URL_LENGTH = 2000
+  // Simplification steps tried in turn until the link is short enough
+  private readonly TOLERANCES = [0, 2, 5, 10, 20, 35, 50, 75, 100] // meters
+  private readonly MAX_DESCRIPTION_LENGTH = 500
+  // Real links inflate to a few kB; anything near this is a decompression bomb
+  private readonly MAX_PAYLOAD_BYTES = 2 * 1024 * 1024
+
+  /**
+   * Create a share link for a route and its waypoints
+   *
+   * @throws Error if the route doesn't fit in a link even when simplified
+   */
+  async createShareLink(route: Route, waypoints: Waypoint[]): Promise<ShareLink> {
+    const base = `${window.location.origin}${window.location.pathname}#${FRAGMENT_KEY}=${SHARE_LINK_VERSION}.`
+    const description = route.description?.trim().slice(0, this.MAX_DESCRIPTION_LENGTH)
+
+    for (const tolerance of this.TOLERANCES) {
+      const coordinates = simplifyLine(route.coordinates, tolerance)
+      const payload: SharePayload = {
+        n: route.name,
+        d: description || undefined,
+        p: encodePolyline(coordinates),
+        w: waypoints.length > 0
+          ? waypoints.map(wp => ({ n: wp.name, p: encodePolyline([wp.coordinates]), c: wp.category, i: wp.icon }))
+          : undefined
+      }
+
+      const compressed = await deflateRaw(new TextEncoder().encode(JSON.stringify(payload)))
+      const url = base + toBase64Url(compressed)
+
+      if (url.length <= this.MAX_URL_LENGTH) {
+        devLog(`Share link created: ${url.length} chars, ${coordinates.length}/${route.coordinates.length} points (tolerance ${tolerance} m)`)
+        return { url, pointCount: coordinates.length, originalPointCount: route.coordinates.length, tolerance }
+      }
+    }
+
+    throw new Error(`Route too large for a share link (${route.coordinates.length} points, ${waypoints.length} waypoints)`)
+  }
+
+  /**
+   * Whether a URL fragment holds a shared route
+   */
+  isShareFragment(hash: string): boolean {
+    return new URLSearchParams(hash.replace(/^#/, '')).has(FRAGMENT_KEY)
+  }
+
+  /**
+   * The URL fragment without the shared route, keeping other parameters (such as the map view)
+   */
+  removeShareFragment(hash: string): string {
+    return updateHashParams(hash, { [FRAGMENT_KEY]: undefined })
+  }
+
+  /**
+   * Read a shared route from a URL fragment. Names are cleaned like imported files.
+   *
+   * @returns The route, or null if the fragment is not a share link
+   * @throws Error if the link is damaged, too large or made by a newer version of the app
+   */
+  async parseShareFragment(hash: string): Promise<SharedRoute | null> {
+    const value = new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_KEY)
+    if (value === null) return null
+
+    const separator = value.indexOf('.')
+    const version = Number(value.slice(0, separator))
+    if (separator === -1 || !Number.isInteger(version) || version < 1) {
+      throw new Error('Invalid share link: missing version')
+    }
+    if (version > SHARE_LINK_VERSION) {
+      throw new Error(`Unsupported share link version: ${version}`)
+    }
+
+    let payload: SharePayload
+    try {
+      const json = new TextDecoder().decode(await inflateRaw(fromBase64Url(value.slice(separator + 1)), this.MAX_PAYLOAD_BYTES))
+      payload = JSON.parse(json)
+    } catch {
+      throw new Error('Invalid share link: could not decode data')
+    }
+
+    if (!payload || typeof payload.p !== 'string') {
+      throw new Error('Invalid share link: missing route line')
+    }
+
+    const coordinates = decodePolyline(payload.p)
+    if (coordinates.length < 2) {
+      throw new Error('Invalid share link: route needs at least 2 points')
+    }
+    if (!coordinates.every(isCoordinate)) {
+      throw new Error('Invalid share link: coordinates out of range')
+    }
+
+    const waypoints: SharedWaypoint[] = []
+    for (const [index, wp] of (Array.isArray(payload.w) ? payload.w : []).entries()) {
+      if (!wp || typeof wp.p !== 'string') continue
+      const [point] = decodePolyline(wp.p)
+      if (!point || !isCoordinate(point)) continue
+      waypoints.push({
+        name: sanitizeImportedName(typeof wp.n === 'string' ? wp.n : undefined, `Punkt ${index + 1}`),
+        coordinates: point,
+        category: typeof wp.c === 'string' ? sanitizeImportedName(wp.c, '') || undefined : undefined,
+        icon: typeof wp.i === 'string' && /^[a-z0-9_]+$/.test(wp.i) ? wp.i : undefined
+      })
+    }
+
+    return {
+      name: sanitizeImportedName(typeof payload.n === 'string' ? payload.n : undefined, 'Delt rute'),
+      description: typeof payload.d === 'string'
+        ? payload.d.trim().slice(0, this.MAX_DESCRIPTION_LENGTH) || undefined
+        : undefined,
+      coordinates,
+      waypoints
+    }
+  }
+}
+
+export const shareService = new ShareService()
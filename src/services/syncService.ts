@@ -0,0 +1,513 @@
+// Sync service for Tråkke PWA
+// Optional end-to-end encrypted sync of routes, waypoints and projects through a
+// WebDAV server the user provides (e.g. Nextcloud). All data is encrypted on the device
+// (PBKDF2 + AES-GCM, WebCrypto) before upload; the server only ever sees ciphertext.
+// Conflicts are resolved per record, last writer wins on updatedAt, with tombstones for deletes.
+// External API: See PRIVACY_BY_DESIGN.md#external-api-registry
+
+import { dbService } from './dbService'
+import { routeService, type Route, type Waypoint, type Project, type SyncTombstone } from './routeService'
+import { devLog, devError, IS_DEV } from '../constants'
+import { REQUEST_TIMEOUTS } from '../config/timings'
+
+export interface SyncConfig {
+  url: string // WebDAV folder, e.g. https://sky.example.no/remote.php/dav/files/ola/Trakke
+  username: string
+  lastSyncAt?: number
+}
+
+export interface SyncResult {
+  pulled: number // Records added or updated on this device
+  deleted: number // Records removed on this device
+  pushed: number // Records that were newer here than on the server
+}
+
+type SyncStore = SyncTombstone['store']
+type SyncRecord = Route | Waypoint | Project
+
+interface SyncSnapshot {
+  routes: Route[]
+  waypoints: Waypoint[]
+  projects: Project[]
+  tombstones: SyncTombstone[]
+}
+
+interface SyncEnvelope {
+  format: typeof SYNC_FORMAT
+  version: number
+  salt: string // base64, PBKDF2 salt
+  iv: string // base64, AES-GCM nonce
+  data: string // base64, encrypted JSON snapshot
+}
+
+interface SyncMerge {
+  merged: SyncSnapshot
+  puts: Array<{ store: SyncStore; record: SyncRecord }>
+  deletes: Array<{ store: SyncStore; id: string }>
+  pushed: number
+  remoteOutdated: boolean
+}
+
+const SYNC_FORMAT = 'trakke-sync'
+const SYNC_VERSION = 1
+const CONFIG_KEY = 'trakke_sync_config'
+const SYNC_STORES: SyncStore[] = ['routes', 'waypoints', 'projects']
+const SYNC_TOMBSTONES_STORE = 'syncTombstones'
+const ELEVATION_STORE = 'elevationProfiles'
+// Servers the production CSP allows in connect-src (see vite.config.ts)
+const ALLOWED_ORIGINS = ((import.meta.env.VITE_SYNC_ORIGINS as string | undefined) ?? '').trim().split(/\s+/).filter(Boolean)
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  const chunk = 0x8000 // Stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk))
+  }
+  return btoa(binary)
+}
+
+const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+class SyncService {
+  private readonly FILE_NAME = 'trakke-sync.json'
+  private readonly PBKDF2_ITERATIONS = 310000 // OWASP recommendation for PBKDF2-SHA256
+  private readonly SALT_BYTES = 16
+  private readonly IV_BYTES = 12
+  private readonly TOMBSTONE_TTL = 180 * 24 * 60 * 60 * 1000 // 180 days
+  private readonly MAX_ATTEMPTS = 3 // Retries when another device wrote in between
+
+  // Kept in memory only: the WebDAV app password and the passphrase must be entered again after a reload
+  private password: string | null = null
+  private passphrase: string | null = null
+  private derivedKey: { salt: string; passphrase: string; key: CryptoKey } | null = null
+  private running: Promise<SyncResult> | null = null
+
+  // ============================================================================
+  // Configuration
+  // ============================================================================
+
+  getConfig(): SyncConfig | null {
+    try {
+      const stored = localStorage.getItem(CONFIG_KEY)
+      if (!stored) return null
+      const config = JSON.parse(stored) as SyncConfig & { password?: string }
+      if (config.password !== undefined) {
+        // Earlier versions stored the app password; drop it
+        const { password: _password, ...rest } = config
+        this.saveConfig(rest)
+        return rest
+      }
+      return config
+    } catch (error) {
+      devError('Failed to load sync config:', error)
+      return null
+    }
+  }
+
+  saveConfig(config: SyncConfig): void {
+    const { url, username, lastSyncAt } = config
+    localStorage.setItem(CONFIG_KEY, JSON.stringify({ url: url.trim().replace(/\/+$/, ''), username, lastSyncAt }))
+  }
+
+  /**
+   * Stop syncing on this device. Local data and the server file are left as they are.
+   */
+  disconnect(): void {
+    localStorage.removeItem(CONFIG_KEY)
+    this.lock()
+  }
+
+  isConfigured(): boolean {
+    return this.getConfig() !== null
+  }
+
+  /**
+   * Whether the app may reach any sync server. Production builds only reach the servers
+   * listed in VITE_SYNC_ORIGINS at build time; dev builds have no CSP.
+   */
+  hasAllowedServers(): boolean {
+    return IS_DEV || ALLOWED_ORIGINS.length > 0
+  }
+
+  /**
+   * Whether connect-src lets the app reach this server, e.g. "https://*.example.no"
+   * matches "https://sky.example.no/remote.php/dav"
+   */
+  isServerAllowed(url: string): boolean {
+    if (IS_DEV) return true
+    try {
+      const target = new URL(url)
+      return ALLOWED_ORIGINS.some(source => {
+        const wildcard = source.match(/^(https?:)\/\/\*\.([^/:]+)$/)
+        if (wildcard) return target.protocol === wildcard[1] && target.hostname.endsWith(`.${wildcard[2]}`)
+        return new URL(source).origin === target.origin
+      })
+    } catch {
+      return false
+    }
+  }
+
+  isUnlocked(): boolean {
+    return this.password !== null && this.passphrase !== null
+  }
+
+  unlock(password: string, passphrase: string): void {
+    this.password = password
+    this.passphrase = passphrase
+  }
+
+  lock(): void {
+    this.password = null
+    this.passphrase = null
+    this.derivedKey = null
+  }
+
+  // ============================================================================
+  // Encryption
+  // ============================================================================
+
+  private async getKey(passphrase: string, salt: string): Promise<CryptoKey> {
+    if (this.derivedKey?.salt === salt && this.derivedKey.passphrase === passphrase) return this.derivedKey.key
+
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    )
+    const key = await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt: fromBase64(salt) as BufferSource, iterations: this.PBKDF2_ITERATIONS, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+
+    this.derivedKey = { salt, passphrase, key }
+    return key
+  }
+
+  /**
+   * Encrypt a snapshot. The salt is kept per server file so the key is derived only once.
+   */
+  async encrypt(snapshot: SyncSnapshot, passphrase: string, salt?: string): Promise<SyncEnvelope> {
+    const saltValue = salt ?? toBase64(crypto.getRandomValues(new Uint8Array(this.SALT_BYTES)))
+    const iv = crypto.getRandomValues(new Uint8Array(this.IV_BYTES))
+    const key = await this.getKey(passphrase, saltValue)
+
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(snapshot))
+    )
+
+    return {
+      format: SYNC_FORMAT,
+      version: SYNC_VERSION,
+      salt: saltValue,
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(ciphertext))
+    }
+  }
+
+  /**
+   * Decrypt a server file
+   *
+   * @throws Error if the file is not a Tråkke sync file or the passphrase is wrong
+   */
+  async decrypt(envelope: SyncEnvelope, passphrase: string): Promise<SyncSnapshot> {
+    if (envelope?.format !== SYNC_FORMAT || typeof envelope.salt !== 'string') {
+      throw new Error('Not a Tråkke sync file')
+    }
+    if (envelope.version > SYNC_VERSION) {
+      throw new Error(`Sync file version ${envelope.version} is newer than supported (${SYNC_VERSION})`)
+    }
+
+    const key = await this.getKey(passphrase, envelope.salt)
+    let plaintext: ArrayBuffer
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(envelope.iv) as BufferSource },
+        key,
+        fromBase64(envelope.data) as BufferSource
+      )
+    } catch {
+      // AES-GCM authentication fails on a wrong key as well as on tampered data
+      throw new Error('Wrong passphrase or damaged sync file')
+    }
+
+    const snapshot = JSON.parse(new TextDecoder().decode(plaintext)) as Partial<SyncSnapshot>
+    return {
+      routes: snapshot.routes ?? [],
+      waypoints: snapshot.waypoints ?? [],
+      projects: snapshot.projects ?? [],
+      tombstones: snapshot.tombstones ?? []
+    }
+  }
+
+  // ============================================================================
+  // Merge
+  // ============================================================================
+
+  // Later updatedAt wins; identical timestamps fall back to content so all devices pick the same
+  private newer<T extends SyncRecord>(a: T | undefined, b: T | undefined): T | undefined {
+    if (!a || !b) return a ?? b
+    if (a.updatedAt !== b.updatedAt) return a.updatedAt > b.updatedAt ? a : b
+    return JSON.stringify(a) >= JSON.stringify(b) ? a : b
+  }
+
+  /**
+   * Merge the local and server snapshots record by record.
+   * A tombstone wins over a record unless the record was updated after the delete.
+   */
+  mergeSnapshots(local: SyncSnapshot, remote: SyncSnapshot | null, now: number = Date.now()): SyncMerge {
+    const result: SyncMerge = {
+      merged: { routes: [], waypoints: [], projects: [], tombstones: [] },
+      puts: [],
+      deletes: [],
+      pushed: 0,
+      remoteOutdated: remote === null
+    }
+
+    const tombstones = new Map<string, SyncTombstone>()
+    const remoteTombstones = new Set<string>()
+    for (const tombstone of remote?.tombstones ?? []) {
+      tombstones.set(tombstone.id, tombstone)
+      remoteTombstones.add(tombstone.id)
+    }
+    for (const tombstone of local.tombstones) {
+      const existing = tombstones.get(tombstone.id)
+      if (!existing || tombstone.deletedAt > existing.deletedAt) {
+        tombstones.set(tombstone.id, tombstone)
+      }
+    }
+
+    for (const store of SYNC_STORES) {
+      const localRecords = new Map<string, SyncRecord>(local[store].map(record => [record.id, record]))
+      const remoteRecords = new Map<string, SyncRecord>((remote?.[store] ?? []).map(record => [record.id, record]))
+      const ids = new Set([...localRecords.keys(), ...remoteRecords.keys()])
+      const merged: SyncRecord[] = result.merged[store]
+
+      for (const id of ids) {
+        const localRecord = localRecords.get(id)
+        const remoteRecord = remoteRecords.get(id)
+        const winner = this.newer(localRecord, remoteRecord)!
+        const tombstone = tombstones.get(id)
+
+        if (tombstone && tombstone.deletedAt >= winner.updatedAt) {
+          if (localRecord) result.deletes.push({ store, id })
+          if (remoteRecord) result.remoteOutdated = true
+          continue
+        }
+
+        // Edited after it was deleted elsewhere: the edit wins and the record comes back
+        tombstones.delete(id)
+        merged.push(winner)
+        if (winner !== localRecord) {
+          result.puts.push({ store, record: winner })
+        }
+        if (winner !== remoteRecord) {
+          result.pushed++
+          result.remoteOutdated = true
+        }
+      }
+    }
+
+    // Old tombstones are dropped; a device offline for longer may bring deleted records back
+    for (const tombstone of tombstones.values()) {
+      if (now - tombstone.deletedAt > this.TOMBSTONE_TTL) continue
+      result.merged.tombstones.push(tombstone)
+      if (!remoteTombstones.has(tombstone.id)) result.remoteOutdated = true
+    }
+
+    return result
+  }
+
+  // ============================================================================
+  // Local database
+  // ============================================================================
+
+  private async readLocal(): Promise<SyncSnapshot> {
+    const db = await dbService.getDatabase()
+    const storeNames = [...SYNC_STORES, SYNC_TOMBSTONES_STORE]
+    const transaction = db.transaction(storeNames, 'readonly')
+
+    const [routes, waypoints, projects, tombstones] = await Promise.all(storeNames.map(name =>
+      new Promise<unknown[]>((resolve, reject) => {
+        const request = transaction.objectStore(name).getAll()
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(new Error(`Failed to read ${name}: ${request.error?.message || 'Unknown error'}`))
+      })
+    ))
+
+    return {
+      routes: routes as Route[],
+      waypoints: waypoints as Waypoint[],
+      projects: projects as Project[],
+      tombstones: tombstones as SyncTombstone[]
+    }
+  }
+
+  // Apply the merge in one transaction, so a failed sync leaves local data unchanged.
+  // Tombstones are replaced by the merged set, which also prunes expired ones.
+  private async applyLocal(merge: SyncMerge): Promise<void> {
+    const db = await dbService.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([...SYNC_STORES, SYNC_TOMBSTONES_STORE, ELEVATION_STORE], 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(new Error(`Failed to apply sync changes: ${transaction.error?.message || 'Unknown error'}`))
+
+      const elevationStore = transaction.objectStore(ELEVATION_STORE)
+
+      for (const { store, record } of merge.puts) {
+        transaction.objectStore(store).put(record)
+        // Cached profiles are keyed by route ID and may no longer match the geometry
+        if (store === 'routes') elevationStore.delete(record.id)
+      }
+      for (const { store, id } of merge.deletes) {
+        transaction.objectStore(store).delete(id)
+        if (store === 'routes') elevationStore.delete(id)
+      }
+
+      const tombstonesStore = transaction.objectStore(SYNC_TOMBSTONES_STORE)
+      tombstonesStore.clear()
+      merge.merged.tombstones.forEach(tombstone => tombstonesStore.put(tombstone))
+    })
+  }
+
+  // ============================================================================
+  // WebDAV
+  // ============================================================================
+
+  private async request(config: SyncConfig, password: string, method: string, headers: Record<string, string> = {}, body?: string): Promise<Response> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUTS.SYNC)
+
+    try {
+      return await fetch(`${config.url}/${this.FILE_NAME}`, {
+        method,
+        headers: {
+          Authorization: `Basic ${toBase64(new TextEncoder().encode(`${config.username}:${password}`))}`,
+          ...headers
+        },
+        body,
+        cache: 'no-store',
+        credentials: 'omit',
+        signal: controller.signal
+      })
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  private checkResponse(response: Response, action: string): void {
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`WebDAV server refused access (${response.status})`)
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to ${action} sync file: HTTP ${response.status}`)
+    }
+  }
+
+  // ============================================================================
+  // Sync
+  // ============================================================================
+
+  private async syncOnce(config: SyncConfig, password: string, passphrase: string): Promise<SyncResult & { conflict: boolean }> {
+    const getResponse = await this.request(config, password, 'GET')
+    let remote: SyncSnapshot | null = null
+    let salt: string | undefined
+    const etag = getResponse.headers.get('ETag')
+
+    if (getResponse.status !== 404) {
+      this.checkResponse(getResponse, 'download')
+      const envelope = await getResponse.json() as SyncEnvelope
+      remote = await this.decrypt(envelope, passphrase)
+      salt = envelope.salt
+    }
+
+    const local = await this.readLocal()
+    const merge = this.mergeSnapshots(local, remote)
+
+    await this.applyLocal(merge)
+    if (merge.deletes.length > 0 || merge.puts.length > 0) {
+      // Records from other devices may point to something deleted here
+      await routeService.repairReferences()
+    }
+
+    if (merge.remoteOutdated) {
+      const envelope = await this.encrypt(merge.merged, passphrase, salt)
+      // Only overwrite the version we merged with; another device may have written in between
+      const precondition: Record<string, string> = remote
+        ? (etag ? { 'If-Match': etag } : {})
+        : { 'If-None-Match': '*' }
+      const putResponse = await this.request(
+        config,
+        password,
+        'PUT',
+        { 'Content-Type': 'application/json', ...precondition },
+        JSON.stringify(envelope)
+      )
+
+      if (putResponse.status === 412) {
+        return { pulled: merge.puts.length, deleted: merge.deletes.length, pushed: 0, conflict: true }
+      }
+      this.checkResponse(putResponse, 'upload')
+    }
+
+    return { pulled: merge.puts.length, deleted: merge.deletes.length, pushed: merge.pushed, conflict: false }
+  }
+
+  /**
+   * Pull changes from the server, merge them into local data and push the result back.
+   * Concurrent calls share one run.
+   *
+   * @throws Error if sync is not configured, locked, or the server or passphrase is wrong
+   */
+  async sync(): Promise<SyncResult> {
+    if (this.running) return this.running
+
+    const config = this.getConfig()
+    const password = this.password
+    const passphrase = this.passphrase
+    if (!config) throw new Error('Sync is not configured')
+    if (!password || !passphrase) throw new Error('Sync is locked; enter the app password and passphrase first')
+
+    this.running = (async () => {
+      const total: SyncResult = { pulled: 0, deleted: 0, pushed: 0 }
+
+      for (let attempt = 1; attempt <= this.MAX_ATTEMPTS; attempt++) {
+        const { conflict, ...result } = await this.syncOnce(config, password, passphrase)
+        total.pulled += result.pulled
+        total.deleted += result.deleted
+        total.pushed = result.pushed
+
+        if (!conflict) {
+          this.saveConfig({ ...config, lastSyncAt: Date.now() })
+          devLog('Sync completed:', total)
+          return total
+        }
+        devLog(`Sync file changed during sync, retrying (${attempt}/${this.MAX_ATTEMPTS})`)
+      }
+
+      throw new Error('Sync file keeps changing on the server; try again later')
+    })()
+
+    try {
+      return await this.running
+    } finally {
+      this.running = null
+    }
+  }
+}
+
+export const syncService = new SyncService()
@@ -0,0 +1,465 @@
+// Tile archive service for Tråkke PWA
+// Offline areas as MBTiles or PMTiles files, so map packages can be prepared on another
+// device, or made by other tools, and sideloaded without downloading from Kartverket.
+// Imported tiles go into the offline tile store like downloaded ones.
+
+import { dbService } from './dbService'
+import { offlineMapService, type DownloadArea } from './offlineMapService'
+import { openSqlite, createSqlite, type SqliteDatabase, type SqliteTable, type SqliteValue } from '../utils/sqlite'
+import { readPmtiles, createPmtiles, type PmtilesTileType } from '../utils/pmtiles'
+import { coversTile, getTileKey, parseTileKey, tileXToLon, tileYToLat, type TileBounds } from '../utils/tiles'
+import { sanitizeImportedName } from '../utils/validation'
+import { MAP_CONFIG, devLog, type BaseLayerType } from '../constants'
+
+export type TileArchiveFormat = 'mbtiles' | 'pmtiles'
+
+type ImageFormat = 'png' | 'jpg' | 'webp'
+
+interface ArchiveTile {
+  z: number
+  x: number
+  y: number
+  data: Uint8Array
+}
+
+export interface TileArchive {
+  format: TileArchiveFormat
+  name: string
+  baseLayer?: BaseLayerType // Declared by archives exported from Tråkke
+  imageFormat: ImageFormat
+  bounds: TileBounds
+  zoomLevels: { min: number; max: number } // Within the zoom levels the map shows
+  tileCount: number
+  tiles(): Iterable<ArchiveTile>
+}
+
+export interface ArchiveImportResult {
+  area: DownloadArea
+  importedTiles: number
+  skippedTiles: number // Outside the area's bounds or zoom levels, or not an image for the layer
+}
+
+// What an archive says about itself, before validation
+interface ArchiveContents {
+  format: TileArchiveFormat
+  name?: string
+  layer?: string
+  imageFormat?: string
+  minZoom?: number
+  maxZoom?: number
+  bounds?: TileBounds
+  tiles(): Iterable<ArchiveTile>
+}
+
+const LAYER_KEY = 'trakke:layer'
+const MBTILES_APPLICATION_ID = 0x4d504258 // "MPBX"
+const MAX_WEB_MERCATOR_LAT = 85.0511
+
+// Kartverket serves PNG map tiles; Norge i bilder is JPEG with PNG at the edges
+const LAYER_FORMATS: Record<BaseLayerType, ImageFormat[]> = {
+  topo: ['png', 'webp'],
+  grayscale: ['png', 'webp'],
+  satellite: ['jpg', 'png', 'webp']
+}
+
+const EXPORT_FORMATS: Record<BaseLayerType, ImageFormat> = {
+  topo: 'png',
+  grayscale: 'png',
+  satellite: 'jpg'
+}
+
+const ATTRIBUTIONS: Record<BaseLayerType, string> = {
+  topo: '© Kartverket',
+  grayscale: '© Kartverket',
+  satellite: '© Kartverket, Norge i bilder'
+}
+
+const PMTILES_TYPES: Record<ImageFormat, PmtilesTileType> = {
+  png: 'png',
+  jpg: 'jpeg',
+  webp: 'webp'
+}
+
+function isBaseLayer(value: unknown): value is BaseLayerType {
+  return value === 'topo' || value === 'grayscale' || value === 'satellite'
+}
+
+function normalizeImageFormat(format: string): ImageFormat | null {
+  const normalized = format.toLowerCase().replace(/^image\//, '')
+  if (normalized === 'png' || normalized === 'webp') return normalized
+  if (normalized === 'jpg' || normalized === 'jpeg') return 'jpg'
+  return null
+}
+
+// Format from the file signature
+function detectImageFormat(data: Uint8Array): ImageFormat | null {
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) return 'png'
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'jpg'
+  if (new TextDecoder().decode(data.subarray(0, 4)) === 'RIFF' && new TextDecoder().decode(data.subarray(8, 12)) === 'WEBP') {
+    return 'webp'
+  }
+  return null
+}
+
+function parseZoom(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const zoom = Number(value)
+  if (!Number.isInteger(zoom) || zoom < 0 || zoom > 26) {
+    throw new Error(`Invalid zoom level in archive metadata: ${value}`)
+  }
+  return zoom
+}
+
+function validateBounds(bounds: TileBounds): TileBounds {
+  const { west, south, east, north } = bounds
+  if (![west, south, east, north].every(Number.isFinite) || west >= east || south >= north ||
+      west < -180 || east > 180 || south < -90 || north > 90) {
+    throw new Error(`Invalid bounds in archive metadata: ${west},${south},${east},${north}`)
+  }
+  return {
+    west,
+    east,
+    south: Math.max(south, -MAX_WEB_MERCATOR_LAT),
+    north: Math.min(north, MAX_WEB_MERCATOR_LAT)
+  }
+}
+
+function column(table: SqliteTable, name: string): number {
+  const index = table.columns.indexOf(name)
+  if (index < 0) {
+    throw new Error(`MBTiles table ${table.name} has no ${name} column`)
+  }
+  return index
+}
+
+class TileArchiveService {
+  private readonly IMPORT_BATCH_SIZE = 200 // Tiles per database transaction
+  private readonly EXPORT_BATCH_SIZE = 200 // Tiles read per database transaction
+  private readonly MAX_FILE_SIZE = 100 * 1024 * 1024 // Archives are read into memory whole; keep it within what phones manage
+
+  /**
+   * Read and validate an MBTiles or PMTiles file
+   *
+   * @throws Error if the file is too large or not a tile archive, holds no raster tiles the map can show,
+   *   or has invalid layer, zoom or bounds metadata
+   */
+  async readArchive(file: File): Promise<TileArchive> {
+    if (file.size > this.MAX_FILE_SIZE) {
+      throw new Error(`File too large: ${file.size} bytes (max ${this.MAX_FILE_SIZE})`)
+    }
+
+    const buffer = await file.arrayBuffer()
+    const signature = new TextDecoder().decode(new Uint8Array(buffer, 0, Math.min(16, buffer.byteLength)))
+
+    let contents: ArchiveContents
+    if (signature.startsWith('PMTiles')) {
+      contents = await this.readPmtilesContents(buffer)
+    } else if (signature === 'SQLite format 3\0') {
+      contents = this.readMbtilesContents(openSqlite(buffer))
+    } else {
+      throw new Error('Unsupported file: not an MBTiles or PMTiles archive')
+    }
+
+    return this.validate(contents, file.name.replace(/\.(mbtiles|pmtiles)$/i, ''))
+  }
+
+  /**
+   * Whether the archive's tiles can be imported for a map layer
+   */
+  supportsLayer(archive: TileArchive, baseLayer: BaseLayerType): boolean {
+    return (!archive.baseLayer || archive.baseLayer === baseLayer) && LAYER_FORMATS[baseLayer].includes(archive.imageFormat)
+  }
+
+  /**
+   * Store the tiles of an archive as a new offline area
+   *
+   * @param options.name - Area name
+   * @param options.baseLayer - Layer the tiles belong to; must match the archive's own
+   * @throws Error if the layer doesn't fit the archive, or no tiles could be imported
+   */
+  async importArchive(
+    archive: TileArchive,
+    options: { name: string; baseLayer: BaseLayerType },
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<ArchiveImportResult> {
+    const { baseLayer } = options
+    if (!this.supportsLayer(archive, baseLayer)) {
+      throw new Error(`Archive of ${archive.imageFormat} tiles can't be imported for the ${baseLayer} layer`)
+    }
+
+    const area: DownloadArea = {
+      id: `area-${Date.now()}`,
+      name: options.name,
+      bounds: archive.bounds,
+      zoomLevels: archive.zoomLevels,
+      baseLayer
+    }
+
+    let importedTiles = 0
+    let skippedTiles = 0
+    let batch: Array<{ key: string; data: ArrayBuffer }> = []
+
+    const saveBatch = async () => {
+      await dbService.saveTiles(batch, area.id)
+      importedTiles += batch.length
+      batch = []
+      onProgress?.(importedTiles + skippedTiles, archive.tileCount)
+    }
+
+    try {
+      for (const tile of archive.tiles()) {
+        const key = getTileKey(baseLayer, tile.z, tile.x, tile.y)
+        const format = detectImageFormat(tile.data)
+        if (!coversTile(area, key) || !format || !LAYER_FORMATS[baseLayer].includes(format)) {
+          skippedTiles++
+          continue
+        }
+
+        batch.push({ key, data: tile.data.slice().buffer })
+        if (batch.length >= this.IMPORT_BATCH_SIZE) await saveBatch()
+      }
+      if (batch.length > 0) await saveBatch()
+
+      if (importedTiles === 0) {
+        throw new Error('Archive has no tiles inside its bounds and zoom levels')
+      }
+    } catch (error) {
+      // Give back the tiles stored so far
+      await offlineMapService.deleteArea(area.id)
+      throw error
+    }
+
+    await offlineMapService.completeArea(area, importedTiles)
+    devLog(`Imported ${archive.format} archive as ${area.name}: ${importedTiles} tiles, ${skippedTiles} skipped`)
+    return { area: { ...area, tileCount: importedTiles }, importedTiles, skippedTiles }
+  }
+
+  /**
+   * Export the stored tiles of an offline area as an archive file
+   *
+   * @throws Error if no tiles are stored for the area
+   */
+  async exportArea(area: DownloadArea, format: TileArchiveFormat): Promise<Blob> {
+    const first = await dbService.getAreaTiles(area.id, undefined, 1)
+    if (first.length === 0) {
+      throw new Error(`No stored tiles for area ${area.id}`)
+    }
+
+    const { west, south, east, north } = area.bounds
+    const imageFormat = EXPORT_FORMATS[area.baseLayer]
+    const metadata: Record<string, string> = {
+      name: area.name,
+      description: 'Offline map area from Tråkke',
+      attribution: ATTRIBUTIONS[area.baseLayer],
+      type: 'baselayer',
+      version: '1.3',
+      format: imageFormat,
+      bounds: [west, south, east, north].join(','),
+      center: [(west + east) / 2, (south + north) / 2, area.zoomLevels.min].join(','),
+      minzoom: String(area.zoomLevels.min),
+      maxzoom: String(area.zoomLevels.max),
+      [LAYER_KEY]: area.baseLayer
+    }
+
+    devLog(`Exporting ${area.name} as ${format}`)
+
+    // Tiles are read from the database while the file is written, a batch at a time
+    const tiles = this.readAreaTiles(area.id)
+    if (format === 'pmtiles') {
+      return createPmtiles(tiles, { tileType: PMTILES_TYPES[imageFormat], bounds: area.bounds, metadata })
+    }
+
+    // MBTiles rows count from the south (TMS), tile keys from the north
+    return createSqlite([
+      {
+        name: 'metadata',
+        sql: 'CREATE TABLE metadata (name text, value text)',
+        rows: Object.entries(metadata)
+      },
+      {
+        name: 'tiles',
+        sql: 'CREATE TABLE tiles (zoom_level integer, tile_column integer, tile_row integer, tile_data blob)',
+        rows: (async function* () {
+          for await (const tile of tiles) yield [tile.z, tile.x, 2 ** tile.z - 1 - tile.y, tile.data]
+        })(),
+        indexes: [{
+          name: 'tile_index',
+          sql: 'CREATE UNIQUE INDEX tile_index ON tiles (zoom_level, tile_column, tile_row)',
+          columns: [0, 1, 2]
+        }]
+      }
+    ], MBTILES_APPLICATION_ID)
+  }
+
+  private async *readAreaTiles(areaId: string): AsyncGenerator<ArchiveTile> {
+    let after: string | undefined
+    let count: number
+    do {
+      const stored = await dbService.getAreaTiles(areaId, after, this.EXPORT_BATCH_SIZE)
+      for (const tile of stored) {
+        const parsed = parseTileKey(tile.key)
+        if (parsed) yield { z: parsed.z, x: parsed.x, y: parsed.y, data: new Uint8Array(tile.data) }
+      }
+      count = stored.length
+      after = stored[count - 1]?.key
+    } while (count === this.EXPORT_BATCH_SIZE)
+  }
+
+  private async readPmtilesContents(buffer: ArrayBuffer): Promise<ArchiveContents> {
+    const archive = await readPmtiles(buffer)
+    const { metadata } = archive
+    const hasBounds = Object.values(archive.bounds).some(value => value !== 0)
+
+    return {
+      format: 'pmtiles',
+      name: typeof metadata.name === 'string' ? metadata.name : undefined,
+      layer: typeof metadata[LAYER_KEY] === 'string' ? metadata[LAYER_KEY] as string : undefined,
+      imageFormat: archive.tileType === 'jpeg' ? 'jpg' : archive.tileType === 'unknown' ? undefined : archive.tileType,
+      minZoom: archive.minZoom,
+      maxZoom: archive.maxZoom,
+      bounds: hasBounds ? archive.bounds : undefined,
+      tiles: () => archive.tiles()
+    }
+  }
+
+  private readMbtilesContents(db: SqliteDatabase): ArchiveContents {
+    const metadata = new Map<string, string>()
+    if (db.tables.has('metadata')) {
+      const table = db.tables.get('metadata')!
+      const nameColumn = column(table, 'name')
+      const valueColumn = column(table, 'value')
+      for (const row of db.readRows('metadata')) {
+        const name = row[nameColumn]
+        const value = row[valueColumn]
+        if (typeof name === 'string' && value !== null && !(value instanceof Uint8Array)) {
+          metadata.set(name.toLowerCase(), String(value))
+        }
+      }
+    }
+
+    // MBTiles rows count from the south (TMS)
+    const fromRow = (z: SqliteValue, x: SqliteValue, row: SqliteValue, data: SqliteValue): ArchiveTile | null => {
+      if (typeof z !== 'number' || typeof x !== 'number' || typeof row !== 'number' || !(data instanceof Uint8Array)) {
+        return null
+      }
+      return { z, x, y: 2 ** z - 1 - row, data }
+    }
+
+    let tiles: () => Iterable<ArchiveTile>
+    if (db.tables.has('tiles')) {
+      const table = db.tables.get('tiles')!
+      const columns = ['zoom_level', 'tile_column', 'tile_row', 'tile_data'].map(name => column(table, name))
+      tiles = function* () {
+        for (const row of db.readRows('tiles')) {
+          const tile = fromRow(...(columns.map(i => row[i]) as [SqliteValue, SqliteValue, SqliteValue, SqliteValue]))
+          if (tile) yield tile
+        }
+      }
+    } else if (db.tables.has('map') && db.tables.has('images')) {
+      // Deduplicated layout: "tiles" is a view joining map and images on tile_id
+      const map = db.tables.get('map')!
+      const images = db.tables.get('images')!
+      const mapColumns = ['zoom_level', 'tile_column', 'tile_row', 'tile_id'].map(name => column(map, name))
+      const imageColumns = ['tile_id', 'tile_data'].map(name => column(images, name))
+      tiles = function* () {
+        const data = new Map<SqliteValue, SqliteValue>()
+        for (const row of db.readRows('images')) data.set(row[imageColumns[0]], row[imageColumns[1]])
+        for (const row of db.readRows('map')) {
+          const [z, x, y, id] = mapColumns.map(i => row[i])
+          const tile = fromRow(z, x, y, data.get(id) ?? null)
+          if (tile) yield tile
+        }
+      }
+    } else {
+      throw new Error('Unsupported MBTiles layout: no tiles table')
+    }
+
+    const bounds = metadata.get('bounds')?.split(',').map(Number)
+    return {
+      format: 'mbtiles',
+      name: metadata.get('name'),
+      layer: metadata.get(LAYER_KEY),
+      imageFormat: metadata.get('format'),
+      minZoom: parseZoom(metadata.get('minzoom')),
+      maxZoom: parseZoom(metadata.get('maxzoom')),
+      bounds: bounds ? { west: bounds[0], south: bounds[1], east: bounds[2], north: bounds[3] } : undefined,
+      tiles
+    }
+  }
+
+  /**
+   * Check the metadata against the tiles, filling in what's missing from the tiles themselves
+   */
+  private validate(contents: ArchiveContents, fileName: string): TileArchive {
+    let baseLayer: BaseLayerType | undefined
+    if (contents.layer !== undefined) {
+      if (!isBaseLayer(contents.layer)) {
+        throw new Error(`Unknown map layer in archive metadata: ${contents.layer}`)
+      }
+      baseLayer = contents.layer
+    }
+
+    let imageFormat: ImageFormat | null = null
+    if (contents.imageFormat !== undefined) {
+      imageFormat = normalizeImageFormat(contents.imageFormat)
+      if (!imageFormat) {
+        throw new Error(`Unsupported tile format: ${contents.imageFormat} (raster PNG, JPEG or WebP tiles only)`)
+      }
+    }
+
+    // One pass over the tiles for what the metadata may leave out
+    let tileCount = 0
+    let minZoom = Infinity
+    let maxZoom = -Infinity
+    const extent = { west: 180, south: 90, east: -180, north: -90 }
+    for (const tile of contents.tiles()) {
+      tileCount++
+      minZoom = Math.min(minZoom, tile.z)
+      maxZoom = Math.max(maxZoom, tile.z)
+      imageFormat ??= detectImageFormat(tile.data)
+      if (tile.z < MAP_CONFIG.MIN_ZOOM || tile.z > MAP_CONFIG.MAX_ZOOM) continue
+      extent.west = Math.min(extent.west, tileXToLon(tile.x, tile.z))
+      extent.east = Math.max(extent.east, tileXToLon(tile.x + 1, tile.z))
+      extent.north = Math.max(extent.north, tileYToLat(tile.y, tile.z))
+      extent.south = Math.min(extent.south, tileYToLat(tile.y + 1, tile.z))
+    }
+
+    if (tileCount === 0) {
+      throw new Error('Archive contains no tiles')
+    }
+    if (!imageFormat) {
+      throw new Error('Unsupported tile format: tiles are not PNG, JPEG or WebP images')
+    }
+    if (baseLayer && !LAYER_FORMATS[baseLayer].includes(imageFormat)) {
+      throw new Error(`${imageFormat} tiles can't be used for the ${baseLayer} layer`)
+    }
+
+    const declaredMin = contents.minZoom ?? minZoom
+    const declaredMax = contents.maxZoom ?? maxZoom
+    if (declaredMin > declaredMax) {
+      throw new Error(`Invalid zoom levels in archive metadata: ${declaredMin}-${declaredMax}`)
+    }
+    const zoomLevels = {
+      min: Math.max(declaredMin, minZoom, MAP_CONFIG.MIN_ZOOM),
+      max: Math.min(declaredMax, maxZoom, MAP_CONFIG.MAX_ZOOM)
+    }
+    if (zoomLevels.min > zoomLevels.max) {
+      throw new Error(
+        `Archive has no tiles at the zoom levels the map uses (${MAP_CONFIG.MIN_ZOOM}-${MAP_CONFIG.MAX_ZOOM})`
+      )
+    }
+
+    return {
+      format: contents.format,
+      name: sanitizeImportedName(contents.name, fileName || 'Importert område'),
+      baseLayer,
+      imageFormat,
+      bounds: validateBounds(contents.bounds ?? extent),
+      zoomLevels,
+      tileCount,
+      tiles: contents.tiles
+    }
+  }
+}
+
+export const tileArchiveService = new TileArchiveService()
@@ -0,0 +1,380 @@
+// Track recording service for Tråkke PWA
+// Records GPS tracks incrementally to IndexedDB so a killed tab can resume the recording
+
+import { dbService } from './dbService'
+import { routeService, type Route } from './routeService'
+import { calculateHaversineDistance } from '../utils/haversine'
+import { devLog } from '../constants'
+
+const RECORDINGS_STORE = 'trackRecordings'
+const POINTS_STORE = 'trackPoints'
+
+export interface TrackPoint {
+  coordinates: [number, number] // [lon, lat]
+  timestamp: number
+  accuracy?: number // meters
+  altitude?: number | null // meters (GPS altitude, often missing or noisy)
+  speed?: number | null // m/s
+  heading?: number | null // degrees clockwise from north, only while moving
+}
+
+interface StoredTrackPoint extends TrackPoint {
+  seq?: number // Auto-increment key, preserves insertion order
+  recordingId: string
+  segment: number
+}
+
+export type RecordingStatus = 'recording' | 'paused'
+
+export interface TrackRecording {
+  id: string
+  status: RecordingStatus
+  startedAt: number
+  updatedAt: number
+  pausedAt?: number // Set while paused
+  pausedDuration: number // Total milliseconds spent paused
+  segment: number // Incremented on every resume, distance is not counted across segments
+  distance: number // meters
+  pointCount: number
+  lastPoint?: TrackPoint
+  lastSegment?: number // Segment of lastPoint
+}
+
+export type FixResult =
+  | { accepted: true; point: TrackPoint; recording: TrackRecording }
+  | { accepted: false; reason: 'paused' | 'inaccurate' | 'too-close' | 'implausible' }
+
+class TrackRecordingService {
+  // Fix filtering thresholds
+  private readonly MAX_ACCURACY_METERS = 30  // Discard fixes worse than this
+  private readonly MIN_DISTANCE_METERS = 5  // Skip jitter while standing still
+  private readonly MAX_SPEED_MPS = 50  // Anything faster is a GPS jump, not hiking
+
+  // ID generation constants (matches routeService)
+  private readonly ID_RANDOM_STRING_START = 2
+  private readonly ID_RANDOM_STRING_END = 11
+  private readonly ID_RADIX = 36
+
+  private async getDB(): Promise<IDBDatabase> {
+    return await dbService.init()
+  }
+
+  /**
+   * Start a new recording. Only one recording can be active at a time.
+   */
+  async startRecording(): Promise<TrackRecording> {
+    const existing = await this.getActiveRecording()
+    if (existing) {
+      throw new Error('A recording is already in progress')
+    }
+
+    const now = Date.now()
+    const recording: TrackRecording = {
+      id: `rec-${now}-${Math.random().toString(this.ID_RADIX).substring(this.ID_RANDOM_STRING_START, this.ID_RANDOM_STRING_END)}`,
+      status: 'recording',
+      startedAt: now,
+      updatedAt: now,
+      pausedDuration: 0,
+      segment: 0,
+      distance: 0,
+      pointCount: 0
+    }
+
+    await this.putRecording(recording)
+    devLog('Track recording started:', recording.id)
+    return recording
+  }
+
+  /**
+   * Get the unfinished recording, if any (survives reloads and crashes)
+   */
+  async getActiveRecording(): Promise<TrackRecording | null> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE], 'readonly')
+      const store = transaction.objectStore(RECORDINGS_STORE)
+      const index = store.index('startedAt')
+
+      const request = index.openCursor(null, 'prev')
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest).result
+        resolve(cursor ? cursor.value : null)
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to get active recording: ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  /**
+   * Restore a recording after the app was closed or killed.
+   * A recording that was running is switched to paused, with the pause starting at
+   * the last stored fix, so the time the app was gone is not counted as moving time.
+   */
+  async recoverRecording(): Promise<TrackRecording | null> {
+    const recording = await this.getActiveRecording()
+    if (!recording || recording.status === 'paused') {
+      return recording
+    }
+
+    const recovered: TrackRecording = {
+      ...recording,
+      status: 'paused',
+      pausedAt: recording.updatedAt
+    }
+
+    await this.putRecording(recovered)
+    devLog('Track recording recovered as paused:', recording.id)
+    return recovered
+  }
+
+  /**
+   * Get all stored points for a recording, in recording order
+   */
+  async getPoints(recordingId: string): Promise<TrackPoint[]> {
+    const stored = await this.getStoredPoints(recordingId)
+    return stored.map(({ coordinates, timestamp, accuracy, altitude, speed }) => ({
+      coordinates,
+      timestamp,
+      accuracy,
+      altitude,
+      speed
+    }))
+  }
+
+  /**
+   * Filter a GPS fix and append it to the recording if it is usable.
+   * The point and the updated recording are written in one transaction.
+   */
+  async addFix(recordingId: string, position: GeolocationPosition): Promise<FixResult> {
+    const recording = await this.getRecording(recordingId)
+    if (!recording) {
+      throw new Error(`Recording not found (ID: ${recordingId})`)
+    }
+
+    if (recording.status !== 'recording') {
+      return { accepted: false, reason: 'paused' }
+    }
+
+    const { coords, timestamp } = position
+    if (coords.accuracy > this.MAX_ACCURACY_METERS) {
+      return { accepted: false, reason: 'inaccurate' }
+    }
+
+    const point: TrackPoint = {
+      coordinates: [coords.longitude, coords.latitude],
+      timestamp,
+      accuracy: coords.accuracy,
+      altitude: coords.altitude,
+      speed: coords.speed
+    }
+
+    let addedDistance = 0
+    const last = recording.lastPoint
+    if (last && recording.lastSegment === recording.segment) {
+      addedDistance = calculateHaversineDistance(last.coordinates, point.coordinates)
+
+      if (addedDistance < this.MIN_DISTANCE_METERS) {
+        return { accepted: false, reason: 'too-close' }
+      }
+
+      const seconds = (point.timestamp - last.timestamp) / 1000
+      if (seconds > 0 && addedDistance / seconds > this.MAX_SPEED_MPS) {
+        return { accepted: false, reason: 'implausible' }
+      }
+    }
+
+    const updated: TrackRecording = {
+      ...recording,
+      distance: recording.distance + addedDistance,
+      pointCount: recording.pointCount + 1,
+      lastPoint: point,
+      lastSegment: recording.segment,
+      updatedAt: Date.now()
+    }
+
+    const stored: StoredTrackPoint = { ...point, recordingId, segment: recording.segment }
+    const db = await this.getDB()
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE, POINTS_STORE], 'readwrite')
+      transaction.objectStore(POINTS_STORE).add(stored)
+      transaction.objectStore(RECORDINGS_STORE).put(updated)
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => {
+        reject(new Error(`Failed to store track point (ID: ${recordingId}): ${transaction.error?.message || 'Unknown error'}`))
+      }
+    })
+
+    return { accepted: true, point, recording: updated }
+  }
+
+  async pauseRecording(recordingId: string): Promise<TrackRecording> {
+    const recording = await this.getRecording(recordingId)
+    if (!recording) {
+      throw new Error(`Recording not found (ID: ${recordingId})`)
+    }
+    if (recording.status === 'paused') {
+      return recording
+    }
+
+    const now = Date.now()
+    const updated: TrackRecording = { ...recording, status: 'paused', pausedAt: now, updatedAt: now }
+    await this.putRecording(updated)
+    devLog('Track recording paused:', recordingId)
+    return updated
+  }
+
+  async resumeRecording(recordingId: string): Promise<TrackRecording> {
+    const recording = await this.getRecording(recordingId)
+    if (!recording) {
+      throw new Error(`Recording not found (ID: ${recordingId})`)
+    }
+    if (recording.status === 'recording') {
+      return recording
+    }
+
+    const now = Date.now()
+    const updated: TrackRecording = {
+      ...recording,
+      status: 'recording',
+      pausedAt: undefined,
+      pausedDuration: recording.pausedDuration + (now - (recording.pausedAt ?? now)),
+      segment: recording.segment + 1,
+      updatedAt: now
+    }
+    await this.putRecording(updated)
+    devLog('Track recording resumed:', recordingId)
+    return updated
+  }
+
+  /**
+   * Moving time in milliseconds (wall time minus pauses)
+   */
+  getMovingTime(recording: TrackRecording, now: number = Date.now()): number {
+    const end = recording.status === 'paused' ? (recording.pausedAt ?? now) : now
+    return Math.max(0, end - recording.startedAt - recording.pausedDuration)
+  }
+
+  /**
+   * Finish the recording and save it as a completed route.
+   * Returns null (and discards the recording) if fewer than two points were recorded.
+   */
+  async stopRecording(recordingId: string, name: string): Promise<Route | null> {
+    const recording = await this.getRecording(recordingId)
+    if (!recording) {
+      throw new Error(`Recording not found (ID: ${recordingId})`)
+    }
+
+    const points = await this.getPoints(recordingId)
+    if (points.length < 2) {
+      await this.discardRecording(recordingId)
+      return null
+    }
+
+    const now = Date.now()
+    const hasAltitude = points.some(p => typeof p.altitude === 'number')
+
+    const route = await routeService.createRoute({
+      name,
+      coordinates: points.map(p => p.coordinates),
+      elevations: hasAltitude ? points.map(p => (typeof p.altitude === 'number' ? p.altitude : null)) : undefined,
+      timestamps: points.map(p => p.timestamp),
+      waypoints: [],
+      distance: recording.distance,
+      duration: Math.round(this.getMovingTime(recording, now) / 60000),
+      completedAt: now
+    })
+
+    await this.discardRecording(recordingId)
+    devLog('Track recording saved as route:', route.id)
+    return route
+  }
+
+  /**
+   * Delete a recording and all its points
+   */
+  async discardRecording(recordingId: string): Promise<void> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE, POINTS_STORE], 'readwrite')
+      transaction.objectStore(RECORDINGS_STORE).delete(recordingId)
+
+      const index = transaction.objectStore(POINTS_STORE).index('recordingId')
+      const request = index.openCursor(IDBKeyRange.only(recordingId))
+
+      request.onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result
+        if (cursor) {
+          cursor.delete()
+          cursor.continue()
+        }
+      }
+
+      transaction.oncomplete = () => {
+        devLog('Track recording discarded:', recordingId)
+        resolve()
+      }
+      transaction.onerror = () => {
+        reject(new Error(`Failed to discard recording (ID: ${recordingId}): ${transaction.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  private async getRecording(id: string): Promise<TrackRecording | null> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE], 'readonly')
+      const request = transaction.objectStore(RECORDINGS_STORE).get(id)
+
+      request.onsuccess = () => {
+        resolve(request.result || null)
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to get recording (ID: ${id}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  private async putRecording(recording: TrackRecording): Promise<void> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([RECORDINGS_STORE], 'readwrite')
+      const request = transaction.objectStore(RECORDINGS_STORE).put(recording)
+
+      request.onsuccess = () => resolve()
+      request.onerror = () => {
+        reject(new Error(`Failed to save recording (ID: ${recording.id}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  private async getStoredPoints(recordingId: string): Promise<StoredTrackPoint[]> {
+    const db = await this.getDB()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([POINTS_STORE], 'readonly')
+      const index = transaction.objectStore(POINTS_STORE).index('recordingId')
+      const request = index.getAll(IDBKeyRange.only(recordingId))
+
+      request.onsuccess = () => {
+        // Index order within equal keys follows the primary key, i.e. insertion order
+        resolve(request.result as StoredTrackPoint[])
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to get track points (ID: ${recordingId}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+}
+
+export const trackRecordingService = new TrackRecordingService()
@@ -0,0 +1,158 @@
+// Trail grading for Tråkke PWA
+// Classifies routes on DNT's four-level scale (grønn, blå, rød, svart) from length,
+// total climb, the steepest sustained gradient and how much of the route follows trails.
+// Thresholds follow DNT's guidelines for marked routes; the grade is the highest level
+// any single criterion reaches.
+
+import type { Route, TrailGrade } from './routeService'
+import type { ElevationProfile } from './elevationService'
+import { calculateHaversineDistance } from '../utils/haversine'
+
+export const GRADE_LABELS: Record<TrailGrade, string> = {
+  green: 'Grønn – enkel',
+  blue: 'Blå – middels',
+  red: 'Rød – krevende',
+  black: 'Svart – ekspert'
+}
+
+export const GRADE_COLORS: Record<TrailGrade, string> = {
+  green: '#2e8b3d',
+  blue: '#1e6ce0',
+  red: '#d0443e',
+  black: '#1a1a1a'
+}
+
+const GRADES: TrailGrade[] = ['green', 'blue', 'red', 'black']
+
+// Grades used before the DNT scale
+const LEGACY_GRADES: Record<string, TrailGrade> = {
+  easy: 'green',
+  moderate: 'blue',
+  hard: 'red'
+}
+
+export interface GradeResult {
+  grade: TrailGrade
+  reasons: string[] // Short Norwegian explanations of what decided the grade
+}
+
+interface GradeInput {
+  trailCoverage?: number | null // Share of the route on mapped trails (0–1), null if unknown
+}
+
+const formatKm = (meters: number) => `${(meters / 1000).toFixed(1).replace('.', ',')} km`
+
+class TrailGradingService {
+  // Upper limits for green, blue and red; anything above the red limit is black
+  private readonly LENGTH_LIMITS = [5000, 10000, 20000] // meters
+  private readonly CLIMB_LIMITS = [300, 600, 1000] // meters
+  private readonly GRADIENT_LIMITS = [0.1, 0.2, 0.3] // rise / run
+
+  private readonly SUSTAINED_GRADIENT_DISTANCE = 200 // meters, shorter steep bits are ignored
+  private readonly TRAIL_COVERAGE_GREEN = 0.8 // Mostly on trails
+  private readonly TRAIL_COVERAGE_BLUE = 0.5 // Below this, much of the route is off-trail
+
+  /**
+   * Map stored values from before the DNT scale (easy/moderate/hard) to DNT grades
+   */
+  normalizeGrade(value: unknown): TrailGrade | undefined {
+    if (typeof value !== 'string') return undefined
+    if ((GRADES as string[]).includes(value)) return value as TrailGrade
+    return LEGACY_GRADES[value]
+  }
+
+  private levelFor(value: number, limits: number[]): number {
+    const index = limits.findIndex(limit => value <= limit)
+    return index === -1 ? limits.length : index
+  }
+
+  /**
+   * Steepest gradient held over at least SUSTAINED_GRADIENT_DISTANCE, up or down
+   */
+  getMaxSustainedGradient(profile: ElevationProfile | null): number | null {
+    if (!profile || profile.points.length < 2) return null
+
+    const cumulative = [0]
+    for (let i = 1; i < profile.points.length; i++) {
+      const a = profile.points[i - 1]
+      const b = profile.points[i]
+      cumulative.push(cumulative[i - 1] + calculateHaversineDistance([a.x, a.y], [b.x, b.y]))
+    }
+
+    const total = cumulative[cumulative.length - 1]
+    if (total <= 0) return null
+    if (total < this.SUSTAINED_GRADIENT_DISTANCE) {
+      return Math.abs(profile.points[profile.points.length - 1].z - profile.points[0].z) / total
+    }
+
+    let max = 0
+    let j = 0
+    for (let i = 0; i < profile.points.length; i++) {
+      while (j < profile.points.length - 1 && cumulative[j] - cumulative[i] < this.SUSTAINED_GRADIENT_DISTANCE) j++
+      const run = cumulative[j] - cumulative[i]
+      if (run < this.SUSTAINED_GRADIENT_DISTANCE) break
+      max = Math.max(max, Math.abs(profile.points[j].z - profile.points[i].z) / run)
+    }
+    return max
+  }
+
+  /**
+   * Grade a route. Criteria without data (no elevation profile, unknown terrain) are skipped.
+   */
+  classify(route: Route, profile: ElevationProfile | null, input: GradeInput = {}): GradeResult {
+    const criteria: Array<{ level: number; reason: string }> = []
+
+    const distance = route.distance ?? 0
+    const lengthLevel = this.levelFor(distance, this.LENGTH_LIMITS)
+    criteria.push({
+      level: lengthLevel,
+      reason: lengthLevel === 0
+        ? `Kort tur (${formatKm(distance)})`
+        : `${formatKm(distance)} lang (over ${formatKm(this.LENGTH_LIMITS[lengthLevel - 1])})`
+    })
+
+    const climb = profile ? profile.statistics.totalGain : route.elevationGain
+    if (climb !== undefined) {
+      const climbLevel = this.levelFor(climb, this.CLIMB_LIMITS)
+      criteria.push({
+        level: climbLevel,
+        reason: climbLevel === 0
+          ? `Lite stigning (${Math.round(climb)} m)`
+          : `${Math.round(climb)} m stigning (over ${this.CLIMB_LIMITS[climbLevel - 1]} m)`
+      })
+    }
+
+    const gradient = this.getMaxSustainedGradient(profile)
+    if (gradient !== null) {
+      const gradientLevel = this.levelFor(gradient, this.GRADIENT_LIMITS)
+      const percent = Math.round(gradient * 100)
+      criteria.push({
+        level: gradientLevel,
+        reason: gradientLevel === 0
+          ? `Ingen bratte partier (maks ${percent} %)`
+          : `Bratteste parti ${percent} % over ${this.SUSTAINED_GRADIENT_DISTANCE} m`
+      })
+    }
+
+    const coverage = input.trailCoverage
+    if (coverage !== null && coverage !== undefined) {
+      const offTrailPercent = Math.round((1 - coverage) * 100)
+      if (coverage >= this.TRAIL_COVERAGE_GREEN) {
+        criteria.push({ level: 0, reason: 'Følger stort sett sti eller vei' })
+      } else if (coverage >= this.TRAIL_COVERAGE_BLUE) {
+        criteria.push({ level: 1, reason: `${offTrailPercent} % i terreng uten sti` })
+      } else {
+        criteria.push({ level: 2, reason: `Mest terreng uten sti (${offTrailPercent} %)` })
+      }
+    }
+
+    const level = Math.max(...criteria.map(criterion => criterion.level))
+    return {
+      grade: GRADES[level],
+      // Only the criteria that set the grade explain it
+      reasons: criteria.filter(criterion => criterion.level === level).map(criterion => criterion.reason)
+    }
+  }
+}
+
+export const trailGradingService = new TrailGradingService()
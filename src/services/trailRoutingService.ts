@@ -0,0 +1,565 @@
+// Trail routing service for Tråkke PWA
+// Snaps drawn route segments to OSM paths, footways and tracks.
+// Trail data is fetched per grid cell from Overpass and cached in IndexedDB,
+// so routing works offline in areas that were downloaded or planned before.
+
+import { dbService } from './dbService'
+import { poiService } from './poiService'
+import { calculateHaversineDistance } from '../utils/haversine'
+import { devLog, devError } from '../constants'
+
+const CELLS_STORE = 'trailCells'
+
+interface BoundsRect {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+/**
+ * Trail data for one grid cell, stored compactly:
+ * nodes as [osmId, lon, lat] and ways as [osmId, nodeIds]
+ */
+interface TrailCell {
+  key: string // "row:col"
+  fetchedAt: number
+  nodes: Array<[number, number, number]>
+  ways: Array<[number, number[]]>
+}
+
+interface TrailGraph {
+  nodes: Map<number, [number, number]> // osmId -> [lon, lat]
+  edges: Map<number, Array<{ to: number; weight: number }>> // weight in meters
+}
+
+export interface SnapResult {
+  coordinates: Array<[number, number]> // Points to append after `from`, ending at the destination
+  snapped: boolean // false when falling back to a straight line
+}
+
+// Binary min-heap on priority, used by the shortest path search
+class MinHeap {
+  private items: Array<{ id: number; priority: number }> = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  push(id: number, priority: number): void {
+    const items = this.items
+    items.push({ id, priority })
+    let i = items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (items[parent].priority <= items[i].priority) break
+      ;[items[parent], items[i]] = [items[i], items[parent]]
+      i = parent
+    }
+  }
+
+  pop(): { id: number; priority: number } | undefined {
+    const items = this.items
+    const top = items[0]
+    const last = items.pop()
+    if (items.length > 0 && last) {
+      items[0] = last
+      let i = 0
+      for (;;) {
+        const left = i * 2 + 1
+        const right = left + 1
+        let smallest = i
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right
+        if (smallest === i) break
+        ;[items[smallest], items[i]] = [items[i], items[smallest]]
+        i = smallest
+      }
+    }
+    return top
+  }
+}
+
+class TrailRoutingService {
+  // Grid cells are roughly 5.5 km × 5 km in southern Norway
+  private readonly CELL_LAT_SIZE = 0.05
+  private readonly CELL_LON_SIZE = 0.1
+  private readonly CELL_TTL = 30 * 24 * 60 * 60 * 1000 // 30 days, trails change slowly
+
+  private readonly SEARCH_MARGIN_DEG = 0.01 // Room for detours around the straight line (~1 km)
+  private readonly MAX_CELLS_PER_SEGMENT = 16
+  private readonly MAX_SEGMENT_METERS = 15000 // Longer segments are drawn as straight lines
+  private readonly SNAP_RADIUS_METERS = 100 // Clicks further from a trail are not snapped
+  private readonly MAX_PREFETCH_CELLS = 50 // Keeps area downloads from flooding Overpass (~1400 km²)
+  private readonly MAX_MEMORY_CELLS = 32
+
+  // Trail coverage (used for terrain grading)
+  private readonly TRAIL_PROXIMITY_METERS = 25
+  private readonly COVERAGE_SAMPLE_METERS = 50
+  private readonly MAX_COVERAGE_SAMPLES = 1000
+  private readonly BUCKET_LAT_SIZE = 0.002 // ~220 m
+  private readonly BUCKET_LON_SIZE = 0.004 // ~220 m at 60°N
+
+  private cells: Map<string, TrailCell> = new Map()
+  private loading: Map<string, Promise<TrailCell | null>> = new Map()
+  private graphCache: { key: string; graph: TrailGraph } | null = null
+
+  private getCellIndex(lon: number, lat: number): [number, number] {
+    return [Math.floor(lat / this.CELL_LAT_SIZE), Math.floor(lon / this.CELL_LON_SIZE)]
+  }
+
+  private getCellKeys(bounds: BoundsRect): string[] {
+    const [minRow, minCol] = this.getCellIndex(bounds.west, bounds.south)
+    const [maxRow, maxCol] = this.getCellIndex(bounds.east, bounds.north)
+    const keys: string[] = []
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        keys.push(`${row}:${col}`)
+      }
+    }
+    return keys
+  }
+
+  // Keep recently used cells in memory, oldest evicted first
+  private rememberCell(cell: TrailCell): void {
+    this.cells.delete(cell.key)
+    this.cells.set(cell.key, cell)
+    while (this.cells.size > this.MAX_MEMORY_CELLS) {
+      const oldest = this.cells.keys().next().value as string
+      this.cells.delete(oldest)
+    }
+  }
+
+  private isStale(cell: TrailCell): boolean {
+    return Date.now() - cell.fetchedAt > this.CELL_TTL
+  }
+
+  private async readCell(key: string): Promise<TrailCell | null> {
+    const db = await dbService.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CELLS_STORE], 'readonly')
+      const store = transaction.objectStore(CELLS_STORE)
+      const request = store.get(key)
+
+      request.onsuccess = () => {
+        resolve(request.result || null)
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to get trail cell (key: ${key}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  private async writeCell(cell: TrailCell): Promise<void> {
+    const db = await dbService.init()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CELLS_STORE], 'readwrite')
+      const store = transaction.objectStore(CELLS_STORE)
+      const request = store.put(cell)
+
+      request.onsuccess = () => {
+        resolve()
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to save trail cell (key: ${cell.key}): ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  /**
+   * Fetch paths, footways and tracks in one cell from Overpass.
+   * Privacy: German-based EU service, no tracking, public OSM data only
+   * External API: See PRIVACY_BY_DESIGN.md#external-api-registry
+   */
+  private async fetchCell(key: string): Promise<TrailCell> {
+    const [row, col] = key.split(':').map(Number)
+    const south = row * this.CELL_LAT_SIZE
+    const west = col * this.CELL_LON_SIZE
+    const north = south + this.CELL_LAT_SIZE
+    const east = west + this.CELL_LON_SIZE
+
+    const query = `[out:json][timeout:25];way["highway"~"^(path|footway|track)$"](${south},${west},${north},${east});(._;>;);out skel qt;`
+    const data = await poiService.queryOverpass(query)
+
+    const nodes: TrailCell['nodes'] = []
+    const ways: TrailCell['ways'] = []
+    for (const element of data.elements || []) {
+      if (element.type === 'node' && element.lat !== undefined && element.lon !== undefined) {
+        // 6 decimals is ~0.1 m, plenty for snapping
+        nodes.push([element.id, Math.round(element.lon * 1e6) / 1e6, Math.round(element.lat * 1e6) / 1e6])
+      } else if (element.type === 'way' && element.nodes && element.nodes.length >= 2) {
+        ways.push([element.id, element.nodes])
+      }
+    }
+
+    devLog(`[TrailRouting] Fetched cell ${key}: ${ways.length} ways, ${nodes.length} nodes`)
+    return { key, fetchedAt: Date.now(), nodes, ways }
+  }
+
+  /**
+   * Get a cell from memory, IndexedDB or Overpass (in that order).
+   * A stale cached cell is refreshed when online, and still used if the refresh fails.
+   * Prefetching passes remember = false so large areas are not held in memory.
+   * With cachedOnly, only memory and IndexedDB are used, stale or not.
+   */
+  private async loadCell(key: string, remember: boolean = true, cachedOnly: boolean = false): Promise<TrailCell | null> {
+    const inMemory = this.cells.get(key)
+    if (inMemory && (cachedOnly || !this.isStale(inMemory))) return inMemory
+
+    const pending = this.loading.get(key)
+    if (pending) return pending
+
+    if (cachedOnly) {
+      try {
+        const cached = await this.readCell(key)
+        if (cached && remember) this.rememberCell(cached)
+        return cached
+      } catch (error) {
+        devError('[TrailRouting] Failed to read cached cell:', error)
+        return null
+      }
+    }
+
+    const promise = (async () => {
+      let cached = inMemory ?? null
+      if (!cached) {
+        try {
+          cached = await this.readCell(key)
+        } catch (error) {
+          devError('[TrailRouting] Failed to read cached cell:', error)
+        }
+      }
+
+      if (cached && (!this.isStale(cached) || !navigator.onLine)) {
+        if (remember) this.rememberCell(cached)
+        return cached
+      }
+
+      if (!navigator.onLine) return null
+
+      try {
+        const cell = await this.fetchCell(key)
+        if (remember) this.rememberCell(cell)
+        await this.writeCell(cell).catch(error => devError('[TrailRouting] Failed to cache cell:', error))
+        return cell
+      } catch (error) {
+        devError(`[TrailRouting] Failed to fetch cell ${key}:`, error)
+        if (cached && remember) this.rememberCell(cached)
+        return cached
+      }
+    })().finally(() => {
+      this.loading.delete(key)
+    })
+
+    this.loading.set(key, promise)
+    return promise
+  }
+
+  private buildGraph(cells: TrailCell[]): TrailGraph {
+    const nodes = new Map<number, [number, number]>()
+    const edges = new Map<number, Array<{ to: number; weight: number }>>()
+    const seenWays = new Set<number>()
+
+    for (const cell of cells) {
+      for (const [id, lon, lat] of cell.nodes) {
+        nodes.set(id, [lon, lat])
+      }
+    }
+
+    const addEdge = (from: number, to: number, weight: number) => {
+      const list = edges.get(from)
+      if (list) {
+        list.push({ to, weight })
+      } else {
+        edges.set(from, [{ to, weight }])
+      }
+    }
+
+    for (const cell of cells) {
+      for (const [wayId, way] of cell.ways) {
+        // Ways crossing a cell border are returned for both cells
+        if (seenWays.has(wayId)) continue
+        seenWays.add(wayId)
+
+        for (let i = 1; i < way.length; i++) {
+          const a = nodes.get(way[i - 1])
+          const b = nodes.get(way[i])
+          if (!a || !b) continue
+          const weight = calculateHaversineDistance(a, b)
+          addEdge(way[i - 1], way[i], weight)
+          addEdge(way[i], way[i - 1], weight)
+        }
+      }
+    }
+
+    return { nodes, edges }
+  }
+
+  private nearestNode(graph: TrailGraph, point: [number, number]): number | null {
+    let nearest: number | null = null
+    let nearestDistance = this.SNAP_RADIUS_METERS
+
+    for (const [id, coord] of graph.nodes) {
+      if (!graph.edges.has(id)) continue
+      // Cheap rejection before the exact distance (0.002° is well over 100 m of latitude)
+      if (Math.abs(coord[1] - point[1]) > 0.002) continue
+      const distance = calculateHaversineDistance(point, coord)
+      if (distance < nearestDistance) {
+        nearest = id
+        nearestDistance = distance
+      }
+    }
+
+    return nearest
+  }
+
+  /**
+   * A* shortest path on the trail graph (straight-line distance as heuristic)
+   */
+  private shortestPath(graph: TrailGraph, start: number, goal: number): number[] | null {
+    const goalCoord = graph.nodes.get(goal)!
+    const distances = new Map<number, number>([[start, 0]])
+    const previous = new Map<number, number>()
+    const visited = new Set<number>()
+    const heap = new MinHeap()
+    heap.push(start, 0)
+
+    while (heap.size > 0) {
+      const { id } = heap.pop()!
+      if (id === goal) break
+      if (visited.has(id)) continue
+      visited.add(id)
+
+      const base = distances.get(id)!
+      for (const { to, weight } of graph.edges.get(id) || []) {
+        if (visited.has(to)) continue
+        const distance = base + weight
+        if (distance < (distances.get(to) ?? Infinity)) {
+          distances.set(to, distance)
+          previous.set(to, id)
+          heap.push(to, distance + calculateHaversineDistance(graph.nodes.get(to)!, goalCoord))
+        }
+      }
+    }
+
+    if (!distances.has(goal)) return null
+
+    const path = [goal]
+    let current = goal
+    while (current !== start) {
+      current = previous.get(current)!
+      path.push(current)
+    }
+    return path.reverse()
+  }
+
+  /**
+   * @param requireComplete - Return null unless every cell in the bounds loaded
+   * @param cachedOnly - Use cached cells only, without going to Overpass
+   */
+  private async getGraph(bounds: BoundsRect, requireComplete = false, cachedOnly = false): Promise<TrailGraph | null> {
+    const keys = this.getCellKeys(bounds)
+    if (keys.length > this.MAX_CELLS_PER_SEGMENT) return null
+
+    const graphKey = keys.join(',')
+    if (this.graphCache?.key === graphKey && keys.every(key => this.cells.has(key) && !this.loading.has(key))) {
+      return this.graphCache.graph
+    }
+
+    const cells = (await Promise.all(keys.map(key => this.loadCell(key, true, cachedOnly))))
+      .filter((cell): cell is TrailCell => cell !== null)
+    if (cells.length === 0 || (requireComplete && cells.length < keys.length)) return null
+
+    const graph = this.buildGraph(cells)
+    // Only cache complete graphs, so missing cells are retried on the next segment
+    if (cells.length === keys.length) {
+      this.graphCache = { key: graphKey, graph }
+    }
+    return graph
+  }
+
+  /**
+   * Route from one drawn point to the next along trails.
+   * Falls back to a straight line when there is no trail near either end,
+   * no connection between them, or no trail data (offline in an area never loaded).
+   */
+  async snapSegment(from: [number, number], to: [number, number]): Promise<SnapResult> {
+    const straight: SnapResult = { coordinates: [to], snapped: false }
+
+    if (calculateHaversineDistance(from, to) > this.MAX_SEGMENT_METERS) {
+      return straight
+    }
+
+    try {
+      const graph = await this.getGraph({
+        north: Math.max(from[1], to[1]) + this.SEARCH_MARGIN_DEG,
+        south: Math.min(from[1], to[1]) - this.SEARCH_MARGIN_DEG,
+        east: Math.max(from[0], to[0]) + this.SEARCH_MARGIN_DEG * 2,
+        west: Math.min(from[0], to[0]) - this.SEARCH_MARGIN_DEG * 2
+      })
+      if (!graph) return straight
+
+      const start = this.nearestNode(graph, from)
+      const goal = this.nearestNode(graph, to)
+      if (start === null || goal === null || start === goal) return straight
+
+      const path = this.shortestPath(graph, start, goal)
+      if (!path) return straight
+
+      const coordinates = path.map(id => graph.nodes.get(id)!)
+      // Connect from the previous point and on to the next one where they are not on the trail itself
+      if (calculateHaversineDistance(from, coordinates[0]) < 1) {
+        coordinates.shift()
+      }
+      if (calculateHaversineDistance(to, coordinates[coordinates.length - 1]) >= 1) {
+        coordinates.push(to)
+      }
+
+      devLog(`[TrailRouting] Snapped segment along ${path.length} trail nodes`)
+      return { coordinates, snapped: true }
+    } catch (error) {
+      devError('[TrailRouting] Failed to snap segment:', error)
+      return straight
+    }
+  }
+
+  /**
+   * Share of a route (0–1) that runs within TRAIL_PROXIMITY_METERS of a mapped path, footway or track.
+   * Returns null when the route is too large or trail data is missing for any part of the area
+   * (e.g. offline in an area that was never loaded), since a partial graph would understate the share.
+   *
+   * @param cachedOnly - Use trail data already cached, without going to Overpass
+   */
+  async getTrailCoverage(coordinates: Array<[number, number]>, cachedOnly = false): Promise<number | null> {
+    if (coordinates.length < 2) return null
+
+    // A loop rather than Math.max(...) spreads, which overflow the stack on long recordings
+    const bounds = coordinates.reduce((box, [lon, lat]) => ({
+      north: Math.max(box.north, lat),
+      south: Math.min(box.south, lat),
+      east: Math.max(box.east, lon),
+      west: Math.min(box.west, lon)
+    }), { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity })
+    const graph = await this.getGraph({
+      north: bounds.north + this.BUCKET_LAT_SIZE,
+      south: bounds.south - this.BUCKET_LAT_SIZE,
+      east: bounds.east + this.BUCKET_LON_SIZE,
+      west: bounds.west - this.BUCKET_LON_SIZE
+    }, true, cachedOnly)
+    if (!graph) return null
+
+    // Trail segments bucketed on a grid coarser than the proximity, so a 3×3 lookup is enough
+    const buckets = new Map<string, Array<[[number, number], [number, number]]>>()
+    for (const [from, list] of graph.edges) {
+      const a = graph.nodes.get(from)!
+      for (const { to } of list) {
+        if (to < from) continue // Each segment is stored in both directions
+        const b = graph.nodes.get(to)!
+        const minRow = Math.floor(Math.min(a[1], b[1]) / this.BUCKET_LAT_SIZE)
+        const maxRow = Math.floor(Math.max(a[1], b[1]) / this.BUCKET_LAT_SIZE)
+        const minCol = Math.floor(Math.min(a[0], b[0]) / this.BUCKET_LON_SIZE)
+        const maxCol = Math.floor(Math.max(a[0], b[0]) / this.BUCKET_LON_SIZE)
+        for (let row = minRow; row <= maxRow; row++) {
+          for (let col = minCol; col <= maxCol; col++) {
+            const key = `${row}:${col}`
+            const bucket = buckets.get(key)
+            if (bucket) {
+              bucket.push([a, b])
+            } else {
+              buckets.set(key, [[a, b]])
+            }
+          }
+        }
+      }
+    }
+
+    const samples = this.sampleLine(coordinates)
+    let onTrail = 0
+    for (const point of samples) {
+      const row = Math.floor(point[1] / this.BUCKET_LAT_SIZE)
+      const col = Math.floor(point[0] / this.BUCKET_LON_SIZE)
+      let found = false
+      for (let dr = -1; dr <= 1 && !found; dr++) {
+        for (let dc = -1; dc <= 1 && !found; dc++) {
+          for (const [a, b] of buckets.get(`${row + dr}:${col + dc}`) || []) {
+            if (this.distanceToSegment(point, a, b) <= this.TRAIL_PROXIMITY_METERS) {
+              found = true
+              break
+            }
+          }
+        }
+      }
+      if (found) onTrail++
+    }
+
+    return samples.length > 0 ? onTrail / samples.length : null
+  }
+
+  // Points every COVERAGE_SAMPLE_METERS along a line (spacing grows for very long routes)
+  private sampleLine(coordinates: Array<[number, number]>): Array<[number, number]> {
+    let total = 0
+    for (let i = 1; i < coordinates.length; i++) {
+      total += calculateHaversineDistance(coordinates[i - 1], coordinates[i])
+    }
+    const step = Math.max(this.COVERAGE_SAMPLE_METERS, total / this.MAX_COVERAGE_SAMPLES)
+
+    const samples: Array<[number, number]> = [coordinates[0]]
+    let carried = 0
+    for (let i = 1; i < coordinates.length; i++) {
+      const [a, b] = [coordinates[i - 1], coordinates[i]]
+      const length = calculateHaversineDistance(a, b)
+      let position = step - carried
+      while (position <= length) {
+        const t = position / length
+        samples.push([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t])
+        position += step
+      }
+      carried = length - (position - step)
+    }
+    return samples
+  }
+
+  // Distance in meters from a point to a segment, on a local flat projection
+  private distanceToSegment(point: [number, number], a: [number, number], b: [number, number]): number {
+    const metersPerDegLat = 111320
+    const metersPerDegLon = metersPerDegLat * Math.cos((point[1] * Math.PI) / 180)
+    const ax = (a[0] - point[0]) * metersPerDegLon
+    const ay = (a[1] - point[1]) * metersPerDegLat
+    const bx = (b[0] - point[0]) * metersPerDegLon
+    const by = (b[1] - point[1]) * metersPerDegLat
+    const dx = bx - ax
+    const dy = by - ay
+    const lengthSquared = dx * dx + dy * dy
+    const t = lengthSquared > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared)) : 0
+    return Math.hypot(ax + dx * t, ay + dy * t)
+  }
+
+  /**
+   * Load trail data for an area into the offline cache (used when downloading map areas
+   * with trails). Best effort: returns the number of cells that are now available offline.
+   * Areas over MAX_PREFETCH_CELLS are skipped, since every cell is one Overpass query.
+   */
+  async prefetchArea(bounds: BoundsRect): Promise<number> {
+    const keys = this.getCellKeys(bounds)
+    if (keys.length > this.MAX_PREFETCH_CELLS) {
+      devLog(`[TrailRouting] Area too large for trail prefetch (${keys.length} cells)`)
+      return 0
+    }
+
+    let loaded = 0
+    // Sequential to stay within Overpass rate limits
+    for (const key of keys) {
+      const cell = await this.loadCell(key, false)
+      if (cell) loaded++
+    }
+
+    devLog(`[TrailRouting] Prefetched ${loaded}/${keys.length} trail cells`)
+    return loaded
+  }
+}
+
+export const trailRoutingService = new TrailRoutingService()
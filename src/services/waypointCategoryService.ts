@@ -0,0 +1,267 @@
+// Waypoint category service for Tråkke PWA
+// Registry of user-defined waypoint categories with a Material Symbol icon and a color.
+// Waypoints refer to their category by name (Waypoint.category), so renaming and
+// merging categories rewrite the affected waypoints in the same transaction.
+
+import { dbService } from './dbService'
+import type { Waypoint } from './routeService'
+import { devLog } from '../constants'
+
+export interface WaypointCategory {
+  id: string
+  name: string
+  icon: string // Material Symbol name
+  color: string // Hex color
+  createdAt: number
+  updatedAt: number
+}
+
+export const DEFAULT_CATEGORY_ICON = 'location_on'
+export const DEFAULT_CATEGORY_COLOR = '#d0443e' // --trk-red, the original waypoint marker color
+
+// Icons offered in the category editor
+export const CATEGORY_ICONS = [
+  'location_on',
+  'camping',
+  'cabin',
+  'local_fire_department',
+  'water_drop',
+  'visibility',
+  'photo_camera',
+  'forest',
+  'landscape',
+  'hiking',
+  'downhill_skiing',
+  'kayaking',
+  'phishing',
+  'restaurant',
+  'local_parking',
+  'flag',
+  'star',
+  'warning'
+]
+
+// Colors offered in the category editor
+export const CATEGORY_COLORS = [
+  '#d0443e', // red
+  '#e07b24', // orange
+  '#d4a012', // yellow
+  '#2e9e5b', // green
+  '#1e6ce0', // blue
+  '#7b4fc9', // purple
+  '#8a5a3c', // brown
+  '#3e4533' // brand
+]
+
+const CATEGORIES_STORE = 'waypointCategories'
+const WAYPOINTS_STORE = 'waypoints'
+
+// Category names are unique regardless of case and surrounding spaces
+const normalizeName = (name: string): string => name.trim().toLocaleLowerCase('nb-NO')
+
+class WaypointCategoryService {
+  private readonly ID_RANDOM_STRING_START = 2
+  private readonly ID_RANDOM_STRING_END = 11
+  private readonly ID_RADIX = 36
+
+  private newCategory(name: string, icon = DEFAULT_CATEGORY_ICON, color = DEFAULT_CATEGORY_COLOR): WaypointCategory {
+    const now = Date.now()
+    return {
+      id: `cat-${now}-${Math.random().toString(this.ID_RADIX).substring(this.ID_RANDOM_STRING_START, this.ID_RANDOM_STRING_END)}`,
+      name: name.trim(),
+      icon,
+      color,
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  /**
+   * All categories, sorted by name.
+   * Category names used by waypoints but missing from the registry (waypoints from
+   * before the registry, imports, backups and sync) are added with the default icon and color.
+   */
+  async getAllCategories(): Promise<WaypointCategory[]> {
+    const db = await dbService.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CATEGORIES_STORE, WAYPOINTS_STORE], 'readwrite')
+      const categoriesRequest = transaction.objectStore(CATEGORIES_STORE).getAll()
+      const waypointsRequest = transaction.objectStore(WAYPOINTS_STORE).getAll()
+      let categories: WaypointCategory[] = []
+
+      transaction.oncomplete = () => {
+        resolve(categories.sort((a, b) => a.name.localeCompare(b.name, 'nb-NO')))
+      }
+      transaction.onerror = () => {
+        reject(new Error(`Failed to get waypoint categories: ${transaction.error?.message || 'Unknown error'}`))
+      }
+
+      // Requests in a transaction complete in order, so both results are ready here
+      waypointsRequest.onsuccess = () => {
+        categories = categoriesRequest.result as WaypointCategory[]
+        const known = new Set(categories.map(category => normalizeName(category.name)))
+
+        for (const waypoint of waypointsRequest.result as Waypoint[]) {
+          if (!waypoint.category?.trim() || known.has(normalizeName(waypoint.category))) continue
+          const category = this.newCategory(waypoint.category)
+          transaction.objectStore(CATEGORIES_STORE).add(category)
+          categories.push(category)
+          known.add(normalizeName(category.name))
+          devLog('Waypoint category added from waypoint:', category.name)
+        }
+      }
+    })
+  }
+
+  /**
+   * Find the category a waypoint belongs to
+   */
+  findCategory(categories: WaypointCategory[], name: string | undefined): WaypointCategory | undefined {
+    if (!name) return undefined
+    const normalized = normalizeName(name)
+    return categories.find(category => normalizeName(category.name) === normalized)
+  }
+
+  /**
+   * Create a category
+   *
+   * @throws Error if a category with the same name exists
+   */
+  async createCategory(name: string, icon?: string, color?: string): Promise<WaypointCategory> {
+    const existing = await this.getAllCategories()
+    if (this.findCategory(existing, name)) {
+      throw new Error(`Category already exists: ${name}`)
+    }
+
+    const category = this.newCategory(name, icon, color)
+    const db = await dbService.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CATEGORIES_STORE], 'readwrite')
+      const request = transaction.objectStore(CATEGORIES_STORE).add(category)
+
+      request.onsuccess = () => {
+        devLog('Waypoint category created:', category.name)
+        resolve(category)
+      }
+
+      request.onerror = () => {
+        reject(new Error(`Failed to create waypoint category: ${request.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  /**
+   * Change the icon or color of a category
+   */
+  async updateCategory(id: string, updates: Partial<Pick<WaypointCategory, 'icon' | 'color'>>): Promise<void> {
+    const db = await dbService.getDatabase()
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CATEGORIES_STORE], 'readwrite')
+      const store = transaction.objectStore(CATEGORIES_STORE)
+      const request = store.get(id)
+
+      request.onsuccess = () => {
+        const category = request.result as WaypointCategory | undefined
+        if (!category) {
+          reject(new Error(`Waypoint category not found (ID: ${id})`))
+          transaction.abort()
+          return
+        }
+        store.put({ ...category, ...updates, updatedAt: Date.now() })
+      }
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => {
+        reject(new Error(`Failed to update waypoint category (ID: ${id}): ${transaction.error?.message || 'Unknown error'}`))
+      }
+    })
+  }
+
+  /**
+   * Give a category a new name, and move its waypoints along
+   *
+   * @throws Error if another category already has the name (merge them instead)
+   */
+  async renameCategory(id: string, newName: string): Promise<void> {
+    const categories = await this.getAllCategories()
+    const category = categories.find(c => c.id === id)
+    if (!category) {
+      throw new Error(`Waypoint category not found (ID: ${id})`)
+    }
+    const existing = this.findCategory(categories, newName)
+    if (existing && existing.id !== id) {
+      throw new Error(`Category already exists: ${newName}`)
+    }
+
+    await this.rewrite(category.name, newName.trim(), store => {
+      store.put({ ...category, name: newName.trim(), updatedAt: Date.now() })
+    })
+    devLog('Waypoint category renamed:', category.name, '->', newName)
+  }
+
+  /**
+   * Move all waypoints of one category to another and remove the first
+   */
+  async mergeCategories(sourceId: string, targetId: string): Promise<void> {
+    const categories = await this.getAllCategories()
+    const source = categories.find(c => c.id === sourceId)
+    const target = categories.find(c => c.id === targetId)
+    if (!source || !target || sourceId === targetId) {
+      throw new Error(`Cannot merge waypoint categories (${sourceId} into ${targetId})`)
+    }
+
+    await this.rewrite(source.name, target.name, store => store.delete(sourceId))
+    devLog('Waypoint category merged:', source.name, '->', target.name)
+  }
+
+  /**
+   * Remove a category; its waypoints become uncategorized
+   */
+  async deleteCategory(id: string): Promise<void> {
+    const categories = await this.getAllCategories()
+    const category = categories.find(c => c.id === id)
+    if (!category) return
+
+    await this.rewrite(category.name, undefined, store => store.delete(id))
+    devLog('Waypoint category deleted:', category.name)
+  }
+
+  /**
+   * Set a new category name on every waypoint of a category, and change the registry,
+   * in one transaction. Changed waypoints get a new updatedAt so sync carries the change.
+   */
+  private async rewrite(
+    fromName: string,
+    toName: string | undefined,
+    updateRegistry: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    const db = await dbService.getDatabase()
+    const from = normalizeName(fromName)
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([CATEGORIES_STORE, WAYPOINTS_STORE], 'readwrite')
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => {
+        reject(new Error(`Failed to update waypoint categories: ${transaction.error?.message || 'Unknown error'}`))
+      }
+
+      updateRegistry(transaction.objectStore(CATEGORIES_STORE))
+
+      const cursorRequest = transaction.objectStore(WAYPOINTS_STORE).openCursor()
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor) return
+        const waypoint = cursor.value as Waypoint
+        if (waypoint.category && normalizeName(waypoint.category) === from) {
+          cursor.update({ ...waypoint, category: toName, updatedAt: Date.now() })
+        }
+        cursor.continue()
+      }
+    })
+  }
+}
+
+export const waypointCategoryService = new WaypointCategoryService()
@@ -0,0 +1,31 @@
+// File download helper for Tråkke PWA
+// Triggers a browser download without any server round-trip
+
+/**
+ * Downloads a blob as a file
+ *
+ * @param blob - File contents
+ * @param filename - Filename without extension (sanitized here)
+ * @param extension - File extension without the dot (e.g. "gpx")
+ */
+export function downloadBlob(blob: Blob, filename: string, extension: string): void {
+  // Ensure filename is safe and has the right extension
+  const safeFilename = filename
+    .replace(/[^a-z0-9_-]/gi, '_')
+    .replace(/_+/g, '_')
+    .toLowerCase()
+
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${safeFilename}.${extension}`
+
+  // Trigger download
+  document.body.appendChild(link)
+  link.click()
+
+  // Cleanup
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,316 @@
+// EXIF Utility for Tråkke PWA
+// Minimal reader for the EXIF metadata of JPEG and HEIC photos: GPS position, altitude,
+// capture time and orientation. Other formats (PNG, WebP) return no metadata.
+
+export interface ExifMetadata {
+  coordinates?: [number, number] // [lon, lat]
+  altitude?: number // meters above sea level
+  takenAt?: number // Capture time (ms), read as device local time
+  orientation?: number // 1-8, see the EXIF spec
+}
+
+const JPEG_SOI = 0xffd8
+const APP1_MARKER = 0xffe1
+const SOS_MARKER = 0xffda
+const EXIF_HEADER = 0x45786966 // "Exif"
+const EXIF_ITEM_TYPE = 'Exif' // HEIC item holding the EXIF block
+
+const TAG_ORIENTATION = 0x0112
+const TAG_EXIF_IFD = 0x8769
+const TAG_GPS_IFD = 0x8825
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+
+const TAG_GPS_LAT_REF = 0x0001
+const TAG_GPS_LAT = 0x0002
+const TAG_GPS_LON_REF = 0x0003
+const TAG_GPS_LON = 0x0004
+const TAG_GPS_ALT_REF = 0x0005
+const TAG_GPS_ALT = 0x0006
+
+const TYPE_BYTE = 1
+const TYPE_ASCII = 2
+const TYPE_SHORT = 3
+const TYPE_LONG = 4
+const TYPE_RATIONAL = 5
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+interface IfdEntry {
+  type: number
+  count: number
+  valueOffset: number // Absolute offset of the value (inline values point into the entry)
+}
+
+/**
+ * Reads the tags of one IFD (Image File Directory)
+ */
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>()
+  const start = tiffStart + ifdOffset
+  if (start + 2 > view.byteLength) return entries
+
+  const count = view.getUint16(start, little)
+  for (let i = 0; i < count; i++) {
+    const entryStart = start + 2 + i * 12
+    if (entryStart + 12 > view.byteLength) break
+
+    const tag = view.getUint16(entryStart, little)
+    const type = view.getUint16(entryStart + 2, little)
+    const valueCount = view.getUint32(entryStart + 4, little)
+    const size = (TYPE_SIZES[type] ?? 1) * valueCount
+    // Values of up to 4 bytes are stored in the entry itself
+    const valueOffset = size <= 4 ? entryStart + 8 : tiffStart + view.getUint32(entryStart + 8, little)
+
+    if (valueOffset + size <= view.byteLength) {
+      entries.set(tag, { type, count: valueCount, valueOffset })
+    }
+  }
+  return entries
+}
+
+function readNumber(view: DataView, entry: IfdEntry | undefined, little: boolean, index = 0): number | undefined {
+  if (!entry || index >= entry.count) return undefined
+  switch (entry.type) {
+    case TYPE_BYTE:
+      return view.getUint8(entry.valueOffset + index)
+    case TYPE_SHORT:
+      return view.getUint16(entry.valueOffset + index * 2, little)
+    case TYPE_LONG:
+      return view.getUint32(entry.valueOffset + index * 4, little)
+    case TYPE_RATIONAL: {
+      const numerator = view.getUint32(entry.valueOffset + index * 8, little)
+      const denominator = view.getUint32(entry.valueOffset + index * 8 + 4, little)
+      return denominator === 0 ? undefined : numerator / denominator
+    }
+    default:
+      return undefined
+  }
+}
+
+function readAscii(view: DataView, entry: IfdEntry | undefined): string | undefined {
+  if (!entry || entry.type !== TYPE_ASCII) return undefined
+  let text = ''
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(entry.valueOffset + i)
+    if (code === 0) break
+    text += String.fromCharCode(code)
+  }
+  return text
+}
+
+// Degrees, minutes, seconds to decimal degrees
+function readDegrees(view: DataView, entry: IfdEntry | undefined, little: boolean): number | undefined {
+  const degrees = readNumber(view, entry, little, 0)
+  const minutes = readNumber(view, entry, little, 1) ?? 0
+  const seconds = readNumber(view, entry, little, 2) ?? 0
+  return degrees === undefined ? undefined : degrees + minutes / 60 + seconds / 3600
+}
+
+// "YYYY:MM:DD HH:MM:SS" (no time zone)
+function parseExifDate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return undefined
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number)
+  const time = new Date(year, month - 1, day, hours, minutes, seconds).getTime()
+  return Number.isFinite(time) ? time : undefined
+}
+
+/**
+ * Find the TIFF block of the EXIF APP1 segment in a JPEG
+ *
+ * @returns Offset of the TIFF header, or -1 if the file has no EXIF data
+ */
+function findJpegTiffStart(view: DataView): number {
+  if (view.byteLength < 4 || view.getUint16(0) !== JPEG_SOI) return -1
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    if ((marker & 0xff00) !== 0xff00 || marker === SOS_MARKER) return -1
+
+    const length = view.getUint16(offset + 2)
+    if (marker === APP1_MARKER && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === EXIF_HEADER) {
+      return offset + 10 // Marker (2) + length (2) + "Exif\0\0" (6)
+    }
+    offset += 2 + length
+  }
+  return -1
+}
+
+interface Box {
+  type: string
+  start: number // Offset of the box contents (after the header)
+  end: number
+}
+
+function readType(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  )
+}
+
+// Unsigned integer of 0, 2, 4 or 8 bytes (HEIC iloc fields)
+function readUint(view: DataView, offset: number, size: number): number {
+  switch (size) {
+    case 2:
+      return view.getUint16(offset)
+    case 4:
+      return view.getUint32(offset)
+    case 8:
+      return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4)
+    default:
+      return 0
+  }
+}
+
+/**
+ * ISO BMFF boxes between start and end
+ */
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset)
+    let headerSize = 8
+    if (size === 1 && offset + 16 <= end) {
+      size = readUint(view, offset + 8, 8)
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize || offset + size > end) break
+
+    boxes.push({ type: readType(view, offset + 4), start: offset + headerSize, end: offset + size })
+    offset += size
+  }
+  return boxes
+}
+
+/**
+ * Find the TIFF block of the Exif item in a HEIC/HEIF file.
+ * The item is listed in meta/iinf, and its location in the file in meta/iloc.
+ *
+ * @returns Offset of the TIFF header, or -1 if the file has no EXIF data
+ */
+function findHeicTiffStart(view: DataView): number {
+  const topLevel = readBoxes(view, 0, view.byteLength)
+  if (topLevel[0]?.type !== 'ftyp') return -1
+
+  const meta = topLevel.find(box => box.type === 'meta')
+  if (!meta) return -1
+  const metaBoxes = readBoxes(view, meta.start + 4, meta.end) // meta is a full box (version + flags)
+  const iinf = metaBoxes.find(box => box.type === 'iinf')
+  const iloc = metaBoxes.find(box => box.type === 'iloc')
+  if (!iinf || !iloc) return -1
+
+  // Item ID of the Exif item
+  const iinfVersion = view.getUint8(iinf.start)
+  const entriesStart = iinf.start + 4 + (iinfVersion === 0 ? 2 : 4)
+  let exifItemId = -1
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    const version = view.getUint8(infe.start)
+    if (infe.type !== 'infe' || version < 2) continue
+    const idSize = version === 2 ? 2 : 4
+    if (readType(view, infe.start + 4 + idSize + 2) === EXIF_ITEM_TYPE) {
+      exifItemId = readUint(view, infe.start + 4, idSize)
+      break
+    }
+  }
+  if (exifItemId < 0) return -1
+
+  // Location of that item
+  const version = view.getUint8(iloc.start)
+  const offsetSize = view.getUint8(iloc.start + 4) >> 4
+  const lengthSize = view.getUint8(iloc.start + 4) & 0x0f
+  const baseOffsetSize = view.getUint8(iloc.start + 5) >> 4
+  const indexSize = version === 1 || version === 2 ? view.getUint8(iloc.start + 5) & 0x0f : 0
+  const idSize = version < 2 ? 2 : 4
+  let offset = iloc.start + 6
+  const itemCount = readUint(view, offset, idSize)
+  offset += idSize
+
+  for (let i = 0; i < itemCount && offset < iloc.end; i++) {
+    const itemId = readUint(view, offset, idSize)
+    offset += idSize
+    let constructionMethod = 0
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0x0f
+      offset += 2
+    }
+    offset += 2 // Data reference index
+    const baseOffset = readUint(view, offset, baseOffsetSize)
+    offset += baseOffsetSize
+    const extentCount = view.getUint16(offset)
+    offset += 2
+
+    const extentSize = indexSize + offsetSize + lengthSize
+    if (itemId === exifItemId && constructionMethod === 0 && extentCount > 0) {
+      // The item starts with the offset from its own start to the TIFF header ("Exif\0\0" is skipped)
+      const itemStart = baseOffset + readUint(view, offset + indexSize, offsetSize)
+      if (itemStart + 4 > view.byteLength) return -1
+      return itemStart + 4 + view.getUint32(itemStart)
+    }
+    offset += extentCount * extentSize
+  }
+  return -1
+}
+
+/**
+ * Reads GPS position, altitude, capture time and orientation from a JPEG or HEIC photo
+ *
+ * @param buffer - File contents
+ * @returns Metadata found; empty if the format is not supported or the photo has no EXIF
+ */
+export function readExif(buffer: ArrayBuffer): ExifMetadata {
+  const view = new DataView(buffer)
+  let tiffStart = findJpegTiffStart(view)
+  if (tiffStart < 0) {
+    try {
+      tiffStart = findHeicTiffStart(view)
+    } catch {
+      // Truncated or malformed box structure
+      tiffStart = -1
+    }
+  }
+  if (tiffStart < 0 || tiffStart + 8 > view.byteLength) return {}
+
+  const byteOrder = view.getUint16(tiffStart)
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return {} // "II" or "MM"
+  const little = byteOrder === 0x4949
+
+  const metadata: ExifMetadata = {}
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little)
+
+  const orientation = readNumber(view, ifd0.get(TAG_ORIENTATION), little)
+  if (orientation !== undefined && orientation >= 1 && orientation <= 8) {
+    metadata.orientation = orientation
+  }
+
+  const exifPointer = readNumber(view, ifd0.get(TAG_EXIF_IFD), little)
+  if (exifPointer !== undefined) {
+    const exifIfd = readIfd(view, tiffStart, exifPointer, little)
+    metadata.takenAt = parseExifDate(readAscii(view, exifIfd.get(TAG_DATE_TIME_ORIGINAL)))
+  }
+
+  const gpsPointer = readNumber(view, ifd0.get(TAG_GPS_IFD), little)
+  if (gpsPointer !== undefined) {
+    const gps = readIfd(view, tiffStart, gpsPointer, little)
+    const lat = readDegrees(view, gps.get(TAG_GPS_LAT), little)
+    const lon = readDegrees(view, gps.get(TAG_GPS_LON), little)
+
+    // 0,0 is what some cameras write when they have no fix
+    if (lat !== undefined && lon !== undefined && (lat !== 0 || lon !== 0) && lat <= 90 && lon <= 180) {
+      const latSign = readAscii(view, gps.get(TAG_GPS_LAT_REF)) === 'S' ? -1 : 1
+      const lonSign = readAscii(view, gps.get(TAG_GPS_LON_REF)) === 'W' ? -1 : 1
+      metadata.coordinates = [lonSign * lon, latSign * lat]
+    }
+
+    const altitude = readNumber(view, gps.get(TAG_GPS_ALT), little)
+    if (altitude !== undefined) {
+      // Altitude ref 1 means below sea level
+      metadata.altitude = readNumber(view, gps.get(TAG_GPS_ALT_REF), little) === 1 ? -altitude : altitude
+    }
+  }
+
+  return metadata
+}
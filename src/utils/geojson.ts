@@ -0,0 +1,376 @@
+// GeoJSON Utility for Tråkke PWA
+// Lossless export/import of routes, waypoints and projects as an RFC 7946 FeatureCollection (e.g. for QGIS)
+//
+// File layout (schema version 1):
+// - Routes are LineString features, waypoints are Point features
+// - Projects are features with null geometry (allowed by RFC 7946)
+// - Every feature has properties.trakkeType ('route' | 'waypoint' | 'project') and properties.id
+// - Project membership is stored on routes/waypoints as properties.projectIds
+// - The collection carries a top-level "trakke" member with the schema version
+//
+// Property names are a stable contract: new fields may be added, existing ones are never renamed
+// or repurposed. Files without Tråkke metadata (plain GeoJSON from QGIS etc.) are imported too.
+
+import type { Route, Waypoint, Project } from '../services/routeService'
+import { trailGradingService } from '../services/trailGradingService'
+import { devLog } from '../constants'
+import { downloadBlob } from './download'
+import { sanitizeImportedName } from './validation'
+import {
+  buildImportedRoute,
+  MAX_IMPORT_FILE_SIZE,
+  type ImportedCollection,
+  type ImportedFolder,
+  type ImportedPoint,
+  type ImportedRoute,
+  type ImportedWaypoint
+} from './importedData'
+
+export const GEOJSON_SCHEMA_VERSION = 1
+const FORMAT_ID = 'trakke-geojson'
+
+type Position = number[]
+
+interface Feature {
+  type: 'Feature'
+  id?: string | number
+  geometry: { type: string; coordinates?: unknown; geometries?: unknown[] } | null
+  properties: Record<string, unknown> | null
+}
+
+interface FeatureCollection {
+  type: 'FeatureCollection'
+  trakke?: { format: string; version: number; exportedAt: string }
+  features: Feature[]
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Drops undefined values so the output only lists fields that are set
+ */
+function compact(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined))
+}
+
+function membership(id: string, key: 'routes' | 'waypoints', projects: Project[]): string[] | undefined {
+  const ids = projects.filter(p => p[key].includes(id)).map(p => p.id)
+  return ids.length > 0 ? ids : undefined
+}
+
+/**
+ * Generates a GeoJSON FeatureCollection with all metadata in properties
+ *
+ * @param data - Routes, waypoints and projects to include
+ * @returns Formatted GeoJSON string
+ */
+export function exportToGeoJson(data: { routes: Route[]; waypoints: Waypoint[]; projects?: Project[] }): string {
+  const { routes, waypoints, projects = [] } = data
+
+  const features: Feature[] = [
+    ...projects.map((project): Feature => ({
+      type: 'Feature',
+      id: project.id,
+      geometry: null,
+      properties: compact({
+        trakkeType: 'project',
+        id: project.id,
+        name: project.name,
+        description: project.description,
+        color: project.color,
+        createdAt: project.createdAt,
+        updatedAt: project.updatedAt
+      })
+    })),
+    ...waypoints.map((waypoint): Feature => ({
+      type: 'Feature',
+      id: waypoint.id,
+      geometry: { type: 'Point', coordinates: waypoint.coordinates },
+      properties: compact({
+        trakkeType: 'waypoint',
+        id: waypoint.id,
+        name: waypoint.name,
+        description: waypoint.description,
+        category: waypoint.category,
+        elevation: waypoint.elevation,
+        icon: waypoint.icon,
+        color: waypoint.color,
+        createdAt: waypoint.createdAt,
+        updatedAt: waypoint.updatedAt,
+        projectIds: membership(waypoint.id, 'waypoints', projects)
+      })
+    })),
+    ...routes.map((route): Feature => ({
+      type: 'Feature',
+      id: route.id,
+      geometry: { type: 'LineString', coordinates: route.coordinates },
+      properties: compact({
+        trakkeType: 'route',
+        id: route.id,
+        name: route.name,
+        description: route.description,
+        distance: route.distance,
+        elevationGain: route.elevationGain,
+        elevationLoss: route.elevationLoss,
+        duration: route.duration,
+        difficulty: route.difficulty,
+        difficultyReasons: route.difficultyReasons,
+        difficultyManual: route.difficultyManual,
+        activity: route.activity,
+        color: route.color,
+        waypointIds: route.waypoints.length > 0 ? route.waypoints : undefined,
+        elevations: route.elevations,
+        timestamps: route.timestamps,
+        createdAt: route.createdAt,
+        updatedAt: route.updatedAt,
+        completedAt: route.completedAt,
+        projectIds: membership(route.id, 'routes', projects)
+      })
+    }))
+  ]
+
+  const collection: FeatureCollection = {
+    type: 'FeatureCollection',
+    trakke: {
+      format: FORMAT_ID,
+      version: GEOJSON_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString()
+    },
+    features
+  }
+
+  return JSON.stringify(collection, null, 2)
+}
+
+/**
+ * Downloads GeoJSON content as a .geojson file
+ */
+export function downloadGeoJson(content: string, filename: string): void {
+  downloadBlob(new Blob([content], { type: 'application/geo+json' }), filename, 'geojson')
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+const str = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+const num = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined
+
+const strArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+
+const color = (value: unknown): string | undefined => {
+  const s = str(value)
+  return s && /^#[0-9a-f]{6}$/i.test(s) ? s.toLowerCase() : undefined
+}
+
+function toPoint(position: unknown): ImportedPoint | null {
+  if (!Array.isArray(position)) return null
+  const [lon, lat, alt] = position as Position
+  if (!Number.isFinite(lon) || !Number.isFinite(lat) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return null
+  }
+  return { coordinates: [lon, lat], elevation: Number.isFinite(alt) ? alt : undefined }
+}
+
+function toPoints(positions: unknown): ImportedPoint[] {
+  if (!Array.isArray(positions)) return []
+  return positions.map(toPoint).filter((p): p is ImportedPoint => p !== null)
+}
+
+/**
+ * Line segments of a geometry (LineString, MultiLineString, or lines inside a GeometryCollection)
+ */
+function lineSegments(geometry: Feature['geometry']): ImportedPoint[][] {
+  if (!geometry) return []
+  switch (geometry.type) {
+    case 'LineString':
+      return [toPoints(geometry.coordinates)]
+    case 'MultiLineString':
+      return Array.isArray(geometry.coordinates) ? geometry.coordinates.map(toPoints) : []
+    case 'GeometryCollection':
+      return (geometry.geometries ?? []).flatMap(g => lineSegments(g as Feature['geometry']))
+    default:
+      return []
+  }
+}
+
+function pointPositions(geometry: Feature['geometry']): ImportedPoint[] {
+  if (!geometry) return []
+  switch (geometry.type) {
+    case 'Point': {
+      const point = toPoint(geometry.coordinates)
+      return point ? [point] : []
+    }
+    case 'MultiPoint':
+      return toPoints(geometry.coordinates)
+    case 'GeometryCollection':
+      return (geometry.geometries ?? []).flatMap(g => pointPositions(g as Feature['geometry']))
+    default:
+      return []
+  }
+}
+
+const ACTIVITIES = new Set(['walking', 'trailRunning', 'crossCountrySki', 'snowshoe', 'cycling'])
+
+/**
+ * Parses GeoJSON (a FeatureCollection, a single Feature or a bare geometry)
+ *
+ * @param json - GeoJSON file contents
+ * @returns Routes, waypoints and projects found in the file
+ * @throws Error if the content is not GeoJSON, or is from a newer incompatible schema
+ */
+export function parseGeoJson(json: string): ImportedCollection {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error('Invalid JSON')
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Not a GeoJSON document')
+  }
+
+  const root = parsed as Partial<FeatureCollection> & Partial<Feature> & { type?: string }
+  let features: Feature[]
+
+  if (root.type === 'FeatureCollection' && Array.isArray(root.features)) {
+    features = root.features
+  } else if (root.type === 'Feature') {
+    features = [root as Feature]
+  } else if (typeof root.type === 'string' && root.type !== 'FeatureCollection') {
+    features = [{ type: 'Feature', geometry: root as Feature['geometry'], properties: null }]
+  } else {
+    throw new Error('Not a GeoJSON document')
+  }
+
+  // Newer files stay readable: unknown properties are ignored, known ones keep their meaning
+  if (root.trakke && root.trakke.format === FORMAT_ID && root.trakke.version > GEOJSON_SCHEMA_VERSION) {
+    devLog(`[GeoJSON] Schema version ${root.trakke.version} is newer than supported (${GEOJSON_SCHEMA_VERSION})`)
+  }
+
+  const routes: ImportedRoute[] = []
+  const waypoints: ImportedWaypoint[] = []
+  const folders: ImportedFolder[] = []
+
+  // Original IDs → import indexes, to rebuild references
+  const projectById = new Map<string, ImportedFolder>()
+  const waypointIndexById = new Map<string, number>()
+  const routeWaypointIds: string[][] = []
+  const routeProjectIds: string[][] = []
+  const waypointProjectIds: string[][] = []
+
+  for (const feature of features) {
+    if (!feature || feature.type !== 'Feature') continue
+    const props = feature.properties ?? {}
+    const type = str(props.trakkeType)
+
+    if (type === 'project') {
+      const id = str(props.id) ?? String(feature.id ?? folders.length)
+      const folder: ImportedFolder = {
+        name: sanitizeImportedName(str(props.name), `Prosjekt ${folders.length + 1}`),
+        description: str(props.description),
+        color: color(props.color),
+        createdAt: num(props.createdAt),
+        updatedAt: num(props.updatedAt),
+        routeIndexes: [],
+        waypointIndexes: []
+      }
+      projectById.set(id, folder)
+      folders.push(folder)
+      continue
+    }
+
+    const segments = lineSegments(feature.geometry)
+    if (segments.length > 0 && type !== 'waypoint') {
+      const route = buildImportedRoute(segments, {
+        name: sanitizeImportedName(str(props.name), `Importert rute ${routes.length + 1}`),
+        description: str(props.description),
+        color: color(props.color),
+        source: 'route'
+      })
+      if (!route) continue
+
+      // Tråkke's own per-point arrays replace whatever the geometry implied, if they still line up
+      const elevations = props.elevations
+      if (Array.isArray(elevations) && elevations.length === route.coordinates.length) {
+        route.elevations = elevations.map(e => (typeof e === 'number' ? e : null))
+      }
+      const timestamps = props.timestamps
+      if (Array.isArray(timestamps) && timestamps.length === route.coordinates.length && timestamps.every(t => typeof t === 'number')) {
+        route.timestamps = timestamps as number[]
+        route.source = 'track'
+      }
+
+      route.distance = num(props.distance) ?? route.distance
+      route.elevationGain = num(props.elevationGain)
+      route.elevationLoss = num(props.elevationLoss)
+      route.duration = num(props.duration)
+      route.difficulty = trailGradingService.normalizeGrade(props.difficulty)
+      route.difficultyReasons = props.difficultyReasons !== undefined ? strArray(props.difficultyReasons) : undefined
+      route.difficultyManual = props.difficultyManual === true ? true : undefined
+      const activity = str(props.activity)
+      route.activity = activity && ACTIVITIES.has(activity) ? activity as Route['activity'] : undefined
+      route.createdAt = num(props.createdAt)
+      route.updatedAt = num(props.updatedAt)
+      route.completedAt = num(props.completedAt)
+
+      routeWaypointIds.push(strArray(props.waypointIds))
+      routeProjectIds.push(strArray(props.projectIds))
+      routes.push(route)
+      continue
+    }
+
+    const points = pointPositions(feature.geometry)
+    points.forEach(point => {
+      const id = str(props.id) ?? (feature.id !== undefined ? String(feature.id) : undefined)
+      if (id) waypointIndexById.set(id, waypoints.length)
+
+      waypoints.push({
+        name: sanitizeImportedName(str(props.name) ?? str(props.title), `Importert punkt ${waypoints.length + 1}`),
+        description: str(props.description),
+        category: str(props.category) ? sanitizeImportedName(str(props.category), '') || undefined : undefined,
+        coordinates: point.coordinates,
+        elevation: num(props.elevation) ?? point.elevation,
+        color: color(props.color),
+        icon: str(props.icon),
+        createdAt: num(props.createdAt),
+        updatedAt: num(props.updatedAt)
+      })
+      waypointProjectIds.push(strArray(props.projectIds))
+    })
+  }
+
+  // Resolve references now that every feature has an index
+  routes.forEach((route, i) => {
+    const indexes = routeWaypointIds[i]
+      .map(id => waypointIndexById.get(id))
+      .filter((index): index is number => index !== undefined)
+    if (routeWaypointIds[i].length > 0) route.waypointIndexes = indexes
+
+    routeProjectIds[i].forEach(id => projectById.get(id)?.routeIndexes.push(i))
+  })
+  waypointProjectIds.forEach((ids, i) => {
+    ids.forEach(id => projectById.get(id)?.waypointIndexes.push(i))
+  })
+
+  // Empty projects are kept so a round-trip restores them too
+  return { routes, waypoints, folders }
+}
+
+/**
+ * Reads and parses a .geojson/.json file selected by the user
+ */
+export async function readGeoJsonFile(file: File): Promise<ImportedCollection> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new Error('File too large')
+  }
+
+  return parseGeoJson(await file.text())
+}
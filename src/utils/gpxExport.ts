@@ -2,11 +2,12 @@
 // Generates GPX 1.1 XML from routes and waypoints
 
 import type { Route, Waypoint } from '../services/routeService'
+import { downloadBlob } from './download'
 
 /**
  * Escapes XML special characters to prevent malformed XML
  */
-function escapeXml(str: string): string {
+export function escapeXml(str: string): string {
   return str
     .replace(/&/g, '&amp;')
     .replace(/</g, '&lt;')
@@ -22,6 +23,29 @@ function formatGpxTime(timestamp: number): string {
   return new Date(timestamp).toISOString()
 }
 
+/**
+ * Formats track points for a route segment.
+ * Recorded tracks carry per-point elevation and time, which are included when present.
+ */
+function formatTrackPoints(route: Route): string {
+  let xml = ''
+  route.coordinates.forEach((coord, i) => {
+    const [lon, lat] = coord
+    const elevation = route.elevations?.[i]
+    const timestamp = route.timestamps?.[i]
+
+    xml += `      <trkpt lat="${lat}" lon="${lon}">\n`
+    if (typeof elevation === 'number') {
+      xml += `        <ele>${elevation.toFixed(1)}</ele>\n`
+    }
+    if (timestamp !== undefined) {
+      xml += `        <time>${formatGpxTime(timestamp)}</time>\n`
+    }
+    xml += '      </trkpt>\n'
+  })
+  return xml
+}
+
 /**
  * Generates GPX XML for a single route
  *
@@ -81,13 +105,7 @@ export function exportRouteToGpx(route: Route, waypoints: Waypoint[] = []): stri
 
   // Track segment
   gpx += '    <trkseg>\n'
-  route.coordinates.forEach((coord) => {
-    const [lon, lat] = coord
-    gpx += `      <trkpt lat="${lat}" lon="${lon}">\n`
-    // Note: We don't have timestamps for each track point in current schema
-    // Could be added in future for recorded tracks
-    gpx += '      </trkpt>\n'
-  })
+  gpx += formatTrackPoints(route)
   gpx += '    </trkseg>\n'
   gpx += '  </trk>\n'
 
@@ -167,11 +185,7 @@ export function exportMultipleRoutesToGpx(
 
     // Track segment
     gpx += '    <trkseg>\n'
-    route.coordinates.forEach((coord) => {
-      const [lon, lat] = coord
-      gpx += `      <trkpt lat="${lat}" lon="${lon}">\n`
-      gpx += '      </trkpt>\n'
-    })
+    gpx += formatTrackPoints(route)
     gpx += '    </trkseg>\n'
     gpx += '  </trk>\n'
   })
@@ -189,26 +203,7 @@ export function exportMultipleRoutesToGpx(
  * @param filename - Filename for download (without .gpx extension)
  */
 export function downloadGpx(gpxContent: string, filename: string): void {
-  // Ensure filename is safe and has .gpx extension
-  const safeFilename = filename
-    .replace(/[^a-z0-9_\-]/gi, '_')
-    .replace(/_+/g, '_')
-    .toLowerCase()
-
-  const blob = new Blob([gpxContent], { type: 'application/gpx+xml' })
-  const url = URL.createObjectURL(blob)
-
-  const link = document.createElement('a')
-  link.href = url
-  link.download = `${safeFilename}.gpx`
-
-  // Trigger download
-  document.body.appendChild(link)
-  link.click()
-
-  // Cleanup
-  document.body.removeChild(link)
-  URL.revokeObjectURL(url)
+  downloadBlob(new Blob([gpxContent], { type: 'application/gpx+xml' }), filename, 'gpx')
 }
 
 /**
@@ -0,0 +1,117 @@
+// GPX Import Utility for Tråkke PWA
+// Parses GPX 1.0 and 1.1 files into routes and waypoints ready for routeService
+
+import { sanitizeImportedName } from './validation'
+import { childElements, childText } from './xml'
+import {
+  buildImportedRoute,
+  MAX_IMPORT_FILE_SIZE,
+  type ImportedCollection,
+  type ImportedPoint,
+  type ImportedRoute,
+  type ImportedWaypoint
+} from './importedData'
+
+function parsePoint(el: Element): ImportedPoint | null {
+  const lat = parseFloat(el.getAttribute('lat') ?? '')
+  const lon = parseFloat(el.getAttribute('lon') ?? '')
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return null
+  }
+
+  const ele = parseFloat(childText(el, 'ele') ?? '')
+  const timeText = childText(el, 'time')
+  const time = timeText ? Date.parse(timeText) : NaN
+
+  return {
+    coordinates: [lon, lat],
+    elevation: Number.isFinite(ele) ? ele : undefined,
+    time: Number.isFinite(time) ? time : undefined
+  }
+}
+
+function parsePoints(parent: Element, localName: string): ImportedPoint[] {
+  return childElements(parent, localName)
+    .map(parsePoint)
+    .filter((p): p is ImportedPoint => p !== null)
+}
+
+/**
+ * Parses GPX XML (version 1.0 or 1.1)
+ *
+ * @param xml - GPX file contents
+ * @returns Tracks, routes and waypoints found in the file
+ * @throws Error if the content is not well-formed GPX
+ */
+export function parseGpx(xml: string): ImportedCollection {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML')
+  }
+
+  const root = doc.documentElement
+  if (!root || root.localName !== 'gpx') {
+    throw new Error('Not a GPX document')
+  }
+
+  // GPX 1.1 has <metadata><name>, GPX 1.0 has <name> directly under <gpx>
+  const metadata = childElements(root, 'metadata')[0]
+  const documentName = (metadata && childText(metadata, 'name')) ?? childText(root, 'name')
+
+  const routes: ImportedRoute[] = []
+
+  childElements(root, 'trk').forEach((trk, i) => {
+    const segments = childElements(trk, 'trkseg').map(seg => parsePoints(seg, 'trkpt'))
+    const route = buildImportedRoute(segments, {
+      name: sanitizeImportedName(childText(trk, 'name'), `Importert spor ${i + 1}`),
+      description: childText(trk, 'desc') ?? childText(trk, 'cmt'),
+      source: 'track'
+    })
+    if (route) routes.push(route)
+  })
+
+  childElements(root, 'rte').forEach((rte, i) => {
+    const route = buildImportedRoute([parsePoints(rte, 'rtept')], {
+      name: sanitizeImportedName(childText(rte, 'name'), `Importert rute ${i + 1}`),
+      description: childText(rte, 'desc') ?? childText(rte, 'cmt'),
+      source: 'route'
+    })
+    if (route) routes.push(route)
+  })
+
+  const waypoints: ImportedWaypoint[] = []
+
+  childElements(root, 'wpt').forEach((wpt, i) => {
+    const point = parsePoint(wpt)
+    if (!point) return
+
+    const type = childText(wpt, 'type')
+    waypoints.push({
+      name: sanitizeImportedName(childText(wpt, 'name'), `Importert punkt ${i + 1}`),
+      description: childText(wpt, 'desc') ?? childText(wpt, 'cmt'),
+      category: type ? sanitizeImportedName(type, '') || undefined : undefined,
+      coordinates: point.coordinates,
+      elevation: point.elevation,
+      time: point.time
+    })
+  })
+
+  return {
+    name: documentName ? sanitizeImportedName(documentName, '') || undefined : undefined,
+    routes,
+    waypoints
+  }
+}
+
+/**
+ * Reads and parses a GPX file selected by the user
+ */
+export async function readGpxFile(file: File): Promise<ImportedCollection> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new Error('File too large')
+  }
+
+  return parseGpx(await file.text())
+}
@@ -0,0 +1,120 @@
+// Imported data types for Tråkke PWA
+// Format-neutral result of parsing GPX, KML/KMZ and GeoJSON files, before anything is saved
+
+import type { Route } from '../services/routeService'
+import { calculateHaversineDistance } from './haversine'
+
+/** Maximum accepted file size (bytes). Large Garmin exports are typically well below this. */
+export const MAX_IMPORT_FILE_SIZE = 20 * 1024 * 1024
+
+/**
+ * A route or track read from an import file, not yet saved
+ */
+export interface ImportedRoute {
+  name: string
+  description?: string
+  coordinates: Array<[number, number]> // [lon, lat]
+  elevations?: Array<number | null> // Per coordinate, only if the file has any elevation
+  timestamps?: number[] // Per coordinate, only if every point has a time
+  distance: number // meters, not counted across segment gaps
+  segmentCount: number
+  color?: string
+  source: 'track' | 'route'
+  // Stored metadata, only present in Tråkke's own GeoJSON
+  elevationGain?: number
+  elevationLoss?: number
+  duration?: number
+  difficulty?: Route['difficulty']
+  difficultyReasons?: string[]
+  difficultyManual?: boolean
+  activity?: Route['activity']
+  createdAt?: number
+  updatedAt?: number
+  completedAt?: number
+  waypointIndexes?: number[] // Indexes into ImportedCollection.waypoints
+}
+
+/**
+ * A waypoint read from an import file, not yet saved
+ */
+export interface ImportedWaypoint {
+  name: string
+  description?: string
+  category?: string
+  coordinates: [number, number] // [lon, lat]
+  elevation?: number
+  time?: number
+  color?: string
+  icon?: string
+  // Stored metadata, only present in Tråkke's own GeoJSON
+  createdAt?: number
+  updatedAt?: number
+}
+
+/**
+ * A folder (KML) or project (GeoJSON) from the import file, offered as a project
+ */
+export interface ImportedFolder {
+  name: string
+  description?: string
+  color?: string
+  createdAt?: number // Only present in Tråkke's own GeoJSON
+  updatedAt?: number
+  routeIndexes: number[] // Indexes into ImportedCollection.routes
+  waypointIndexes: number[] // Indexes into ImportedCollection.waypoints
+}
+
+/**
+ * Everything found in one import file
+ */
+export interface ImportedCollection {
+  name?: string // Document/metadata name, suggested as project name
+  routes: ImportedRoute[]
+  waypoints: ImportedWaypoint[]
+  folders?: ImportedFolder[]
+}
+
+/**
+ * A single parsed point, before it becomes part of a route or waypoint
+ */
+export interface ImportedPoint {
+  coordinates: [number, number]
+  elevation?: number
+  time?: number
+}
+
+function segmentDistance(points: ImportedPoint[]): number {
+  let distance = 0
+  for (let i = 0; i < points.length - 1; i++) {
+    distance += calculateHaversineDistance(points[i].coordinates, points[i + 1].coordinates)
+  }
+  return distance
+}
+
+/**
+ * Builds an ImportedRoute from one or more point segments.
+ * Segments are joined into a single line; distance is summed per segment so gaps don't count.
+ */
+export function buildImportedRoute(
+  segments: ImportedPoint[][],
+  meta: { name: string; description?: string; color?: string; source: 'track' | 'route' }
+): ImportedRoute | null {
+  const nonEmpty = segments.filter(seg => seg.length > 0)
+  const points = nonEmpty.flat()
+  if (points.length < 2) return null
+
+  const hasElevation = points.some(p => p.elevation !== undefined)
+  const hasAllTimes = points.every(p => p.time !== undefined)
+
+  return {
+    name: meta.name,
+    description: meta.description,
+    color: meta.color,
+    source: meta.source,
+    coordinates: points.map(p => p.coordinates),
+    elevations: hasElevation ? points.map(p => p.elevation ?? null) : undefined,
+    timestamps: hasAllTimes ? points.map(p => p.time as number) : undefined,
+    distance: nonEmpty.reduce((sum, seg) => sum + segmentDistance(seg), 0),
+    segmentCount: nonEmpty.length
+  }
+}
@@ -0,0 +1,434 @@
+// KML/KMZ Utility for Tråkke PWA
+// Reads and writes KML 2.2 (Google Earth, municipal trail data) and zipped KMZ, entirely in the browser
+
+import type { Route, Waypoint, Project } from '../services/routeService'
+import { escapeXml } from './gpxExport'
+import { downloadBlob } from './download'
+import { createZip, readZip } from './zip'
+import { sanitizeImportedName } from './validation'
+import { childElements, childText } from './xml'
+import {
+  buildImportedRoute,
+  MAX_IMPORT_FILE_SIZE,
+  type ImportedCollection,
+  type ImportedFolder,
+  type ImportedPoint,
+  type ImportedRoute,
+  type ImportedWaypoint
+} from './importedData'
+
+const DEFAULT_ROUTE_COLOR = '#3e4533' // Same as routes drawn on the map
+const KML_NAMESPACE = 'http://www.opengis.net/kml/2.2'
+// KML text compresses well, but not by more than this in real KMZ files
+const MAX_KMZ_UNZIPPED_SIZE = 10 * MAX_IMPORT_FILE_SIZE
+
+// ============================================================================
+// Colors
+// ============================================================================
+
+/**
+ * Converts '#rrggbb' to KML's 'aabbggrr' (fully opaque)
+ */
+function toKmlColor(hex: string): string {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex)
+  const rgb = match ? match[1].toLowerCase() : DEFAULT_ROUTE_COLOR.slice(1)
+  return `ff${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`
+}
+
+/**
+ * Converts KML's 'aabbggrr' to '#rrggbb' (alpha is dropped)
+ */
+function fromKmlColor(kml: string): string | undefined {
+  const match = /^([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(kml.trim())
+  if (!match) return undefined
+  return `#${match[4]}${match[3]}${match[2]}`.toLowerCase()
+}
+
+function styleId(hex: string): string {
+  return `color-${toKmlColor(hex).slice(2)}`
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function formatRoutePlacemark(route: Route, indent: string): string {
+  const color = route.color || DEFAULT_ROUTE_COLOR
+  const coordinates = route.coordinates
+    .map(([lon, lat], i) => {
+      const ele = route.elevations?.[i]
+      return typeof ele === 'number' ? `${lon},${lat},${ele.toFixed(1)}` : `${lon},${lat}`
+    })
+    .join(' ')
+
+  let kml = `${indent}<Placemark>\n`
+  kml += `${indent}  <name>${escapeXml(route.name)}</name>\n`
+  if (route.description) {
+    kml += `${indent}  <description>${escapeXml(route.description)}</description>\n`
+  }
+  kml += `${indent}  <styleUrl>#${styleId(color)}</styleUrl>\n`
+  kml += `${indent}  <LineString>\n`
+  kml += `${indent}    <tessellate>1</tessellate>\n`
+  kml += `${indent}    <coordinates>${coordinates}</coordinates>\n`
+  kml += `${indent}  </LineString>\n`
+  kml += `${indent}</Placemark>\n`
+  return kml
+}
+
+function formatWaypointPlacemark(waypoint: Waypoint, indent: string): string {
+  const [lon, lat] = waypoint.coordinates
+
+  let kml = `${indent}<Placemark>\n`
+  kml += `${indent}  <name>${escapeXml(waypoint.name)}</name>\n`
+  if (waypoint.description) {
+    kml += `${indent}  <description>${escapeXml(waypoint.description)}</description>\n`
+  }
+  if (waypoint.color) {
+    kml += `${indent}  <styleUrl>#${styleId(waypoint.color)}</styleUrl>\n`
+  }
+  if (waypoint.category) {
+    kml += `${indent}  <ExtendedData>\n`
+    kml += `${indent}    <Data name="category"><value>${escapeXml(waypoint.category)}</value></Data>\n`
+    kml += `${indent}  </ExtendedData>\n`
+  }
+  kml += `${indent}  <Point>\n`
+  kml += waypoint.elevation !== undefined
+    ? `${indent}    <coordinates>${lon},${lat},${waypoint.elevation}</coordinates>\n`
+    : `${indent}    <coordinates>${lon},${lat}</coordinates>\n`
+  kml += `${indent}  </Point>\n`
+  kml += `${indent}</Placemark>\n`
+  return kml
+}
+
+/**
+ * Generates KML for routes and waypoints. Each project becomes a Folder;
+ * items that belong to none of the given projects are placed at document level.
+ *
+ * @param data - Routes, waypoints and (optionally) the projects grouping them
+ * @param documentName - Name of the KML document
+ * @returns KML 2.2 XML string
+ */
+export function exportToKml(
+  data: { routes: Route[]; waypoints: Waypoint[]; projects?: Project[] },
+  documentName: string
+): string {
+  const { routes, waypoints, projects = [] } = data
+
+  // One shared style per color
+  const colors = new Set<string>()
+  routes.forEach(r => colors.add(r.color || DEFAULT_ROUTE_COLOR))
+  waypoints.forEach(w => { if (w.color) colors.add(w.color) })
+
+  let kml = '<?xml version="1.0" encoding="UTF-8"?>\n'
+  kml += `<kml xmlns="${KML_NAMESPACE}">\n`
+  kml += '  <Document>\n'
+  kml += `    <name>${escapeXml(documentName)}</name>\n`
+
+  colors.forEach(color => {
+    kml += `    <Style id="${styleId(color)}">\n`
+    kml += `      <LineStyle><color>${toKmlColor(color)}</color><width>4</width></LineStyle>\n`
+    kml += `      <IconStyle><color>${toKmlColor(color)}</color></IconStyle>\n`
+    kml += '    </Style>\n'
+  })
+
+  const inProject = new Set<string>()
+
+  projects.forEach(project => {
+    const projectRoutes = routes.filter(r => project.routes.includes(r.id))
+    const projectWaypoints = waypoints.filter(w => project.waypoints.includes(w.id))
+
+    kml += '    <Folder>\n'
+    kml += `      <name>${escapeXml(project.name)}</name>\n`
+    if (project.description) {
+      kml += `      <description>${escapeXml(project.description)}</description>\n`
+    }
+    projectWaypoints.forEach(w => {
+      kml += formatWaypointPlacemark(w, '      ')
+      inProject.add(w.id)
+    })
+    projectRoutes.forEach(r => {
+      kml += formatRoutePlacemark(r, '      ')
+      inProject.add(r.id)
+    })
+    kml += '    </Folder>\n'
+  })
+
+  waypoints.filter(w => !inProject.has(w.id)).forEach(w => {
+    kml += formatWaypointPlacemark(w, '    ')
+  })
+  routes.filter(r => !inProject.has(r.id)).forEach(r => {
+    kml += formatRoutePlacemark(r, '    ')
+  })
+
+  kml += '  </Document>\n'
+  kml += '</kml>'
+
+  return kml
+}
+
+/**
+ * Packs KML into a KMZ archive (doc.kml inside a ZIP)
+ */
+export async function createKmz(kml: string): Promise<Blob> {
+  const zip = await createZip([{ name: 'doc.kml', data: new TextEncoder().encode(kml) }])
+  return new Blob([zip as BlobPart], { type: 'application/vnd.google-earth.kmz' })
+}
+
+/**
+ * Downloads KML content as a .kml file
+ */
+export function downloadKml(kml: string, filename: string): void {
+  downloadBlob(new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' }), filename, 'kml')
+}
+
+/**
+ * Downloads KML content zipped as a .kmz file
+ */
+export async function downloadKmz(kml: string, filename: string): Promise<void> {
+  downloadBlob(await createKmz(kml), filename, 'kmz')
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+interface ParsedStyle {
+  lineColor?: string
+  iconColor?: string
+}
+
+function descendants(parent: Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName))
+}
+
+function parseStyle(style: Element): ParsedStyle {
+  const line = childElements(style, 'LineStyle')[0]
+  const icon = childElements(style, 'IconStyle')[0]
+  const lineColor = line && childText(line, 'color')
+  const iconColor = icon && childText(icon, 'color')
+
+  return {
+    lineColor: lineColor ? fromKmlColor(lineColor) : undefined,
+    iconColor: iconColor ? fromKmlColor(iconColor) : undefined
+  }
+}
+
+/**
+ * Collects shared styles by id. StyleMaps resolve to their "normal" style.
+ */
+function collectStyles(doc: Document): Map<string, ParsedStyle> {
+  const styles = new Map<string, ParsedStyle>()
+
+  Array.from(doc.getElementsByTagNameNS('*', 'Style')).forEach(style => {
+    const id = style.getAttribute('id')
+    if (id) styles.set(id, parseStyle(style))
+  })
+
+  Array.from(doc.getElementsByTagNameNS('*', 'StyleMap')).forEach(styleMap => {
+    const id = styleMap.getAttribute('id')
+    if (!id) return
+
+    const normal = childElements(styleMap, 'Pair').find(pair => childText(pair, 'key') === 'normal')
+    const target = normal && childText(normal, 'styleUrl')
+    const resolved = target ? styles.get(target.replace(/^.*#/, '')) : undefined
+    if (resolved) styles.set(id, resolved)
+  })
+
+  return styles
+}
+
+function placemarkStyle(placemark: Element, styles: Map<string, ParsedStyle>): ParsedStyle {
+  const inline = childElements(placemark, 'Style')[0]
+  if (inline) return parseStyle(inline)
+
+  const url = childText(placemark, 'styleUrl')
+  return (url && styles.get(url.replace(/^.*#/, ''))) || {}
+}
+
+/**
+ * Parses a KML coordinates string ("lon,lat[,alt] lon,lat[,alt] ...")
+ */
+function parseCoordinates(text: string | null | undefined): ImportedPoint[] {
+  if (!text) return []
+
+  return text
+    .trim()
+    .split(/\s+/)
+    .map(tuple => tuple.split(',').map(Number))
+    .filter(([lon, lat]) => Number.isFinite(lon) && Number.isFinite(lat) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180)
+    .map(([lon, lat, alt]) => ({
+      coordinates: [lon, lat] as [number, number],
+      elevation: Number.isFinite(alt) ? alt : undefined
+    }))
+}
+
+/**
+ * Parses a gx:Track (Google Earth recorded track: <when> times and "lon lat alt" coords)
+ */
+function parseGxTrack(track: Element): ImportedPoint[] {
+  const whens = childElements(track, 'when').map(el => Date.parse(el.textContent?.trim() ?? ''))
+  const points: ImportedPoint[] = []
+
+  childElements(track, 'coord').forEach((el, i) => {
+    const [lon, lat, alt] = (el.textContent ?? '').trim().split(/\s+/).map(Number)
+    if (!Number.isFinite(lon) || !Number.isFinite(lat)) return
+
+    points.push({
+      coordinates: [lon, lat],
+      elevation: Number.isFinite(alt) ? alt : undefined,
+      time: Number.isFinite(whens[i]) ? whens[i] : undefined
+    })
+  })
+
+  return points
+}
+
+// KML descriptions are often HTML; keep the text only
+function plainDescription(description: string | undefined): string | undefined {
+  if (!description) return undefined
+  const doc = new DOMParser().parseFromString(description, 'text/html')
+  const text = (doc.body.textContent || '').replace(/\s+\n/g, '\n').trim()
+  return text || undefined
+}
+
+function extendedValue(placemark: Element, name: string): string | undefined {
+  const extended = childElements(placemark, 'ExtendedData')[0]
+  if (!extended) return undefined
+
+  const data = childElements(extended, 'Data').find(el => el.getAttribute('name') === name)
+  return data ? childText(data, 'value') : undefined
+}
+
+/**
+ * Parses KML XML
+ *
+ * @param xml - KML file contents
+ * @returns Lines, points and folders found in the document
+ * @throws Error if the content is not well-formed KML
+ */
+export function parseKml(xml: string): ImportedCollection {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XML')
+  }
+
+  const root = doc.documentElement
+  if (!root || root.localName !== 'kml') {
+    throw new Error('Not a KML document')
+  }
+
+  const styles = collectStyles(doc)
+  const routes: ImportedRoute[] = []
+  const waypoints: ImportedWaypoint[] = []
+  const folders: ImportedFolder[] = []
+  let documentName: string | undefined
+
+  const handlePlacemark = (placemark: Element, folder: ImportedFolder | null) => {
+    const rawName = childText(placemark, 'name')
+    const description = plainDescription(childText(placemark, 'description'))
+    const style = placemarkStyle(placemark, styles)
+
+    // Lines: LineString(s), possibly inside MultiGeometry, or a gx:Track
+    const segments = [
+      ...descendants(placemark, 'LineString').map(ls => parseCoordinates(childText(ls, 'coordinates'))),
+      ...descendants(placemark, 'Track').map(parseGxTrack)
+    ]
+
+    if (segments.length > 0) {
+      const hasTimes = descendants(placemark, 'Track').length > 0
+      const route = buildImportedRoute(segments, {
+        name: sanitizeImportedName(rawName, `Importert rute ${routes.length + 1}`),
+        description,
+        color: style.lineColor,
+        source: hasTimes ? 'track' : 'route'
+      })
+      if (route) {
+        folder?.routeIndexes.push(routes.length)
+        routes.push(route)
+      }
+      return
+    }
+
+    descendants(placemark, 'Point').forEach(point => {
+      const [parsed] = parseCoordinates(childText(point, 'coordinates'))
+      if (!parsed) return
+
+      const category = extendedValue(placemark, 'category')
+      const when = descendants(placemark, 'when')[0]?.textContent
+      const time = when ? Date.parse(when.trim()) : NaN
+
+      folder?.waypointIndexes.push(waypoints.length)
+      waypoints.push({
+        name: sanitizeImportedName(rawName, `Importert punkt ${waypoints.length + 1}`),
+        description,
+        category: category ? sanitizeImportedName(category, '') || undefined : undefined,
+        coordinates: parsed.coordinates,
+        elevation: parsed.elevation,
+        time: Number.isFinite(time) ? time : undefined,
+        color: style.iconColor
+      })
+    })
+  }
+
+  // Walk Document/Folder hierarchy. Each Folder maps to one project holding its direct placemarks.
+  const walk = (container: Element, folder: ImportedFolder | null) => {
+    Array.from(container.children).forEach(child => {
+      switch (child.localName) {
+        case 'Document':
+          if (documentName === undefined) documentName = childText(child, 'name')
+          walk(child, folder)
+          break
+        case 'Folder': {
+          const subfolder: ImportedFolder = {
+            name: sanitizeImportedName(childText(child, 'name'), `Mappe ${folders.length + 1}`),
+            routeIndexes: [],
+            waypointIndexes: []
+          }
+          folders.push(subfolder)
+          walk(child, subfolder)
+          break
+        }
+        case 'Placemark':
+          handlePlacemark(child, folder)
+          break
+      }
+    })
+  }
+
+  walk(root, null)
+
+  return {
+    name: documentName ? sanitizeImportedName(documentName, '') || undefined : undefined,
+    routes,
+    waypoints,
+    folders: folders.filter(f => f.routeIndexes.length > 0 || f.waypointIndexes.length > 0)
+  }
+}
+
+/**
+ * Reads and parses a .kml or .kmz file selected by the user
+ */
+export async function readKmlFile(file: File): Promise<ImportedCollection> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new Error('File too large')
+  }
+
+  const buffer = await file.arrayBuffer()
+  const bytes = new Uint8Array(buffer)
+
+  // KMZ is a ZIP file ("PK" signature); the main document is doc.kml or the first .kml entry
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    const entries = await readZip(buffer, MAX_KMZ_UNZIPPED_SIZE)
+    const kmlEntry = entries.find(e => e.name.toLowerCase() === 'doc.kml')
+      ?? entries.find(e => e.name.toLowerCase().endsWith('.kml'))
+
+    if (!kmlEntry) {
+      throw new Error('KMZ archive contains no KML document')
+    }
+
+    return parseKml(new TextDecoder().decode(kmlEntry.data))
+  }
+
+  return parseKml(new TextDecoder().decode(bytes))
+}
@@ -0,0 +1,89 @@
+// Map URL State Utility for Tråkke PWA
+// Map view, base layer and POI categories in the URL fragment, so a view can be
+// bookmarked, survives reloads and can be sent as a link:
+//   #map=<zoom>/<lat>/<lon>[/<bearing>]&layer=topo&poi=caves,shelters
+// Other fragment parameters (share links, auth callbacks) are left untouched.
+
+import { MAP_CONFIG, type BaseLayerType } from '../constants'
+import { poiService, type AnyCategoryId } from '../services/poiService'
+
+export interface MapUrlState {
+  center: [number, number] // [lon, lat]
+  zoom: number
+  bearing: number
+  layer?: BaseLayerType
+  poi: AnyCategoryId[]
+}
+
+const BASE_LAYERS: BaseLayerType[] = ['topo', 'grayscale', 'satellite']
+const COORDINATE_DECIMALS = 5 // ~1 m
+const ZOOM_DECIMALS = 2
+
+const round = (value: number, decimals: number): string => String(Number(value.toFixed(decimals)))
+
+function isCategoryId(id: string): id is AnyCategoryId {
+  return /^supabase:[\w-]+$/.test(id) || poiService.getAllCategories().some(config => config.id === id)
+}
+
+/**
+ * Read the map state from a URL fragment
+ *
+ * @returns The state, or null if the fragment has no valid map view
+ */
+export function parseMapUrlState(hash: string): MapUrlState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const view = params.get('map')?.split('/').map(Number)
+  if (!view || view.length < 3 || view.length > 4 || view.some(value => !Number.isFinite(value))) {
+    return null
+  }
+
+  const [zoom, lat, lon, bearing = 0] = view
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null
+
+  const layer = params.get('layer')
+  const poi = params.get('poi')
+
+  return {
+    center: [lon, lat],
+    zoom: Math.min(Math.max(zoom, MAP_CONFIG.MIN_ZOOM), MAP_CONFIG.MAX_ZOOM),
+    bearing: ((bearing % 360) + 360) % 360,
+    layer: BASE_LAYERS.find(l => l === layer),
+    poi: poi ? poi.split(',').filter(isCategoryId) : []
+  }
+}
+
+/**
+ * Set, replace or remove fragment parameters, keeping the others as they are
+ *
+ * @param updates Raw values (not encoded), or undefined to remove the parameter
+ * @returns The new fragment including '#', or '' when nothing is left
+ */
+export function updateHashParams(hash: string, updates: Record<string, string | undefined>): string {
+  const parts = hash.replace(/^#/, '').split('&').filter(part => {
+    const key = part.split('=')[0]
+    return part && !(key in updates)
+  })
+
+  const added = Object.entries(updates)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([key, value]) => `${key}=${value}`)
+
+  const result = [...added, ...parts].join('&')
+  return result ? `#${result}` : ''
+}
+
+/**
+ * Write the map state into a URL fragment
+ */
+export function formatMapUrlState(hash: string, state: MapUrlState): string {
+  const [lon, lat] = state.center
+  const bearing = ((Math.round(state.bearing) % 360) + 360) % 360
+  const view = [round(state.zoom, ZOOM_DECIMALS), round(lat, COORDINATE_DECIMALS), round(lon, COORDINATE_DECIMALS)]
+  if (bearing !== 0) view.push(String(bearing))
+
+  return updateHashParams(hash, {
+    map: view.join('/'),
+    layer: state.layer,
+    poi: state.poi.length > 0 ? state.poi.join(',') : undefined
+  })
+}
@@ -0,0 +1,359 @@
+// PMTiles Utility for Tråkke PWA
+// Minimal PMTiles v3 reader/writer (no server, no dependencies), used for offline map packages.
+// An archive holds tiles ordered along a Hilbert curve, found through (leaf) directories.
+// Reads uncompressed or gzip directories; writes gzip directories and uncompressed tiles.
+
+import { gzip, gunzip } from './zip'
+
+export type PmtilesTileType = 'unknown' | 'mvt' | 'png' | 'jpeg' | 'webp' | 'avif'
+
+export interface PmtilesBounds {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+export interface PmtilesTile {
+  z: number
+  x: number
+  y: number
+  data: Uint8Array
+}
+
+export interface PmtilesArchive {
+  tileType: PmtilesTileType
+  minZoom: number
+  maxZoom: number
+  bounds: PmtilesBounds
+  metadata: Record<string, unknown>
+  tileCount: number // Addressed tiles; repeated tiles count once per position
+  tiles(): Generator<PmtilesTile>
+}
+
+interface DirectoryEntry {
+  tileId: number
+  offset: number
+  length: number
+  runLength: number // 0 for a leaf directory
+}
+
+const MAGIC = 'PMTiles'
+const VERSION = 3
+const HEADER_SIZE = 127
+const MAX_ROOT_SIZE = 16384 - HEADER_SIZE // Header and root directory fit in the first 16 KiB
+const MAX_ZOOM = 26 // Tile IDs stay exact as doubles up to here
+const MAX_DIRECTORY_DEPTH = 4
+const FLUSH_SIZE = 4 * 1024 * 1024 // Tile data is moved into the output Blob 4 MB at a time
+
+const COMPRESSION_UNKNOWN = 0
+const COMPRESSION_NONE = 1
+const COMPRESSION_GZIP = 2
+
+const TILE_TYPES: PmtilesTileType[] = ['unknown', 'mvt', 'png', 'jpeg', 'webp', 'avif']
+
+const COORDINATE_SCALE = 1e7
+
+// Rotate a Hilbert curve quadrant
+function rotate(size: number, x: number, y: number, rx: number, ry: number): [number, number] {
+  if (ry !== 0) return [x, y]
+  if (rx === 1) {
+    x = size - 1 - x
+    y = size - 1 - y
+  }
+  return [y, x]
+}
+
+function zxyToTileId(z: number, x: number, y: number): number {
+  const size = 2 ** z
+  let id = (4 ** z - 1) / 3 // Tiles on lower zoom levels
+  for (let s = size / 2; s >= 1; s /= 2) {
+    const rx = (x & s) > 0 ? 1 : 0
+    const ry = (y & s) > 0 ? 1 : 0
+    id += s * s * ((3 * rx) ^ ry)
+    ;[x, y] = rotate(size, x, y, rx, ry)
+  }
+  return id
+}
+
+function tileIdToZxy(tileId: number): [number, number, number] {
+  let first = 0
+  for (let z = 0; z <= MAX_ZOOM; z++) {
+    const count = 4 ** z
+    if (tileId < first + count) {
+      let position = tileId - first
+      let x = 0
+      let y = 0
+      for (let s = 1; s < 2 ** z; s *= 2) {
+        const rx = Math.floor(position / 2) % 2
+        const ry = (position % 2) ^ rx
+        ;[x, y] = rotate(s, x, y, rx, ry)
+        x += s * rx
+        y += s * ry
+        position = Math.floor(position / 4)
+      }
+      return [z, x, y]
+    }
+    first += count
+  }
+  throw new Error(`Invalid PMTiles tile ID: ${tileId}`)
+}
+
+// Directories use unsigned LEB128 varints
+function readVarint(data: Uint8Array, position: number): [number, number] {
+  let value = 0
+  let factor = 1
+  for (let i = 0; i < 10; i++) {
+    const byte = data[position + i]
+    if (byte === undefined) break
+    value += (byte & 0x7f) * factor
+    if (byte < 0x80) return [value, i + 1]
+    factor *= 128
+  }
+  throw new Error('Corrupt PMTiles directory')
+}
+
+function writeVarint(output: number[], value: number): void {
+  while (value >= 0x80) {
+    output.push((value % 128) | 0x80)
+    value = Math.floor(value / 128)
+  }
+  output.push(value)
+}
+
+function parseDirectory(data: Uint8Array): DirectoryEntry[] {
+  let position = 0
+  const next = (): number => {
+    const [value, length] = readVarint(data, position)
+    position += length
+    return value
+  }
+
+  const count = next()
+  const entries: DirectoryEntry[] = []
+  let tileId = 0
+  for (let i = 0; i < count; i++) {
+    tileId += next()
+    entries.push({ tileId, offset: 0, length: 0, runLength: 0 })
+  }
+  for (const entry of entries) entry.runLength = next()
+  for (const entry of entries) entry.length = next()
+  entries.forEach((entry, i) => {
+    // 0 means "right after the previous entry"
+    const value = next()
+    entry.offset = value === 0 && i > 0 ? entries[i - 1].offset + entries[i - 1].length : value - 1
+  })
+  return entries
+}
+
+function serializeDirectory(entries: DirectoryEntry[]): Uint8Array {
+  const output: number[] = []
+  writeVarint(output, entries.length)
+  let tileId = 0
+  for (const entry of entries) {
+    writeVarint(output, entry.tileId - tileId)
+    tileId = entry.tileId
+  }
+  for (const entry of entries) writeVarint(output, entry.runLength)
+  for (const entry of entries) writeVarint(output, entry.length)
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1]
+    writeVarint(output, previous && entry.offset === previous.offset + previous.length ? 0 : entry.offset + 1)
+  })
+  return new Uint8Array(output)
+}
+
+/**
+ * Reads a PMTiles v3 archive
+ *
+ * @throws Error if the file is not a PMTiles archive or uses unsupported features
+ */
+export async function readPmtiles(buffer: ArrayBuffer): Promise<PmtilesArchive> {
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+
+  if (bytes.length < HEADER_SIZE || new TextDecoder().decode(bytes.subarray(0, 7)) !== MAGIC) {
+    throw new Error('Not a PMTiles archive')
+  }
+  if (bytes[7] !== VERSION) {
+    throw new Error(`Unsupported PMTiles version: ${bytes[7]}`)
+  }
+
+  const uint64 = (offset: number) => view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32
+  const rootOffset = uint64(8)
+  const rootLength = uint64(16)
+  const metadataOffset = uint64(24)
+  const metadataLength = uint64(32)
+  const leafOffset = uint64(40)
+  const tileDataOffset = uint64(56)
+  const tileCount = uint64(72)
+  const internalCompression = bytes[97]
+  const tileCompression = bytes[98]
+
+  if (tileCompression !== COMPRESSION_NONE && tileCompression !== COMPRESSION_UNKNOWN) {
+    throw new Error(`Unsupported PMTiles tile compression: ${tileCompression}`)
+  }
+
+  const section = (offset: number, length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new Error('Corrupt PMTiles archive (truncated)')
+    }
+    return bytes.subarray(offset, offset + length)
+  }
+
+  const decompress = async (data: Uint8Array): Promise<Uint8Array> => {
+    if (internalCompression === COMPRESSION_NONE) return data
+    if (internalCompression === COMPRESSION_GZIP) return gunzip(data)
+    throw new Error(`Unsupported PMTiles compression: ${internalCompression}`)
+  }
+
+  // Flatten leaf directories into one list of tile entries
+  const entries: DirectoryEntry[] = []
+  const readDirectory = async (offset: number, length: number, depth: number): Promise<void> => {
+    if (depth > MAX_DIRECTORY_DEPTH) {
+      throw new Error('Corrupt PMTiles archive (directory depth)')
+    }
+    for (const entry of parseDirectory(await decompress(section(offset, length)))) {
+      if (entry.runLength === 0) {
+        await readDirectory(leafOffset + entry.offset, entry.length, depth + 1)
+      } else {
+        entries.push(entry)
+      }
+    }
+  }
+  await readDirectory(rootOffset, rootLength, 0)
+
+  let metadata: Record<string, unknown> = {}
+  if (metadataLength > 0) {
+    try {
+      const parsed = JSON.parse(new TextDecoder().decode(await decompress(section(metadataOffset, metadataLength))))
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) metadata = parsed
+    } catch {
+      throw new Error('Corrupt PMTiles metadata')
+    }
+  }
+
+  return {
+    tileType: TILE_TYPES[bytes[99]] ?? 'unknown',
+    minZoom: bytes[100],
+    maxZoom: bytes[101],
+    bounds: {
+      west: view.getInt32(102, true) / COORDINATE_SCALE,
+      south: view.getInt32(106, true) / COORDINATE_SCALE,
+      east: view.getInt32(110, true) / COORDINATE_SCALE,
+      north: view.getInt32(114, true) / COORDINATE_SCALE
+    },
+    metadata,
+    tileCount: tileCount || entries.reduce((sum, entry) => sum + entry.runLength, 0),
+    *tiles(): Generator<PmtilesTile> {
+      for (const entry of entries) {
+        const data = section(tileDataOffset + entry.offset, entry.length)
+        for (let i = 0; i < entry.runLength; i++) {
+          const [z, x, y] = tileIdToZxy(entry.tileId + i)
+          yield { z, x, y, data }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Creates a PMTiles v3 archive. Tile data is written in the order it arrives and only the
+ * directory is kept in memory, so tiles can come from an async source.
+ *
+ * @param tiles - Tiles in any order, each position once; clustered if in tile ID order
+ * @returns Archive file contents
+ */
+export async function createPmtiles(
+  tiles: Iterable<PmtilesTile> | AsyncIterable<PmtilesTile>,
+  options: { tileType: PmtilesTileType; bounds: PmtilesBounds; metadata: Record<string, unknown> }
+): Promise<Blob> {
+  const entries: DirectoryEntry[] = []
+  const tileData: Blob[] = []
+  let pending: Uint8Array[] = []
+  let pendingLength = 0
+  let offset = 0
+  let clustered = true
+  let minZoom = Infinity
+  let maxZoom = 0
+
+  for await (const tile of tiles) {
+    const tileId = zxyToTileId(tile.z, tile.x, tile.y)
+    if (entries.length > 0 && tileId < entries[entries.length - 1].tileId) clustered = false
+    entries.push({ tileId, offset, length: tile.data.length, runLength: 1 })
+    offset += tile.data.length
+    minZoom = Math.min(minZoom, tile.z)
+    maxZoom = Math.max(maxZoom, tile.z)
+
+    pending.push(tile.data)
+    pendingLength += tile.data.length
+    if (pendingLength >= FLUSH_SIZE) {
+      tileData.push(new Blob(pending as BlobPart[]))
+      pending = []
+      pendingLength = 0
+    }
+  }
+  tileData.push(new Blob(pending as BlobPart[]))
+  const tileDataLength = offset
+  if (entries.length === 0) minZoom = 0
+
+  // Directories are in tile ID order; the offsets say where each tile's data is
+  if (!clustered) entries.sort((a, b) => a.tileId - b.tileId)
+
+  // Split into leaf directories, larger each time, until the root fits
+  let root = await gzip(serializeDirectory(entries))
+  let leaves: Uint8Array[] = []
+  for (let leafSize = 4096; root.length > MAX_ROOT_SIZE; leafSize *= 2) {
+    leaves = []
+    const rootEntries: DirectoryEntry[] = []
+    let leafOffset = 0
+    for (let i = 0; i < entries.length; i += leafSize) {
+      const leaf = await gzip(serializeDirectory(entries.slice(i, i + leafSize)))
+      rootEntries.push({ tileId: entries[i].tileId, offset: leafOffset, length: leaf.length, runLength: 0 })
+      leaves.push(leaf)
+      leafOffset += leaf.length
+    }
+    root = await gzip(serializeDirectory(rootEntries))
+  }
+  const leavesLength = leaves.reduce((sum, leaf) => sum + leaf.length, 0)
+
+  const metadata = await gzip(new TextEncoder().encode(JSON.stringify(options.metadata)))
+  const { west, south, east, north } = options.bounds
+
+  const header = new Uint8Array(HEADER_SIZE)
+  const view = new DataView(header.buffer)
+  const setUint64 = (position: number, value: number) => {
+    view.setUint32(position, value % 2 ** 32, true)
+    view.setUint32(position + 4, Math.floor(value / 2 ** 32), true)
+  }
+
+  header.set(new TextEncoder().encode(MAGIC))
+  header[7] = VERSION
+  setUint64(8, HEADER_SIZE) // Root directory
+  setUint64(16, root.length)
+  setUint64(24, HEADER_SIZE + root.length) // Metadata
+  setUint64(32, metadata.length)
+  setUint64(40, HEADER_SIZE + root.length + metadata.length) // Leaf directories
+  setUint64(48, leavesLength)
+  setUint64(56, HEADER_SIZE + root.length + metadata.length + leavesLength) // Tile data
+  setUint64(64, tileDataLength)
+  setUint64(72, entries.length) // Addressed tiles
+  setUint64(80, entries.length) // Tile entries
+  setUint64(88, entries.length) // Tile contents
+  header[96] = clustered ? 1 : 0 // Clustered: tile data is in tile ID order
+  header[97] = COMPRESSION_GZIP
+  header[98] = COMPRESSION_NONE
+  header[99] = TILE_TYPES.indexOf(options.tileType)
+  header[100] = minZoom
+  header[101] = maxZoom
+  view.setInt32(102, Math.round(west * COORDINATE_SCALE), true)
+  view.setInt32(106, Math.round(south * COORDINATE_SCALE), true)
+  view.setInt32(110, Math.round(east * COORDINATE_SCALE), true)
+  view.setInt32(114, Math.round(north * COORDINATE_SCALE), true)
+  header[118] = minZoom // Center zoom
+  view.setInt32(119, Math.round(((west + east) / 2) * COORDINATE_SCALE), true)
+  view.setInt32(123, Math.round(((south + north) / 2) * COORDINATE_SCALE), true)
+
+  const parts = [header, root, metadata, ...leaves, ...tileData]
+  return new Blob(parts as BlobPart[], { type: 'application/octet-stream' })
+}
@@ -0,0 +1,74 @@
+// Encoded Polyline Utility for Tråkke PWA
+// Google's encoded polyline algorithm: coordinates as delta-encoded integers in printable ASCII.
+// Used for compact route geometry in share links.
+
+const DEFAULT_PRECISION = 5 // ~1 m
+
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1
+  let output = ''
+  while (v >= 0x20) {
+    output += String.fromCharCode((0x20 | (v & 0x1f)) + 63)
+    v >>= 5
+  }
+  return output + String.fromCharCode(v + 63)
+}
+
+/**
+ * Encode [lon, lat] coordinates as a polyline string (lat before lon, as in the original format)
+ */
+export function encodePolyline(coordinates: Array<[number, number]>, precision = DEFAULT_PRECISION): string {
+  const factor = 10 ** precision
+  let prevLat = 0
+  let prevLon = 0
+  let output = ''
+
+  for (const [lon, lat] of coordinates) {
+    const latValue = Math.round(lat * factor)
+    const lonValue = Math.round(lon * factor)
+    output += encodeValue(latValue - prevLat) + encodeValue(lonValue - prevLon)
+    prevLat = latValue
+    prevLon = lonValue
+  }
+
+  return output
+}
+
+/**
+ * Decode a polyline string to [lon, lat] coordinates
+ *
+ * @throws Error if the string is not a valid polyline
+ */
+export function decodePolyline(encoded: string, precision = DEFAULT_PRECISION): Array<[number, number]> {
+  const factor = 10 ** precision
+  const coordinates: Array<[number, number]> = []
+  let index = 0
+  let lat = 0
+  let lon = 0
+
+  const readValue = (): number => {
+    let result = 0
+    let shift = 0
+    let byte: number
+    do {
+      if (index >= encoded.length) {
+        throw new Error('Invalid polyline: unexpected end')
+      }
+      byte = encoded.charCodeAt(index++) - 63
+      if (byte < 0 || byte > 0x3f) {
+        throw new Error('Invalid polyline: unexpected character')
+      }
+      result |= (byte & 0x1f) << shift
+      shift += 5
+    } while (byte >= 0x20)
+    return result & 1 ? ~(result >> 1) : result >> 1
+  }
+
+  while (index < encoded.length) {
+    lat += readValue()
+    lon += readValue()
+    coordinates.push([lon / factor, lat / factor])
+  }
+
+  return coordinates
+}
@@ -0,0 +1,53 @@
+/**
+ * Line simplification (Douglas-Peucker)
+ * Removes points that deviate less than a tolerance in meters from the simplified line
+ */
+
+const METERS_PER_DEGREE = 111320
+
+/**
+ * Simplify a line of [lon, lat] coordinates. The first and last points are always kept.
+ * Distances use a local equirectangular projection, which is accurate enough at hiking scale.
+ *
+ * @param coordinates Line to simplify
+ * @param tolerance Maximum deviation in meters
+ */
+export function simplifyLine(coordinates: Array<[number, number]>, tolerance: number): Array<[number, number]> {
+  if (coordinates.length <= 2 || tolerance <= 0) return coordinates
+
+  const lonScale = METERS_PER_DEGREE * Math.cos((coordinates[0][1] * Math.PI) / 180)
+  const points = coordinates.map(([lon, lat]) => [lon * lonScale, lat * METERS_PER_DEGREE])
+  const keep = new Uint8Array(coordinates.length)
+  keep[0] = 1
+  keep[coordinates.length - 1] = 1
+
+  // Explicit stack instead of recursion, so long recorded tracks can't overflow the call stack
+  const stack: Array<[number, number]> = [[0, coordinates.length - 1]]
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!
+    const [ax, ay] = points[first]
+    const [bx, by] = points[last]
+    const dx = bx - ax
+    const dy = by - ay
+    const lengthSquared = dx * dx + dy * dy
+
+    let maxDistance = 0
+    let maxIndex = -1
+    for (let i = first + 1; i < last; i++) {
+      const [px, py] = points[i]
+      const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared)) : 0
+      const distance = Math.hypot(px - (ax + t * dx), py - (ay + t * dy))
+      if (distance > maxDistance) {
+        maxDistance = distance
+        maxIndex = i
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep[maxIndex] = 1
+      stack.push([first, maxIndex], [maxIndex, last])
+    }
+  }
+
+  return coordinates.filter((_, i) => keep[i])
+}
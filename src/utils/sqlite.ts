@@ -0,0 +1,594 @@
+// SQLite Utility for Tråkke PWA
+// Minimal SQLite database reader/writer (no server, no dependencies), used for MBTiles files.
+// Reads rowid tables, including overflow pages; writes new databases with tables and indexes.
+// No SQL engine: views, WITHOUT ROWID tables and WAL files are not supported.
+
+export type SqliteValue = number | string | Uint8Array | null
+
+export interface SqliteIndexDefinition {
+  name: string
+  sql: string // CREATE INDEX statement, stored in the schema
+  columns: number[] // Positions of the indexed columns, in key order
+}
+
+export interface SqliteTableDefinition {
+  name: string
+  sql: string // CREATE TABLE statement, stored in the schema
+  rows: Iterable<SqliteValue[]> | AsyncIterable<SqliteValue[]>
+  indexes?: SqliteIndexDefinition[]
+}
+
+export interface SqliteTable {
+  name: string
+  columns: string[]
+  rootPage: number
+  rowidColumn: number // Column that aliases the rowid (INTEGER PRIMARY KEY), or -1
+}
+
+export interface SqliteDatabase {
+  tables: Map<string, SqliteTable>
+  readRows(table: string): Generator<SqliteValue[]>
+}
+
+const HEADER_STRING = 'SQLite format 3\0'
+const HEADER_SIZE = 100
+const PAGE_SIZE = 4096
+const SQLITE_VERSION = 3045000 // Written to the header; any 3.x reads the file
+const FLUSH_PAGES = 1024 // Finished pages are moved into the output Blob 4 MB at a time
+
+const TABLE_INTERIOR = 0x05
+const TABLE_LEAF = 0x0d
+const INDEX_INTERIOR = 0x02
+const INDEX_LEAF = 0x0a
+
+const INTEGER_SIZES = [0, 1, 2, 3, 4, 6, 8] // Bytes per integer serial type 1-6
+
+/**
+ * Payload bytes kept on a b-tree page; the rest goes to overflow pages
+ */
+function localPayloadSize(payloadSize: number, usableSize: number, isTable: boolean): number {
+  const maxLocal = isTable ? usableSize - 35 : Math.floor(((usableSize - 12) * 64) / 255) - 23
+  if (payloadSize <= maxLocal) return payloadSize
+
+  const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23
+  const size = minLocal + ((payloadSize - minLocal) % (usableSize - 4))
+  return size <= maxLocal ? size : minLocal
+}
+
+function readVarint(bytes: Uint8Array, position: number): [number, number] {
+  let value = 0
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[position + i]
+    value = value * 128 + (byte & 0x7f)
+    if (byte < 0x80) return [value, i + 1]
+  }
+  return [value * 256 + bytes[position + 8], 9]
+}
+
+// Non-negative values below 2^56, which covers rowids, sizes and serial types here
+function encodeVarint(value: number): number[] {
+  const bytes = [value % 128]
+  value = Math.floor(value / 128)
+  while (value > 0) {
+    bytes.unshift((value % 128) | 0x80)
+    value = Math.floor(value / 128)
+  }
+  return bytes
+}
+
+function readInteger(bytes: Uint8Array, position: number, size: number): number {
+  let value = 0
+  for (let i = 0; i < size; i++) {
+    value = value * 256 + bytes[position + i]
+  }
+  const limit = 2 ** (size * 8)
+  return value >= limit / 2 ? value - limit : value
+}
+
+function writeInteger(target: Uint8Array, position: number, value: number, size: number): void {
+  let remaining = value < 0 ? value + 2 ** (size * 8) : value
+  for (let i = size - 1; i >= 0; i--) {
+    target[position + i] = remaining % 256
+    remaining = Math.floor(remaining / 256)
+  }
+}
+
+// SQLite sort order: NULL, numbers, text, blobs
+function compareValues(a: SqliteValue, b: SqliteValue): number {
+  const rank = (value: SqliteValue) =>
+    value === null ? 0 : typeof value === 'number' ? 1 : typeof value === 'string' ? 2 : 3
+  if (rank(a) !== rank(b)) return rank(a) - rank(b)
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i]
+    }
+    return a.length - b.length
+  }
+  return 0
+}
+
+// Record format: header (size, then one serial type per value) followed by the values
+function encodeRecord(values: SqliteValue[]): Uint8Array {
+  const encoder = new TextEncoder()
+  const types: number[] = []
+  const bodies: Uint8Array[] = []
+
+  for (const value of values) {
+    if (value === null) {
+      types.push(0)
+    } else if (typeof value === 'number' && Number.isInteger(value) && Math.abs(value) < 2 ** 47) {
+      if (value === 0 || value === 1) {
+        types.push(value === 0 ? 8 : 9)
+        continue
+      }
+      const type = [1, 2, 3, 4, 5].find(t => Math.abs(value) < 2 ** (INTEGER_SIZES[t] * 8 - 1)) ?? 6
+      const body = new Uint8Array(INTEGER_SIZES[type])
+      writeInteger(body, 0, value, body.length)
+      types.push(type)
+      bodies.push(body)
+    } else if (typeof value === 'number') {
+      const body = new Uint8Array(8)
+      new DataView(body.buffer).setFloat64(0, value)
+      types.push(7)
+      bodies.push(body)
+    } else if (typeof value === 'string') {
+      const body = encoder.encode(value)
+      types.push(13 + body.length * 2)
+      bodies.push(body)
+    } else {
+      types.push(12 + value.length * 2)
+      bodies.push(value)
+    }
+  }
+
+  const typeBytes = types.flatMap(encodeVarint)
+  let headerSize = typeBytes.length + 1
+  if (encodeVarint(headerSize).length > 1) headerSize = typeBytes.length + encodeVarint(typeBytes.length + 2).length
+
+  const bodySize = bodies.reduce((sum, body) => sum + body.length, 0)
+  const record = new Uint8Array(headerSize + bodySize)
+  record.set([...encodeVarint(headerSize), ...typeBytes])
+  let position = headerSize
+  for (const body of bodies) {
+    record.set(body, position)
+    position += body.length
+  }
+  return record
+}
+
+function decodeRecord(payload: Uint8Array, decoder: TextDecoder): SqliteValue[] {
+  const [headerSize, headerSizeLength] = readVarint(payload, 0)
+  const types: number[] = []
+  for (let position = headerSizeLength; position < headerSize;) {
+    const [type, length] = readVarint(payload, position)
+    types.push(type)
+    position += length
+  }
+
+  const values: SqliteValue[] = []
+  let position = headerSize
+  for (const type of types) {
+    if (type === 0) {
+      values.push(null)
+    } else if (type <= 6) {
+      values.push(readInteger(payload, position, INTEGER_SIZES[type]))
+      position += INTEGER_SIZES[type]
+    } else if (type === 7) {
+      values.push(new DataView(payload.buffer, payload.byteOffset + position, 8).getFloat64(0))
+      position += 8
+    } else if (type === 8 || type === 9) {
+      values.push(type - 8)
+    } else if (type >= 12) {
+      const length = Math.floor((type - 12) / 2)
+      const data = payload.subarray(position, position + length)
+      values.push(type % 2 === 0 ? data : decoder.decode(data))
+      position += length
+    } else {
+      throw new Error(`Invalid SQLite record (serial type ${type})`)
+    }
+  }
+  return values
+}
+
+/**
+ * Column names from a CREATE TABLE statement
+ */
+function parseColumns(sql: string): { columns: string[]; rowidColumn: number } {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'))
+
+  // Split on commas outside parentheses and quotes
+  const definitions: string[] = []
+  let depth = 0
+  let quote: string | null = null
+  let start = 0
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char
+    } else if (char === '[') {
+      quote = ']'
+    } else if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      depth--
+    } else if (char === ',' && depth === 0) {
+      definitions.push(body.slice(start, i))
+      start = i + 1
+    }
+  }
+  definitions.push(body.slice(start))
+
+  const columns: string[] = []
+  let rowidColumn = -1
+  for (const definition of definitions.map(d => d.trim())) {
+    if (/^(constraint|primary\s+key|unique|check|foreign\s+key)\b/i.test(definition)) continue
+    const match = /^(?:"([^"]*)"|`([^`]*)`|\[([^\]]*)\]|'([^']*)'|(\S+))(.*)$/s.exec(definition)
+    if (!match) continue
+    if (/^\s+integer\s+primary\s+key\b/i.test(match[6])) rowidColumn = columns.length
+    columns.push((match[1] ?? match[2] ?? match[3] ?? match[4] ?? match[5]).toLowerCase())
+  }
+  return { columns, rowidColumn }
+}
+
+/**
+ * Opens a SQLite database file for reading
+ *
+ * @throws Error if the file is not a SQLite database
+ */
+export function openSqlite(buffer: ArrayBuffer): SqliteDatabase {
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+
+  if (bytes.length < HEADER_SIZE || new TextDecoder().decode(bytes.subarray(0, 16)) !== HEADER_STRING) {
+    throw new Error('Not a SQLite database')
+  }
+
+  const rawPageSize = view.getUint16(16)
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize
+  const usableSize = pageSize - bytes[20]
+  const pageCount = Math.floor(bytes.length / pageSize)
+  const encoding = view.getUint32(56)
+  const decoder = new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8')
+
+  const pageOffset = (page: number): number => {
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      throw new Error(`Corrupt SQLite database (page ${page})`)
+    }
+    return (page - 1) * pageSize
+  }
+
+  const readPayload = (position: number, payloadSize: number): Uint8Array => {
+    const localSize = localPayloadSize(payloadSize, usableSize, true)
+    if (localSize === payloadSize) return bytes.subarray(position, position + payloadSize)
+
+    const payload = new Uint8Array(payloadSize)
+    payload.set(bytes.subarray(position, position + localSize))
+    let copied = localSize
+    let overflowPage = view.getUint32(position + localSize)
+    while (copied < payloadSize) {
+      const offset = pageOffset(overflowPage)
+      const length = Math.min(usableSize - 4, payloadSize - copied)
+      payload.set(bytes.subarray(offset + 4, offset + 4 + length), copied)
+      copied += length
+      overflowPage = view.getUint32(offset)
+    }
+    return payload
+  }
+
+  // Rows of a table b-tree in rowid order
+  function* readTable(rootPage: number): Generator<{ rowid: number; record: SqliteValue[] }> {
+    const stack = [rootPage]
+    const visited = new Set<number>()
+
+    while (stack.length > 0) {
+      const page = stack.pop()!
+      if (visited.has(page)) throw new Error('Corrupt SQLite database (b-tree loop)')
+      visited.add(page)
+
+      const offset = pageOffset(page)
+      const header = page === 1 ? offset + HEADER_SIZE : offset
+      const type = bytes[header]
+      const cellCount = view.getUint16(header + 3)
+
+      if (type === TABLE_INTERIOR) {
+        // Push right to left, so the leftmost child is read first
+        stack.push(view.getUint32(header + 8))
+        for (let i = cellCount - 1; i >= 0; i--) {
+          stack.push(view.getUint32(offset + view.getUint16(header + 12 + i * 2)))
+        }
+      } else if (type === TABLE_LEAF) {
+        for (let i = 0; i < cellCount; i++) {
+          let position = offset + view.getUint16(header + 8 + i * 2)
+          const [payloadSize, sizeLength] = readVarint(bytes, position)
+          position += sizeLength
+          const [rowid, rowidLength] = readVarint(bytes, position)
+          position += rowidLength
+          yield { rowid, record: decodeRecord(readPayload(position, payloadSize), decoder) }
+        }
+      } else {
+        throw new Error(`Corrupt SQLite database (page type ${type})`)
+      }
+    }
+  }
+
+  const tables = new Map<string, SqliteTable>()
+  for (const { record } of readTable(1)) {
+    const [type, name, , rootPage, sql] = record
+    if (type !== 'table' || typeof name !== 'string' || typeof rootPage !== 'number' || typeof sql !== 'string') continue
+    if (/without\s+rowid/i.test(sql)) continue
+    tables.set(name.toLowerCase(), { name, rootPage, ...parseColumns(sql) })
+  }
+
+  return {
+    tables,
+    *readRows(name: string): Generator<SqliteValue[]> {
+      const table = tables.get(name.toLowerCase())
+      if (!table) throw new Error(`No such table: ${name}`)
+
+      for (const { rowid, record } of readTable(table.rootPage)) {
+        // Columns added later (ALTER TABLE) are missing from older rows
+        const row = table.columns.map((_, i) => record[i] ?? null)
+        if (table.rowidColumn >= 0) row[table.rowidColumn] = rowid
+        yield row
+      }
+    }
+  }
+}
+
+/**
+ * Creates a SQLite database with the given tables. Rows get rowids from 1 in order.
+ * Rows are read as they are written, so they can come from an async source without being held in memory.
+ *
+ * @param applicationId - Stored in the header, e.g. to mark MBTiles files
+ * @returns Database file contents
+ */
+export async function createSqlite(tables: SqliteTableDefinition[], applicationId = 0): Promise<Blob> {
+  const firstPage = new Uint8Array(PAGE_SIZE) // Header and schema, written last
+  const parts: Blob[] = []
+  let pending: Uint8Array[] = [] // Pages not yet moved into parts
+  let firstPending = 2 // Page number of pending[0]
+  let pageCount = 1
+
+  const getPage = (page: number): Uint8Array => page === 1 ? firstPage : pending[page - firstPending]
+
+  const allocatePage = (): number => {
+    pending.push(new Uint8Array(PAGE_SIZE))
+    return ++pageCount
+  }
+
+  // Only call between cells: every page allocated so far must be finished
+  const flushPages = (): void => {
+    if (pending.length < FLUSH_PAGES) return
+    parts.push(new Blob(pending as BlobPart[]))
+    firstPending += pending.length
+    pending = []
+  }
+
+  const writePage = (page: number, type: number, cells: Uint8Array[], rightChild = 0): void => {
+    const data = getPage(page)
+    const view = new DataView(data.buffer)
+    const header = page === 1 ? HEADER_SIZE : 0
+    const isInterior = type === TABLE_INTERIOR || type === INDEX_INTERIOR
+    const pointers = header + (isInterior ? 12 : 8)
+
+    let contentStart = PAGE_SIZE
+    cells.forEach((cell, i) => {
+      contentStart -= cell.length
+      data.set(cell, contentStart)
+      view.setUint16(pointers + i * 2, contentStart)
+    })
+    if (contentStart < pointers + cells.length * 2) {
+      throw new Error('SQLite page overflow')
+    }
+
+    data[header] = type
+    view.setUint16(header + 3, cells.length)
+    view.setUint16(header + 5, contentStart)
+    if (isInterior) view.setUint32(header + 8, rightChild)
+  }
+
+  // Cell payload with the part that doesn't fit on the page moved to overflow pages
+  const payloadCell = (prefix: number[], payload: Uint8Array, isTable: boolean): Uint8Array => {
+    const localSize = localPayloadSize(payload.length, PAGE_SIZE, isTable)
+    const hasOverflow = localSize < payload.length
+    const cell = new Uint8Array(prefix.length + localSize + (hasOverflow ? 4 : 0))
+    cell.set(prefix)
+    cell.set(payload.subarray(0, localSize), prefix.length)
+
+    if (hasOverflow) {
+      let position = localSize
+      let previous: { data: Uint8Array; offset: number } = { data: cell, offset: prefix.length + localSize }
+      while (position < payload.length) {
+        const page = allocatePage()
+        new DataView(previous.data.buffer, previous.data.byteOffset).setUint32(previous.offset, page)
+        const data = getPage(page)
+        const length = Math.min(PAGE_SIZE - 4, payload.length - position)
+        data.set(payload.subarray(position, position + length), 4)
+        position += length
+        previous = { data, offset: 0 }
+      }
+    }
+    return cell
+  }
+
+  // Greedy page filling; returns groups of cell indexes, one group per page
+  const packCells = (sizes: number[], capacity: number): number[][] => {
+    const groups: number[][] = [[]]
+    let used = 0
+    sizes.forEach((size, i) => {
+      if (used + size + 2 > capacity && groups[groups.length - 1].length > 0) {
+        groups.push([])
+        used = 0
+      }
+      groups[groups.length - 1].push(i)
+      used += size + 2
+    })
+    return groups
+  }
+
+  const buildTable = async (
+    rows: Iterable<SqliteValue[]> | AsyncIterable<SqliteValue[]>,
+    onRow: (row: SqliteValue[], rowid: number) => void
+  ): Promise<number> => {
+    // Leaf level: rows in rowid order
+    let level: Array<{ page: number; maxRowid: number }> = []
+    let cells: Uint8Array[] = []
+    let used = 0
+    let rowid = 0
+
+    const flushLeaf = () => {
+      const page = allocatePage()
+      writePage(page, TABLE_LEAF, cells)
+      level.push({ page, maxRowid: rowid })
+      cells = []
+      used = 0
+    }
+
+    for await (const row of rows) {
+      const record = encodeRecord(row)
+      const cell = payloadCell([...encodeVarint(record.length), ...encodeVarint(rowid + 1)], record, true)
+      if (cells.length > 0 && used + cell.length + 2 > PAGE_SIZE - 8) flushLeaf()
+      rowid++
+      onRow(row, rowid)
+      cells.push(cell)
+      used += cell.length + 2
+      flushPages()
+    }
+    if (cells.length > 0 || level.length === 0) flushLeaf()
+
+    // Interior levels: each cell points to a child and holds its largest rowid
+    while (level.length > 1) {
+      const children = level
+      const sizes = children.map(child => 4 + encodeVarint(child.maxRowid).length)
+      const groups = packCells(sizes, PAGE_SIZE - 12)
+      // The last child of a page is its right pointer, so a page needs two children
+      if (groups.length > 1 && groups[groups.length - 1].length === 1) {
+        groups[groups.length - 1].unshift(groups[groups.length - 2].pop()!)
+      }
+
+      level = groups.map(group => {
+        const page = allocatePage()
+        const last = children[group[group.length - 1]]
+        const groupCells = group.slice(0, -1).map(i => {
+          const cell = new Uint8Array(sizes[i])
+          new DataView(cell.buffer).setUint32(0, children[i].page)
+          cell.set(encodeVarint(children[i].maxRowid), 4)
+          return cell
+        })
+        writePage(page, TABLE_INTERIOR, groupCells, last.page)
+        return { page, maxRowid: last.maxRowid }
+      })
+    }
+    return level[0].page
+  }
+
+  const buildIndex = (keys: SqliteValue[][]): number => {
+    keys.sort((a, b) => {
+      for (let i = 0; i < a.length; i++) {
+        const order = compareValues(a[i], b[i])
+        if (order !== 0) return order
+      }
+      return 0
+    })
+
+    let records = keys.map(encodeRecord)
+    if (records.some(record => localPayloadSize(record.length, PAGE_SIZE, false) < record.length)) {
+      throw new Error('SQLite index key too large')
+    }
+    let children: number[] = [] // Pages of the level below; none for the leaf level
+    let level: number[]
+
+    // Index b-trees hold every entry once: the entry between two pages moves up to the parent
+    do {
+      const isLeaf = children.length === 0
+      const prefixSize = isLeaf ? 0 : 4 // Interior cells start with the left child page
+      const sizes = records.map(record => prefixSize + encodeVarint(record.length).length + record.length)
+      const capacity = PAGE_SIZE - (isLeaf ? 8 : 12)
+
+      const segments: number[][] = [[]]
+      const dividers: number[] = []
+      let used = 0
+      for (let i = 0; i < records.length; i++) {
+        const segment = segments[segments.length - 1]
+        if (segment.length > 0 && used + sizes[i] + 2 > capacity) {
+          if (i < records.length - 1) {
+            dividers.push(i)
+            segments.push([])
+            used = 0
+            continue
+          }
+          // Nothing follows the last entry, so the one before it moves up instead
+          dividers.push(segment.pop()!)
+          segments.push([])
+          used = 0
+        }
+        segments[segments.length - 1].push(i)
+        used += sizes[i] + 2
+      }
+
+      level = segments.map(segment => {
+        const page = allocatePage()
+        const cells = segment.map(i => {
+          const cell = new Uint8Array(sizes[i])
+          if (!isLeaf) new DataView(cell.buffer).setUint32(0, children[i])
+          cell.set(encodeVarint(records[i].length), prefixSize)
+          cell.set(records[i], sizes[i] - records[i].length)
+          return cell
+        })
+        // The child after the last entry is the right pointer
+        const rightChild = isLeaf ? 0 : children[segment[segment.length - 1] + 1]
+        writePage(page, isLeaf ? INDEX_LEAF : INDEX_INTERIOR, cells, rightChild)
+        return page
+      })
+
+      records = dividers.map(i => records[i])
+      children = level
+      flushPages()
+    } while (level.length > 1)
+
+    return level[0]
+  }
+
+  const schema: SqliteValue[][] = []
+  for (const table of tables) {
+    const keys: SqliteValue[][][] = (table.indexes ?? []).map(() => [])
+    const rootPage = await buildTable(table.rows, (row, rowid) => {
+      table.indexes?.forEach((index, i) => keys[i].push([...index.columns.map(column => row[column]), rowid]))
+    })
+    schema.push(['table', table.name, table.name, rootPage, table.sql])
+    table.indexes?.forEach((index, i) => {
+      schema.push(['index', index.name, table.name, buildIndex(keys[i]), index.sql])
+    })
+  }
+
+  const schemaCells = schema.map((row, i) => {
+    const record = encodeRecord(row)
+    return payloadCell([...encodeVarint(record.length), ...encodeVarint(i + 1)], record, true)
+  })
+  writePage(1, TABLE_LEAF, schemaCells)
+
+  // Database header
+  const header = firstPage
+  const view = new DataView(header.buffer)
+  header.set(new TextEncoder().encode(HEADER_STRING))
+  view.setUint16(16, PAGE_SIZE)
+  header[18] = 1 // File format write version (legacy journal)
+  header[19] = 1 // Read version
+  header[21] = 64 // Payload fractions, fixed by the format
+  header[22] = 32
+  header[23] = 32
+  view.setUint32(24, 1) // File change counter
+  view.setUint32(28, pageCount)
+  view.setUint32(40, 1) // Schema cookie
+  view.setUint32(44, 4) // Schema format
+  view.setUint32(56, 1) // UTF-8
+  view.setUint32(68, applicationId)
+  view.setUint32(92, 1) // Version-valid-for: matches the change counter, so the page count is trusted
+  view.setUint32(96, SQLITE_VERSION)
+
+  return new Blob([firstPage, ...parts, ...pending] as BlobPart[], { type: 'application/vnd.sqlite3' })
+}
@@ -0,0 +1,320 @@
+/**
+ * Map tile utilities (Web Mercator XYZ scheme)
+ * Tile math and tile keys for offline areas; keys have the form "baseLayer/z/x/y"
+ */
+
+import { MAP_CONFIG, type BaseLayerType } from '../constants'
+
+export interface TileBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+// Area outlines other than the bounding rectangle; coordinates are [lon, lat]
+export type AreaShape =
+  | { type: 'corridor'; line: Array<[number, number]>; buffer: number } // buffer: meters on each side of the line
+  | { type: 'polygon'; points: Array<[number, number]> } // The last point connects back to the first
+
+// The part of a downloaded area that decides which tiles it covers
+export interface TileCoverage {
+  bounds: TileBounds
+  zoomLevels: { min: number; max: number }
+  baseLayer: BaseLayerType
+  shape?: AreaShape // Only tiles touching the shape; the bounds enclose it
+}
+
+// Tiles of a shape at one zoom level, by row
+export interface ShapeTiles {
+  rows: Map<number, Array<[number, number]>> // Row (y) to sorted, inclusive column (x) ranges, rows in order
+  count: number
+}
+
+export interface TileRange {
+  xMin: number
+  xMax: number
+  yMin: number
+  yMax: number
+}
+
+export function lonToTileX(lon: number, zoom: number): number {
+  return Math.floor(((lon + 180) / 360) * Math.pow(2, zoom))
+}
+
+export function latToTileY(lat: number, zoom: number): number {
+  return Math.floor(
+    ((1 -
+      Math.log(
+        Math.tan((lat * Math.PI) / 180) + 1 / Math.cos((lat * Math.PI) / 180)
+      ) /
+        Math.PI) /
+      2) *
+      Math.pow(2, zoom)
+  )
+}
+
+// Edges of a tile: x to its west edge, y to its north edge
+export function tileXToLon(x: number, zoom: number): number {
+  return (x / Math.pow(2, zoom)) * 360 - 180
+}
+
+export function tileYToLat(y: number, zoom: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / Math.pow(2, zoom)
+  return (180 / Math.PI) * Math.atan(Math.sinh(n))
+}
+
+const EARTH_CIRCUMFERENCE = 40075016.686 // meters
+const MAX_LATITUDE = 85.0511 // Web Mercator limit
+
+// Fractional tile coordinates at zoom 0, where the world is 1 × 1
+function toWorld([lon, lat]: [number, number]): [number, number] {
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180)
+  return [(lon + 180) / 360, 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)]
+}
+
+/**
+ * Bounds enclosing a shape, including the corridor width
+ */
+export function getShapeBounds(shape: AreaShape): TileBounds {
+  const points = shape.type === 'corridor' ? shape.line : shape.points
+  const bounds = points.reduce(
+    (b, [lon, lat]) => ({
+      north: Math.max(b.north, lat),
+      south: Math.min(b.south, lat),
+      east: Math.max(b.east, lon),
+      west: Math.min(b.west, lon)
+    }),
+    { north: -90, south: 90, east: -180, west: 180 }
+  )
+  if (shape.type === 'polygon') return bounds
+
+  const latDegrees = shape.buffer / (EARTH_CIRCUMFERENCE / 360)
+  const maxLat = Math.min(MAX_LATITUDE, Math.max(Math.abs(bounds.north), Math.abs(bounds.south)) + latDegrees)
+  const lonDegrees = latDegrees / Math.cos((maxLat * Math.PI) / 180)
+  return {
+    north: Math.min(MAX_LATITUDE, bounds.north + latDegrees),
+    south: Math.max(-MAX_LATITUDE, bounds.south - latDegrees),
+    east: Math.min(180, bounds.east + lonDegrees),
+    west: Math.max(-180, bounds.west - lonDegrees)
+  }
+}
+
+// X extent of the part of segment p-q inside the row band y0-y1
+function clipSegmentX(p: number[], q: number[], y0: number, y1: number): [number, number] | null {
+  if (p[1] === q[1]) {
+    return p[1] >= y0 && p[1] <= y1 ? [Math.min(p[0], q[0]), Math.max(p[0], q[0])] : null
+  }
+  const t0 = (y0 - p[1]) / (q[1] - p[1])
+  const t1 = (y1 - p[1]) / (q[1] - p[1])
+  const tMin = Math.max(0, Math.min(t0, t1))
+  const tMax = Math.min(1, Math.max(t0, t1))
+  if (tMin > tMax) return null
+  const xa = p[0] + (q[0] - p[0]) * tMin
+  const xb = p[0] + (q[0] - p[0]) * tMax
+  return [Math.min(xa, xb), Math.max(xa, xb)]
+}
+
+// X extent of the part of a circle inside the row band y0-y1
+function clipCircleX(center: number[], radius: number, y0: number, y1: number): [number, number] | null {
+  const distance = center[1] < y0 ? y0 - center[1] : center[1] > y1 ? center[1] - y1 : 0
+  if (distance > radius) return null
+  const halfWidth = Math.sqrt(radius * radius - distance * distance)
+  return [center[0] - halfWidth, center[0] + halfWidth]
+}
+
+/**
+ * Collects column extents per row; a tile touching an extent is included
+ */
+class RowCollector {
+  private readonly rows = new Map<number, Array<[number, number]>>()
+
+  constructor(private readonly size: number) {}
+
+  // Rows touching the vertical extent a-b
+  rowRange(a: number, b: number): [number, number] {
+    return this.tileRange(a, b)
+  }
+
+  add(y: number, extent: [number, number] | null): void {
+    if (!extent || y < 0 || y >= this.size || extent[1] < 0 || extent[0] >= this.size) return
+    const ranges = this.rows.get(y)
+    const range = this.tileRange(extent[0], extent[1])
+    if (ranges) ranges.push(range)
+    else this.rows.set(y, [range])
+  }
+
+  finish(): ShapeTiles {
+    const rows = new Map<number, Array<[number, number]>>()
+    let count = 0
+    for (const y of [...this.rows.keys()].sort((a, b) => a - b)) {
+      const merged: Array<[number, number]> = []
+      for (const range of this.rows.get(y)!.sort((a, b) => a[0] - b[0])) {
+        const last = merged[merged.length - 1]
+        if (last && range[0] <= last[1] + 1) last[1] = Math.max(last[1], range[1])
+        else merged.push([range[0], range[1]])
+      }
+      count += merged.reduce((sum, range) => sum + range[1] - range[0] + 1, 0)
+      rows.set(y, merged)
+    }
+    return { rows, count }
+  }
+
+  private tileRange(a: number, b: number): [number, number] {
+    const first = Math.floor(a)
+    const last = Math.max(first, Math.ceil(b) - 1) // An extent ending on a tile edge doesn't touch the next tile
+    return [Math.max(0, first), Math.min(this.size - 1, last)]
+  }
+}
+
+// Tiles within the buffer distance of the line: each segment is a capsule
+// (two end circles and a rectangle), convex, so its extent per row is exact
+function getCorridorTiles(shape: Extract<AreaShape, { type: 'corridor' }>, zoom: number): ShapeTiles {
+  const size = Math.pow(2, zoom)
+  const collector = new RowCollector(size)
+  const points = shape.line.map(point => toWorld(point).map(v => v * size))
+
+  for (let i = 0; i < Math.max(1, points.length - 1); i++) {
+    const a = points[i]
+    const b = points[Math.min(i + 1, points.length - 1)]
+    // Tiles per meter grow away from the equator; the wider end is used for the segment
+    const maxLat = Math.max(Math.abs(shape.line[i][1]), Math.abs(shape.line[Math.min(i + 1, points.length - 1)][1]))
+    const radius = shape.buffer / (EARTH_CIRCUMFERENCE * Math.cos((Math.min(MAX_LATITUDE, maxLat) * Math.PI) / 180) / size)
+
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1])
+    const normal = length > 0 ? [((a[1] - b[1]) / length) * radius, ((b[0] - a[0]) / length) * radius] : [0, 0]
+    const rectangle = [
+      [a[0] + normal[0], a[1] + normal[1]],
+      [b[0] + normal[0], b[1] + normal[1]],
+      [b[0] - normal[0], b[1] - normal[1]],
+      [a[0] - normal[0], a[1] - normal[1]]
+    ]
+
+    const [firstRow, lastRow] = collector.rowRange(Math.min(a[1], b[1]) - radius, Math.max(a[1], b[1]) + radius)
+    for (let y = firstRow; y <= lastRow; y++) {
+      const extents = [clipCircleX(a, radius, y, y + 1), clipCircleX(b, radius, y, y + 1)]
+      if (length > 0) {
+        rectangle.forEach((corner, j) => extents.push(clipSegmentX(corner, rectangle[(j + 1) % 4], y, y + 1)))
+      }
+      const found = extents.filter((extent): extent is [number, number] => extent !== null)
+      if (found.length > 0) {
+        collector.add(y, [Math.min(...found.map(e => e[0])), Math.max(...found.map(e => e[1]))])
+      }
+    }
+  }
+
+  return collector.finish()
+}
+
+// Tiles an edge passes through, and tiles whose row middle is inside (even-odd rule);
+// together exactly the tiles touching the polygon
+function getPolygonTiles(shape: Extract<AreaShape, { type: 'polygon' }>, zoom: number): ShapeTiles {
+  const size = Math.pow(2, zoom)
+  const collector = new RowCollector(size)
+  const points = shape.points.map(point => toWorld(point).map(v => v * size))
+  const edges = points.map((point, i) => [point, points[(i + 1) % points.length]])
+
+  const [firstRow, lastRow] = collector.rowRange(
+    points.reduce((min, p) => Math.min(min, p[1]), Infinity),
+    points.reduce((max, p) => Math.max(max, p[1]), -Infinity)
+  )
+  for (let y = firstRow; y <= lastRow; y++) {
+    const middle = y + 0.5
+    const crossings: number[] = []
+    for (const [p, q] of edges) {
+      collector.add(y, clipSegmentX(p, q, y, y + 1))
+      if ((p[1] > middle) !== (q[1] > middle)) {
+        crossings.push(p[0] + ((middle - p[1]) / (q[1] - p[1])) * (q[0] - p[0]))
+      }
+    }
+    crossings.sort((a, b) => a - b)
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      collector.add(y, [crossings[i], crossings[i + 1]])
+    }
+  }
+
+  return collector.finish()
+}
+
+// Shapes are kept with their areas, so tiles are worked out once per shape and zoom level
+const shapeTileCache = new WeakMap<AreaShape, Map<number, ShapeTiles>>()
+
+/**
+ * Tiles touching a shape at one zoom level
+ */
+export function getShapeTiles(shape: AreaShape, zoom: number): ShapeTiles {
+  let byZoom = shapeTileCache.get(shape)
+  if (!byZoom) {
+    byZoom = new Map()
+    shapeTileCache.set(shape, byZoom)
+  }
+
+  let tiles = byZoom.get(zoom)
+  if (!tiles) {
+    tiles = shape.type === 'corridor' ? getCorridorTiles(shape, zoom) : getPolygonTiles(shape, zoom)
+    byZoom.set(zoom, tiles)
+  }
+  return tiles
+}
+
+/**
+ * Tiles covering the bounds at one zoom level (inclusive)
+ */
+export function getTileRange(bounds: TileBounds, zoom: number): TileRange {
+  return {
+    xMin: lonToTileX(bounds.west, zoom),
+    xMax: lonToTileX(bounds.east, zoom),
+    yMin: latToTileY(bounds.north, zoom),
+    yMax: latToTileY(bounds.south, zoom)
+  }
+}
+
+export function getTileKey(baseLayer: BaseLayerType, z: number, x: number, y: number): string {
+  return `${baseLayer}/${z}/${x}/${y}`
+}
+
+export function parseTileKey(key: string): { baseLayer: BaseLayerType; z: number; x: number; y: number } | null {
+  const [baseLayer, ...numbers] = key.split('/')
+  const [z, x, y] = numbers.map(Number)
+  if (baseLayer !== 'topo' && baseLayer !== 'grayscale' && baseLayer !== 'satellite') return null
+  if (numbers.length !== 3 || ![z, x, y].every(Number.isInteger)) return null
+  return { baseLayer, z, x, y }
+}
+
+/**
+ * Tile URL template for a base layer
+ */
+export function getTileUrlTemplate(baseLayer: BaseLayerType): string {
+  switch (baseLayer) {
+    case 'grayscale':
+      return MAP_CONFIG.TILE_URL_GRAYSCALE
+    case 'satellite':
+      return MAP_CONFIG.TILE_URL_SATELLITE
+    default:
+      return MAP_CONFIG.TILE_URL_TOPO
+  }
+}
+
+export function getTileUrl(baseLayer: BaseLayerType, z: number, x: number, y: number): string {
+  return getTileUrlTemplate(baseLayer)
+    .replace('{z}', z.toString())
+    .replace('{x}', x.toString())
+    .replace('{y}', y.toString())
+}
+
+/**
+ * Whether an area's download included the tile
+ */
+export function coversTile(area: TileCoverage, key: string): boolean {
+  const tile = parseTileKey(key)
+  if (!tile || tile.baseLayer !== area.baseLayer) return false
+  if (tile.z < area.zoomLevels.min || tile.z > area.zoomLevels.max) return false
+
+  if (area.shape) {
+    const ranges = getShapeTiles(area.shape, tile.z).rows.get(tile.y) ?? []
+    return ranges.some(([first, last]) => tile.x >= first && tile.x <= last)
+  }
+
+  const range = getTileRange(area.bounds, tile.z)
+  return tile.x >= range.xMin && tile.x <= range.xMax && tile.y >= range.yMin && tile.y <= range.yMax
+}
@@ -51,3 +51,23 @@ export function validateName(name: string | null, maxLength: number = VALIDATION
 
   return trimmed
 }
+
+/**
+ * Clean a name coming from an imported file (GPX, KML, GeoJSON).
+ * Unlike validateName this never alerts: unsafe characters are stripped and
+ * the result is truncated, falling back when nothing usable is left.
+ *
+ * @param name - Raw name from the file
+ * @param fallback - Name to use if the cleaned name is empty
+ * @returns A name that passes validateName
+ */
+export function sanitizeImportedName(name: string | null | undefined, fallback: string): string {
+  const cleaned = (name || '')
+    .replace(/[^a-zA-ZæøåÆØÅ0-9\s\-_.,()]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, VALIDATION.MAX_NAME_LENGTH)
+    .trim()
+
+  return cleaned.length > 0 ? cleaned : fallback
+}
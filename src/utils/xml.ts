@@ -0,0 +1,18 @@
+// XML Utility for Tråkke PWA
+// DOM helpers shared by the GPX and KML parsers
+
+/**
+ * Direct child elements with the given local name (namespace-agnostic, so GPX 1.0/1.1 and
+ * KML with or without the namespace prefix all work)
+ */
+export function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(el => el.localName === localName)
+}
+
+/**
+ * Trimmed text of the first direct child with the given local name, undefined if missing or empty
+ */
+export function childText(parent: Element, localName: string): string | undefined {
+  const text = childElements(parent, localName)[0]?.textContent?.trim()
+  return text ? text : undefined
+}
@@ -0,0 +1,257 @@
+// ZIP Utility for Tråkke PWA
+// Minimal ZIP reader/writer using the browser's native deflate streams (no server, no dependencies)
+// Used for KMZ files. Supports stored and deflated entries, no ZIP64 or encryption.
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50
+const END_OF_CENTRAL_DIR_MIN_SIZE = 22
+const MAX_COMMENT_LENGTH = 0xffff
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+const FLAG_UTF8 = 0x0800
+const ZIP_VERSION = 20 // 2.0: deflate
+
+let crcTable: Uint32Array | null = null
+
+/**
+ * CRC-32 (IEEE 802.3) as required by the ZIP format
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+/**
+ * Raw DEFLATE compression (no zlib header), as stored in ZIP entries
+ */
+export function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new CompressionStream('deflate-raw'))
+}
+
+/**
+ * @param maxBytes - Stop and throw once the output grows past this, so a small
+ *   crafted input can't expand to fill memory
+ */
+export async function inflateRaw(data: Uint8Array, maxBytes = Infinity): Promise<Uint8Array> {
+  if (maxBytes === Infinity) return transform(data, new DecompressionStream('deflate-raw'))
+
+  const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    size += result.value.length
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw new Error(`Decompressed data exceeds ${maxBytes} bytes`)
+    }
+    chunks.push(result.value)
+  }
+
+  const output = new Uint8Array(size)
+  let position = 0
+  for (const chunk of chunks) {
+    output.set(chunk, position)
+    position += chunk.length
+  }
+  return output
+}
+
+/**
+ * GZIP compression, as used inside PMTiles archives
+ */
+export function gzip(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new CompressionStream('gzip'))
+}
+
+export function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  return transform(data, new DecompressionStream('gzip'))
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Creates a ZIP archive. Entries are deflated unless compression doesn't help.
+ *
+ * @param entries - Files to include, in order (KMZ expects doc.kml first)
+ * @returns ZIP file contents
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(new Date())
+
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const deflated = await deflateRaw(entry.data)
+    const useDeflate = deflated.length < entry.data.length
+    const stored = useDeflate ? deflated : entry.data
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORED
+
+    const local = new Uint8Array(30 + name.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, LOCAL_HEADER_SIGNATURE, true)
+    lv.setUint16(4, ZIP_VERSION, true)
+    lv.setUint16(6, FLAG_UTF8, true)
+    lv.setUint16(8, method, true)
+    lv.setUint16(10, time, true)
+    lv.setUint16(12, date, true)
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, stored.length, true)
+    lv.setUint32(22, entry.data.length, true)
+    lv.setUint16(26, name.length, true)
+    lv.setUint16(28, 0, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, CENTRAL_HEADER_SIGNATURE, true)
+    cv.setUint16(4, ZIP_VERSION, true)
+    cv.setUint16(6, ZIP_VERSION, true)
+    cv.setUint16(8, FLAG_UTF8, true)
+    cv.setUint16(10, method, true)
+    cv.setUint16(12, time, true)
+    cv.setUint16(14, date, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, stored.length, true)
+    cv.setUint32(24, entry.data.length, true)
+    cv.setUint16(28, name.length, true)
+    // Extra field, comment, disk number and attributes stay zero
+    cv.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, stored)
+    centralParts.push(central)
+    offset += local.length + stored.length
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new Uint8Array(END_OF_CENTRAL_DIR_MIN_SIZE)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, END_OF_CENTRAL_DIR_SIGNATURE, true)
+  ev.setUint16(8, entries.length, true)
+  ev.setUint16(10, entries.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, end]
+  const result = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+/**
+ * Reads all file entries from a ZIP archive
+ *
+ * @param buffer - ZIP file contents
+ * @param maxBytes - Limit on all entries together once unpacked, against ZIP bombs
+ * @returns Entries in central directory order (directories are skipped)
+ * @throws Error if the archive is malformed, too large unpacked or uses unsupported features
+ */
+export async function readZip(buffer: ArrayBuffer, maxBytes = Infinity): Promise<ZipEntry[]> {
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  const decoder = new TextDecoder()
+
+  // The end-of-central-directory record sits at the end, possibly followed by a comment
+  let endOffset = -1
+  const searchStart = Math.max(0, bytes.length - END_OF_CENTRAL_DIR_MIN_SIZE - MAX_COMMENT_LENGTH)
+  for (let i = bytes.length - END_OF_CENTRAL_DIR_MIN_SIZE; i >= searchStart; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIGNATURE) {
+      endOffset = i
+      break
+    }
+  }
+
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive')
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true)
+  let position = view.getUint32(endOffset + 16, true)
+  const entries: ZipEntry[] = []
+  let totalSize = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (position + 46 > bytes.length || view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+
+    const method = view.getUint16(position + 10, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const uncompressedSize = view.getUint32(position + 24, true) // As declared; inflating enforces the limit
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength))
+
+    position += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue // Directory entry
+
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP entry: ${name}`)
+    }
+
+    // Local header name/extra lengths may differ from the central directory
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    const remaining = maxBytes - totalSize
+    if (uncompressedSize > remaining || (method === METHOD_STORED && raw.length > remaining)) {
+      throw new Error(`ZIP contents exceed ${maxBytes} bytes`)
+    }
+
+    let data: Uint8Array
+    if (method === METHOD_STORED) {
+      data = raw.slice()
+    } else if (method === METHOD_DEFLATE) {
+      data = await inflateRaw(raw, remaining)
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`)
+    }
+    totalSize += data.length
+    entries.push({ name, data })
+  }
+
+  return entries
+}
@@ -5,17 +5,24 @@ import type { Plugin } from 'vite'
 
 // Plugin to inject CSP meta tag in production builds only
 function injectCSP(): Plugin {
+  // Opt-in: WebDAV sync servers to allow in connect-src, space separated (VITE_SYNC_ORIGINS)
+  let syncOrigins = ''
+
   return {
     name: 'inject-csp',
+    configResolved(config) {
+      syncOrigins = (config.env.VITE_SYNC_ORIGINS ?? '').trim()
+    },
     transformIndexHtml(html, ctx) {
       // Only inject CSP in production builds
       if (ctx.bundle) {
+        const connectSrc = `'self' https://cache.kartverket.no https://ws.geonorge.no https://opencache.statkart.no https://ogc.dsb.no https://overpass-api.de https://api.met.no https://api.ra.no https://*.supabase.co${syncOrigins ? ` ${syncOrigins}` : ''}`
         return [
           {
             tag: 'meta',
             attrs: {
               'http-equiv': 'Content-Security-Policy',
-              'content': "default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob: https://cache.kartverket.no https://opencache.statkart.no; font-src 'self'; connect-src 'self' https://cache.kartverket.no https://ws.geonorge.no https://opencache.statkart.no https://ogc.dsb.no https://overpass-api.de https://api.met.no https://api.ra.no https://*.supabase.co; worker-src 'self' blob:; manifest-src 'self'; frame-src 'none'; object-src 'none'; base-uri 'self';"
+              'content': `default-src 'self'; script-src 'self' 'unsafe-inline'; style-src 'self' 'unsafe-inline'; img-src 'self' data: blob: https://cache.kartverket.no https://opencache.statkart.no; font-src 'self'; connect-src ${connectSrc}; worker-src 'self' blob:; manifest-src 'self'; frame-src 'none'; object-src 'none'; base-uri 'self';`
             },
             injectTo: 'head'
           }
@@ -125,13 +132,14 @@ export default defineConfig({
         globIgnores: ['**/MaterialSymbolsOutlined.woff2'],
         runtimeCaching: [
           {
-            // Kartverket WMTS tiles (topo & grayscale)
-            urlPattern: /^https:\/\/cache\.kartverket\.no\/.*/i,
+            // Kartverket WMTS tiles (topo & grayscale) seen while browsing. Offline area
+            // downloads use cache: 'no-store' and are kept in IndexedDB instead.
+            urlPattern: ({ url, request }) => url.hostname === 'cache.kartverket.no' && request.cache !== 'no-store',
             handler: 'CacheFirst',
             options: {
               cacheName: 'kartverket-tiles',
               expiration: {
-                maxEntries: 25000, // Increased to support large offline downloads (up to MAX_TILES limit)
+                maxEntries: 5000,
                 maxAgeSeconds: 60 * 60 * 24 * 30 // 30 days
               },
               cacheableResponse: {
@@ -140,13 +148,13 @@ export default defineConfig({
             }
           },
           {
-            // Norge i bilder WMTS tiles (satellite)
-            urlPattern: /^https:\/\/opencache\.statkart\.no\/.*/i,
+            // Norge i bilder WMTS tiles (satellite), like kartverket-tiles
+            urlPattern: ({ url, request }) => url.hostname === 'opencache.statkart.no' && request.cache !== 'no-store',
             handler: 'CacheFirst',
             options: {
               cacheName: 'norge-i-bilder-tiles',
               expiration: {
-                maxEntries: 25000, // Same as kartverket-tiles for consistency
+                maxEntries: 5000, // Same as kartverket-tiles for consistency
                 maxAgeSeconds: 60 * 60 * 24 * 30 // 30 days
               },
               cacheableResponse: {